@@ -1,9 +1,56 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
 import { Toolbar } from './components/Toolbar';
 import { LetterheadWorkspace } from './components/LetterheadWorkspace';
 import html2canvas from 'html2canvas';
-import { jsPDF } from 'jspdf';
 import { Toast } from './components/Toast';
+import { DocumentLibrary } from './components/DocumentLibrary';
+import { MailMergePanel } from './components/MailMergePanel';
+import { NumberingDialog } from './components/NumberingDialog';
+import { AssetLibrary, AssetDraft } from './components/AssetLibrary';
+import { EditorAction, Margins, SnapSettings, PageSetup, MeasureUnit, RulerGuide, BodyMode, LetterDocument, LetterFields, DocumentMeta, StoredDocument, MergeData, MergeMapping, MergeOutput, FieldKind, DateFormat, ReferenceScheme, FormatCommand, TableCommand, InvoiceLanguage, ImageBlock, LibraryAsset, AssetContent, Watermark } from './types';
+import { DEFAULT_TEMPLATE_ID, getTemplate } from './templates/registry';
+import { createHistoryStack, HistoryStack } from './utils/history';
+import { buildRasterPDF, buildVectorPDF, createPdfWriter, PdfExportMode, PdfOptions } from './utils/pdfExport';
+import { findPlaceholders, mergeDocument, rowValues, formatFileName, uniqueFileNames } from './utils/mailMerge';
+import { reserveLetterFields, referenceSchemeFor, referenceCounterKey } from './utils/letterFields';
+import { getEditingHost } from './utils/richText';
+import { isInTableCell } from './utils/tables';
+import { DEFAULT_SNAP } from './utils/snapping';
+import { DEFAULT_PAGE, UNITS, normalizePageSetup, pageDimensions } from './utils/pageSetup';
+import { PX_PER_MM } from './utils/assetLibrary';
+import { DEFAULT_WATERMARK, WATERMARK_ATTR } from './utils/watermark';
+import JSZip from 'jszip';
+import { createDocument } from './utils/documentModel';
+import {
+  openInitialDocument,
+  listDocuments,
+  getDocument,
+  createStoredDocument,
+  saveDocumentContent,
+  renameDocument,
+  duplicateDocument,
+  deleteDocument,
+  rememberCurrentDocument,
+  peekCounter,
+  setCounter,
+  listAssets,
+  saveAsset,
+  deleteAsset,
+  DEFAULT_DOCUMENT_NAME
+} from './utils/documentStore';
+
+// Edits are written to the library this long after the last change
+const SAVE_DELAY_MS = 400;
+
+// Id of the letter edited in memory when IndexedDB is not available
+const UNSAVED_DOCUMENT_ID = 'unsaved';
+
+// Ctrl+B / Ctrl+I / Ctrl+U go through the rich-text engine instead of the browser's own
+const FORMAT_SHORTCUTS: Record<string, FormatCommand> = {
+  b: { type: 'bold' },
+  i: { type: 'italic' },
+  u: { type: 'underline' },
+};
 
 export default function App() {
   const [zoom, setZoom] = useState(1);
@@ -11,11 +58,14 @@ export default function App() {
   const [isProcessing, setIsProcessing] = useState(false);
   
   // Generic Action State used to communicate from Toolbar to Workspace
-  const [action, setAction] = useState<{ type: string; payload?: any } | null>(null);
+  const [action, setAction] = useState<EditorAction | null>(null);
+
+  // While the mail merge panel is open the workspace shows a filled-in preview
+  const [showMailMerge, setShowMailMerge] = useState(false);
   
   // Margins in pixels (Default approx 25.4mm = 1 inch = 96px, adjusting to 96)
   // Load from LocalStorage if available
-  const [margins, setMargins] = useState(() => {
+  const [margins, setMargins] = useState<Margins>(() => {
     try {
       const saved = localStorage.getItem('tajmir_settings_margins');
       return saved ? JSON.parse(saved) : { top: 96, right: 96, bottom: 96, left: 96 };
@@ -29,7 +79,309 @@ export default function App() {
     localStorage.setItem('tajmir_settings_margins', JSON.stringify(margins));
   }, [margins]);
 
-  // Reference to the actual A4 DOM element
+  // Paper size and orientation, kept with the margins
+  const [pageSetup, setPageSetup] = useState<PageSetup>(() => {
+    try {
+      const saved = localStorage.getItem('tajmir_settings_page');
+      return saved ? normalizePageSetup(JSON.parse(saved)) : DEFAULT_PAGE;
+    } catch (e) {
+      return DEFAULT_PAGE;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem('tajmir_settings_page', JSON.stringify(pageSetup));
+  }, [pageSetup]);
+
+  // Printing uses the page size and orientation on screen, like the PDF export
+  useEffect(() => {
+    const { width, height } = pageDimensions(pageSetup);
+    const style = document.createElement('style');
+    style.textContent = `@page { size: ${width}mm ${height}mm; }`;
+    document.head.appendChild(style);
+    return () => style.remove();
+  }, [pageSetup]);
+
+  // Unit margins are shown in; margins themselves stay in px
+  const [unit, setUnit] = useState<MeasureUnit>(() => {
+    const saved = localStorage.getItem('tajmir_settings_unit');
+    return UNITS.some(u => u.id === saved) ? saved as MeasureUnit : 'mm';
+  });
+
+  useEffect(() => {
+    localStorage.setItem('tajmir_settings_unit', unit);
+  }, [unit]);
+
+  // Snapping for dragged blocks, a preference rather than part of the letter
+  const [snap, setSnap] = useState<SnapSettings>(() => {
+    try {
+      const saved = localStorage.getItem('tajmir_settings_snap');
+      return saved ? { ...DEFAULT_SNAP, ...JSON.parse(saved) } : DEFAULT_SNAP;
+    } catch (e) {
+      return DEFAULT_SNAP;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem('tajmir_settings_snap', JSON.stringify(snap));
+  }, [snap]);
+
+  // Rulers around the page and the guides dragged out of them, the same on every letter
+  const [showRulers, setShowRulers] = useState(() => localStorage.getItem('tajmir_settings_rulers') !== 'false');
+  const [guides, setGuides] = useState<RulerGuide[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('tajmir_settings_guides') || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem('tajmir_settings_rulers', String(showRulers));
+  }, [showRulers]);
+
+  useEffect(() => {
+    localStorage.setItem('tajmir_settings_guides', JSON.stringify(guides));
+  }, [guides]);
+
+  // Shared undo/redo stack for document edits and margin and page changes
+  const historyRef = useRef<HistoryStack>(createHistoryStack());
+  const history = historyRef.current;
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  useEffect(() => history.subscribe(() => {
+    setCanUndo(history.canUndo());
+    setCanRedo(history.canRedo());
+  }), [history]);
+
+  const handleUndo = () => history.undo();
+  const handleRedo = () => history.redo();
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Overrides the browser's own contentEditable undo,
+  // which knows nothing about blocks, pagination or margins.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The mail merge preview is not part of the letter's history
+      if (showMailMerge) return;
+      // Tab moves between table cells instead of out of the letter
+      if (e.key === 'Tab' && !e.ctrlKey && !e.metaKey && !e.altKey && isInTableCell()) {
+        e.preventDefault();
+        setAction({ type: 'TABLE', payload: { type: e.shiftKey ? 'previousCell' : 'nextCell' } });
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Form fields outside the letter (margins, inspector, find box) keep their own undo and shortcuts
+      const target = e.target as HTMLElement;
+      if (target.closest?.('input, textarea, select') && !target.closest('[data-page]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) history.redo();
+        else history.undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        history.redo();
+      } else if ((key === 'f' || key === 'h') && !e.shiftKey) {
+        e.preventDefault();
+        setShowFind(true);
+      } else if (FORMAT_SHORTCUTS[key] && !e.shiftKey && getEditingHost(document.activeElement)) {
+        e.preventDefault();
+        setAction({ type: 'FORMAT', payload: FORMAT_SHORTCUTS[key] });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, showMailMerge]);
+
+  const handleSetMargins = (next: Margins) => {
+    const before = margins;
+    setMargins(next);
+    history.push({
+      label: 'Change margins',
+      mergeKey: 'margins',
+      undo: () => setMargins(before),
+      redo: () => setMargins(next),
+    });
+  };
+
+  const handleSetPageSetup = (next: PageSetup) => {
+    const before = pageSetup;
+    if (JSON.stringify(next) === JSON.stringify(before)) return;
+    setPageSetup(next);
+    history.push({
+      label: 'Change page size',
+      mergeKey: 'page',
+      undo: () => setPageSetup(before),
+      redo: () => setPageSetup(next),
+    });
+  };
+
+  // Letterhead of the open document (reported by the template, changed via actions)
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+
+  // ================= DOCUMENT LIBRARY =================
+
+  // Letter the workspace mounts with; later letters are opened via LOAD_DOCUMENT
+  const [initialDocument, setInitialDocument] = useState<StoredDocument | null>(null);
+  const [currentDocId, setCurrentDocId] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<DocumentMeta[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+
+  // Latest content of the open letter, as last reported by the workspace
+  const documentRef = useRef<LetterDocument | null>(null);
+  const pendingSaveRef = useRef<{ id: string; doc: LetterDocument } | null>(null);
+  const saveTimerRef = useRef<number | undefined>(undefined);
+  // A failing save is reported once a session, not on every autosave
+  const saveWarnedRef = useRef(false);
+
+  const refreshDocuments = () => listDocuments().then(setDocuments).catch(console.error);
+
+  const flushSave = async () => {
+    window.clearTimeout(saveTimerRef.current);
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    // The in-memory letter used without IndexedDB has nowhere to go
+    if (!pending || pending.id === UNSAVED_DOCUMENT_ID) return;
+    try {
+      await saveDocumentContent(pending.id, pending.doc);
+    } catch (err) {
+      console.error(err);
+      if (saveWarnedRef.current) return;
+      saveWarnedRef.current = true;
+      showToast("Failed to save letter");
+    }
+  };
+
+  const handleDocumentChange = useCallback((id: string, doc: LetterDocument) => {
+    documentRef.current = doc;
+    pendingSaveRef.current = { id, doc };
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(flushSave, SAVE_DELAY_MS);
+  }, []);
+
+  useEffect(() => {
+    openInitialDocument()
+      .catch(err => {
+        // No IndexedDB (e.g. private mode): edit in memory only
+        console.error(err);
+        saveWarnedRef.current = true;
+        showToast("Letters can't be saved in this browser");
+        const doc = createDocument();
+        const now = Date.now();
+        return { meta: { id: UNSAVED_DOCUMENT_ID, name: DEFAULT_DOCUMENT_NAME, templateId: doc.templateId, createdAt: now, updatedAt: now, snippet: '', searchText: '' }, doc };
+      })
+      .then(stored => {
+        setCurrentDocId(stored.meta.id);
+        documentRef.current = stored.doc;
+        setInitialDocument(stored);
+        refreshDocuments();
+      });
+
+    // Don't lose the last keystrokes when the tab is closed or hidden
+    const handleHide = () => { flushSave(); };
+    const handleVisibility = () => { if (document.visibilityState === 'hidden') flushSave(); };
+    window.addEventListener('pagehide', handleHide);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('pagehide', handleHide);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  const showDocument = (stored: StoredDocument) => {
+    documentRef.current = stored.doc;
+    setCurrentDocId(stored.meta.id);
+    rememberCurrentDocument(stored.meta.id);
+    setAction({ type: 'LOAD_DOCUMENT', payload: stored });
+  };
+
+  // Name of the open letter, usable as a file name
+  const currentFileName = () =>
+    documents.find(d => d.id === currentDocId)?.name.replace(/[\\/:*?"<>|]+/g, '').trim();
+
+  const handleOpenLibrary = async () => {
+    await flushSave();
+    await refreshDocuments();
+    setShowLibrary(true);
+  };
+
+  const handleCloseLibrary = useCallback(() => setShowLibrary(false), []);
+
+  const handleOpenDocument = async (id: string) => {
+    setShowLibrary(false);
+    if (id === currentDocId) return;
+    try {
+      await flushSave();
+      const stored = await getDocument(id);
+      if (stored) showDocument(stored);
+      else showToast("Letter not found");
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to open letter");
+    }
+  };
+
+  const handleNewDocument = async () => {
+    try {
+      await flushSave();
+      // New letters start on the letterhead currently in use
+      showDocument(await createStoredDocument(createDocument(templateId)));
+      setShowLibrary(false);
+      refreshDocuments();
+      showToast("New letter created");
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to create letter");
+    }
+  };
+
+  const handleRenameDocument = async (id: string, name: string) => {
+    try {
+      await flushSave();
+      await renameDocument(id, name);
+      refreshDocuments();
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to rename letter");
+    }
+  };
+
+  const handleDuplicateDocument = async (id: string) => {
+    try {
+      await flushSave();
+      const copy = await duplicateDocument(id);
+      if (!copy) return;
+      showDocument(copy);
+      setShowLibrary(false);
+      refreshDocuments();
+      showToast(`Opened "${copy.meta.name}"`);
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to duplicate letter");
+    }
+  };
+
+  const handleDeleteDocument = async (id: string) => {
+    try {
+      if (pendingSaveRef.current?.id === id) pendingSaveRef.current = null;
+      await deleteDocument(id);
+      if (id === currentDocId) {
+        // Fall back to the most recent remaining letter, or a fresh one
+        const [latest] = await listDocuments();
+        const next = (latest && await getDocument(latest.id)) || await createStoredDocument(createDocument(templateId));
+        showDocument(next);
+      }
+      refreshDocuments();
+      showToast("Letter deleted");
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to delete letter");
+    }
+  };
+
+  // Reference to the DOM element holding every page
   const pageRef = useRef<HTMLDivElement>(null);
 
   const handleZoomIn = () => setZoom(prev => Math.min(prev + 0.1, 3.0));
@@ -37,7 +389,7 @@ export default function App() {
   const handleZoomReset = () => setZoom(1);
   const handleZoomFit = () => {
     const containerWidth = window.innerWidth;
-    const fitScale = (containerWidth - 32) / 794; // 794px is roughly 210mm at 96dpi, -32 for padding
+    const fitScale = (containerWidth - 32) / (pageDimensions(pageSetup).width * PX_PER_MM); // -32 for padding
     setZoom(Math.min(Math.max(fitScale, 0.2), 2.0));
   };
 
@@ -64,12 +416,125 @@ export default function App() {
     reader.readAsDataURL(file);
   };
 
+  // ================= SIGNATURE LIBRARY =================
+
+  const [assets, setAssets] = useState<LibraryAsset[]>([]);
+  const [showAssets, setShowAssets] = useState(false);
+  const [assetDraft, setAssetDraft] = useState<AssetDraft | null>(null);
+
+  const refreshAssets = () => listAssets().then(setAssets).catch(console.error);
+
+  const handleOpenAssets = () => {
+    refreshAssets();
+    setAssetDraft(null);
+    setShowAssets(true);
+  };
+
+  const handleCloseAssets = useCallback(() => setShowAssets(false), []);
+
+  // "Save to library" on an image on the page: the library opens with it filled in
+  const handleSaveImageToLibrary = useCallback((block: ImageBlock) => {
+    refreshAssets();
+    setAssetDraft({ original: block.src, background: block.background, crop: block.crop, width: block.width });
+    setShowAssets(true);
+  }, []);
+
+  const handleSaveAsset = async (content: AssetContent, id?: string) => {
+    try {
+      await saveAsset(content, id);
+      refreshAssets();
+      showToast(id ? "Library entry updated" : `"${content.name}" added to the library`);
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to save to the library");
+    }
+  };
+
+  const handleDeleteAsset = async (id: string) => {
+    try {
+      await deleteAsset(id);
+      refreshAssets();
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to delete from the library");
+    }
+  };
+
+  const handlePlaceAsset = (asset: LibraryAsset) => {
+    setShowAssets(false);
+    setAction({ type: 'PLACE_ASSET', payload: asset });
+    showToast(`${asset.name} placed`);
+  };
+
+  const handleSetTemplate = (id: string) => {
+    setAction({ type: 'SET_TEMPLATE', payload: id });
+    showToast(`Letterhead: ${getTemplate(id).name}`);
+  };
+
+  // Watermark of the open letter (reported by the template, changed via actions)
+  const [watermark, setWatermark] = useState<Watermark>(DEFAULT_WATERMARK);
+  // Unticked in the export menu to leave the watermark out of exports without changing the letter
+  const [exportWatermark, setExportWatermark] = useState(true);
+
+  const handleSetWatermark = (next: Watermark) => {
+    setAction({ type: 'SET_WATERMARK', payload: next });
+  };
+
+  const handleInsertPageBreak = () => {
+    setAction({ type: 'INSERT_PAGE_BREAK', payload: Date.now() });
+  };
+
+  const handleFormat = (command: FormatCommand) => {
+    setAction({ type: 'FORMAT', payload: command });
+  };
+
+  const handleTableCommand = (command: TableCommand) => {
+    setAction({ type: 'TABLE', payload: command });
+  };
+
+  // Reads the clipboard itself, which the browser may ask permission for; Ctrl+Shift+V needs none
+  const handlePastePlainText = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      setAction({ type: 'PASTE_TEXT', payload: text });
+    } catch {
+      showToast("Press Ctrl+Shift+V to paste as plain text");
+    }
+  };
+
+  const handleInsertInvoice = (language: InvoiceLanguage) => {
+    setAction({ type: 'INSERT_INVOICE', payload: language });
+  };
+
+  // Letter composer: the form is rendered by the template into this element
+  const [composerRoot, setComposerRoot] = useState<HTMLDivElement | null>(null);
+  const [bodyMode, setBodyMode] = useState<BodyMode>('free');
+
+  // Layers panel: also rendered by the template, into this element while it is open
+  const [showLayers, setShowLayers] = useState(false);
+  const [layersRoot, setLayersRoot] = useState<HTMLDivElement | null>(null);
+  // Find and replace panel, likewise
+  const [showFind, setShowFind] = useState(false);
+  const [findRoot, setFindRoot] = useState<HTMLDivElement | null>(null);
+  // Inspector for the selected block, likewise
+  const [inspectorRoot, setInspectorRoot] = useState<HTMLDivElement | null>(null);
+
+  const handleToggleComposer = () => {
+    if (bodyMode === 'composed') {
+      setAction({ type: 'SET_BODY_MODE', payload: 'free' });
+    } else if (confirm("Lay out the body from the letter composer form? Formatting in the body is replaced by the house style. You can undo this with Ctrl+Z.")) {
+      setAction({ type: 'SET_BODY_MODE', payload: 'composed' });
+    }
+  };
+
   const showToast = (msg: string) => {
     setToastMsg(msg);
     setTimeout(() => setToastMsg(null), 3000);
   };
 
-  const handleExportPDF = async () => {
+  const pdfOptions: PdfOptions = { size: pageDimensions(pageSetup), watermark: exportWatermark };
+
+  const handleExportPDF = async (mode: PdfExportMode = 'vector') => {
     if (!pageRef.current) return;
     setIsProcessing(true);
     
@@ -77,7 +542,16 @@ export default function App() {
     const originalZoom = zoom;
     
     try {
-      // 1. Temporarily reset zoom to 1. 
+      // 1. Issue the reference number and fix the date the first time the letter is exported
+      const doc = documentRef.current;
+      if (doc) {
+        const template = getTemplate(doc.templateId);
+        const pageCount = pageRef.current.querySelectorAll('[data-page]').length;
+        const fields = await reserveLetterFields(doc, template, referenceSchemeFor(template, referenceSchemes), pageCount);
+        if (fields !== doc.fields) setAction({ type: 'SET_FIELDS', payload: fields });
+      }
+
+      // 2. Temporarily reset zoom to 1. 
       // html2canvas often calculates text positioning incorrectly if the source element 
       // or its parents are transformed (scaled). Resetting to 1:1 scale fixes overlapping text.
       setZoom(1);
@@ -85,33 +559,23 @@ export default function App() {
       // Wait for React render + browser layout reflow
       await new Promise(resolve => setTimeout(resolve, 300));
 
-      // 2. Capture canvas
-      const canvas = await html2canvas(pageRef.current, {
-        scale: 4, // Higher scale for better text quality
-        useCORS: true,
-        backgroundColor: '#fbfbfb',
-        logging: false,
-        onclone: (clonedDoc) => {
-           // Ensure the cloned element is visible and clean
-           const element = clonedDoc.querySelector('[data-html2canvas-ignore]');
-           if (element) element.remove();
+      // 3. Generate PDF, one page per template page
+      const pages = Array.from(pageRef.current.querySelectorAll<HTMLElement>('[data-page]'));
+      let pdf;
+      if (mode === 'vector') {
+        try {
+          pdf = await buildVectorPDF(pages, pdfOptions);
+        } catch (err) {
+          // Fall back to the screenshot export (e.g. a cross-origin image tainted the canvas)
+          console.error(err);
+          showToast("Vector export failed, using image export");
+          pdf = await buildRasterPDF(pages, pdfOptions);
         }
-      });
-
-      const imgData = canvas.toDataURL('image/jpeg', 0.90);
-      
-      // 3. Generate PDF
-      const pdf = new jsPDF({
-        orientation: 'p',
-        unit: 'mm',
-        format: 'a4'
-      });
-
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
+      } else {
+        pdf = await buildRasterPDF(pages, pdfOptions);
+      }
 
-      pdf.addImage(imgData, 'JPEG', 0, 0, pdfWidth, pdfHeight);
-      pdf.save('tajmir-group-document.pdf');
+      pdf.save(`${currentFileName() || 'tajmir-group-document'}.pdf`);
       showToast("PDF Downloaded successfully");
 
     } catch (err) {
@@ -124,6 +588,154 @@ export default function App() {
     }
   };
 
+  // ================= REFERENCE / DATE FIELDS =================
+
+  // Numbering edited in the Numbering dialog, by template id (defaults live in the registry)
+  const [referenceSchemes, setReferenceSchemes] = useState<Record<string, ReferenceScheme>>(() => {
+    try {
+      const saved = localStorage.getItem('tajmir_settings_reference_schemes');
+      return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      return {};
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem('tajmir_settings_reference_schemes', JSON.stringify(referenceSchemes));
+  }, [referenceSchemes]);
+
+  const [numbering, setNumbering] = useState<{ year: number; lastIssued: number } | null>(null);
+
+  const handleInsertField = (kind: FieldKind, format?: DateFormat) => {
+    setAction({ type: 'INSERT_FIELD', payload: { kind, format } });
+  };
+
+  const handleOpenNumbering = async () => {
+    const year = new Date().getFullYear();
+    try {
+      setNumbering({ year, lastIssued: await peekCounter(referenceCounterKey(templateId, year)) });
+    } catch (err) {
+      console.error(err);
+      showToast("Reference numbers can't be stored in this browser");
+    }
+  };
+
+  const handleSaveNumbering = async (scheme: ReferenceScheme, nextNumber: number) => {
+    if (!numbering) return;
+    setReferenceSchemes(prev => ({ ...prev, [templateId]: scheme }));
+    try {
+      if (nextNumber !== numbering.lastIssued + 1) {
+        await setCounter(referenceCounterKey(templateId, numbering.year), nextNumber - 1);
+      }
+      showToast("Numbering saved");
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to save the next number");
+    }
+    setNumbering(null);
+  };
+
+  // ================= MAIL MERGE =================
+
+  const [mergePlaceholders, setMergePlaceholders] = useState<string[]>([]);
+  const [mergeProgress, setMergeProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const handleOpenMailMerge = async () => {
+    await flushSave();
+    if (!documentRef.current) return;
+    setMergePlaceholders(findPlaceholders(documentRef.current));
+    setShowMailMerge(true);
+  };
+
+  const handleCloseMailMerge = () => {
+    setAction({ type: 'PREVIEW_MERGE', payload: null });
+    setShowMailMerge(false);
+  };
+
+  const handleMergePreview = (values: Record<string, string> | null) => {
+    if (!documentRef.current) return;
+    setAction({ type: 'PREVIEW_MERGE', payload: values ? mergeDocument(documentRef.current, values) : null });
+  };
+
+  // Renders one row into the workspace and returns its pages once laid out. Each letter
+  // gets a reference number and date of its own, issued like a single export's; `reserved`
+  // keeps them for the row, so a second attempt at the export doesn't issue them again.
+  const renderMergeRow = async (data: MergeData, mapping: MergeMapping, rowIndex: number, reserved: Map<number, LetterFields>) => {
+    const merged = mergeDocument(documentRef.current!, rowValues(data, rowIndex, mapping));
+    const layOut = async (fields: LetterFields) => {
+      setAction({ type: 'PREVIEW_MERGE', payload: { ...merged, fields } });
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return Array.from(pageRef.current!.querySelectorAll<HTMLElement>('[data-page]'));
+    };
+
+    const known = reserved.get(rowIndex);
+    if (known) return layOut(known);
+    const pending = { ...merged.fields, reference: null };
+    const pages = await layOut(pending);
+    const template = getTemplate(merged.templateId);
+    const fields = await reserveLetterFields({ ...merged, fields: pending }, template, referenceSchemeFor(template, referenceSchemes), pages.length);
+    reserved.set(rowIndex, fields);
+    return fields === pending ? pages : layOut(fields);
+  };
+
+  const runMergeExport = async (mode: PdfExportMode, data: MergeData, mapping: MergeMapping, output: MergeOutput, fileNamePattern: string, reserved: Map<number, LetterFields>) => {
+    const total = data.rows.length;
+    setMergeProgress({ done: 0, total });
+
+    if (output === 'combined') {
+      const writer = await createPdfWriter(mode, pdfOptions);
+      for (let i = 0; i < total; i++) {
+        await writer.addPages(await renderMergeRow(data, mapping, i, reserved));
+        setMergeProgress({ done: i + 1, total });
+      }
+      writer.finish().save(`${currentFileName() || 'tajmir-group'}-merge.pdf`);
+      return;
+    }
+
+    const zip = new JSZip();
+    const names = uniqueFileNames(data.rows.map((_, i) => formatFileName(fileNamePattern, rowValues(data, i, mapping), i)));
+    for (let i = 0; i < total; i++) {
+      const pages = await renderMergeRow(data, mapping, i, reserved);
+      const pdf = mode === 'vector' ? await buildVectorPDF(pages, pdfOptions) : await buildRasterPDF(pages, pdfOptions);
+      zip.file(names[i], pdf.output('blob'));
+      setMergeProgress({ done: i + 1, total });
+    }
+    const blob = await zip.generateAsync({ type: 'blob' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${currentFileName() || 'tajmir-group'}-merge.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  };
+
+  const handleMergeExport = async (data: MergeData, mapping: MergeMapping, output: MergeOutput, fileNamePattern: string) => {
+    if (!pageRef.current || !documentRef.current) return;
+    setIsProcessing(true);
+    const originalZoom = zoom;
+
+    try {
+      // Same zoom reset as the single-letter export
+      setZoom(1);
+      await new Promise(resolve => setTimeout(resolve, 300));
+      const reserved = new Map<number, LetterFields>();
+      try {
+        await runMergeExport('vector', data, mapping, output, fileNamePattern, reserved);
+      } catch (err) {
+        console.error(err);
+        showToast("Vector export failed, using image export");
+        await runMergeExport('raster', data, mapping, output, fileNamePattern, reserved);
+      }
+      showToast(`Exported ${data.rows.length} letters`);
+    } catch (err) {
+      console.error(err);
+      showToast("Mail merge export failed");
+    } finally {
+      setZoom(originalZoom);
+      setMergeProgress(null);
+      setIsProcessing(false);
+    }
+  };
+
   const handleCopyImage = async () => {
     if (!pageRef.current) return;
     setIsProcessing(true);
@@ -137,7 +749,8 @@ export default function App() {
       const canvas = await html2canvas(pageRef.current, {
         scale: 3,
         useCORS: true,
-        backgroundColor: '#fbfbfb'
+        backgroundColor: '#fbfbfb',
+        ignoreElements: (el) => !exportWatermark && el.hasAttribute(WATERMARK_ATTR)
       });
       
       canvas.toBlob((blob) => {
@@ -158,22 +771,6 @@ export default function App() {
     }
   };
 
-  const handleNewPage = () => {
-    if (confirm("Are you sure? This will remove all text and images and reset the document.")) {
-      // Clear all document content from localStorage
-      Object.keys(localStorage).forEach(key => {
-        if (key.startsWith('tajmir_doc_')) {
-          localStorage.removeItem(key);
-        }
-      });
-      // Note: We do NOT clear 'tajmir_settings_' (like margins) as per typical user expectation,
-      // but if the user wants a full hard reset, they can clear browser data.
-      // The prompt asked to "remember the previous input tax and settings used" on reload,
-      // but "New" usually implies clearing the doc.
-      window.location.reload(); 
-    }
-  };
-
   return (
     <div className="flex flex-col h-screen bg-[#333] overflow-hidden font-sans">
       <Toolbar 
@@ -183,21 +780,133 @@ export default function App() {
         onZoomReset={handleZoomReset}
         onExportPDF={handleExportPDF}
         onCopyImage={handleCopyImage}
-        onNewPage={handleNewPage}
+        onNewPage={handleNewDocument}
+        onOpenLibrary={handleOpenLibrary}
+        onOpenAssets={handleOpenAssets}
+        onOpenMailMerge={handleOpenMailMerge}
         onAddText={handleAddText}
         onAddImage={handleAddImage}
+        onInsertPageBreak={handleInsertPageBreak}
+        onPastePlainText={handlePastePlainText}
+        onFormat={handleFormat}
+        onTableCommand={handleTableCommand}
+        onInsertInvoice={handleInsertInvoice}
+        isComposing={bodyMode === 'composed'}
+        onToggleComposer={handleToggleComposer}
+        onInsertField={handleInsertField}
+        onOpenNumbering={handleOpenNumbering}
         isProcessing={isProcessing}
         margins={margins}
-        onSetMargins={setMargins}
+        onSetMargins={handleSetMargins}
+        pageSetup={pageSetup}
+        onSetPageSetup={handleSetPageSetup}
+        unit={unit}
+        onSetUnit={setUnit}
+        snap={snap}
+        onSetSnap={setSnap}
+        showRulers={showRulers}
+        onSetShowRulers={setShowRulers}
+        guideCount={guides.length}
+        onClearGuides={() => setGuides([])}
+        showLayers={showLayers}
+        onToggleLayers={() => setShowLayers(!showLayers)}
+        showFind={showFind}
+        onToggleFind={() => setShowFind(!showFind)}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        templateId={templateId}
+        onSetTemplate={handleSetTemplate}
+        watermark={watermark}
+        onSetWatermark={handleSetWatermark}
+        exportWatermark={exportWatermark}
+        onSetExportWatermark={setExportWatermark}
       />
       
-      <LetterheadWorkspace 
-        zoom={zoom} 
-        ref={pageRef}
-        onSetZoom={setZoom}
-        action={action}
-        margins={margins}
-      />
+      <div className="flex flex-grow min-h-0">
+        <div ref={setComposerRoot} className="contents" />
+        {initialDocument ? (
+          <LetterheadWorkspace 
+            zoom={zoom} 
+            ref={pageRef}
+            onSetZoom={setZoom}
+            action={action}
+            margins={margins}
+            onSetMargins={handleSetMargins}
+            pageSetup={pageSetup}
+            unit={unit}
+            showRulers={showRulers}
+            guides={guides}
+            onSetGuides={setGuides}
+            snap={snap}
+            history={history}
+            initialDocument={initialDocument}
+            onDocumentChange={handleDocumentChange}
+            onTemplateChange={setTemplateId}
+            referenceSchemes={referenceSchemes}
+            composerRoot={composerRoot}
+            layersRoot={layersRoot}
+            onCloseLayers={() => setShowLayers(false)}
+            findRoot={findRoot}
+            onCloseFind={() => setShowFind(false)}
+            inspectorRoot={inspectorRoot}
+            onBodyModeChange={setBodyMode}
+            onWatermarkChange={setWatermark}
+            onSaveImageToLibrary={handleSaveImageToLibrary}
+          />
+        ) : (
+          <div className="flex-grow flex items-center justify-center text-sm text-gray-400">Loading letters…</div>
+        )}
+        {showFind && <div ref={setFindRoot} className="contents" />}
+        {showLayers && <div ref={setLayersRoot} className="contents" />}
+        <div ref={setInspectorRoot} className="contents" />
+      </div>
+
+      {showMailMerge && (
+        <MailMergePanel
+          placeholders={mergePlaceholders}
+          progress={mergeProgress}
+          onPreview={handleMergePreview}
+          onExport={handleMergeExport}
+          onClose={handleCloseMailMerge}
+        />
+      )}
+
+      {numbering && (
+        <NumberingDialog
+          templateName={getTemplate(templateId).name}
+          year={numbering.year}
+          scheme={referenceSchemeFor(getTemplate(templateId), referenceSchemes)}
+          lastIssued={numbering.lastIssued}
+          onSave={handleSaveNumbering}
+          onClose={() => setNumbering(null)}
+        />
+      )}
+
+      {showLibrary && (
+        <DocumentLibrary
+          documents={documents}
+          currentId={currentDocId}
+          onOpen={handleOpenDocument}
+          onNew={handleNewDocument}
+          onRename={handleRenameDocument}
+          onDuplicate={handleDuplicateDocument}
+          onDelete={handleDeleteDocument}
+          onClose={handleCloseLibrary}
+        />
+      )}
+
+      {showAssets && (
+        <AssetLibrary
+          assets={assets}
+          draft={assetDraft}
+          onPlace={handlePlaceAsset}
+          onSave={handleSaveAsset}
+          onDelete={handleDeleteAsset}
+          onClose={handleCloseAssets}
+        />
+      )}
 
       {toastMsg && <Toast message={toastMsg} />}
     </div>
@@ -0,0 +1,342 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  XMarkIcon,
+  MagnifyingGlassIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ArrowUpTrayIcon
+} from '@heroicons/react/24/outline';
+import { AssetContent, AssetKind, BackgroundRemoval, ImageCrop, LibraryAsset } from '../types';
+import {
+  ASSET_KINDS,
+  DEFAULT_ASSET_BACKGROUND,
+  DEFAULT_ASSET_WIDTH_MM,
+  NO_CROP,
+  PX_PER_MM,
+  processAsset
+} from '../utils/assetLibrary';
+import { estimatePaperColor, loadImage, sampleColor } from '../utils/imageProcessing';
+import { BackgroundControls } from './BackgroundControls';
+
+/** Starting point for a new library entry, e.g. an image already on the page */
+export interface AssetDraft {
+  original: string;
+  background: BackgroundRemoval;
+  crop: ImageCrop;
+  /** px */
+  width?: number;
+}
+
+interface AssetLibraryProps {
+  assets: LibraryAsset[];
+  /** Opens the library straight into the form for a new entry */
+  draft: AssetDraft | null;
+  onPlace: (asset: LibraryAsset) => void;
+  onSave: (content: AssetContent, id?: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Transparent parts show as a checkerboard
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundColor: '#fff',
+  backgroundImage: 'repeating-conic-gradient(#e5e7eb 0% 25%, transparent 0% 50%)',
+  backgroundSize: '12px 12px',
+};
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded bg-white text-black text-xs outline-none focus:border-blue-400';
+
+const matches = (asset: LibraryAsset, query: string) => {
+  const text = `${asset.name} ${asset.owner}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word));
+};
+
+// ================= FORM =================
+
+interface AssetFormProps {
+  asset: LibraryAsset | null;
+  draft: AssetDraft | null;
+  onSave: (content: AssetContent, id?: string) => void;
+  onCancel: () => void;
+}
+
+// Adding a new entry or editing one: background removal is re-run on the original upload
+const AssetForm: React.FC<AssetFormProps> = ({ asset, draft, onSave, onCancel }) => {
+  const [original, setOriginal] = useState(asset?.original || draft?.original || '');
+  const [background, setBackground] = useState<BackgroundRemoval>(asset?.background || draft?.background || DEFAULT_ASSET_BACKGROUND);
+  const [picking, setPicking] = useState(false);
+  const originalImageRef = useRef<HTMLImageElement | null>(null);
+  const crop = asset?.crop || draft?.crop || NO_CROP;
+  const [kind, setKind] = useState<AssetKind>(asset?.kind || 'signature');
+  const [name, setName] = useState(asset?.name || '');
+  const [owner, setOwner] = useState(asset?.owner || '');
+  const initialWidth = asset?.width ?? draft?.width;
+  const [widthMm, setWidthMm] = useState(initialWidth ? Math.round(initialWidth / PX_PER_MM) : DEFAULT_ASSET_WIDTH_MM.signature);
+  const [processed, setProcessed] = useState<{ src: string; width: number; height: number } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!original) return;
+    const controller = new AbortController();
+    processAsset(original, background, crop, controller.signal)
+      .then(result => { if (!controller.signal.aborted) setProcessed(result); })
+      .catch(err => { if (!controller.signal.aborted) console.error(err); });
+    return () => controller.abort();
+  }, [original, background]);
+
+  useEffect(() => {
+    originalImageRef.current = null;
+    if (!original) return;
+    loadImage(original).then(img => { originalImageRef.current = img; }).catch(console.error);
+  }, [original]);
+
+  const guessPaperColor = () => originalImageRef.current && estimatePaperColor(originalImageRef.current);
+
+  // While picking, the preview shows the original and a click on it takes the paper colour
+  const handlePreviewClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!picking) return;
+    const box = e.currentTarget.getBoundingClientRect();
+    setBackground({ ...background, keyColor: sampleColor(e.currentTarget, (e.clientX - box.left) / box.width, (e.clientY - box.top) / box.height) });
+    setPicking(false);
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = e => {
+      if (typeof e.target?.result === 'string') setOriginal(e.target.result);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleKind = (value: AssetKind) => {
+    // New uploads follow the usual size of the kind
+    if (!asset && !draft) setWidthMm(DEFAULT_ASSET_WIDTH_MM[value]);
+    setKind(value);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!processed || !name.trim()) return;
+    const width = Math.max(1, widthMm) * PX_PER_MM;
+    onSave({
+      kind,
+      name: name.trim(),
+      owner: owner.trim(),
+      original,
+      background,
+      crop,
+      src: processed.src,
+      width: Math.round(width),
+      height: Math.round(width * processed.height / processed.width),
+    }, asset?.id);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="flex-1 overflow-y-auto p-3 space-y-3">
+      <div className="h-40 flex items-center justify-center rounded border border-gray-200 overflow-hidden" style={CHECKERBOARD}>
+        {processed ? (
+          <img
+            src={picking ? original : processed.src}
+            alt="Preview"
+            onClick={handlePreviewClick}
+            className={`max-w-full max-h-full object-contain ${picking ? 'cursor-crosshair' : ''}`}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            className="flex flex-col items-center gap-1 text-xs text-gray-500 hover:text-blue-600 cursor-pointer"
+          >
+            <ArrowUpTrayIcon className="w-6 h-6" />
+            {original ? 'Processing…' : 'Choose a photo or scan'}
+          </button>
+        )}
+      </div>
+      <input ref={fileRef} type="file" accept="image/*" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+      {original && !asset && (
+        <button type="button" onClick={() => fileRef.current?.click()} className="text-[11px] text-blue-600 hover:underline cursor-pointer">
+          Choose another image…
+        </button>
+      )}
+
+      <div className="space-y-1">
+        <span className="block text-[11px] font-semibold text-gray-600">Remove background</span>
+        <BackgroundControls
+          value={background}
+          onChange={setBackground}
+          guessPaperColor={guessPaperColor}
+          picking={picking}
+          onTogglePicking={() => setPicking(!picking)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block space-y-1">
+          <span className="block text-[11px] font-semibold text-gray-600">Type</span>
+          <select value={kind} onChange={e => handleKind(e.target.value as AssetKind)} className={inputClass}>
+            {ASSET_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="block text-[11px] font-semibold text-gray-600">Width (mm)</span>
+          <input type="number" min="5" max="200" value={widthMm} onChange={e => setWidthMm(Number(e.target.value))} className={inputClass} />
+        </label>
+      </div>
+      <label className="block space-y-1">
+        <span className="block text-[11px] font-semibold text-gray-600">Name</span>
+        <input autoFocus value={name} onChange={e => setName(e.target.value)} placeholder="e.g. MD signature (blue ink)" className={inputClass} />
+      </label>
+      <label className="block space-y-1">
+        <span className="block text-[11px] font-semibold text-gray-600">Owner</span>
+        <input value={owner} onChange={e => setOwner(e.target.value)} placeholder="Person or office" className={inputClass} />
+      </label>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded text-xs text-gray-700 hover:bg-gray-100 cursor-pointer">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!processed || !name.trim()}
+          className="px-3 py-1.5 rounded text-xs font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 cursor-pointer disabled:cursor-default"
+        >
+          {asset ? 'Save changes' : 'Add to library'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// ================= LIBRARY =================
+
+// Slide-over with the saved signatures, seals and stamps; clicking one places it on the page
+export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, draft, onPlace, onSave, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [kind, setKind] = useState<AssetKind | 'all'>('all');
+  // null: the list; 'new': adding an entry; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(draft ? 'new' : null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const visible = assets.filter(asset => (kind === 'all' || asset.kind === kind) && matches(asset, query));
+  const editedAsset = assets.find(asset => asset.id === editing) || null;
+
+  const handleSave = (content: AssetContent, id?: string) => {
+    onSave(content, id);
+    setEditing(null);
+  };
+
+  const handleDelete = (asset: LibraryAsset) => {
+    if (confirm(`Delete "${asset.name}" from the library? Letters it was placed on keep their copy.`)) onDelete(asset.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex no-print">
+      <div className="flex-1 bg-black/30" onClick={onClose} />
+      <div className="w-full max-w-sm h-full bg-white shadow-2xl flex flex-col text-left text-gray-800">
+        {/* ===== Header ===== */}
+        <div className="flex items-center justify-between p-3 border-b border-gray-200">
+          <h2 className="font-semibold text-sm">
+            {editing === null ? 'Signatures & Seals' : editedAsset ? `Edit "${editedAsset.name}"` : 'Add to Library'}
+          </h2>
+          <div className="flex items-center gap-1">
+            {editing === null && (
+              <button
+                onClick={() => setEditing('new')}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium text-gray-700 hover:bg-gray-100 cursor-pointer"
+                title="Upload a signature, seal or stamp"
+              >
+                <PlusIcon className="w-4 h-4 text-blue-600" />
+                Add
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100 cursor-pointer" title="Close">
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {editing !== null ? (
+          <AssetForm
+            key={editing}
+            asset={editedAsset}
+            draft={editing === 'new' ? draft : null}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            {/* ===== Search & Filter ===== */}
+            <div className="p-3 border-b border-gray-100 space-y-2">
+              <div className="flex items-center gap-2 px-2 py-1.5 border border-gray-300 rounded bg-white">
+                <MagnifyingGlassIcon className="w-4 h-4 text-gray-400" />
+                <input
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="Search by name or owner"
+                  className="flex-1 text-sm outline-none bg-white text-black"
+                />
+              </div>
+              <div className="flex gap-1">
+                {[{ id: 'all' as const, plural: 'All' }, ...ASSET_KINDS].map(k => (
+                  <button
+                    key={k.id}
+                    onClick={() => setKind(k.id)}
+                    className={`px-2 py-0.5 rounded-full text-[11px] cursor-pointer ${kind === k.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                  >
+                    {k.plural}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* ===== List ===== */}
+            <div className="flex-1 overflow-y-auto p-3">
+              {visible.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  {assets.length ? 'Nothing matches your search.' : 'No signatures or seals yet. Add one, or use "Save to library" on an image on the page.'}
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                {visible.map(asset => (
+                  <div
+                    key={asset.id}
+                    onClick={() => onPlace(asset)}
+                    className="group relative rounded border border-gray-200 hover:border-blue-400 cursor-pointer overflow-hidden"
+                    title="Place on the page"
+                  >
+                    <div className="h-20 flex items-center justify-center p-1" style={CHECKERBOARD}>
+                      <img src={asset.src} alt={asset.name} className="max-w-full max-h-full object-contain" />
+                    </div>
+                    <div className="p-1.5 border-t border-gray-100">
+                      <div className="text-xs font-medium truncate">{asset.name}</div>
+                      <div className="text-[10px] text-gray-500 truncate">
+                        {ASSET_KINDS.find(k => k.id === asset.kind)?.label}{asset.owner && ` · ${asset.owner}`}
+                      </div>
+                    </div>
+                    <div className="absolute top-1 right-1 flex gap-0.5 opacity-0 group-hover:opacity-100" onClick={e => e.stopPropagation()}>
+                      <button onClick={() => setEditing(asset.id)} className="p-1 rounded bg-white/90 shadow hover:bg-gray-100 cursor-pointer" title="Edit">
+                        <PencilIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDelete(asset)} className="p-1 rounded bg-white/90 shadow hover:bg-red-100 text-red-600 cursor-pointer" title="Delete">
+                        <TrashIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
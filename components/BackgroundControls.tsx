@@ -0,0 +1,111 @@
+import React from 'react';
+import { EyeDropperIcon } from '@heroicons/react/24/outline';
+import { BackgroundMode, BackgroundRemoval } from '../types';
+import { BACKGROUND_MODES, INK_COLORS } from '../utils/backgroundRemoval';
+
+interface BackgroundControlsProps {
+  value: BackgroundRemoval;
+  onChange: (value: BackgroundRemoval) => void;
+  /** Paper colour suggested when switching to colour-key removal */
+  guessPaperColor?: () => string | null;
+  /** Whether the next click on the image picks the paper colour */
+  picking?: boolean;
+  onTogglePicking?: () => void;
+}
+
+const Slider = ({ label, value, onChange, title }: { label: string, value: number, onChange: (value: number) => void, title?: string }) => (
+  <label className="block" title={title}>
+    <span className="flex justify-between text-[10px] font-semibold text-gray-500">
+      {label} <span className="font-normal text-gray-400">{value}%</span>
+    </span>
+    <input
+      type="range"
+      min="0"
+      max="100"
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+    />
+  </label>
+);
+
+// Background removal settings, shared by images on the page and the signature library form
+export const BackgroundControls: React.FC<BackgroundControlsProps> = ({ value, onChange, guessPaperColor, picking = false, onTogglePicking }) => {
+  const set = (patch: Partial<BackgroundRemoval>) => onChange({ ...value, ...patch });
+  const mode = BACKGROUND_MODES.find(m => m.id === value.mode) || BACKGROUND_MODES[0];
+
+  const handleMode = (id: BackgroundMode) => {
+    const keyColor = id === 'colorKey' && value.mode !== 'colorKey' ? guessPaperColor?.() : null;
+    set(keyColor ? { mode: id, keyColor } : { mode: id });
+  };
+
+  return (
+    <div className="space-y-2 text-left">
+      <div>
+        <select
+          value={value.mode}
+          onChange={e => handleMode(e.target.value as BackgroundMode)}
+          className="w-full px-1 py-1 border border-gray-300 rounded bg-white text-black text-xs cursor-pointer"
+          title="How the paper is removed"
+        >
+          {BACKGROUND_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+        <p className="mt-0.5 text-[9px] text-gray-400 leading-tight">{mode.hint}</p>
+      </div>
+
+      {(value.mode === 'white' || value.mode === 'adaptive') && (
+        <Slider label="Strength" value={value.threshold} onChange={threshold => set({ threshold })} />
+      )}
+
+      {value.mode === 'colorKey' && (
+        <>
+          <div className="flex items-center gap-1">
+            <label className="relative flex items-center gap-1 h-6 px-1.5 border border-gray-300 rounded text-[11px] text-gray-700 cursor-pointer flex-1" title="Paper Colour">
+              <span className="w-3.5 h-3.5 rounded-sm border border-gray-300" style={{ backgroundColor: value.keyColor }}></span>
+              {value.keyColor}
+              <input
+                type="color"
+                value={value.keyColor}
+                onChange={e => set({ keyColor: e.target.value })}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+              />
+            </label>
+            {onTogglePicking && (
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); onTogglePicking(); }}
+                className={`h-6 px-1.5 rounded border text-[11px] cursor-pointer ${picking ? 'bg-purple-100 border-purple-300 text-purple-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                title="Click on the paper in the image to pick its colour"
+              >
+                <EyeDropperIcon className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          <Slider label="Tolerance" value={value.tolerance} onChange={tolerance => set({ tolerance })} title="How far from the paper colour still counts as paper" />
+        </>
+      )}
+
+      {value.mode !== 'off' && (
+        <>
+          <Slider label="Smooth edges" value={value.feather} onChange={feather => set({ feather })} />
+          <div>
+            <span className="block text-[10px] font-semibold text-gray-500">Ink colour</span>
+            <div className="flex gap-1 mt-0.5">
+              {INK_COLORS.map(ink => (
+                <button
+                  key={ink.id}
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); set({ inkColor: ink.id }); }}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] cursor-pointer ${value.inkColor === ink.id ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'}`}
+                >
+                  {ink.id && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: ink.id }}></span>}
+                  {ink.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
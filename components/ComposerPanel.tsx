@@ -0,0 +1,92 @@
+import React from 'react';
+import { PencilSquareIcon } from '@heroicons/react/24/outline';
+import { ComposedLetter } from '../types';
+import { DATE_FORMATS } from '../utils/letterFields';
+
+interface ComposerPanelProps {
+  composer: ComposedLetter;
+  onChange: <K extends keyof ComposedLetter>(key: K, value: ComposedLetter[K]) => void;
+  onFreeEditing: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded bg-white text-black text-xs outline-none focus:border-blue-400';
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block space-y-1">
+    <span className="block text-[11px] font-semibold text-gray-600">{label}</span>
+    {children}
+    {hint && <span className="block text-[10px] text-gray-400">{hint}</span>}
+  </label>
+);
+
+// Form for a composed letter; the body area shows the result in the house style
+export const ComposerPanel: React.FC<ComposerPanelProps> = ({ composer, onChange, onFreeEditing }) => {
+  const text = (key: keyof ComposedLetter) => ({
+    value: composer[key] as string,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange(key, e.target.value),
+  });
+
+  return (
+    <div className="w-72 md:w-80 flex-shrink-0 h-full flex flex-col bg-white border-r border-gray-200 text-left text-gray-800 no-print">
+      {/* ===== Header ===== */}
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <h2 className="font-semibold text-sm">Letter Composer</h2>
+        <button
+          onClick={onFreeEditing}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-700 hover:bg-gray-100 cursor-pointer"
+          title="Keep the current text and edit the body directly"
+        >
+          <PencilSquareIcon className="w-4 h-4" />
+          Edit freely
+        </button>
+      </div>
+
+      {/* ===== Form ===== */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+            <input type="checkbox" checked={composer.showReference} onChange={e => onChange('showReference', e.target.checked)} />
+            Reference No.
+          </label>
+          <select
+            value={composer.dateFormat}
+            onChange={e => onChange('dateFormat', e.target.value as ComposedLetter['dateFormat'])}
+            className="flex-1 h-7 border border-gray-300 rounded bg-white text-black text-xs"
+            title="Date"
+          >
+            <option value="">No date</option>
+            {DATE_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+        </div>
+
+        <Field label="To" hint="Name, designation, company and address, one per line">
+          <textarea rows={4} className={inputClass} {...text('recipient')} />
+        </Field>
+        <Field label="Subject">
+          <input className={inputClass} {...text('subject')} />
+        </Field>
+        <Field label="Salutation">
+          <input className={inputClass} {...text('salutation')} />
+        </Field>
+        <Field label="Body" hint="Leave a blank line between paragraphs">
+          <textarea rows={10} className={inputClass} {...text('body')} />
+        </Field>
+        <Field label="Closing">
+          <input className={inputClass} {...text('closing')} />
+        </Field>
+        <Field label="Signatory">
+          <input className={inputClass} placeholder="Name" {...text('signatoryName')} />
+        </Field>
+        <Field label="Designation">
+          <textarea rows={2} className={inputClass} {...text('signatoryDesignation')} />
+        </Field>
+        <Field label="Enclosures" hint="One per line">
+          <textarea rows={2} className={inputClass} {...text('enclosures')} />
+        </Field>
+        <Field label="CC" hint="One per line">
+          <textarea rows={2} className={inputClass} {...text('cc')} />
+        </Field>
+      </div>
+    </div>
+  );
+};
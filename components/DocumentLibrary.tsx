@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  XMarkIcon,
+  MagnifyingGlassIcon,
+  DocumentPlusIcon,
+  PencilIcon,
+  DocumentDuplicateIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { DocumentMeta } from '../types';
+import { getTemplate } from '../templates/registry';
+
+interface DocumentLibraryProps {
+  documents: DocumentMeta[];
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Every word of the query has to appear somewhere in the letter
+const matches = (meta: DocumentMeta, query: string) =>
+  query.toLowerCase().split(/\s+/).filter(Boolean).every(word => meta.searchText.includes(word));
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Slide-over listing every saved letter
+export const DocumentLibrary: React.FC<DocumentLibraryProps> = ({
+  documents,
+  currentId,
+  onOpen,
+  onNew,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    searchRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const visible = documents.filter(meta => matches(meta, query));
+
+  const startRename = (meta: DocumentMeta) => {
+    setRenamingId(meta.id);
+    setDraftName(meta.name);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    const meta = documents.find(d => d.id === renamingId);
+    if (meta && name && name !== meta.name) onRename(meta.id, name);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (meta: DocumentMeta) => {
+    if (confirm(`Delete "${meta.name}"? This cannot be undone.`)) onDelete(meta.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex no-print">
+      <div className="w-full max-w-sm h-full bg-white shadow-2xl flex flex-col text-left text-gray-800">
+        {/* ===== Header ===== */}
+        <div className="flex items-center justify-between p-3 border-b border-gray-200">
+          <h2 className="font-semibold text-sm">Letters</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onNew}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium text-gray-700 hover:bg-gray-100 cursor-pointer"
+              title="New Letter"
+            >
+              <DocumentPlusIcon className="w-4 h-4 text-blue-600" />
+              New
+            </button>
+            <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100 cursor-pointer" title="Close">
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* ===== Search ===== */}
+        <div className="p-3 border-b border-gray-100">
+          <div className="flex items-center gap-2 px-2 py-1.5 border border-gray-300 rounded bg-white">
+            <MagnifyingGlassIcon className="w-4 h-4 text-gray-400" />
+            <input
+              ref={searchRef}
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search letters"
+              className="flex-1 text-sm outline-none bg-white text-black"
+            />
+          </div>
+        </div>
+
+        {/* ===== List ===== */}
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {visible.length === 0 && (
+            <li className="p-4 text-sm text-gray-500">{query ? 'No letters match your search.' : 'No saved letters yet.'}</li>
+          )}
+          {visible.map(meta => (
+            <li
+              key={meta.id}
+              className={`group p-3 cursor-pointer hover:bg-gray-50 ${meta.id === currentId ? 'bg-blue-50' : ''}`}
+              onClick={() => renamingId !== meta.id && onOpen(meta.id)}
+            >
+              <div className="flex items-start justify-between gap-2">
+                {renamingId === meta.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setRenamingId(null);
+                      }
+                    }}
+                    onClick={e => e.stopPropagation()}
+                    className="flex-1 text-sm px-1 border border-blue-400 rounded outline-none bg-white text-black"
+                  />
+                ) : (
+                  <span className="flex-1 text-sm font-medium truncate">{meta.name}</span>
+                )}
+                <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100" onClick={e => e.stopPropagation()}>
+                  <button onClick={() => startRename(meta)} className="p-1 rounded hover:bg-gray-200 cursor-pointer" title="Rename">
+                    <PencilIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onDuplicate(meta.id)} className="p-1 rounded hover:bg-gray-200 cursor-pointer" title="Duplicate">
+                    <DocumentDuplicateIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleDelete(meta)} className="p-1 rounded hover:bg-red-100 text-red-600 cursor-pointer" title="Delete">
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <div className="text-[11px] text-gray-500 mt-0.5">
+                {formatDate(meta.updatedAt)} · {getTemplate(meta.templateId).name}
+              </div>
+              {meta.snippet && <p className="text-xs text-gray-600 mt-1 line-clamp-2">{meta.snippet}</p>}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="flex-1 bg-black/30" onClick={onClose} />
+    </div>
+  );
+};
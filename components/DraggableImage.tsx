@@ -1,256 +1,408 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { 
-  XMarkIcon, 
-  ArrowsPointingOutIcon, 
+import {
+  XMarkIcon,
+  ArrowsPointingOutIcon,
   ArrowPathIcon,
   SparklesIcon,
-  ScissorsIcon
+  ScissorsIcon,
+  BookmarkIcon,
+  AdjustmentsHorizontalIcon,
+  ArrowsRightLeftIcon,
+  ArrowsUpDownIcon,
+  LockClosedIcon
 } from '@heroicons/react/24/outline';
+import { BackgroundRemoval, ImageBlock, ImageCrop, Margins, SnapSettings } from '../types';
+import { estimatePaperColor, processImage, sampleColor } from '../utils/imageProcessing';
+import {
+  Box,
+  CROP_HANDLES,
+  CropHandle,
+  croppedBox,
+  dragCropHandle,
+  normalizeAngle,
+  resizeBox,
+  rotateVector,
+  rotationFromPointer,
+  unflipCrop
+} from '../utils/imageTransform';
+import { Guide, SnapDrag, beginSnapDrag, nudgeFor, snapDrag } from '../utils/snapping';
+import { layerKey } from '../utils/layers';
+import { BackgroundControls } from './BackgroundControls';
+import { SnapGuides } from './SnapGuides';
 
 interface DraggableImageProps {
-  id: number;
-  src: string;
-  initialX: number;
-  initialY: number;
+  block: ImageBlock;
   zoom: number;
+  snap: SnapSettings;
+  margins: Margins;
+  selected: boolean;
+  /** `additive`: Shift-click, which adds to the selection or takes the block out of it */
+  onSelect: (additive: boolean) => void;
+  /** Shift shown while another selected block is dragged */
+  offset?: { dx: number; dy: number } | null;
+  /** How far the block has been dragged so far, null when the drag ends */
+  onDrag: (id: number, delta: { dx: number; dy: number } | null) => void;
+  /** `nudge`: moved with the arrow keys, so repeated presses undo together */
+  onChange: (id: number, patch: Partial<ImageBlock>, nudge?: boolean) => void;
   onRemove: (id: number) => void;
+  onSaveToLibrary: (block: ImageBlock) => void;
 }
 
-export const DraggableImage: React.FC<DraggableImageProps> = ({ id, src, initialX, initialY, zoom, onRemove }) => {
-  const [position, setPosition] = useState({ x: initialX, y: initialY });
-  const [size, setSize] = useState({ width: 200, height: 200 });
+type Interaction = 'move' | 'resize' | 'rotate' | 'crop';
+
+const NO_CROP: ImageCrop = { t: 0, r: 0, b: 0, l: 0 };
+
+// Where each crop handle sits on the crop rectangle, and its cursor
+const handleStyle = (handle: CropHandle, crop: ImageCrop): React.CSSProperties => ({
+  left: handle.includes('w') ? `${crop.l}%` : handle.includes('e') ? `${100 - crop.r}%` : `${(crop.l + 100 - crop.r) / 2}%`,
+  top: handle.includes('n') ? `${crop.t}%` : handle.includes('s') ? `${100 - crop.b}%` : `${(crop.t + 100 - crop.b) / 2}%`,
+  cursor: `${handle}-resize`,
+});
+
+export const DraggableImage: React.FC<DraggableImageProps> = ({ block, zoom, snap, margins, selected, onSelect, offset, onDrag, onChange, onRemove, onSaveToLibrary }) => {
+  const { id, src, background, crop, flipX, flipY, grayscale, opacity, locked } = block; // crop in percentages
+  // Local geometry while dragging/resizing/rotating, committed to the document on release
+  const [position, setPosition] = useState({ x: block.x, y: block.y });
+  const [size, setSize] = useState({ width: block.width, height: block.height });
+  const [rotation, setRotation] = useState(block.rotation);
   const [processedSrc, setProcessedSrc] = useState(src);
-  
+
   // Controls state
   const [showMagic, setShowMagic] = useState(false);
-  const [showCrop, setShowCrop] = useState(false);
-  const [threshold, setThreshold] = useState(0); // 0 = no removal, 100 = aggressive
-  const [crop, setCrop] = useState({ t: 0, r: 0, b: 0, l: 0 }); // Percentages
-
-  const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState(false);
-  const [isSelected, setIsSelected] = useState(false);
-  
+  const [showAdjust, setShowAdjust] = useState(false);
+  // Crop being drawn with the handles; null when not cropping
+  const [cropDraft, setCropDraft] = useState<ImageCrop | null>(null);
+  const [applyingCrop, setApplyingCrop] = useState(false);
+  // Next click on the image picks the paper colour
+  const [picking, setPicking] = useState(false);
+  // Resizing keeps the proportions; Shift does the opposite
+  const [lockAspect, setLockAspect] = useState(true);
+
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const [guides, setGuides] = useState<Guide[]>([]);
+
   const dragStartRef = useRef<{ x: number, y: number } | null>(null);
-  const startDimRef = useRef<{ w: number, h: number, x: number, y: number } | null>(null);
+  const startBoxRef = useRef<Box | null>(null);
+  const cropStartRef = useRef<{ handle: CropHandle, crop: ImageCrop } | null>(null);
+  const snapDragRef = useRef<SnapDrag | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const imageBoxRef = useRef<HTMLDivElement>(null);
   const originalImageRef = useRef<HTMLImageElement>(new Image());
+  const geometryRef = useRef({ ...position, ...size, rotation });
+  geometryRef.current = { ...position, ...size, rotation };
+
+  useEffect(() => {
+    setPosition({ x: block.x, y: block.y });
+  }, [block.x, block.y]);
+
+  useEffect(() => {
+    setSize({ width: block.width, height: block.height });
+  }, [block.width, block.height]);
+
+  useEffect(() => {
+    setRotation(block.rotation);
+  }, [block.rotation]);
+
+  const setBackground = (value: BackgroundRemoval) => onChange(id, { background: value });
 
-  // Initialize original image
+  // Original image, for picking the paper colour
   useEffect(() => {
-    originalImageRef.current.src = src;
-    originalImageRef.current.crossOrigin = "anonymous";
+    const img = originalImageRef.current;
+    img.crossOrigin = "anonymous";
+    img.src = src;
   }, [src]);
 
-  // Process Image (Signature "Air" Mode)
+  // Process Image (Signature "Air" Mode, flips, grayscale) in the background worker;
+  // while a slider is dragged only the latest setting is still worth processing
   useEffect(() => {
-    if (threshold === 0) {
+    if (background.mode === 'off' && !flipX && !flipY && !grayscale) {
       setProcessedSrc(src);
       return;
     }
 
+    const controller = new AbortController();
+    processImage(src, { background, grayscale, flipX, flipY }, controller.signal)
+      .then(result => { if (!controller.signal.aborted) setProcessedSrc(result.src); })
+      .catch(err => { if (!controller.signal.aborted) console.error(err); });
+    return () => controller.abort();
+  }, [background, flipX, flipY, grayscale, src]);
+
+  const guessPaperColor = () => {
     const img = originalImageRef.current;
-    if (!img.complete) return;
-
-    const canvas = document.createElement('canvas');
-    canvas.width = img.naturalWidth;
-    canvas.height = img.naturalHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.drawImage(img, 0, 0);
-    const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imgData.data;
-
-    // Simple threshold algorithm
-    const thresh = 255 - (threshold * 2.55); 
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      const brightness = (r + g + b) / 3;
-      if (brightness > thresh) {
-        data[i + 3] = 0; // Alpha = 0
-      }
-    }
+    return img.complete && img.naturalWidth ? estimatePaperColor(img) : null;
+  };
+
+  // Pointer position as fractions of the source image, undoing rotation and flips
+  const toImageFraction = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const local = rotateVector((clientX - rect.left - rect.width / 2) / zoom, (clientY - rect.top - rect.height / 2) / zoom, -rotation);
+    const fx = local.x / size.width + 0.5;
+    const fy = local.y / size.height + 0.5;
+    return { fx: flipX ? 1 - fx : fx, fy: flipY ? 1 - fy : fy };
+  };
+
+  const pickColor = (clientX: number, clientY: number) => {
+    const img = originalImageRef.current;
+    setPicking(false);
+    if (!containerRef.current || !img.complete || !img.naturalWidth) return;
+    const { fx, fy } = toImageFraction(clientX, clientY);
+    setBackground({ ...background, keyColor: sampleColor(img, fx, fy) });
+  };
 
-    ctx.putImageData(imgData, 0, 0);
-    setProcessedSrc(canvas.toDataURL());
+  const closePanels = () => {
+    setShowMagic(false);
+    setShowAdjust(false);
+    setCropDraft(null);
+    setPicking(false);
+  };
+
+  useEffect(() => {
+    if (!selected) closePanels();
+  }, [selected]);
+
+  // Cuts the pixels outside the crop away, so the saved letter and exports shrink too
+  const applyCrop = async () => {
+    if (!cropDraft) return;
+    if (Object.values(cropDraft).every(v => v === 0)) {
+      setCropDraft(null);
+      return;
+    }
 
-  }, [threshold, src]);
+    setApplyingCrop(true);
+    try {
+      const result = await processImage(src, { crop: unflipCrop(cropDraft, flipX, flipY) });
+      onChange(id, { src: result.src, crop: NO_CROP, ...croppedBox({ ...position, ...size }, rotation, cropDraft) });
+      setCropDraft(null);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setApplyingCrop(false);
+    }
+  };
 
   // Dragging & Interaction Logic
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
+    // `free`: Shift held, which turns off rotation snapping and flips the aspect lock;
+    // `unsnapped`: Alt held, which moves without snapping
+    const handleMove = (clientX: number, clientY: number, free: boolean, unsnapped: boolean) => {
       if (!dragStartRef.current) return;
-
-      if (isDragging) {
-        const dx = (e.clientX - dragStartRef.current.x) / zoom;
-        const dy = (e.clientY - dragStartRef.current.y) / zoom;
-        setPosition(prev => ({ x: prev.x + dx, y: prev.y + dy }));
-        dragStartRef.current = { x: e.clientX, y: e.clientY };
-      } else if (isResizing && startDimRef.current) {
-        const dx = (e.clientX - dragStartRef.current.x) / zoom;
-        const dy = (e.clientY - dragStartRef.current.y) / zoom;
-        setSize({
-          width: Math.max(50, startDimRef.current.w + dx),
-          height: Math.max(50, startDimRef.current.h + dy)
-        });
+      const dx = (clientX - dragStartRef.current.x) / zoom;
+      const dy = (clientY - dragStartRef.current.y) / zoom;
+
+      if (interaction === 'move' && startBoxRef.current && snapDragRef.current) {
+        const start = startBoxRef.current;
+        const next = snapDrag(snapDragRef.current, { x: start.x + dx, y: start.y + dy }, snap, zoom, unsnapped);
+        setPosition({ x: next.x, y: next.y });
+        setGuides(next.guides);
+        onDrag(id, { dx: next.x - start.x, dy: next.y - start.y });
+      } else if (interaction === 'resize' && startBoxRef.current) {
+        const box = resizeBox(startBoxRef.current, rotation, dx, dy, lockAspect !== free);
+        setPosition({ x: box.x, y: box.y });
+        setSize({ width: box.width, height: box.height });
+      } else if (interaction === 'rotate' && containerRef.current) {
+        const rect = containerRef.current.getBoundingClientRect();
+        setRotation(rotationFromPointer(clientX - rect.left - rect.width / 2, clientY - rect.top - rect.height / 2, free));
+      } else if (interaction === 'crop' && cropStartRef.current) {
+        const local = rotateVector(dx, dy, -rotation);
+        const { handle, crop: startCrop } = cropStartRef.current;
+        setCropDraft(dragCropHandle(startCrop, handle, local.x / size.width * 100, local.y / size.height * 100));
       }
     };
 
+    const handleMouseMove = (e: MouseEvent) => handleMove(e.clientX, e.clientY, e.shiftKey, e.altKey);
+
     const handleTouchMove = (e: TouchEvent) => {
       if (!dragStartRef.current) return;
-      
+
       // Stop page scrolling if interacting with image
-      if (isDragging || isResizing) {
+      if (interaction) {
         e.preventDefault();
       }
 
       const touch = e.touches[0];
-
-      if (isDragging) {
-        const dx = (touch.clientX - dragStartRef.current.x) / zoom;
-        const dy = (touch.clientY - dragStartRef.current.y) / zoom;
-        setPosition(prev => ({ x: prev.x + dx, y: prev.y + dy }));
-        dragStartRef.current = { x: touch.clientX, y: touch.clientY };
-      } else if (isResizing && startDimRef.current) {
-        const dx = (touch.clientX - dragStartRef.current.x) / zoom;
-        const dy = (touch.clientY - dragStartRef.current.y) / zoom;
-        setSize({
-          width: Math.max(50, startDimRef.current.w + dx),
-          height: Math.max(50, startDimRef.current.h + dy)
-        });
-      }
+      handleMove(touch.clientX, touch.clientY, false, false);
     };
 
     const handleEnd = () => {
-      setIsDragging(false);
-      setIsResizing(false);
+      const { x, y, width, height, rotation } = geometryRef.current;
+      if (interaction === 'move') {
+        onDrag(id, null);
+        onChange(id, { x, y });
+      }
+      else if (interaction === 'resize') onChange(id, { x, y, width, height });
+      else if (interaction === 'rotate') onChange(id, { rotation });
+      setInteraction(null);
+      setGuides([]);
       dragStartRef.current = null;
-      startDimRef.current = null;
+      startBoxRef.current = null;
+      cropStartRef.current = null;
+      snapDragRef.current = null;
     };
 
-    const handleClickOutside = (e: MouseEvent | TouchEvent) => {
-        if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
-             const target = e.target as HTMLElement;
-             if (!target.closest('.control-btn') && !target.closest('.tool-panel')) {
-                 setIsSelected(false);
-                 setShowMagic(false);
-                 setShowCrop(false);
-             }
-        }
-    };
-
-    if (isDragging || isResizing) {
+    if (interaction) {
       window.addEventListener('mousemove', handleMouseMove);
       window.addEventListener('mouseup', handleEnd);
       window.addEventListener('touchmove', handleTouchMove, { passive: false });
       window.addEventListener('touchend', handleEnd);
     }
-    window.addEventListener('mousedown', handleClickOutside);
-    window.addEventListener('touchstart', handleClickOutside);
 
     return () => {
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleEnd);
       window.removeEventListener('touchmove', handleTouchMove);
       window.removeEventListener('touchend', handleEnd);
-      window.removeEventListener('mousedown', handleClickOutside);
-      window.removeEventListener('touchstart', handleClickOutside);
     };
-  }, [isDragging, isResizing, zoom]);
+  }, [interaction, zoom, snap, id, onChange, onDrag, rotation, lockAspect, size.width, size.height]);
+
+  const startInteraction = (type: Interaction, clientX: number, clientY: number) => {
+    if (locked && type !== 'crop') return;
+    setInteraction(type);
+    dragStartRef.current = { x: clientX, y: clientY };
+    startBoxRef.current = { ...position, ...size };
+    if (type === 'move' && containerRef.current) snapDragRef.current = beginSnapDrag(containerRef.current, position, margins);
+  };
 
   // Mouse Handlers
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const handleMouseDown = (type: Interaction) => (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
-    setIsDragging(true);
-    dragStartRef.current = { x: e.clientX, y: e.clientY };
+    startInteraction(type, e.clientX, e.clientY);
   };
 
-  const handleResizeStart = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    e.preventDefault();
-    setIsResizing(true);
-    dragStartRef.current = { x: e.clientX, y: e.clientY };
-    startDimRef.current = { w: size.width, h: size.height, x: position.x, y: position.y };
-  };
-  
   // Touch Handlers
-  const handleTouchStart = (e: React.TouchEvent) => {
+  const handleTouchStart = (type: Interaction) => (e: React.TouchEvent) => {
     e.stopPropagation();
-    setIsDragging(true);
     const touch = e.touches[0];
-    dragStartRef.current = { x: touch.clientX, y: touch.clientY };
+    startInteraction(type, touch.clientX, touch.clientY);
   };
 
-  const handleResizeTouchStart = (e: React.TouchEvent) => {
-    e.stopPropagation();
-    setIsResizing(true);
-    const touch = e.touches[0];
-    dragStartRef.current = { x: touch.clientX, y: touch.clientY };
-    startDimRef.current = { w: size.width, h: size.height, x: position.x, y: position.y };
+  const handleCropMouseDown = (handle: CropHandle) => (e: React.MouseEvent) => {
+    if (!cropDraft) return;
+    cropStartRef.current = { handle, crop: cropDraft };
+    handleMouseDown('crop')(e);
+  };
+
+  const handleCropTouchStart = (handle: CropHandle) => (e: React.TouchEvent) => {
+    if (!cropDraft) return;
+    cropStartRef.current = { handle, crop: cropDraft };
+    handleTouchStart('crop')(e);
   };
 
   const handleContainerClick = (e: React.MouseEvent | React.TouchEvent) => {
       e.stopPropagation();
-      setIsSelected(true);
+      onSelect(e.shiftKey);
+      // Keys go to the image for nudging, but not away from the panels' inputs
+      if (!(e.target as HTMLElement).closest('.tool-panel')) containerRef.current?.focus({ preventScroll: true });
+      if (picking && imageBoxRef.current?.contains(e.target as Node)) {
+        const point = 'touches' in e ? e.touches[0] : e;
+        if (point) pickColor(point.clientX, point.clientY);
+      }
+  };
+
+  const togglePanel = (panel: 'magic' | 'crop' | 'adjust') => (e: React.MouseEvent | React.TouchEvent) => {
+    e.stopPropagation();
+    const open = panel === 'magic' ? showMagic : panel === 'adjust' ? showAdjust : !!cropDraft;
+    closePanels();
+    if (open) return;
+    if (panel === 'magic') setShowMagic(true);
+    else if (panel === 'adjust') setShowAdjust(true);
+    else setCropDraft(crop);
+  };
+
+  // Arrow keys nudge the selected image, Shift for larger steps
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.target === e.currentTarget && !interaction && !locked ? nudgeFor(e) : null;
+    if (!step) return;
+    e.preventDefault();
+    onChange(id, { x: position.x + step.dx, y: position.y + step.dy }, true);
   };
 
-  const showControls = isDragging || isResizing || isSelected;
+  const showControls = !!interaction || selected;
+  const panelButton = (active: boolean, activeClass: string) =>
+    `control-btn p-1.5 rounded text-xs transition-colors ${active ? activeClass : 'hover:bg-gray-100 text-gray-700'}`;
 
   return (
     <div
       ref={containerRef}
       style={{
         position: 'absolute',
-        left: `${position.x}px`,
-        top: `${position.y}px`,
+        left: `${position.x + (offset?.dx ?? 0)}px`,
+        top: `${position.y + (offset?.dy ?? 0)}px`,
         width: `${size.width}px`,
         height: `${size.height}px`,
-        zIndex: isDragging || isResizing || showControls ? 40 : 10,
+        // Stacking follows the document order; only a block being dragged comes to the top
+        zIndex: interaction ? 40 : 10,
       }}
-      className="group"
+      className="group outline-none"
+      tabIndex={-1}
+      data-layer={layerKey('image', id)}
+      data-snap-block
       onClick={handleContainerClick}
       onTouchStart={handleContainerClick}
+      onKeyDown={handleKeyDown}
     >
+      <SnapGuides guides={guides} position={position} />
+
       {/* ============ CONTROLS TOOLBAR ============ */}
       {showControls && (
         <div className="absolute -top-10 left-0 flex flex-col items-start no-print z-50">
-           
+
            {/* Top Bar Buttons */}
            <div className="flex gap-1 bg-white p-1 rounded shadow-lg border border-gray-200">
-             <button 
-                className="control-btn bg-blue-600 text-white p-1.5 rounded text-xs cursor-grab active:cursor-grabbing"
-                onMouseDown={handleMouseDown}
-                onTouchStart={handleTouchStart}
-                title="Move"
-             >
-                <ArrowsPointingOutIcon className="w-4 h-4" />
-             </button>
-             
+             {locked ? (
+               <span className="control-btn bg-gray-100 text-gray-500 p-1.5 rounded text-xs" title="Locked - unlock it in the Layers panel">
+                  <LockClosedIcon className="w-4 h-4" />
+               </span>
+             ) : (
+               <button
+                  className="control-btn bg-blue-600 text-white p-1.5 rounded text-xs cursor-grab active:cursor-grabbing"
+                  onMouseDown={handleMouseDown('move')}
+                  onTouchStart={handleTouchStart('move')}
+                  title="Move"
+               >
+                  <ArrowsPointingOutIcon className="w-4 h-4" />
+               </button>
+             )}
+
              {/* Magic Wand (Remove Background) */}
-             <button 
-                className={`control-btn p-1.5 rounded text-xs transition-colors ${showMagic ? 'bg-purple-100 text-purple-600' : 'hover:bg-gray-100 text-gray-700'}`}
-                onClick={(e) => { e.stopPropagation(); setShowMagic(!showMagic); setShowCrop(false); }}
-                onTouchEnd={(e) => { e.stopPropagation(); setShowMagic(!showMagic); setShowCrop(false); }}
+             <button
+                className={panelButton(showMagic, 'bg-purple-100 text-purple-600')}
+                onClick={togglePanel('magic')}
+                onTouchEnd={togglePanel('magic')}
                 title="Remove Background (Air Signature)"
              >
                 <SparklesIcon className="w-4 h-4" />
              </button>
 
              {/* Crop */}
-             <button 
-                className={`control-btn p-1.5 rounded text-xs transition-colors ${showCrop ? 'bg-green-100 text-green-600' : 'hover:bg-gray-100 text-gray-700'}`}
-                onClick={(e) => { e.stopPropagation(); setShowCrop(!showCrop); setShowMagic(false); }}
-                onTouchEnd={(e) => { e.stopPropagation(); setShowCrop(!showCrop); setShowMagic(false); }}
+             <button
+                className={panelButton(!!cropDraft, 'bg-green-100 text-green-600')}
+                onClick={togglePanel('crop')}
+                onTouchEnd={togglePanel('crop')}
                 title="Crop"
              >
                 <ScissorsIcon className="w-4 h-4" />
              </button>
-           
+
+             {/* Rotation, flips, opacity */}
+             <button
+                className={panelButton(showAdjust, 'bg-amber-100 text-amber-700')}
+                onClick={togglePanel('adjust')}
+                onTouchEnd={togglePanel('adjust')}
+                title="Rotate, Flip & Opacity"
+             >
+                <AdjustmentsHorizontalIcon className="w-4 h-4" />
+             </button>
+
+             {/* Keep the processed image for other letters */}
+             <button
+                className="control-btn hover:bg-gray-100 text-gray-700 p-1.5 rounded text-xs transition-colors"
+                onClick={(e) => { e.stopPropagation(); onSaveToLibrary(block); }}
+                title="Save to Signature Library"
+             >
+                <BookmarkIcon className="w-4 h-4" />
+             </button>
+
              <div className="w-px bg-gray-300 mx-0.5"></div>
 
              <button
@@ -265,71 +417,201 @@ export const DraggableImage: React.FC<DraggableImageProps> = ({ id, src, initial
 
            {/* Magic Wand Panel */}
            {showMagic && (
-              <div className="tool-panel mt-1 bg-white p-2 rounded shadow-lg border border-gray-200 flex flex-col gap-1 w-48">
-                 <label className="text-[10px] font-bold text-gray-500 uppercase">Remove White Background</label>
-                 <input 
-                   type="range" 
-                   min="0" 
-                   max="100" 
-                   value={threshold} 
-                   onChange={(e) => setThreshold(Number(e.target.value))}
-                   className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              <div className="tool-panel mt-1 bg-white p-2 rounded shadow-lg border border-gray-200 flex flex-col gap-1 w-56">
+                 <label className="text-[10px] font-bold text-gray-500 uppercase">Remove Background</label>
+                 <BackgroundControls
+                   value={background}
+                   onChange={setBackground}
+                   guessPaperColor={guessPaperColor}
+                   picking={picking}
+                   onTogglePicking={() => setPicking(!picking)}
                  />
-                 <span className="text-[9px] text-gray-400 text-right">{threshold}%</span>
               </div>
            )}
 
            {/* Crop Panel */}
-           {showCrop && (
-              <div className="tool-panel mt-1 bg-white p-2 rounded shadow-lg border border-gray-200 grid grid-cols-2 gap-2 w-48">
-                 <div className="col-span-2 text-[10px] font-bold text-gray-500 uppercase text-center border-b pb-1">Crop Image</div>
-                 
-                 <div className="flex flex-col">
-                   <label className="text-[9px] text-gray-400">Top</label>
-                   <input type="number" min="0" max="50" value={crop.t} onChange={e => setCrop({...crop, t: Number(e.target.value)})} className="border rounded px-1 text-xs w-full" />
-                 </div>
-                 <div className="flex flex-col">
-                   <label className="text-[9px] text-gray-400">Bottom</label>
-                   <input type="number" min="0" max="50" value={crop.b} onChange={e => setCrop({...crop, b: Number(e.target.value)})} className="border rounded px-1 text-xs w-full" />
-                 </div>
-                 <div className="flex flex-col">
-                   <label className="text-[9px] text-gray-400">Left</label>
-                   <input type="number" min="0" max="50" value={crop.l} onChange={e => setCrop({...crop, l: Number(e.target.value)})} className="border rounded px-1 text-xs w-full" />
+           {cropDraft && (
+              <div className="tool-panel mt-1 bg-white p-2 rounded shadow-lg border border-gray-200 flex flex-col gap-2 w-48">
+                 <div className="text-[10px] font-bold text-gray-500 uppercase text-center border-b pb-1">Crop Image</div>
+                 <p className="text-[10px] text-gray-500 leading-tight">Drag the handles on the image. Applying cuts the rest away; Undo brings it back.</p>
+                 <div className="flex justify-end gap-1">
+                   <button
+                     onClick={(e) => { e.stopPropagation(); setCropDraft(NO_CROP); }}
+                     className="px-2 py-0.5 rounded text-[11px] text-gray-700 hover:bg-gray-100 cursor-pointer"
+                   >
+                     Reset
+                   </button>
+                   <button
+                     onClick={(e) => { e.stopPropagation(); setCropDraft(null); }}
+                     className="px-2 py-0.5 rounded text-[11px] text-gray-700 hover:bg-gray-100 cursor-pointer"
+                   >
+                     Cancel
+                   </button>
+                   <button
+                     onClick={(e) => { e.stopPropagation(); applyCrop(); }}
+                     disabled={applyingCrop}
+                     className="px-2 py-0.5 rounded text-[11px] font-semibold bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 cursor-pointer"
+                   >
+                     {applyingCrop ? 'Cropping…' : 'Apply'}
+                   </button>
                  </div>
-                 <div className="flex flex-col">
-                   <label className="text-[9px] text-gray-400">Right</label>
-                   <input type="number" min="0" max="50" value={crop.r} onChange={e => setCrop({...crop, r: Number(e.target.value)})} className="border rounded px-1 text-xs w-full" />
+              </div>
+           )}
+
+           {/* Adjust Panel */}
+           {showAdjust && (
+              <div className="tool-panel mt-1 bg-white p-2 rounded shadow-lg border border-gray-200 flex flex-col gap-2 w-52 text-[11px] text-gray-700">
+                 <div className="text-[10px] font-bold text-gray-500 uppercase text-center border-b pb-1">Adjust Image</div>
+                 <label className="flex items-center justify-between gap-2">
+                   Rotation
+                   <span className="flex items-center gap-1">
+                     <input
+                       type="number"
+                       min="-180"
+                       max="180"
+                       value={rotation}
+                       onChange={e => onChange(id, { rotation: normalizeAngle(Number(e.target.value) || 0) })}
+                       className="border rounded px-1 text-xs w-14"
+                     />
+                     °
+                     <button
+                       onClick={(e) => { e.stopPropagation(); onChange(id, { rotation: 0 }); }}
+                       disabled={rotation === 0}
+                       className="px-1 rounded hover:bg-gray-100 disabled:opacity-30 cursor-pointer"
+                       title="Straighten"
+                     >
+                       0°
+                     </button>
+                   </span>
+                 </label>
+                 <div className="flex items-center justify-between">
+                   Flip
+                   <span className="flex gap-1">
+                     <button
+                       onClick={(e) => { e.stopPropagation(); onChange(id, { flipX: !flipX }); }}
+                       className={`p-1 rounded cursor-pointer ${flipX ? 'bg-amber-100 text-amber-700' : 'hover:bg-gray-100'}`}
+                       title="Flip Horizontally"
+                     >
+                       <ArrowsRightLeftIcon className="w-4 h-4" />
+                     </button>
+                     <button
+                       onClick={(e) => { e.stopPropagation(); onChange(id, { flipY: !flipY }); }}
+                       className={`p-1 rounded cursor-pointer ${flipY ? 'bg-amber-100 text-amber-700' : 'hover:bg-gray-100'}`}
+                       title="Flip Vertically"
+                     >
+                       <ArrowsUpDownIcon className="w-4 h-4" />
+                     </button>
+                   </span>
                  </div>
+                 <label className="block">
+                   <span className="flex justify-between">Opacity <span className="text-gray-400">{opacity}%</span></span>
+                   <input
+                     type="range"
+                     min="5"
+                     max="100"
+                     value={opacity}
+                     onChange={e => onChange(id, { opacity: Number(e.target.value) })}
+                     className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                   />
+                 </label>
+                 <label className="flex items-center gap-1.5 cursor-pointer">
+                   <input type="checkbox" checked={grayscale} onChange={e => onChange(id, { grayscale: e.target.checked })} />
+                   Grayscale
+                 </label>
+                 <label className="flex items-center gap-1.5 cursor-pointer" title="Shift while resizing does the opposite">
+                   <input type="checkbox" checked={lockAspect} onChange={e => setLockAspect(e.target.checked)} />
+                   Keep proportions when resizing
+                 </label>
               </div>
            )}
         </div>
       )}
 
-      {/* Image Container with Crop Mask */}
-      <div 
-        className={`w-full h-full border-2 ${showControls ? 'border-blue-400 border-dashed' : 'border-transparent'} bg-transparent overflow-hidden`}
-        style={{
-            // Apply crop via clip-path
-            clipPath: `inset(${crop.t}% ${crop.r}% ${crop.b}% ${crop.l}%)`
-        }}
-      >
-        <img 
-          src={processedSrc} 
-          alt="Asset" 
-          className="w-full h-full pointer-events-none select-none object-fill"
-        />
+      {/* Everything below turns with the image; the toolbar above stays upright */}
+      <div className="absolute inset-0" style={rotation ? { transform: `rotate(${rotation}deg)` } : undefined}>
+        {/* Image Container with the crop mask of older letters */}
+        <div
+          ref={imageBoxRef}
+          className={`w-full h-full border-2 ${showControls ? 'border-blue-400 border-dashed' : 'border-transparent'} bg-transparent overflow-hidden ${picking ? 'cursor-crosshair' : ''}`}
+          style={{
+              clipPath: cropDraft ? undefined : `inset(${crop.t}% ${crop.r}% ${crop.b}% ${crop.l}%)`
+          }}
+        >
+          <img
+            src={picking ? src : processedSrc}
+            alt="Asset"
+            className="w-full h-full pointer-events-none select-none object-fill"
+            style={{
+              opacity: opacity / 100,
+              // The original shown for picking isn't flipped by the worker
+              transform: picking && (flipX || flipY) ? `scale(${flipX ? -1 : 1}, ${flipY ? -1 : 1})` : undefined,
+            }}
+          />
+        </div>
+
+        {/* Crop Handles */}
+        {cropDraft && (
+          <div className="absolute inset-0 no-print">
+            <div className="absolute inset-0 overflow-hidden pointer-events-none">
+              <div
+                className="absolute border border-white outline outline-1 outline-blue-600"
+                style={{
+                  left: `${cropDraft.l}%`,
+                  top: `${cropDraft.t}%`,
+                  right: `${cropDraft.r}%`,
+                  bottom: `${cropDraft.b}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                }}
+              />
+            </div>
+            {CROP_HANDLES.map(handle => (
+              <div
+                key={handle}
+                className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 bg-white border border-blue-600 rounded-sm shadow touch-manipulation"
+                style={handleStyle(handle, cropDraft)}
+                onMouseDown={handleCropMouseDown(handle)}
+                onTouchStart={handleCropTouchStart(handle)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Rotate Handle (snaps to 15°, Shift for free rotation) */}
+        {showControls && !cropDraft && !locked && (
+          <div
+            className="absolute left-1/2 -bottom-9 -translate-x-1/2 flex flex-col items-center no-print z-50"
+            title="Rotate (Shift: no snapping)"
+          >
+            <div className="w-px h-3 bg-blue-500"></div>
+            <div
+              className="w-6 h-6 rounded-full bg-white border-2 border-blue-500 shadow-md flex items-center justify-center cursor-grab active:cursor-grabbing touch-manipulation"
+              onMouseDown={handleMouseDown('rotate')}
+              onTouchStart={handleTouchStart('rotate')}
+            >
+              <ArrowPathIcon className="w-3 h-3 text-blue-600" />
+            </div>
+          </div>
+        )}
+
+        {/* Resize Handle */}
+        {showControls && !cropDraft && !locked && (
+          <div
+            className="absolute bottom-0 right-0 w-6 h-6 bg-blue-500 cursor-nwse-resize z-50 rounded-tl shadow-md flex items-center justify-center no-print touch-manipulation"
+            onMouseDown={handleMouseDown('resize')}
+            onTouchStart={handleTouchStart('resize')}
+            title="Resize (Shift: change the proportions)"
+          >
+            <ArrowPathIcon className="w-3 h-3 text-white transform rotate-90" />
+          </div>
+        )}
       </div>
 
-      {/* Resize Handle */}
-      {showControls && (
-        <div 
-          className="absolute bottom-0 right-0 w-6 h-6 bg-blue-500 cursor-nwse-resize z-50 rounded-tl shadow-md flex items-center justify-center no-print touch-manipulation"
-          onMouseDown={handleResizeStart}
-          onTouchStart={handleResizeTouchStart}
-        >
-          <ArrowPathIcon className="w-3 h-3 text-white transform rotate-90" />
+      {/* Angle while rotating */}
+      {interaction === 'rotate' && (
+        <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 px-1.5 py-0.5 rounded bg-gray-900/80 text-white text-[11px] no-print pointer-events-none">
+          {rotation}°
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,72 +1,96 @@
 import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
-import { XMarkIcon, ArrowsPointingOutIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, ArrowsPointingOutIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { Margins, SnapSettings, TextBlock } from '../types';
+import { RICH_TEXT_CLASS, stripCaretMarks } from '../utils/richText';
+import { Guide, SnapDrag, beginSnapDrag, nudgeFor, snapDrag } from '../utils/snapping';
+import { layerKey } from '../utils/layers';
+import { SnapGuides } from './SnapGuides';
 
 interface DraggableTextProps {
-  id: number;
-  initialX: number;
-  initialY: number;
+  block: TextBlock;
   zoom: number;
+  snap: SnapSettings;
+  margins: Margins;
+  selected: boolean;
+  /** `additive`: Shift-click, which adds to the selection or takes the block out of it */
+  onSelect: (additive: boolean) => void;
+  /** Shift shown while another selected block is dragged */
+  offset?: { dx: number; dy: number } | null;
+  /** How far the block has been dragged so far, null when the drag ends */
+  onDrag: (id: number, delta: { dx: number; dy: number } | null) => void;
+  /** `nudge`: moved with the arrow keys, so repeated presses undo together */
+  onChange: (id: number, patch: Partial<TextBlock>, nudge?: boolean) => void;
   onRemove: (id: number) => void;
+  /** Just added by the user: takes the caret when it mounts */
+  autoFocus?: boolean;
 }
 
-export const DraggableText: React.FC<DraggableTextProps> = ({ id, initialX, initialY, zoom, onRemove }) => {
-  const [position, setPosition] = useState({ x: initialX, y: initialY });
+export const DraggableText: React.FC<DraggableTextProps> = ({ block, zoom, snap, margins, selected, onSelect, offset, onDrag, onChange, onRemove, autoFocus = false }) => {
+  const { id, locked } = block;
+  // Local position while dragging, committed to the document on release
+  const [position, setPosition] = useState({ x: block.x, y: block.y });
   const [isDragging, setIsDragging] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
-  const [isSelected, setIsSelected] = useState(false); 
-  const dragStartRef = useRef<{ x: number, y: number } | null>(null);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  // Pointer and block position where the drag started
+  const dragStartRef = useRef<{ x: number, y: number, blockX: number, blockY: number } | null>(null);
+  const snapDragRef = useRef<SnapDrag | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
+  const positionRef = useRef(position);
+  positionRef.current = position;
 
-  // Focus on mount
+  useEffect(() => {
+    setPosition({ x: block.x, y: block.y });
+  }, [block.x, block.y]);
+
+  // Sync content from the document without resetting the caret while typing
+  useLayoutEffect(() => {
+    if (contentRef.current && stripCaretMarks(contentRef.current.innerHTML) !== block.html) {
+      contentRef.current.innerHTML = block.html;
+    }
+  }, [block.html]);
+
+  // Focus on mount when the user has just added the block, not when a letter loads
   useLayoutEffect(() => {
-    if (contentRef.current) {
+    if (autoFocus && contentRef.current) {
       contentRef.current.focus();
     }
   }, []);
 
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isDragging || !dragStartRef.current) return;
-      
-      const dx = (e.clientX - dragStartRef.current.x) / zoom;
-      const dy = (e.clientY - dragStartRef.current.y) / zoom;
+    // `unsnapped`: Alt held, which moves without snapping
+    const handleMove = (clientX: number, clientY: number, unsnapped: boolean) => {
+      const start = dragStartRef.current;
+      if (!start || !snapDragRef.current) return;
+      const x = start.blockX + (clientX - start.x) / zoom;
+      const y = start.blockY + (clientY - start.y) / zoom;
+      const next = snapDrag(snapDragRef.current, { x, y }, snap, zoom, unsnapped);
+      setPosition({ x: next.x, y: next.y });
+      setGuides(next.guides);
+      onDrag(id, { dx: next.x - start.blockX, dy: next.y - start.blockY });
+    };
 
-      setPosition(prev => ({
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
-      
-      dragStartRef.current = { x: e.clientX, y: e.clientY };
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!isDragging) return;
+      handleMove(e.clientX, e.clientY, e.altKey);
     };
 
     const handleTouchMove = (e: TouchEvent) => {
-      if (!isDragging || !dragStartRef.current) return;
+      if (!isDragging) return;
       e.preventDefault(); // Prevent scrolling
       
       const touch = e.touches[0];
-      const dx = (touch.clientX - dragStartRef.current.x) / zoom;
-      const dy = (touch.clientY - dragStartRef.current.y) / zoom;
-
-      setPosition(prev => ({
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
-      
-      dragStartRef.current = { x: touch.clientX, y: touch.clientY };
+      handleMove(touch.clientX, touch.clientY, false);
     };
 
     const handleEnd = () => {
       setIsDragging(false);
+      setGuides([]);
       dragStartRef.current = null;
-    };
-
-    const handleClickOutside = (e: MouseEvent | TouchEvent) => {
-        if (contentRef.current && !contentRef.current.contains(e.target as Node)) {
-             const target = e.target as HTMLElement;
-             if (!target.closest('.control-btn')) {
-                 setIsSelected(false);
-             }
-        }
+      snapDragRef.current = null;
+      onDrag(id, null);
+      onChange(id, { x: positionRef.current.x, y: positionRef.current.y });
     };
 
     if (isDragging) {
@@ -75,66 +99,94 @@ export const DraggableText: React.FC<DraggableTextProps> = ({ id, initialX, init
       window.addEventListener('touchmove', handleTouchMove, { passive: false });
       window.addEventListener('touchend', handleEnd);
     }
-    
-    window.addEventListener('mousedown', handleClickOutside);
-    window.addEventListener('touchstart', handleClickOutside);
 
     return () => {
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleEnd);
       window.removeEventListener('touchmove', handleTouchMove);
       window.removeEventListener('touchend', handleEnd);
-      window.removeEventListener('mousedown', handleClickOutside);
-      window.removeEventListener('touchstart', handleClickOutside);
     };
-  }, [isDragging, zoom]);
+  }, [isDragging, zoom, snap, id, onChange, onDrag]);
+
+  const startDrag = (clientX: number, clientY: number) => {
+    if (locked) return;
+    setIsDragging(true);
+    dragStartRef.current = { x: clientX, y: clientY, blockX: position.x, blockY: position.y };
+    if (contentRef.current) snapDragRef.current = beginSnapDrag(contentRef.current, position, margins);
+  };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsDragging(true);
-    dragStartRef.current = { x: e.clientX, y: e.clientY };
+    startDrag(e.clientX, e.clientY);
+    // Arrow keys nudge the block once it has been grabbed
+    e.preventDefault();
+    containerRef.current?.focus({ preventScroll: true });
   };
 
   const handleTouchStart = (e: React.TouchEvent) => {
     e.stopPropagation();
-    setIsDragging(true);
     const touch = e.touches[0];
-    dragStartRef.current = { x: touch.clientX, y: touch.clientY };
+    startDrag(touch.clientX, touch.clientY);
+  };
+
+  // Arrow keys move the block while it has focus rather than the caret, Shift for larger steps
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.target === e.currentTarget && !isDragging && !locked ? nudgeFor(e) : null;
+    if (!step) return;
+    e.preventDefault();
+    onChange(id, { x: position.x + step.dx, y: position.y + step.dy }, true);
   };
   
   const handleContainerClick = (e: React.MouseEvent | React.TouchEvent) => {
       e.stopPropagation();
-      setIsSelected(true);
+      onSelect(e.shiftKey);
   };
 
-  const showControls = isHovered || isDragging || isSelected;
+  const showControls = isHovered || isDragging || selected;
 
   return (
     <div
+      ref={containerRef}
       style={{
         position: 'absolute',
-        left: `${position.x}px`,
-        top: `${position.y}px`,
-        maxWidth: '80%',
-        zIndex: isDragging || showControls ? 50 : 10,
+        left: `${position.x + (offset?.dx ?? 0)}px`,
+        top: `${position.y + (offset?.dy ?? 0)}px`,
+        maxWidth: block.width === null ? '80%' : undefined,
+        // Stacking follows the document order; only a block being dragged comes to the top
+        zIndex: isDragging ? 50 : 10,
       }}
-      className="group pb-2" 
+      className="group pb-2 outline-none" 
+      tabIndex={-1}
+      data-layer={layerKey('text', id)}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
       onClick={handleContainerClick}
       onTouchStart={handleContainerClick}
+      onKeyDown={handleKeyDown}
     >
+      <SnapGuides guides={guides} position={position} />
+
       {/* Controls Container */}
       {showControls && (
         <div className="absolute -top-9 left-0 right-0 flex justify-between items-end pb-1 no-print h-9 z-50">
-          <div 
-            className="control-btn bg-blue-600 text-white px-3 py-1 rounded-md text-xs uppercase font-bold tracking-wider cursor-grab active:cursor-grabbing flex items-center gap-1 shadow-md select-none touch-manipulation"
-            onMouseDown={handleMouseDown}
-            onTouchStart={handleTouchStart}
-          >
-            <ArrowsPointingOutIcon className="w-4 h-4" />
-            <span className="hidden sm:inline">Move</span>
-          </div>
+          {locked ? (
+            <div
+              className="control-btn bg-gray-100 text-gray-500 px-3 py-1 rounded-md text-xs uppercase font-bold tracking-wider flex items-center gap-1 shadow-md select-none"
+              title="Locked - unlock it in the Layers panel"
+            >
+              <LockClosedIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">Locked</span>
+            </div>
+          ) : (
+            <div 
+              className="control-btn bg-blue-600 text-white px-3 py-1 rounded-md text-xs uppercase font-bold tracking-wider cursor-grab active:cursor-grabbing flex items-center gap-1 shadow-md select-none touch-manipulation"
+              onMouseDown={handleMouseDown}
+              onTouchStart={handleTouchStart}
+            >
+              <ArrowsPointingOutIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">Move</span>
+            </div>
+          )}
           <button
             onClick={(e) => {
                 e.stopPropagation();
@@ -155,9 +207,20 @@ export const DraggableText: React.FC<DraggableTextProps> = ({ id, initialX, init
       {/* Editable Content */}
       <div
         ref={contentRef}
+        onInput={(e) => onChange(id, { html: stripCaretMarks(e.currentTarget.innerHTML) })}
         contentEditable
         suppressContentEditableWarning
-        className={`outline-none min-w-[200px] min-h-[1.5em] p-2 border ${showControls ? 'border-dashed border-blue-400 bg-blue-50/10' : 'border-transparent'} transition-colors text-[#2c2c2c] font-serif text-[11pt] leading-relaxed whitespace-pre-wrap text-left empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400`}
+        data-snap-block
+        className={`${RICH_TEXT_CLASS} ${block.width === null ? 'min-w-[200px]' : ''} min-h-[1.5em] ${showControls ? 'outline-dashed outline-1 outline-blue-400 bg-blue-50/10' : 'outline-none'} transition-colors leading-relaxed whitespace-pre-wrap text-left empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400`}
+        style={{
+          width: block.width === null ? undefined : `${block.width}px`,
+          padding: `${block.padding}px`,
+          backgroundColor: block.fill || undefined,
+          border: block.borderWidth ? `${block.borderWidth}px solid ${block.borderColor}` : undefined,
+          fontFamily: block.fontFamily || undefined,
+          fontSize: `${block.fontSize}pt`,
+          color: block.color,
+        }}
         data-placeholder="Type content here..."
       />
     </div>
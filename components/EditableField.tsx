@@ -0,0 +1,35 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import { stripCaretMarks } from '../utils/richText';
+
+interface EditableFieldProps {
+  as?: 'h1' | 'h2' | 'p' | 'div' | 'span';
+  html: string;
+  onChange: (html: string) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// contentEditable element driven by an HTML string.
+// innerHTML is only written when it differs from the DOM, so the caret is not
+// reset while the user types, but copies of the same field on other pages stay in sync.
+export const EditableField: React.FC<EditableFieldProps> = ({ as = 'div', html, onChange, className, style }) => {
+  const ref = useRef<HTMLElement>(null);
+  const Tag = as as React.ElementType;
+
+  useLayoutEffect(() => {
+    if (ref.current && stripCaretMarks(ref.current.innerHTML) !== html) {
+      ref.current.innerHTML = html;
+    }
+  }, [html]);
+
+  return (
+    <Tag
+      ref={ref}
+      onInput={(e: React.FormEvent<HTMLElement>) => onChange(stripCaretMarks(e.currentTarget.innerHTML))}
+      contentEditable
+      suppressContentEditableWarning
+      className={className}
+      style={style}
+    />
+  );
+};
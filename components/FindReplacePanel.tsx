@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { DEFAULT_FIND_OPTIONS, FindOptions, clearMatches, findMatches, matchAfter, revealMatch, showMatches } from '../utils/findReplace';
+
+interface FindReplacePanelProps {
+  /** The page elements to search */
+  getPages: () => HTMLElement[];
+  /** Changes whenever the letter does, so the matches are looked up again */
+  version: unknown;
+  /** Replaces the matches with `text` as one undoable step; returns where the last replacement ends */
+  onReplace: (ranges: Range[], text: string) => Range | null;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full h-7 px-1.5 border border-gray-300 rounded bg-white text-black text-xs outline-none focus:border-blue-400';
+const actionClass = 'flex items-center justify-center px-1.5 py-1 rounded border border-gray-200 text-[11px] text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent cursor-pointer disabled:cursor-default';
+
+// Finds text in the body, header/footer and text blocks, highlights it on the page and replaces it
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ getPages, version, onReplace, onClose }) => {
+  // Starts from the text selected in the letter, if any
+  const [query, setQuery] = useState(() => {
+    const selected = window.getSelection()?.toString() || '';
+    return selected.includes('\n') ? '' : selected;
+  });
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+  const [matches, setMatches] = useState<Range[]>([]);
+  const [current, setCurrent] = useState(0);
+  // Where the last single replacement ended; the search carries on from there
+  const resumeRef = useRef<Range | null>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    findInputRef.current?.select();
+    return clearMatches;
+  }, []);
+
+  // Runs after the pages have taken the latest edit
+  useEffect(() => {
+    const next = findMatches(getPages(), query, options);
+    setMatches(next);
+    const resume = resumeRef.current;
+    resumeRef.current = null;
+    setCurrent(prev => {
+      const after = resume ? matchAfter(next, resume) : -1;
+      if (after >= 0) return after;
+      return resume ? 0 : Math.min(prev, Math.max(0, next.length - 1));
+    });
+  }, [query, options, version]);
+
+  useEffect(() => {
+    showMatches(matches, current);
+  }, [matches, current]);
+
+  const step = (by: number) => {
+    if (!matches.length) return;
+    const next = (current + by + matches.length) % matches.length;
+    setCurrent(next);
+    revealMatch(matches[next]);
+  };
+
+  const replaceOne = () => {
+    if (!matches[current]) return;
+    resumeRef.current = onReplace([matches[current]], replacement);
+  };
+
+  const replaceAll = () => {
+    if (matches.length) onReplace(matches, replacement);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, replace: boolean) => {
+    if (e.key === 'Escape') onClose();
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (replace) replaceOne();
+    else step(e.shiftKey ? -1 : 1);
+  };
+
+  return (
+    <div data-find-panel className="w-64 flex-shrink-0 h-full flex flex-col bg-white border-l border-gray-200 text-left text-gray-800 no-print">
+      {/* ===== Header ===== */}
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <h2 className="font-semibold text-sm">Find &amp; Replace</h2>
+        <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100 cursor-pointer" title="Close">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {/* ===== Find ===== */}
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-1">
+            <input
+              ref={findInputRef}
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              onKeyDown={e => handleKeyDown(e, false)}
+              placeholder="Find"
+              className={inputClass}
+            />
+            <button onClick={() => step(-1)} disabled={!matches.length} className={actionClass} title="Previous (Shift+Enter)">
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => step(1)} disabled={!matches.length} className={actionClass} title="Next (Enter)">
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="text-[11px] text-gray-500">
+            {!query ? 'Searches the body, letterhead text and text blocks.' : matches.length ? `${current + 1} of ${matches.length}` : 'No matches'}
+          </div>
+          <div className="flex gap-3 text-xs">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={options.matchCase} onChange={e => setOptions({ ...options, matchCase: e.target.checked })} />
+              Match case
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={options.wholeWord} onChange={e => setOptions({ ...options, wholeWord: e.target.checked })} />
+              Whole words
+            </label>
+          </div>
+        </div>
+
+        {/* ===== Replace ===== */}
+        <div className="space-y-1.5 border-t border-gray-100 pt-3">
+          <input
+            type="text"
+            value={replacement}
+            onChange={e => setReplacement(e.target.value)}
+            onKeyDown={e => handleKeyDown(e, true)}
+            placeholder="Replace with"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={replaceOne} disabled={!matches.length} className={actionClass}>Replace</button>
+            <button onClick={replaceAll} disabled={!matches.length} className={actionClass}>Replace all</button>
+          </div>
+          <p className="text-[10px] text-gray-400 leading-tight">Replacing all undoes in one step with Ctrl+Z. Reference numbers, dates and page numbers are not searched.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
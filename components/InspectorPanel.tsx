@@ -0,0 +1,243 @@
+import React from 'react';
+import { XMarkIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { ImageBlock, ImageCrop, Margins, TextBlock } from '../types';
+import { PX_PER_MM } from '../utils/assetLibrary';
+import { MIN_CROP, MIN_IMAGE_SIZE, normalizeAngle } from '../utils/imageTransform';
+import { FONT_FAMILIES, FONT_SIZES } from '../utils/richText';
+import { BackgroundControls } from './BackgroundControls';
+
+/** What positions in the inspector are measured from */
+export type InspectorOrigin = 'page' | 'margins';
+
+interface InspectorPanelProps {
+  block: TextBlock | ImageBlock;
+  /** Where the block's body area starts on the page, and the text box's size as laid out, px */
+  metrics: { areaTop: number; width: number; height: number } | null;
+  margins: Margins;
+  origin: InspectorOrigin;
+  onSetOrigin: (origin: InspectorOrigin) => void;
+  onChange: (patch: Partial<TextBlock> | Partial<ImageBlock>) => void;
+  onClose: () => void;
+}
+
+const toMm = (px: number) => Math.round(px / PX_PER_MM * 10) / 10;
+const fromMm = (mm: number) => mm * PX_PER_MM;
+
+// Points are 1/72 in, px 1/96 in
+const toPt = (px: number) => Math.round(px * 0.75 * 10) / 10;
+const fromPt = (pt: number) => pt / 0.75;
+
+const inputClass = 'w-full px-1.5 py-0.5 border border-gray-300 rounded bg-white text-black text-xs outline-none focus:border-blue-400 disabled:bg-gray-50 disabled:text-gray-400';
+
+const NumberField = ({ label, unit, value, onChange, min, max, step = 0.1, disabled = false }: {
+  label: string,
+  unit: string,
+  value: number,
+  onChange: (value: number) => void,
+  min?: number,
+  max?: number,
+  step?: number,
+  disabled?: boolean
+}) => (
+  <label className="block">
+    <span className="block text-[10px] font-semibold text-gray-500">{label}</span>
+    <span className="flex items-center gap-1">
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        disabled={disabled}
+        onChange={e => {
+          const next = parseFloat(e.target.value);
+          if (!isNaN(next)) onChange(next);
+        }}
+        className={inputClass}
+      />
+      <span className="text-[10px] text-gray-400 w-4">{unit}</span>
+    </span>
+  </label>
+);
+
+const ColorField = ({ label, value, onChange, allowNone = false }: { label: string, value: string, onChange: (value: string) => void, allowNone?: boolean }) => (
+  <div>
+    <span className="block text-[10px] font-semibold text-gray-500">{label}</span>
+    <span className="flex items-center gap-1">
+      <label className="relative flex items-center gap-1 h-6 px-1.5 border border-gray-300 rounded text-[11px] text-gray-700 cursor-pointer flex-1">
+        <span className="w-3.5 h-3.5 rounded-sm border border-gray-300" style={{ backgroundColor: value || 'transparent' }}></span>
+        {value || 'None'}
+        <input type="color" value={value || '#ffffff'} onChange={e => onChange(e.target.value)} className="absolute inset-0 opacity-0 cursor-pointer" />
+      </label>
+      {allowNone && value && (
+        <button onClick={() => onChange('')} className="h-6 px-1.5 rounded text-[11px] text-gray-600 hover:bg-gray-100 cursor-pointer">None</button>
+      )}
+    </span>
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-2">
+    <div className="text-[10px] font-bold uppercase text-gray-500 border-b border-gray-100 pb-0.5">{title}</div>
+    {children}
+  </div>
+);
+
+// Exact position, size and style of the selected block; a side panel, or a bottom sheet on small screens
+export const InspectorPanel: React.FC<InspectorPanelProps> = ({ block, metrics, margins, origin, onSetOrigin, onChange, onClose }) => {
+  const isImage = 'src' in block;
+  const areaTop = metrics?.areaTop ?? 0;
+  const originX = origin === 'margins' ? margins.left : 0;
+  const originY = origin === 'margins' ? margins.top : -areaTop;
+
+  const setCrop = (side: keyof ImageCrop, value: number) => {
+    if (!isImage) return;
+    const opposite = { t: 'b', b: 't', l: 'r', r: 'l' }[side] as keyof ImageCrop;
+    const limit = 100 - MIN_CROP - block.crop[opposite];
+    onChange({ crop: { ...block.crop, [side]: Math.min(limit, Math.max(0, value)) } });
+  };
+
+  return (
+    <div
+      data-inspector
+      className="fixed inset-x-0 bottom-0 z-40 max-h-[45vh] flex flex-col bg-white border-t border-gray-200 shadow-2xl text-left text-gray-800 no-print md:static md:z-auto md:max-h-none md:w-64 md:h-full md:flex-shrink-0 md:border-t-0 md:border-l md:shadow-none"
+    >
+      {/* ===== Header ===== */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h2 className="font-semibold text-sm flex items-center gap-1.5">
+          {isImage ? 'Image' : 'Text Block'}
+          {block.locked && <LockClosedIcon className="w-3.5 h-3.5 text-amber-600" title="Locked - unlock it in the Layers panel to move it" />}
+        </h2>
+        <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100 cursor-pointer" title="Deselect">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {/* ===== Position & Size ===== */}
+        <Section title="Position & Size">
+          <div className="flex rounded border border-gray-300 overflow-hidden text-[11px]">
+            {(['page', 'margins'] as InspectorOrigin[]).map(o => (
+              <button
+                key={o}
+                onClick={() => onSetOrigin(o)}
+                className={`flex-1 py-0.5 cursor-pointer ${origin === o ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+              >
+                {o === 'page' ? 'From page edge' : 'From margins'}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField label="X" unit="mm" value={toMm(block.x - originX)} onChange={mm => onChange({ x: fromMm(mm) + originX })} disabled={block.locked} />
+            <NumberField label="Y" unit="mm" value={toMm(block.y - originY)} onChange={mm => onChange({ y: fromMm(mm) + originY })} disabled={block.locked} />
+            {isImage ? (
+              <>
+                <NumberField label="Width" unit="mm" value={toMm(block.width)} min={toMm(MIN_IMAGE_SIZE)} onChange={mm => onChange({ width: Math.max(MIN_IMAGE_SIZE, fromMm(mm)) })} disabled={block.locked} />
+                <NumberField label="Height" unit="mm" value={toMm(block.height)} min={toMm(MIN_IMAGE_SIZE)} onChange={mm => onChange({ height: Math.max(MIN_IMAGE_SIZE, fromMm(mm)) })} disabled={block.locked} />
+              </>
+            ) : (
+              <>
+                <NumberField
+                  label="Width"
+                  unit="mm"
+                  value={toMm(block.width ?? metrics?.width ?? 0)}
+                  min={5}
+                  onChange={mm => onChange({ width: Math.max(fromMm(5), fromMm(mm)) })}
+                  disabled={block.locked || block.width === null}
+                />
+                <NumberField label="Height" unit="mm" value={toMm(metrics?.height ?? 0)} onChange={() => {}} disabled />
+              </>
+            )}
+          </div>
+          {!isImage && (
+            <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={block.width === null}
+                disabled={block.locked}
+                onChange={e => onChange({ width: e.target.checked ? null : Math.round(metrics?.width ?? fromMm(60)) })}
+              />
+              Fit width to the text
+            </label>
+          )}
+        </Section>
+
+        {isImage ? (
+          <>
+            {/* ===== Image ===== */}
+            <Section title="Image">
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField label="Rotation" unit="°" value={block.rotation} step={1} onChange={deg => onChange({ rotation: normalizeAngle(Math.round(deg)) })} disabled={block.locked} />
+                <NumberField label="Opacity" unit="%" value={block.opacity} step={1} min={5} max={100} onChange={value => onChange({ opacity: Math.min(100, Math.max(5, Math.round(value))) })} />
+              </div>
+            </Section>
+
+            {/* ===== Crop ===== */}
+            <Section title="Crop">
+              <div className="grid grid-cols-4 gap-1">
+                {(['t', 'r', 'b', 'l'] as (keyof ImageCrop)[]).map(side => (
+                  <NumberField
+                    key={side}
+                    label={{ t: 'Top', r: 'Right', b: 'Bottom', l: 'Left' }[side]}
+                    unit="%"
+                    value={Math.round(block.crop[side] * 10) / 10}
+                    step={1}
+                    min={0}
+                    onChange={value => setCrop(side, value)}
+                  />
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-400 leading-tight">Hides the edges. The crop tool on the image starts from here, and applying it cuts them away.</p>
+            </Section>
+
+            {/* ===== Background ===== */}
+            <Section title="Remove Background">
+              <BackgroundControls value={block.background} onChange={background => onChange({ background })} />
+            </Section>
+          </>
+        ) : (
+          <>
+            {/* ===== Box ===== */}
+            <Section title="Box">
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField label="Padding" unit="mm" value={toMm(block.padding)} min={0} onChange={mm => onChange({ padding: Math.max(0, fromMm(mm)) })} />
+                <NumberField label="Border" unit="pt" value={toPt(block.borderWidth)} min={0} max={10} step={0.5} onChange={pt => onChange({ borderWidth: Math.max(0, fromPt(pt)) })} />
+              </div>
+              <ColorField label="Background" value={block.fill} onChange={fill => onChange({ fill })} allowNone />
+              {block.borderWidth > 0 && (
+                <ColorField label="Border colour" value={block.borderColor} onChange={borderColor => onChange({ borderColor })} />
+              )}
+            </Section>
+
+            {/* ===== Text ===== */}
+            <Section title="Text">
+              <p className="text-[10px] text-gray-400 leading-tight">For text without its own formatting from the toolbar.</p>
+              <select
+                value={block.fontFamily}
+                onChange={e => onChange({ fontFamily: e.target.value })}
+                className={`${inputClass} cursor-pointer`}
+                title="Font"
+              >
+                <option value="">Letterhead font</option>
+                {FONT_FAMILIES.map(f => <option key={f.name} value={f.css}>{f.name}</option>)}
+              </select>
+              <div className="grid grid-cols-2 gap-2 items-end">
+                <label className="block">
+                  <span className="block text-[10px] font-semibold text-gray-500">Size</span>
+                  <select
+                    value={block.fontSize}
+                    onChange={e => onChange({ fontSize: Number(e.target.value) })}
+                    className={`${inputClass} cursor-pointer`}
+                  >
+                    {FONT_SIZES.map(size => <option key={size} value={size}>{size} pt</option>)}
+                  </select>
+                </label>
+                <ColorField label="Colour" value={block.color} onChange={color => onChange({ color })} />
+              </div>
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
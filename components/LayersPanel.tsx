@@ -0,0 +1,145 @@
+import React from 'react';
+import {
+  XMarkIcon,
+  ChevronDoubleUpIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  ChevronDoubleDownIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  RectangleGroupIcon
+} from '@heroicons/react/24/outline';
+import { LetterDocument } from '../types';
+import { ALIGN_MODES, AlignMode, Layer, STACK_MOVES, StackMove, allLayers, pageLayers } from '../utils/layers';
+import { htmlToText } from '../utils/documentStore';
+
+interface LayersPanelProps {
+  doc: LetterDocument;
+  pageCount: number;
+  selection: string[];
+  /** `additive`: Shift/Ctrl-click, which adds to the selection or takes the block out of it */
+  onSelect: (key: string, additive: boolean) => void;
+  onToggle: (key: string, flag: 'locked' | 'hidden') => void;
+  onRestack: (move: StackMove) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onAlign: (mode: AlignMode) => void;
+  onClose: () => void;
+}
+
+const STACK_ICONS: Record<StackMove, React.ElementType> = {
+  front: ChevronDoubleUpIcon,
+  forward: ChevronUpIcon,
+  backward: ChevronDownIcon,
+  back: ChevronDoubleDownIcon,
+};
+
+const actionClass = 'flex items-center justify-center gap-1 px-1.5 py-1 rounded border border-gray-200 text-[11px] text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent cursor-pointer disabled:cursor-default';
+
+const layerLabel = ({ block }: Layer) => 'html' in block ? htmlToText(block.html) || 'Empty text' : 'Image';
+
+// Every text and image block by page, top of the stack first, with the arrange tools for the selection
+export const LayersPanel: React.FC<LayersPanelProps> = ({ doc, pageCount, selection, onSelect, onToggle, onRestack, onGroup, onUngroup, onAlign, onClose }) => {
+  const selected = allLayers(doc).filter(l => selection.includes(l.key));
+  const canUngroup = selected.some(l => l.block.group !== null);
+
+  return (
+    <div data-layers-panel className="w-64 flex-shrink-0 h-full flex flex-col bg-white border-l border-gray-200 text-left text-gray-800 no-print">
+      {/* ===== Header ===== */}
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <h2 className="font-semibold text-sm">Layers</h2>
+        <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100 cursor-pointer" title="Close">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* ===== Arrange ===== */}
+      <div className="p-3 space-y-2 border-b border-gray-200">
+        <div className="grid grid-cols-4 gap-1">
+          {STACK_MOVES.map(move => {
+            const Icon = STACK_ICONS[move.id];
+            return (
+              <button key={move.id} onClick={() => onRestack(move.id)} disabled={!selected.length} className={actionClass} title={move.label}>
+                <Icon className="w-4 h-4" />
+              </button>
+            );
+          })}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <button onClick={onGroup} disabled={selected.length < 2} className={actionClass} title="Select and move these blocks together">
+            <RectangleGroupIcon className="w-4 h-4" />
+            Group
+          </button>
+          <button onClick={onUngroup} disabled={!canUngroup} className={actionClass}>
+            Ungroup
+          </button>
+        </div>
+        <div className="grid grid-cols-4 gap-1">
+          {ALIGN_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => onAlign(mode.id)}
+              disabled={selected.length < mode.min}
+              className={actionClass}
+              title={selected.length === 1 ? `${mode.label} with the margins` : mode.label}
+            >
+              {mode.short}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-400 leading-tight">Shift-click blocks, or drag a box from the page margin, to select several.</p>
+      </div>
+
+      {/* ===== Blocks ===== */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-3">
+        {!doc.textBlocks.length && !doc.imageBlocks.length && (
+          <p className="p-2 text-xs text-gray-400">No text blocks or images yet.</p>
+        )}
+        {Array.from({ length: pageCount }, (_, page) => {
+          const layers = pageLayers(doc, page).reverse();
+          if (!layers.length) return null;
+          return (
+            <div key={page}>
+              <div className="px-1 pb-1 text-[10px] font-semibold uppercase text-gray-500">Page {page + 1}</div>
+              {layers.map(layer => {
+                const { locked, hidden, group } = layer.block;
+                const isSelected = selection.includes(layer.key);
+                return (
+                  <div
+                    key={layer.key}
+                    onClick={e => onSelect(layer.key, e.shiftKey || e.ctrlKey || e.metaKey)}
+                    className={`flex items-center gap-2 px-1.5 py-1 rounded cursor-pointer text-xs ${isSelected ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-gray-50'}`}
+                  >
+                    {'src' in layer.block ? (
+                      <img src={layer.block.src} alt="" className={`w-8 h-8 flex-shrink-0 object-contain bg-gray-50 border border-gray-200 rounded ${hidden ? 'opacity-40' : ''}`} />
+                    ) : (
+                      <span className={`w-8 h-8 flex-shrink-0 flex items-center justify-center bg-gray-50 border border-gray-200 rounded font-serif text-gray-500 ${hidden ? 'opacity-40' : ''}`}>T</span>
+                    )}
+                    <span className={`flex-1 truncate ${hidden ? 'text-gray-400' : ''}`}>{layerLabel(layer)}</span>
+                    {group !== null && <RectangleGroupIcon className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" title="Grouped" />}
+                    <button
+                      onClick={e => { e.stopPropagation(); onToggle(layer.key, 'hidden'); }}
+                      className="p-0.5 rounded text-gray-500 hover:bg-gray-200 cursor-pointer"
+                      title={hidden ? 'Show' : 'Hide'}
+                    >
+                      {hidden ? <EyeSlashIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={e => { e.stopPropagation(); onToggle(layer.key, 'locked'); }}
+                      className={`p-0.5 rounded hover:bg-gray-200 cursor-pointer ${locked ? 'text-amber-600' : 'text-gray-400'}`}
+                      title={locked ? 'Unlock' : 'Lock against moving'}
+                    >
+                      {locked ? <LockClosedIcon className="w-4 h-4" /> : <LockOpenIcon className="w-4 h-4" />}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { EditableField } from './EditableField';
+import { FooterFields, LetterheadTemplate, LetterheadVariant } from '../types';
+
+interface LetterheadFooterProps {
+  template: LetterheadTemplate;
+  /** Which of the template's footers this page shows */
+  variant: LetterheadVariant;
+  fields: FooterFields;
+  onChange: (key: keyof FooterFields, html: string) => void;
+}
+
+const editableClass = 'outline-none border border-transparent hover:border-gray-200';
+
+export const LetterheadFooter: React.FC<LetterheadFooterProps> = ({ template, variant, fields, onChange }) => variant === 'none' ? null : (
+  <div className="mt-auto relative w-full z-10">
+     
+     {variant === 'running' ? (
+       /* Running Footer - one slim line, EDITABLE (mirrored on every page that shows it) */
+       <div className="pb-9 pt-2 text-center relative flex flex-col items-center">
+          <EditableField
+            as="p"
+            html={fields.running}
+            onChange={(html) => onChange('running', html)}
+            className={`text-[10px] font-medium text-gray-600 tracking-wider ${editableClass}`}
+            style={{ fontFamily: template.fonts.body }}
+          />
+       </div>
+     ) : (
+     /* Footer Info Area - EDITABLE (mirrored on every page) */
+     <div className="pb-10 pt-4 text-center relative flex flex-col items-center">
+        <EditableField
+          as="h2"
+          html={fields.title}
+          onChange={(html) => onChange('title', html)}
+          className={`text-[#2c2c2c] font-bold text-lg tracking-[0.15em] mb-2 uppercase ${editableClass}`}
+          style={{ fontFamily: template.fonts.accent }}
+        />
+        <div
+          className="text-[10px] font-medium text-gray-600 leading-normal uppercase tracking-wider flex flex-col items-center"
+          style={{ fontFamily: template.fonts.body }}
+        >
+          <EditableField
+            as="p"
+            html={fields.addr1}
+            onChange={(html) => onChange('addr1', html)}
+            className={editableClass}
+          />
+          <EditableField
+            as="p"
+            html={fields.addr2}
+            onChange={(html) => onChange('addr2', html)}
+            className={editableClass}
+          />
+          <EditableField
+            as="p"
+            html={fields.phone}
+            onChange={(html) => onChange('phone', html)}
+            className={`mt-1 text-black font-bold text-xs tracking-widest ${editableClass}`}
+          />
+        </div>
+     </div>
+     )}
+
+     {/* Decorative Bottom Horizontal Strip */}
+     <div className="absolute bottom-0 left-0 w-full h-[25px] flex pointer-events-none">
+        {template.stripColors.map((color, index) => (
+          <div key={index} className="flex-1" style={{ backgroundColor: color }}></div>
+        ))}
+     </div>
+  </div>
+);
@@ -0,0 +1,117 @@
+import React from 'react';
+import { EditableField } from './EditableField';
+import { HeaderFields, LetterheadTemplate, LetterheadVariant } from '../types';
+
+interface LetterheadHeaderProps {
+  template: LetterheadTemplate;
+  /** Which of the template's headers this page shows */
+  variant: LetterheadVariant;
+  fields: HeaderFields;
+  onChange: (key: keyof HeaderFields, html: string) => void;
+}
+
+const editableClass = 'outline-none border border-transparent hover:border-gray-200';
+
+export const LetterheadHeader: React.FC<LetterheadHeaderProps> = ({ template, variant, fields, onChange }) => {
+  const { layout, fonts } = template;
+  const isMinimal = layout === 'minimal';
+
+  if (variant === 'none') return null;
+
+  // ================= RUNNING HEADER (pages after the first) =================
+  if (variant === 'running') {
+    return (
+      <div className="pt-8 px-12 pb-1 relative z-10">
+        <div className="flex items-center gap-3 pb-2 border-b-2" style={{ borderColor: template.stripColors[0] }}>
+          <img
+            src={template.logo}
+            alt={template.name}
+            style={{ height: '32px', width: 'auto' }}
+            className="object-contain flex-shrink-0"
+            crossOrigin="anonymous"
+          />
+          <EditableField
+            as="p"
+            html={fields.h1}
+            onChange={(html) => onChange('h1', html)}
+            className={`font-bold text-sm tracking-wide text-black text-left ${editableClass}`}
+            style={{ fontFamily: fonts.heading }}
+          />
+          <EditableField
+            as="p"
+            html={fields.running}
+            onChange={(html) => onChange('running', html)}
+            className={`ml-auto text-[10px] leading-snug text-gray-600 text-right ${editableClass}`}
+            style={{ fontFamily: fonts.accent }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  // Company Name & Subtext - EDITABLE (mirrored on every page)
+  const nameBlock = (
+    <div className={`font-sans text-black flex flex-col justify-center ${layout === 'centered' ? 'text-center items-center' : isMinimal ? 'text-right' : 'text-left'}`}>
+      <EditableField
+        as="h1"
+        html={fields.h1}
+        onChange={(html) => onChange('h1', html)}
+        className={`font-bold ${isMinimal ? 'text-2xl' : 'text-4xl'} tracking-wide leading-none mb-1 ${editableClass}`}
+        style={{ fontFamily: fonts.heading }}
+      />
+      <EditableField
+        as="h2"
+        html={fields.h2}
+        onChange={(html) => onChange('h2', html)}
+        className={`${isMinimal ? 'text-lg' : 'text-2xl'} font-normal tracking-wide leading-none mb-2 ${editableClass}`}
+        style={{ fontFamily: fonts.accent }}
+      />
+      <EditableField
+        as="p"
+        html={fields.sub}
+        onChange={(html) => onChange('sub', html)}
+        className={`italic text-sm text-black ${editableClass}`}
+        style={{ fontFamily: fonts.accent }}
+      />
+    </div>
+  );
+
+  return (
+    <>
+      {/* ================= CORNER DESIGN (Top Left) ================= */}
+      {template.cornerArt && (
+        <div className="absolute top-0 left-0 z-0 pointer-events-none">
+          <img 
+            src={template.cornerArt} 
+            alt="Decorative Element" 
+            className="w-64 h-auto object-contain opacity-100" 
+            crossOrigin="anonymous"
+          />
+        </div>
+      )}
+
+      {/* ================= HEADER ================= */}
+      <div className={`${isMinimal ? 'pt-10' : 'pt-12'} px-12 pb-2 relative z-10`}>
+        <div
+          className={`flex gap-6 ${layout === 'centered' ? 'flex-col items-center gap-3' : isMinimal ? 'items-center justify-between pb-3 border-b-2' : 'items-center justify-end'}`}
+          style={isMinimal ? { borderColor: template.stripColors[0] } : undefined}
+        >
+           
+           {/* Logo */}
+           <div className="relative flex-shrink-0">
+             <img 
+                src={template.logo} 
+                alt={template.name} 
+                style={{ height: isMinimal ? '60px' : '100px', width: 'auto' }}
+                className="object-contain"
+                crossOrigin="anonymous"
+              />
+           </div>
+
+           {nameBlock}
+
+        </div>
+      </div>
+    </>
+  );
+};
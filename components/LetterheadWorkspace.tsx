@@ -1,22 +1,44 @@
-import React, { forwardRef, useEffect, useRef } from 'react';
+import React, { forwardRef, useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { TajmirTemplate } from './TajmirTemplate';
-
-interface Margins {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
-}
+import { Ruler } from './Ruler';
+import { EditorAction, Margins, MeasureUnit, PageSetup, RulerGuide, SnapSettings, LetterDocument, StoredDocument, ReferenceScheme, BodyMode, ImageBlock, Watermark, FileDrop } from '../types';
+import { HistoryStack } from '../utils/history';
+import { PX_PER_MM } from '../utils/assetLibrary';
+import { RULER_SIZE, pageAtPoint } from '../utils/rulers';
+import { draggingFiles } from '../utils/dropFiles';
 
 interface WorkspaceProps {
   zoom: number;
-  action: { type: string; payload?: any } | null;
+  action: EditorAction | null;
   onSetZoom: (z: number) => void;
   margins: Margins;
+  onSetMargins: (m: Margins) => void;
+  pageSetup: PageSetup;
+  unit: MeasureUnit;
+  showRulers: boolean;
+  guides: RulerGuide[];
+  onSetGuides: (guides: RulerGuide[]) => void;
+  snap: SnapSettings;
+  history: HistoryStack;
+  initialDocument: StoredDocument;
+  onDocumentChange: (id: string, doc: LetterDocument) => void;
+  onTemplateChange: (templateId: string) => void;
+  referenceSchemes: Record<string, ReferenceScheme>;
+  composerRoot: HTMLElement | null;
+  layersRoot: HTMLElement | null;
+  onCloseLayers: () => void;
+  findRoot: HTMLElement | null;
+  onCloseFind: () => void;
+  inspectorRoot: HTMLElement | null;
+  onBodyModeChange: (mode: BodyMode) => void;
+  onWatermarkChange: (watermark: Watermark) => void;
+  onSaveImageToLibrary: (block: ImageBlock) => void;
 }
 
-export const LetterheadWorkspace = forwardRef<HTMLDivElement, WorkspaceProps>(({ zoom, action, onSetZoom, margins }, ref) => {
+export const LetterheadWorkspace = forwardRef<HTMLDivElement, WorkspaceProps>(({ zoom, action, onSetZoom, margins, onSetMargins, pageSetup, unit, showRulers, guides, onSetGuides, snap, history, initialDocument, onDocumentChange, onTemplateChange, referenceSchemes, composerRoot, layersRoot, onCloseLayers, findRoot, onCloseFind, inspectorRoot, onBodyModeChange, onWatermarkChange, onSaveImageToLibrary }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const scaledRef = useRef<HTMLDivElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
 
   // Pinch to zoom logic
   useEffect(() => {
@@ -78,28 +100,211 @@ export const LetterheadWorkspace = forwardRef<HTMLDivElement, WorkspaceProps>(({
     };
   }, [zoom, onSetZoom]);
 
+  // ================= RULERS =================
+
+  // Page the rulers measure, where it is in the view, and its margin box in mm
+  const [ruler, setRuler] = useState<{
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    scale: number;
+    page: { width: number; height: number };
+    insideX: { start: number; end: number };
+    insideY: { start: number; end: number };
+  } | null>(null);
+
+  // A guide being dragged out of a ruler, at this screen position
+  const [newGuide, setNewGuide] = useState<{ axis: 'x' | 'y'; client: number } | null>(null);
+
+  const measureRuler = () => {
+    const container = containerRef.current;
+    if (!container || !showRulers) return;
+    const view = container.getBoundingClientRect();
+    const middle = view.top + container.clientHeight / 2;
+    // The page across the middle of the view, or the one nearest to it
+    const pages = Array.from(container.querySelectorAll<HTMLElement>('[data-page]'));
+    const page = pages.reduce<{ el: HTMLElement; rect: DOMRect; distance: number } | null>((best, el) => {
+      const rect = el.getBoundingClientRect();
+      const distance = middle < rect.top ? rect.top - middle : Math.max(0, middle - rect.bottom);
+      return !best || distance < best.distance ? { el, rect, distance } : best;
+    }, null);
+    const area = page?.el.querySelector<HTMLElement>('[data-block-area]');
+    const next = page && area && page.el.offsetWidth ? {
+      width: container.clientWidth,
+      height: container.clientHeight,
+      x: page.rect.left - view.left,
+      y: page.rect.top - view.top,
+      scale: page.rect.width / page.el.offsetWidth * PX_PER_MM,
+      page: { width: page.el.offsetWidth / PX_PER_MM, height: page.el.offsetHeight / PX_PER_MM },
+      insideX: { start: (area.offsetLeft + margins.left) / PX_PER_MM, end: (area.offsetLeft + area.offsetWidth - margins.right) / PX_PER_MM },
+      insideY: { start: (area.offsetTop + margins.top) / PX_PER_MM, end: (area.offsetTop + area.offsetHeight - margins.bottom) / PX_PER_MM },
+    } : null;
+    setRuler(prev => JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
+  };
+
+  useLayoutEffect(measureRuler);
+
+  // Scrolling, resizing, the zoom animation and pages being added all move the page
+  useEffect(() => {
+    const container = containerRef.current;
+    const scaled = scaledRef.current;
+    if (!container || !scaled || !showRulers) return;
+    const observer = new ResizeObserver(measureRuler);
+    observer.observe(container);
+    observer.observe(scaled);
+    container.addEventListener('scroll', measureRuler);
+    scaled.addEventListener('transitionend', measureRuler);
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('scroll', measureRuler);
+      scaled.removeEventListener('transitionend', measureRuler);
+    };
+  }, [showRulers, margins]);
+
+  // Dropping a guide dragged out of a ruler onto a page adds it there
+  useEffect(() => {
+    if (!newGuide) return;
+    const handleMouseMove = (e: MouseEvent) => setNewGuide({ axis: newGuide.axis, client: newGuide.axis === 'x' ? e.clientX : e.clientY });
+    const handleMouseUp = (e: MouseEvent) => {
+      setNewGuide(null);
+      const pages = Array.from(containerRef.current?.querySelectorAll<HTMLElement>('[data-page]') || []);
+      const hit = pageAtPoint(pages, e.clientX, e.clientY);
+      if (!hit) return;
+      const scale = hit.rect.width / hit.page.offsetWidth;
+      const at = newGuide.axis === 'x' ? (e.clientX - hit.rect.left) / scale : (e.clientY - hit.rect.top) / scale;
+      onSetGuides([...guides, { id: Date.now(), axis: newGuide.axis, at: Math.round(at * 10) / 10 }]);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [newGuide, guides, onSetGuides]);
+
+  // The top ruler makes horizontal guides, the side ruler vertical ones
+  const startGuide = (axis: 'x' | 'y') => (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    setNewGuide({ axis, client: axis === 'x' ? e.clientX : e.clientY });
+  };
+
+  // ================= FILE DROP =================
+
+  // Files from the desktop being dragged over the workspace, and the last ones dropped
+  const [fileDragging, setFileDragging] = useState(false);
+  const [fileDrop, setFileDrop] = useState<FileDrop | null>(null);
+
+  // Text and blocks dragged within the letter are left to the editor
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!draggingFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setFileDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!containerRef.current?.contains(e.relatedTarget as Node | null)) setFileDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!draggingFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    setFileDragging(false);
+    setFileDrop({ files: Array.from(e.dataTransfer.files), clientX: e.clientX, clientY: e.clientY });
+  };
+
+  const wrapperRect = newGuide && wrapperRef.current?.getBoundingClientRect();
+
   return (
-    <div 
-      ref={containerRef}
-      id="zoom-container"
-      className="flex-grow overflow-auto bg-[#404040] p-8 text-center touch-none flex items-start justify-center"
-      style={{
-        backgroundImage: 'radial-gradient(#4a4a4a 1px, transparent 1px)',
-        backgroundSize: '20px 20px'
-      }}
-    >
-      <div 
-        style={{ 
-          transform: `scale(${zoom})`,
-          transformOrigin: 'top center',
-          transition: 'transform 0.1s ease-out'
-        }}
-        className="shadow-2xl inline-block ring-1 ring-black/10"
-      >
-        <TajmirTemplate ref={ref} zoom={zoom} action={action} margins={margins} />
+    <div ref={wrapperRef} className="flex-grow flex flex-col min-w-0 min-h-0 relative">
+      {/* ===== Top Ruler ===== */}
+      {showRulers && ruler && (
+        <div className="hidden md:flex flex-shrink-0 bg-gray-300 border-b border-gray-400 no-print">
+          <div className="flex-shrink-0 bg-gray-300 border-r border-gray-400" style={{ width: RULER_SIZE, height: RULER_SIZE }} />
+          <Ruler axis="x" length={ruler.width} origin={ruler.x} scale={ruler.scale} unit={unit} page={ruler.page.width} inside={ruler.insideX} onMouseDown={startGuide('y')} />
+        </div>
+      )}
+
+      <div className="flex flex-grow min-h-0">
+        {/* ===== Side Ruler ===== */}
+        {showRulers && ruler && (
+          <div className="hidden md:block flex-shrink-0 bg-gray-300 border-r border-gray-400 no-print">
+            <Ruler axis="y" length={ruler.height} origin={ruler.y} scale={ruler.scale} unit={unit} page={ruler.page.height} inside={ruler.insideY} onMouseDown={startGuide('x')} />
+          </div>
+        )}
+
+        <div 
+          ref={containerRef}
+          id="zoom-container"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          className="flex-grow overflow-auto bg-[#404040] p-8 text-center touch-none flex items-start justify-center"
+          style={{
+            backgroundImage: 'radial-gradient(#4a4a4a 1px, transparent 1px)',
+            backgroundSize: '20px 20px'
+          }}
+        >
+          <div 
+            ref={scaledRef}
+            style={{ 
+              transform: `scale(${zoom})`,
+              transformOrigin: 'top center',
+              transition: 'transform 0.1s ease-out'
+            }}
+            className="inline-block"
+          >
+            <TajmirTemplate
+              ref={ref}
+              zoom={zoom}
+              action={action}
+              margins={margins}
+              onSetMargins={onSetMargins}
+              pageSetup={pageSetup}
+              showGuides={showRulers}
+              guides={guides}
+              onSetGuides={onSetGuides}
+              snap={snap}
+              history={history}
+              initialDocument={initialDocument}
+              onDocumentChange={onDocumentChange}
+              onTemplateChange={onTemplateChange}
+              referenceSchemes={referenceSchemes}
+              composerRoot={composerRoot}
+              layersRoot={layersRoot}
+              onCloseLayers={onCloseLayers}
+              findRoot={findRoot}
+              onCloseFind={onCloseFind}
+              inspectorRoot={inspectorRoot}
+              onBodyModeChange={onBodyModeChange}
+              onWatermarkChange={onWatermarkChange}
+              fileDrop={fileDrop}
+              onSaveImageToLibrary={onSaveImageToLibrary}
+            />
+          </div>
+        </div>
       </div>
+
+      {/* ===== Drop Zone ===== */}
+      {fileDragging && (
+        <div className="absolute inset-2 z-50 flex items-end justify-center pb-6 rounded-lg border-2 border-dashed border-blue-400 bg-blue-500/10 pointer-events-none no-print">
+          <span className="px-3 py-1.5 rounded bg-blue-600 text-white text-xs shadow">Drop images or .txt, .md and .html files to add them where you let go</span>
+        </div>
+      )}
+
+      {/* Guide being dragged out of a ruler */}
+      {newGuide && wrapperRect && (
+        <div
+          className="absolute bg-cyan-500 pointer-events-none z-50"
+          style={newGuide.axis === 'x'
+            ? { left: newGuide.client - wrapperRect.left, top: 0, bottom: 0, width: 1 }
+            : { top: newGuide.client - wrapperRect.top, left: 0, right: 0, height: 1 }}
+        />
+      )}
     </div>
   );
 });
 
-LetterheadWorkspace.displayName = 'LetterheadWorkspace';
\ No newline at end of file
+LetterheadWorkspace.displayName = 'LetterheadWorkspace';
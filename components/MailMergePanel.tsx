@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  XMarkIcon,
+  ArrowUpTrayIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  DocumentArrowDownIcon
+} from '@heroicons/react/24/outline';
+import { MergeData, MergeMapping, MergeOutput } from '../types';
+import { parseCSV, guessMapping, rowValues, formatFileName, DEFAULT_FILE_NAME_PATTERN } from '../utils/mailMerge';
+
+interface MailMergePanelProps {
+  /** Placeholder names found in the open letter */
+  placeholders: string[];
+  /** Rows exported so far while an export runs */
+  progress: { done: number; total: number } | null;
+  /** Show the letter filled in with these values, or the plain letter for null */
+  onPreview: (values: Record<string, string> | null) => void;
+  onExport: (data: MergeData, mapping: MergeMapping, output: MergeOutput, fileNamePattern: string) => void;
+  onClose: () => void;
+}
+
+// Side panel for importing a CSV, mapping its columns to {{placeholders}} and exporting every row
+export const MailMergePanel: React.FC<MailMergePanelProps> = ({ placeholders, progress, onPreview, onExport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<MergeData | null>(null);
+  const [mapping, setMapping] = useState<MergeMapping>({});
+  const [rowIndex, setRowIndex] = useState(0);
+  const [output, setOutput] = useState<MergeOutput>('combined');
+  const [pattern, setPattern] = useState(DEFAULT_FILE_NAME_PATTERN);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExporting = progress !== null;
+
+  // Keep the page preview on the selected row
+  useEffect(() => {
+    if (!isExporting) onPreview(data && data.rows.length ? rowValues(data, rowIndex, mapping) : null);
+  }, [data, rowIndex, mapping, isExporting]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const parsed = parseCSV(await file.text());
+    if (!parsed.rows.length) {
+      setError('The file has no data rows. The first row must hold the column names.');
+      return;
+    }
+    setError(null);
+    setFileName(file.name);
+    setData(parsed);
+    setMapping(guessMapping(placeholders, parsed.columns));
+    setRowIndex(0);
+    if (pattern === DEFAULT_FILE_NAME_PATTERN && parsed.columns[0]) setPattern(`{{${parsed.columns[0]}}}`);
+  };
+
+  const setColumn = (name: string, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (column) next[name] = column;
+      else delete next[name];
+      return next;
+    });
+  };
+
+  const rowCount = data?.rows.length || 0;
+  const unmapped = placeholders.filter(name => !mapping[name]);
+  const exampleName = data ? formatFileName(pattern, rowValues(data, rowIndex, mapping), rowIndex) : '';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex no-print">
+      {/* The letter stays visible but can't be edited while previewing */}
+      <div className="flex-1 bg-black/10" onClick={() => !isExporting && onClose()} />
+      <div className="w-full max-w-sm h-full bg-white shadow-2xl flex flex-col text-left text-gray-800">
+        {/* ===== Header ===== */}
+        <div className="flex items-center justify-between p-3 border-b border-gray-200">
+          <h2 className="font-semibold text-sm">Mail Merge</h2>
+          <button onClick={onClose} disabled={isExporting} className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30 cursor-pointer" title="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-5 text-sm">
+          {/* ===== Data ===== */}
+          <section className="space-y-2">
+            <h3 className="text-[11px] font-semibold uppercase text-gray-500">1. Data</h3>
+            <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,text/csv,text/plain" className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isExporting}
+              className="flex items-center gap-2 px-3 py-1.5 rounded border border-gray-300 hover:bg-gray-50 text-xs font-medium cursor-pointer disabled:opacity-50"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              {data ? 'Choose another CSV' : 'Import CSV'}
+            </button>
+            {data && <p className="text-xs text-gray-500">{fileName}: {rowCount} rows, {data.columns.length} columns</p>}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </section>
+
+          {/* ===== Fields ===== */}
+          <section className="space-y-2">
+            <h3 className="text-[11px] font-semibold uppercase text-gray-500">2. Fields</h3>
+            {placeholders.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                The letter has no merge fields. Type a column name in double braces, e.g. <code className="bg-gray-100 px-1 rounded">{'{{Company}}'}</code>, in the body, header, footer or a text box.
+              </p>
+            ) : (
+              <table className="w-full text-xs">
+                <tbody>
+                  {placeholders.map(name => (
+                    <tr key={name}>
+                      <td className="py-1 pr-2 font-mono text-gray-700 break-all">{`{{${name}}}`}</td>
+                      <td className="py-1">
+                        <select
+                          value={mapping[name] || ''}
+                          onChange={e => setColumn(name, e.target.value)}
+                          disabled={!data || isExporting}
+                          className="w-full h-7 border border-gray-300 rounded bg-white text-black"
+                        >
+                          <option value="">— not filled —</option>
+                          {data?.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {data && unmapped.length > 0 && (
+              <p className="text-xs text-amber-700">Not filled: {unmapped.map(n => `{{${n}}}`).join(', ')}</p>
+            )}
+          </section>
+
+          {/* ===== Preview ===== */}
+          {data && (
+            <section className="space-y-2">
+              <h3 className="text-[11px] font-semibold uppercase text-gray-500">3. Preview</h3>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setRowIndex(i => Math.max(i - 1, 0))}
+                  disabled={rowIndex === 0 || isExporting}
+                  className="p-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-30 cursor-pointer"
+                  title="Previous row"
+                >
+                  <ChevronLeftIcon className="w-4 h-4" />
+                </button>
+                <span className="text-xs">Row {rowIndex + 1} of {rowCount}</span>
+                <button
+                  onClick={() => setRowIndex(i => Math.min(i + 1, rowCount - 1))}
+                  disabled={rowIndex >= rowCount - 1 || isExporting}
+                  className="p-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-30 cursor-pointer"
+                  title="Next row"
+                >
+                  <ChevronRightIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </section>
+          )}
+
+          {/* ===== Output ===== */}
+          {data && (
+            <section className="space-y-2">
+              <h3 className="text-[11px] font-semibold uppercase text-gray-500">4. Output</h3>
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input type="radio" checked={output === 'combined'} onChange={() => setOutput('combined')} disabled={isExporting} />
+                One PDF with every letter
+              </label>
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input type="radio" checked={output === 'zip'} onChange={() => setOutput('zip')} disabled={isExporting} />
+                ZIP with one PDF per row
+              </label>
+              {output === 'zip' && (
+                <div className="space-y-1 pt-1">
+                  <label className="block text-xs text-gray-600">File name</label>
+                  <input
+                    value={pattern}
+                    onChange={e => setPattern(e.target.value)}
+                    disabled={isExporting}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono bg-white text-black"
+                  />
+                  <p className="text-[11px] text-gray-500">
+                    Use <code>{'{{Column}}'}</code> for row values and <code>{'{{#}}'}</code> for the row number. e.g. <span className="font-mono">{exampleName}</span>
+                  </p>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        {/* ===== Footer ===== */}
+        <div className="p-3 border-t border-gray-200">
+          <button
+            onClick={() => data && onExport(data, mapping, output, pattern)}
+            disabled={!data || isExporting}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 cursor-pointer disabled:cursor-default"
+          >
+            <DocumentArrowDownIcon className="w-5 h-5" />
+            {progress ? `Exporting ${progress.done} / ${progress.total}…` : `Export ${rowCount || ''} letters`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { ReferenceScheme } from '../types';
+import { formatReference } from '../utils/letterFields';
+
+interface NumberingDialogProps {
+  templateName: string;
+  year: number;
+  scheme: ReferenceScheme;
+  /** Last number issued this year for the template */
+  lastIssued: number;
+  onSave: (scheme: ReferenceScheme, nextNumber: number) => void;
+  onClose: () => void;
+}
+
+// Reference number settings for one letterhead
+export const NumberingDialog: React.FC<NumberingDialogProps> = ({ templateName, year, scheme, lastIssued, onSave, onClose }) => {
+  const [prefix, setPrefix] = useState(scheme.prefix);
+  const [department, setDepartment] = useState(scheme.department);
+  const [padding, setPadding] = useState(scheme.padding);
+  const [nextNumber, setNextNumber] = useState(lastIssued + 1);
+
+  const draft: ReferenceScheme = { prefix, department, padding };
+  const reusesNumbers = nextNumber <= lastIssued;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft, nextNumber);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/30 no-print" onClick={onClose}>
+      <form
+        onSubmit={handleSave}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-sm bg-white rounded-lg shadow-2xl text-left text-gray-800"
+      >
+        {/* ===== Header ===== */}
+        <div className="flex items-center justify-between p-3 border-b border-gray-200">
+          <div>
+            <h2 className="font-semibold text-sm">Reference Numbering</h2>
+            <p className="text-[11px] text-gray-500">{templateName}</p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100 cursor-pointer" title="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* ===== Fields ===== */}
+        <div className="p-3 grid grid-cols-2 gap-3 text-xs">
+          <label className="space-y-1">
+            <span className="block text-gray-600">Prefix</span>
+            <input value={prefix} onChange={e => setPrefix(e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded bg-white text-black" />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-600">Department</span>
+            <input value={department} onChange={e => setDepartment(e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded bg-white text-black" />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-600">Counter digits</span>
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={padding}
+              onChange={e => setPadding(Math.min(8, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-full px-2 py-1 border border-gray-300 rounded bg-white text-black"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-600">Next number ({year})</span>
+            <input
+              type="number"
+              min={1}
+              value={nextNumber}
+              onChange={e => setNextNumber(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-full px-2 py-1 border border-gray-300 rounded bg-white text-black"
+            />
+          </label>
+        </div>
+
+        <div className="px-3 pb-3 space-y-1 text-xs">
+          <p>Next reference: <span className="font-mono font-semibold">{formatReference(draft, year, nextNumber)}</span></p>
+          <p className="text-[11px] text-gray-500">The counter starts again at 1 every January. Numbers are issued when a letter is exported to PDF.</p>
+          {reusesNumbers && (
+            <p className="text-[11px] text-amber-700">Numbers up to {lastIssued} were already issued this year; going back may repeat a reference.</p>
+          )}
+        </div>
+
+        {/* ===== Actions ===== */}
+        <div className="flex justify-end gap-2 p-3 border-t border-gray-200">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded text-xs text-gray-700 hover:bg-gray-100 cursor-pointer">Cancel</button>
+          <button type="submit" className="px-3 py-1.5 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 cursor-pointer">Save</button>
+        </div>
+      </form>
+    </div>
+  );
+};
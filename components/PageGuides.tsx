@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Margins, RulerGuide } from '../types';
+import { PX_PER_MM } from '../utils/assetLibrary';
+import { GUIDE_ATTR } from '../utils/rulers';
+
+// The margin box always leaves at least this much room for the letter, px
+const MIN_BOX = 20 * PX_PER_MM;
+
+// Pressing this close to a line grabs it, in page px either side
+const HIT = 3;
+
+interface MarginGuidesProps {
+  margins: Margins;
+  zoom: number;
+  onSetMargins: (margins: Margins) => void;
+}
+
+// Dashed margin box inside a page's body area; dragging an edge moves that margin
+export const MarginGuides: React.FC<MarginGuidesProps> = ({ margins, zoom, onSetMargins }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ side: keyof Margins; x: number; y: number; start: Margins; width: number; height: number } | null>(null);
+  const [draft, setDraft] = useState<Margins | null>(null);
+  const box = draft || margins;
+
+  useEffect(() => {
+    if (!drag) return;
+    const horizontal = drag.side === 'left' || drag.side === 'right';
+    const next = (e: MouseEvent): Margins => {
+      const d = horizontal ? (e.clientX - drag.x) / zoom : (e.clientY - drag.y) / zoom;
+      const opposite = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' }[drag.side] as keyof Margins;
+      const limit = (horizontal ? drag.width : drag.height) - drag.start[opposite] - MIN_BOX;
+      const value = drag.start[drag.side] + (drag.side === 'left' || drag.side === 'top' ? d : -d);
+      return { ...drag.start, [drag.side]: Math.round(Math.min(limit, Math.max(0, value))) };
+    };
+    const handleMouseMove = (e: MouseEvent) => setDraft(next(e));
+    const handleMouseUp = (e: MouseEvent) => {
+      const result = next(e);
+      if (result[drag.side] !== drag.start[drag.side]) onSetMargins(result);
+      setDrag(null);
+      setDraft(null);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, zoom, onSetMargins]);
+
+  const handleMouseDown = (side: keyof Margins) => (e: React.MouseEvent) => {
+    const area = ref.current?.parentElement;
+    if (e.button !== 0 || !area) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ side, x: e.clientX, y: e.clientY, start: margins, width: area.clientWidth, height: area.clientHeight });
+  };
+
+  // Hit strip along one edge of the margin box
+  const edge = (side: keyof Margins) => {
+    const horizontal = side === 'left' || side === 'right';
+    return (
+      <div
+        key={side}
+        onMouseDown={handleMouseDown(side)}
+        className={`absolute pointer-events-auto ${horizontal ? 'cursor-col-resize' : 'cursor-row-resize'}`}
+        style={horizontal
+          ? { [side]: box[side] - HIT, top: box.top, bottom: box.bottom, width: HIT * 2 }
+          : { [side]: box[side] - HIT, left: box.left, right: box.right, height: HIT * 2 }}
+        title={`Drag to change the ${side} margin`}
+      />
+    );
+  };
+
+  return (
+    <div ref={ref} className="absolute inset-0 pointer-events-none no-print z-[5]" data-html2canvas-ignore="true">
+      <div
+        className={`absolute border border-dashed ${drag ? 'border-blue-500' : 'border-blue-300/70'}`}
+        style={{ top: box.top, right: box.right, bottom: box.bottom, left: box.left }}
+      />
+      {(['top', 'right', 'bottom', 'left'] as (keyof Margins)[]).map(edge)}
+    </div>
+  );
+};
+
+interface RulerGuidesProps {
+  guides: RulerGuide[];
+  zoom: number;
+  onChange: (guides: RulerGuide[]) => void;
+}
+
+// Guides dragged out of the rulers, across the whole page; dragging one off the page removes it
+export const RulerGuides: React.FC<RulerGuidesProps> = ({ guides, zoom, onChange }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ id: number; client: number; start: number; size: number } | null>(null);
+  const [draft, setDraft] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!drag) return;
+    const guide = guides.find(g => g.id === drag.id);
+    if (!guide) return;
+    const next = (e: MouseEvent) => drag.start + ((guide.axis === 'x' ? e.clientX : e.clientY) - drag.client) / zoom;
+    const handleMouseMove = (e: MouseEvent) => setDraft(next(e));
+    const handleMouseUp = (e: MouseEvent) => {
+      const at = next(e);
+      if (at < 0 || at > drag.size) onChange(guides.filter(g => g.id !== drag.id));
+      else if (at !== drag.start) onChange(guides.map(g => g.id === drag.id ? { ...g, at } : g));
+      setDrag(null);
+      setDraft(null);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, guides, zoom, onChange]);
+
+  const handleMouseDown = (guide: RulerGuide) => (e: React.MouseEvent) => {
+    const page = ref.current;
+    if (e.button !== 0 || !page) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({
+      id: guide.id,
+      client: guide.axis === 'x' ? e.clientX : e.clientY,
+      start: guide.at,
+      size: guide.axis === 'x' ? page.offsetWidth : page.offsetHeight,
+    });
+  };
+
+  return (
+    <div ref={ref} className="absolute inset-0 pointer-events-none no-print z-20" data-html2canvas-ignore="true">
+      {guides.map(guide => {
+        const at = drag?.id === guide.id && draft !== null ? draft : guide.at;
+        return (
+          <div
+            key={guide.id}
+            {...{ [GUIDE_ATTR]: guide.axis, 'data-guide-at': at }}
+            onMouseDown={handleMouseDown(guide)}
+            className={`absolute flex justify-center pointer-events-auto ${guide.axis === 'x' ? 'top-0 bottom-0 cursor-col-resize' : 'left-0 right-0 flex-col cursor-row-resize'}`}
+            style={guide.axis === 'x' ? { left: at - HIT, width: HIT * 2 } : { top: at - HIT, height: HIT * 2 }}
+            title="Drag to move, or off the page to remove"
+          >
+            <div className={`bg-cyan-500 ${guide.axis === 'x' ? 'w-px h-full' : 'h-px w-full'}`} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
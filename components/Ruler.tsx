@@ -0,0 +1,65 @@
+import React from 'react';
+import { MeasureUnit } from '../types';
+import { RULER_SIZE, rulerTicks } from '../utils/rulers';
+
+interface RulerProps {
+  axis: 'x' | 'y';
+  /** Length of the ruler on screen, px */
+  length: number;
+  /** Where the page edge is along the ruler, screen px */
+  origin: number;
+  /** Screen px per mm */
+  scale: number;
+  unit: MeasureUnit;
+  /** Page size along the ruler and the margin box on it, mm from the page edge */
+  page: number;
+  inside: { start: number; end: number };
+  /** Pressing on the ruler starts dragging out a guide */
+  onMouseDown: (e: React.MouseEvent) => void;
+}
+
+const TICK_LENGTH = { major: 10, medium: 6, minor: 3 };
+
+// A horizontal or vertical ruler in the page's coordinates: grey off the page and in
+// the margins, white inside the margin box
+export const Ruler: React.FC<RulerProps> = ({ axis, length, origin, scale, unit, page, inside, onMouseDown }) => {
+  const horizontal = axis === 'x';
+  const ticks = rulerTicks(unit, -origin / scale, (length - origin) / scale, scale);
+  const at = (mm: number) => origin + mm * scale;
+
+  // A span along the ruler, across its full thickness
+  const band = (start: number, end: number, fill: string) => horizontal
+    ? <rect x={at(start)} y={0} width={Math.max(0, (end - start) * scale)} height={RULER_SIZE} fill={fill} />
+    : <rect x={0} y={at(start)} width={RULER_SIZE} height={Math.max(0, (end - start) * scale)} fill={fill} />;
+
+  return (
+    <svg
+      width={horizontal ? length : RULER_SIZE}
+      height={horizontal ? RULER_SIZE : length}
+      onMouseDown={onMouseDown}
+      className={`block flex-shrink-0 select-none ${horizontal ? 'cursor-row-resize' : 'cursor-col-resize'}`}
+    >
+      <title>Drag onto the page to add a guide</title>
+      {band(-origin / scale, (length - origin) / scale, '#d1d5db')}
+      {band(0, page, '#f3f4f6')}
+      {band(inside.start, inside.end, '#ffffff')}
+      {ticks.map(tick => {
+        const pos = Math.round(at(tick.at)) + 0.5;
+        const size = TICK_LENGTH[tick.size];
+        return (
+          <g key={tick.at}>
+            {horizontal
+              ? <line x1={pos} x2={pos} y1={RULER_SIZE - size} y2={RULER_SIZE} stroke="#6b7280" />
+              : <line y1={pos} y2={pos} x1={RULER_SIZE - size} x2={RULER_SIZE} stroke="#6b7280" />}
+            {tick.label && (horizontal
+              ? <text x={pos + 2} y={9} fontSize={9} fill="#4b5563">{tick.label}</text>
+              : <text x={9} y={pos + 2} fontSize={9} fill="#4b5563" transform={`rotate(-90 9 ${pos + 2})`}>{tick.label}</text>)}
+          </g>
+        );
+      })}
+      {horizontal
+        ? <line x1={0} x2={length} y1={RULER_SIZE - 0.5} y2={RULER_SIZE - 0.5} stroke="#9ca3af" />
+        : <line y1={0} y2={length} x1={RULER_SIZE - 0.5} x2={RULER_SIZE - 0.5} stroke="#9ca3af" />}
+    </svg>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Guide } from '../utils/snapping';
+
+interface SnapGuidesProps {
+  guides: Guide[];
+  /** Position of the dragged block, which the guides are drawn inside */
+  position: { x: number; y: number };
+}
+
+// Alignment lines across the page while a block is dragged; the page clips them
+export const SnapGuides: React.FC<SnapGuidesProps> = ({ guides, position }) => (
+  <>
+    {guides.map(guide => (
+      <div
+        key={`${guide.axis}${guide.at}`}
+        className="absolute bg-pink-500 pointer-events-none no-print z-50"
+        style={guide.axis === 'x'
+          ? { left: guide.at - position.x, top: -position.y, width: 1, height: 4000 }
+          : { top: guide.at - position.y, left: -position.x, height: 1, width: 2000 }}
+      />
+    ))}
+  </>
+);
@@ -0,0 +1,139 @@
+import React from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { TableBorders, TableCommand, TableState } from '../types';
+import { TABLE_BORDERS } from '../utils/tables';
+
+interface TableToolbarProps {
+  table: TableState;
+  onCommand: (command: TableCommand) => void;
+}
+
+const COLUMN_WIDTHS = [10, 15, 20, 25, 30, 35, 40, 50, 60, 70, 80];
+
+// Contextual row under the formatting controls while the caret is in a table
+export const TableToolbar: React.FC<TableToolbarProps> = ({ table, onCommand }) => {
+  const TextBtn = ({ command, label, title, active = false, disabled = false }: {
+    command: TableCommand,
+    label: string,
+    title: string,
+    active?: boolean,
+    disabled?: boolean
+  }) => (
+    <button
+      onMouseDown={(e) => {
+        // Keep the caret in the table
+        e.preventDefault();
+        onCommand(command);
+      }}
+      disabled={disabled}
+      className={`h-7 px-2 rounded text-xs whitespace-nowrap cursor-pointer disabled:opacity-30 disabled:cursor-default ${active ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-200'}`}
+      title={title}
+      type="button"
+    >
+      {label}
+    </button>
+  );
+
+  const widths = COLUMN_WIDTHS.includes(table.columnWidth)
+    ? COLUMN_WIDTHS
+    : [...COLUMN_WIDTHS, table.columnWidth].sort((a, b) => a - b);
+
+  return (
+    <div className="flex items-center px-2 py-1 gap-1.5 overflow-x-auto bg-blue-50/60 border-t border-gray-200 no-scrollbar">
+      <span className="text-[10px] font-semibold uppercase text-blue-700 flex-shrink-0">Table</span>
+
+      <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm flex-shrink-0">
+        <TextBtn command={{ type: 'rowAbove' }} label="+ Row above" title="Insert Row Above" disabled={!table.canInsertRow} />
+        <TextBtn command={{ type: 'rowBelow' }} label="+ Row below" title="Insert Row Below (Tab in the last cell)" disabled={!table.canInsertRow} />
+        {!table.fixedLayout && <TextBtn command={{ type: 'columnLeft' }} label="+ Col left" title="Insert Column Left" />}
+        {!table.fixedLayout && <TextBtn command={{ type: 'columnRight' }} label="+ Col right" title="Insert Column Right" />}
+      </div>
+
+      <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm flex-shrink-0">
+        <TextBtn command={{ type: 'deleteRow' }} label="− Row" title="Delete Row" />
+        {!table.fixedLayout && <TextBtn command={{ type: 'deleteColumn' }} label="− Col" title="Delete Column" />}
+      </div>
+
+      {/* Columns and cells of a fixed-layout table, like a quotation, stay as they are */}
+      {!table.fixedLayout && (
+        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm flex-shrink-0">
+          <TextBtn command={{ type: 'mergeCells' }} label="Merge" title="Merge Selected Cells" disabled={!table.canMerge} />
+          <TextBtn command={{ type: 'splitCell' }} label="Split" title="Split Merged Cell" disabled={!table.canSplit} />
+          <TextBtn
+            command={{ type: 'toggleHeaderRow' }}
+            label="Header row"
+            title="Repeat this row (and the rows above it) at the top of every page"
+            active={table.isHeaderRow}
+          />
+        </div>
+      )}
+
+      <select
+        value={table.borders}
+        onChange={e => onCommand({ type: 'borders', value: e.target.value as TableBorders })}
+        className="h-7 pl-1 pr-6 border border-gray-300 rounded text-xs text-gray-700 bg-white cursor-pointer flex-shrink-0"
+        title="Borders"
+      >
+        {TABLE_BORDERS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+      </select>
+
+      <label className="relative flex items-center gap-1 h-7 px-1.5 bg-white border border-gray-300 rounded text-xs text-gray-700 cursor-pointer flex-shrink-0" title="Border Colour">
+        <span className="w-3.5 h-3.5 rounded-sm border border-gray-300" style={{ backgroundColor: table.borderColor }}></span>
+        Lines
+        <input
+          type="color"
+          value={table.borderColor}
+          onChange={e => onCommand({ type: 'borderColor', value: e.target.value })}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        />
+      </label>
+
+      <div className="flex items-center h-7 bg-white border border-gray-300 rounded text-xs text-gray-700 flex-shrink-0">
+        <label className="relative flex items-center gap-1 h-full px-1.5 cursor-pointer" title="Cell Shading">
+          <span className="w-3.5 h-3.5 rounded-sm border border-gray-300" style={{ backgroundColor: table.shading || 'transparent' }}></span>
+          Shading
+          <input
+            type="color"
+            value={table.shading || '#ffffff'}
+            onChange={e => onCommand({ type: 'shading', value: e.target.value })}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </label>
+        <button
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onCommand({ type: 'shading', value: '' });
+          }}
+          disabled={!table.shading}
+          className="h-full px-1.5 border-l border-gray-200 hover:bg-gray-100 disabled:opacity-30 cursor-pointer disabled:cursor-default"
+          title="No Shading"
+          type="button"
+        >
+          ×
+        </button>
+      </div>
+
+      <select
+        value={String(table.columnWidth)}
+        onChange={e => onCommand({ type: 'columnWidth', value: parseInt(e.target.value, 10) })}
+        className="h-7 pl-1 pr-6 border border-gray-300 rounded text-xs text-gray-700 bg-white cursor-pointer flex-shrink-0"
+        title="Column Width (% of the table)"
+      >
+        {widths.map(w => <option key={w} value={String(w)}>Col {w}%</option>)}
+      </select>
+
+      <button
+        onMouseDown={(e) => {
+          e.preventDefault();
+          onCommand({ type: 'deleteTable' });
+        }}
+        className="flex items-center gap-1 h-7 px-2 rounded text-xs text-red-600 hover:bg-red-50 cursor-pointer flex-shrink-0"
+        title="Delete Table"
+        type="button"
+      >
+        <TrashIcon className="w-4 h-4" />
+        <span className="hidden md:inline">Delete table</span>
+      </button>
+    </div>
+  );
+};
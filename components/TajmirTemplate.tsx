@@ -1,280 +1,991 @@
-import React, { forwardRef, useState, useEffect, useRef } from 'react';
+import React, { forwardRef, useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
+import { createPortal } from 'react-dom';
 import { DraggableText } from './DraggableText';
 import { DraggableImage } from './DraggableImage';
-
-interface Margins {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
-}
+import { LetterheadHeader } from './LetterheadHeader';
+import { LetterheadFooter } from './LetterheadFooter';
+import { ComposerPanel } from './ComposerPanel';
+import { LayersPanel } from './LayersPanel';
+import { FindReplacePanel } from './FindReplacePanel';
+import { InspectorPanel, InspectorOrigin } from './InspectorPanel';
+import { MarginGuides, RulerGuides } from './PageGuides';
+import { WatermarkLayer } from './WatermarkLayer';
+import {
+  reflowBodies,
+  serializeBodies,
+  saveCaret,
+  restoreCaret,
+  placeCaret,
+  isCaretAtEdge,
+  isPageBreak,
+  insertPageBreak
+} from '../utils/pagination';
+import { createTextBlock, createImageBlock } from '../utils/documentModel';
+import { HistoryStack } from '../utils/history';
+import { getTemplate, pageLetterhead } from '../templates/registry';
+import { renderComposedLetter, isComposerEmpty } from '../utils/letterComposer';
+import { applyFormat, getEditingHost, getEditorRange, RICH_TEXT_CLASS } from '../utils/richText';
+import { applyTableCommand, tableWidthFor } from '../utils/tables';
+import { insertInvoice, recalculateInvoices } from '../utils/invoice';
+import { PX_PER_MM, findAssetPlacement } from '../utils/assetLibrary';
+import { pageDimensions } from '../utils/pageSetup';
+import { hostOf, replaceRange } from '../utils/findReplace';
+import { fitImage, inlineOnly, insertPasted, plainTextFragment, readDataUrl, sanitizePastedHtml, transferImages } from '../utils/paste';
+import { droppedFileKind, droppedTextHtml } from '../utils/dropFiles';
+import { pageAtPoint } from '../utils/rulers';
+import { loadImage } from '../utils/imageProcessing';
+import { AlignMode, LAYER_ATTR, STACK_MOVES, StackMove, ALIGN_MODES, alignShifts, allLayers, layerKey, measureLayers, pageLayers, patchLayers, restack, topZ, withGroups } from '../utils/layers';
+import { resolveFieldValues, referenceSchemeFor, fillFieldElements, fillDocumentFields, fillPageNumbers, createFieldToken } from '../utils/letterFields';
+import { EditorAction, Margins, PageSetup, RulerGuide, SnapSettings, LetterDocument, StoredDocument, ReferenceScheme, BodyMode, ComposedLetter, HeaderFields, FooterFields, TextBlock, ImageBlock, BlockPosition, FormatCommand, TableCommand, LibraryAsset, Watermark, FileDrop } from '../types';
 
 interface TajmirTemplateProps {
   zoom: number;
-  action: { type: string; payload?: any } | null;
+  action: EditorAction | null;
   margins: Margins;
+  onSetMargins: (margins: Margins) => void;
+  pageSetup: PageSetup;
+  /** The margin box and ruler guides on the page */
+  showGuides: boolean;
+  guides: RulerGuide[];
+  onSetGuides: (guides: RulerGuide[]) => void;
+  snap: SnapSettings;
+  history: HistoryStack;
+  /** Document shown on mount; later documents are opened with a LOAD_DOCUMENT action */
+  initialDocument: StoredDocument;
+  onDocumentChange: (id: string, doc: LetterDocument) => void;
+  onTemplateChange: (templateId: string) => void;
+  /** Numbering changed in the Numbering dialog, by template id */
+  referenceSchemes: Record<string, ReferenceScheme>;
+  /** Element beside the workspace that the composer form is rendered into */
+  composerRoot: HTMLElement | null;
+  /** Element the layers panel is rendered into; null while the panel is closed */
+  layersRoot: HTMLElement | null;
+  onCloseLayers: () => void;
+  /** Element the find and replace panel is rendered into; null while the panel is closed */
+  findRoot: HTMLElement | null;
+  onCloseFind: () => void;
+  /** Element the inspector for the selected block is rendered into */
+  inspectorRoot: HTMLElement | null;
+  onBodyModeChange: (mode: BodyMode) => void;
+  onWatermarkChange: (watermark: Watermark) => void;
+  /** Files last dropped on the workspace, for the template to add as blocks */
+  fileDrop: FileDrop | null;
+  /** "Save to library" on an image block */
+  onSaveImageToLibrary: (block: ImageBlock) => void;
 }
 
-export const TajmirTemplate = forwardRef<HTMLDivElement, TajmirTemplateProps>(({ zoom, action, margins }, ref) => {
-  // Draggable State
-  const [textBlocks, setTextBlocks] = useState<Array<{ id: number, x: number, y: number }>>([]);
-  const [imageBlocks, setImageBlocks] = useState<Array<{ id: number, src: string, x: number, y: number }>>([]);
-  
-  // Refs for persistent content
-  const bodyRef = useRef<HTMLDivElement>(null);
-  const headerH1Ref = useRef<HTMLHeadingElement>(null);
-  const headerH2Ref = useRef<HTMLHeadingElement>(null);
-  const headerSubRef = useRef<HTMLParagraphElement>(null);
-  const footerTitleRef = useRef<HTMLHeadingElement>(null);
-  const footerAddr1Ref = useRef<HTMLParagraphElement>(null);
-  const footerAddr2Ref = useRef<HTMLParagraphElement>(null);
-  const footerPhoneRef = useRef<HTMLParagraphElement>(null);
-
-  // Load Content from LocalStorage on Mount
-  useEffect(() => {
-    const loadContent = (key: string, ref: React.RefObject<HTMLElement | null>) => {
-      const saved = localStorage.getItem(key);
-      if (saved && ref.current) {
-        ref.current.innerHTML = saved;
-      }
-    };
+export const TajmirTemplate = forwardRef<HTMLDivElement, TajmirTemplateProps>(({ zoom, action, margins, onSetMargins, pageSetup, showGuides, guides, onSetGuides, snap, history, initialDocument, onDocumentChange, onTemplateChange, referenceSchemes, composerRoot, layersRoot, onCloseLayers, findRoot, onCloseFind, inspectorRoot, onBodyModeChange, onWatermarkChange, fileDrop, onSaveImageToLibrary }, ref) => {
+  // The whole letter: header/footer fields, body HTML and draggable blocks
+  const [doc, setDoc] = useState<LetterDocument>(initialDocument.doc);
+  const docIdRef = useRef(initialDocument.meta.id);
+  const template = getTemplate(doc.templateId);
+
+  // Text of the reference number / date tokens, derived from doc.fields
+  const fieldValues = resolveFieldValues(doc.fields, referenceSchemeFor(template, referenceSchemes));
+  const fieldValuesKey = JSON.stringify(fieldValues);
+  const referenceSchemesRef = useRef(referenceSchemes);
+  referenceSchemesRef.current = referenceSchemes;
+
+  // Undo tracking: edits label themselves via recordChange before updating `doc`;
+  // unlabelled updates (reflow, undo/redo itself) are not recorded.
+  // Only labelled edits and undo/redo are saved, so opening a letter does not touch it.
+  const lastDocRef = useRef(doc);
+  const persistNextRef = useRef(false);
+
+  // Letter as it was before a mail merge preview replaced it with a filled-in copy
+  const mergeBaseRef = useRef<LetterDocument | null>(null);
+  const pendingChangeRef = useRef<{ label: string; mergeKey?: string } | null>(null);
+  const recordChange = (label: string, mergeKey?: string) => {
+    pendingChangeRef.current = { label, mergeKey };
+  };
+
+  // Pagination State
+  const [bodyPages, setBodyPages] = useState(1);
+  const [activePage, setActivePage] = useState(0);
+  const bodyRefs = useRef<Array<HTMLDivElement | null>>([]);
+  const pageRefs = useRef<Array<HTMLDivElement | null>>([]);
+  // Page count before the last reflow added a page, see runReflow
+  const grewFromRef = useRef<number | null>(null);
+
+  const blockPages = Math.max(0, ...doc.textBlocks.map(b => b.page + 1), ...doc.imageBlocks.map(b => b.page + 1));
+  const pageCount = Math.max(bodyPages, blockPages, 1);
 
-    loadContent('tajmir_doc_main_body', bodyRef);
-    loadContent('tajmir_doc_header_h1', headerH1Ref);
-    loadContent('tajmir_doc_header_h2', headerH2Ref);
-    loadContent('tajmir_doc_header_sub', headerSubRef);
-    loadContent('tajmir_doc_footer_title', footerTitleRef);
-    loadContent('tajmir_doc_footer_addr1', footerAddr1Ref);
-    loadContent('tajmir_doc_footer_addr2', footerAddr2Ref);
-    loadContent('tajmir_doc_footer_phone', footerPhoneRef);
-
-    // Load Draggables
-    try {
-      const savedTextBlocks = localStorage.getItem('tajmir_doc_draggables_text');
-      if (savedTextBlocks) setTextBlocks(JSON.parse(savedTextBlocks));
-      
-      const savedImageBlocks = localStorage.getItem('tajmir_doc_draggables_img');
-      if (savedImageBlocks) setImageBlocks(JSON.parse(savedImageBlocks));
-    } catch(e) { console.error("Error loading blocks", e); }
+  const getBodies = () => bodyRefs.current.slice(0, pageCount).filter((b): b is HTMLDivElement => !!b);
 
+  // Selected text and image blocks, by layer key (see utils/layers)
+  const [selection, setSelection] = useState<string[]>([]);
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+  // A selected block being dragged; the rest of the selection follows it
+  const [dragOffset, setDragOffset] = useState<{ key: string; dx: number; dy: number } | null>(null);
+  // Selection box drawn from the page margin, in body area px
+  const [marquee, setMarquee] = useState<{ page: number; x0: number; y0: number; x1: number; y1: number; additive: boolean } | null>(null);
+  const marqueeAreaRef = useRef<HTMLElement | null>(null);
+  const [inspectorOrigin, setInspectorOrigin] = useState<InspectorOrigin>('margins');
+  const [inspectorMetrics, setInspectorMetrics] = useState<{ areaTop: number; width: number; height: number } | null>(null);
+
+  // Moves body content between pages and stores the joined result in the document
+  const runReflow = useCallback(() => {
+    const bodies = bodyRefs.current.slice(0, pageCount).filter((b): b is HTMLDivElement => !!b);
+    if (!bodies.length) return;
+
+    // Quotation totals follow every change to the body, including undo and mail merge previews
+    recalculateInvoices(bodies);
+    const caret = saveCaret(bodies);
+    let needed = reflowBodies(bodies, caret);
+    restoreCaret(caret);
+
+    // Later pages can have a slimmer letterhead than the last one. Adding a page can
+    // then make the content fit one page less, where it overflows again: keep the page.
+    const grewFrom = grewFromRef.current;
+    grewFromRef.current = needed > bodies.length ? bodies.length : null;
+    if (grewFrom !== null && needed === grewFrom && bodies.length === grewFrom + 1) needed = bodies.length;
+
+    setBodyPages(needed);
+    const body = serializeBodies(bodies);
+    setDoc(prev => prev.body === body ? prev : { ...prev, body });
+  }, [pageCount]);
+
+  const runReflowRef = useRef(runReflow);
+  runReflowRef.current = runReflow;
+
+  // Replaces the document, e.g. on undo/redo. The body DOM is rewritten and re-paginated.
+  const applyDoc = useCallback((next: LetterDocument, persist = true) => {
+    persistNextRef.current = persist;
+    next = fillDocumentFields(next, resolveFieldValues(next.fields, referenceSchemeFor(getTemplate(next.templateId), referenceSchemesRef.current)));
+    if (next.body !== lastDocRef.current.body) {
+      bodyRefs.current.forEach((body, index) => {
+        if (body) body.innerHTML = index === 0 ? next.body : '';
+      });
+    }
+    setDoc(next);
+    runReflowRef.current();
   }, []);
 
-  // Save Draggables when changed
+  // Load the body into the first page on mount; reflow spreads it over the rest
+  useLayoutEffect(() => {
+    if (bodyRefs.current[0]) {
+      bodyRefs.current[0].innerHTML = doc.body;
+    }
+  }, []);
+
+  const page = pageDimensions(pageSetup);
+
+  // Re-paginate whenever pages are added/removed or the margin box / paper / letterhead changes
+  useLayoutEffect(() => {
+    runReflow();
+  }, [runReflow, margins, pageSetup, doc.templateId]);
+
+  // Page numbers depend on where each token ends up, so they are filled on the pages after every render
+  useLayoutEffect(() => {
+    pageRefs.current.slice(0, pageCount).forEach((el, index) => {
+      if (el) fillPageNumbers(el, index, pageCount);
+    });
+  });
+
+  // Composed letters: the body is laid out from the form and can't be edited directly
+  const composedHtml = useMemo(
+    () => doc.bodyMode === 'composed' ? renderComposedLetter(doc.composer) : null,
+    [doc.bodyMode, doc.composer]
+  );
+
+  useLayoutEffect(() => {
+    if (composedHtml === null) return;
+    const bodies = getBodies();
+    bodies.forEach((body, index) => { body.innerHTML = index === 0 ? composedHtml : ''; });
+    if (bodies[0]) fillFieldElements(bodies[0], fieldValues);
+    runReflow();
+  }, [composedHtml]);
+
+  // Bring field tokens up to date when the fields, the numbering or the day change
+  useLayoutEffect(() => {
+    if (getBodies().map(body => fillFieldElements(body, fieldValues)).some(Boolean)) runReflow();
+    setDoc(prev => fillDocumentFields(prev, fieldValues));
+  }, [fieldValuesKey]);
+
+  // Push labelled changes onto the undo stack and hand edits to the library for saving
+  useEffect(() => {
+    const before = lastDocRef.current;
+    const change = pendingChangeRef.current;
+    const persist = persistNextRef.current;
+    lastDocRef.current = doc;
+    pendingChangeRef.current = null;
+    persistNextRef.current = false;
+    if (before === doc) return;
+
+    if (change || persist) onDocumentChange(docIdRef.current, doc);
+    if (!change) return;
+
+    // An issued reference number is never taken back by undo/redo
+    const after = doc;
+    history.push({
+      label: change.label,
+      mergeKey: change.mergeKey,
+      undo: () => applyDoc({ ...before, fields: lastDocRef.current.fields }),
+      redo: () => applyDoc({ ...after, fields: lastDocRef.current.fields }),
+    });
+  }, [doc]);
+
+  useEffect(() => {
+    onTemplateChange(doc.templateId);
+  }, [doc.templateId]);
+
   useEffect(() => {
-    localStorage.setItem('tajmir_doc_draggables_text', JSON.stringify(textBlocks));
-  }, [textBlocks]);
+    onBodyModeChange(doc.bodyMode);
+  }, [doc.bodyMode]);
 
   useEffect(() => {
-    localStorage.setItem('tajmir_doc_draggables_img', JSON.stringify(imageBlocks));
-  }, [imageBlocks]);
+    onWatermarkChange(doc.watermark);
+  }, [doc.watermark]);
+
+  // Rich-text and table edits change the DOM directly. The body is re-paginated and
+  // recorded here; header/footer fields and text blocks pick the change up through their onInput.
+  const commitHostEdit = (host: HTMLElement | null, label: string, mergeKey?: string) => {
+    if (!host) return;
+    if (getBodies().includes(host as HTMLDivElement)) {
+      recordChange(label, mergeKey);
+      runReflow();
+    } else {
+      host.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+  };
 
   // Handle actions from App/Toolbar
   useEffect(() => {
     if (!action) return;
 
     if (action.type === 'ADD_TEXT') {
-      const newId = Date.now();
-      setTextBlocks(prev => [...prev, { id: newId, x: 50, y: 200 }]);
+      addBlocks([createTextBlock(activePage)], 'Add text block');
     }
 
     if (action.type === 'ADD_IMAGE' && action.payload) {
-      const newId = Date.now();
-      setImageBlocks(prev => [...prev, { id: newId, src: action.payload, x: 50, y: 200 }]);
+      recordChange('Add image');
+      const block = createImageBlock(action.payload, activePage);
+      setDoc(prev => ({ ...prev, imageBlocks: [...prev.imageBlocks, { ...block, z: topZ(prev) }] }));
+    }
+
+    // Signature / seal from the library, at its saved size next to the signatory
+    if (action.type === 'PLACE_ASSET' && action.payload) {
+      const asset: LibraryAsset = action.payload;
+      const spot = findAssetPlacement(getBodies(), asset.kind, asset.width, asset.height, zoom);
+      recordChange(`Add ${asset.kind}`);
+      const block = {
+        ...createImageBlock(asset.src, spot ? spot.page : activePage, spot?.x, spot?.y),
+        width: asset.width,
+        height: asset.height,
+      };
+      setDoc(prev => ({ ...prev, imageBlocks: [...prev.imageBlocks, { ...block, z: topZ(prev) }] }));
+    }
+
+    if (action.type === 'INSERT_PAGE_BREAK') {
+      const body = getBodies().find(b => b.contains(window.getSelection()?.anchorNode || null));
+      const caret = body ? insertPageBreak(body) : null;
+      if (caret) {
+        recordChange('Insert page break');
+        restoreCaret(caret);
+        runReflow();
+      }
+    }
+
+    // Reference number / date token at the caret: body, header/footer or a text block
+    if (action.type === 'INSERT_FIELD' && action.payload) {
+      const selection = window.getSelection();
+      const range = selection && selection.rangeCount ? selection.getRangeAt(0) : null;
+      const start = range?.startContainer;
+      const host = (start instanceof Element ? start : start?.parentElement)?.closest<HTMLElement>('[contenteditable="true"]');
+      if (selection && range && host?.closest('[data-page]')) {
+        const token = createFieldToken(action.payload.kind, action.payload.format, fieldValues);
+        range.deleteContents();
+        range.insertNode(token);
+        range.setStartAfter(token);
+        range.collapse(true);
+        selection.removeAllRanges();
+        selection.addRange(range);
+        if (getBodies().includes(host as HTMLDivElement)) {
+          recordChange('Insert field');
+          runReflow();
+        } else {
+          // Header/footer fields and text blocks pick the change up through their onInput
+          host.dispatchEvent(new Event('input', { bubbles: true }));
+        }
+      }
+    }
+
+    // Toolbar formatting for the selection: body, header/footer or a text block
+    if (action.type === 'FORMAT' && action.payload) {
+      const command: FormatCommand = action.payload;
+      // Colour pickers send a change per step of the drag
+      const mergeKey = command.type === 'color' || command.type === 'highlight' ? `format:${command.type}` : undefined;
+      commitHostEdit(applyFormat(command), 'Format text', mergeKey);
+    }
+
+    if (action.type === 'TABLE' && action.payload) {
+      const command: TableCommand = action.payload;
+      const mergeKey = command.type === 'shading' || command.type === 'borderColor' ? `table:${command.type}` : undefined;
+      commitHostEdit(applyTableCommand(command), command.type === 'insert' ? 'Insert table' : 'Edit table', mergeKey);
+    }
+
+    // Quotation / bill block at the caret; only the body takes one
+    if (action.type === 'INSERT_INVOICE' && action.payload) {
+      commitHostEdit(insertInvoice(action.payload), 'Insert quotation');
+    }
+
+    // "Paste as plain text" from the toolbar, with the text read from the clipboard
+    if (action.type === 'PASTE_TEXT' && typeof action.payload === 'string') {
+      const range = getEditorRange();
+      const host = range && getEditingHost(range.startContainer);
+      if (range && host) pasteFragment(range, host, plainTextFragment(action.payload));
+    }
+
+    if (action.type === 'SET_BODY_MODE') setBodyMode(action.payload);
+
+    // Reference number and date fixed on export: saved, but not part of undo history
+    if (action.type === 'SET_FIELDS' && action.payload) {
+      applyDoc({ ...doc, fields: action.payload });
+    }
+
+    // Open another letter from the library; undo history does not carry over
+    if (action.type === 'LOAD_DOCUMENT' && action.payload) {
+      const stored: StoredDocument = action.payload;
+      docIdRef.current = stored.meta.id;
+      history.clear();
+      setActivePage(0);
+      applyDoc(stored.doc, false);
+    }
+
+    // Mail merge preview: show one row filled in, or (payload null) go back to the letter.
+    // Previews are neither recorded nor saved.
+    if (action.type === 'PREVIEW_MERGE') {
+      if (action.payload) {
+        if (!mergeBaseRef.current) mergeBaseRef.current = doc;
+        applyDoc(action.payload, false);
+      } else if (mergeBaseRef.current) {
+        applyDoc(mergeBaseRef.current, false);
+        mergeBaseRef.current = null;
+      }
+    }
+
+    // Watermark: turning it on or off is a step of its own; a run of setting changes undoes in one
+    if (action.type === 'SET_WATERMARK' && action.payload) {
+      if (action.payload.enabled !== doc.watermark.enabled) recordChange(action.payload.enabled ? 'Add watermark' : 'Remove watermark');
+      else recordChange('Change watermark', 'watermark');
+      setDoc(prev => ({ ...prev, watermark: action.payload }));
+    }
+
+    // Switch letterhead: header/footer take the new template's text, body and blocks stay
+    if (action.type === 'SET_TEMPLATE' && action.payload !== doc.templateId) {
+      const next = getTemplate(action.payload);
+      recordChange('Change letterhead');
+      setDoc(prev => ({ ...prev, templateId: next.id, header: { ...next.header }, footer: { ...next.footer } }));
     }
   }, [action]);
 
+  // Drag/resize end commits even when nothing moved; don't record those
+  const isNoopPatch = <T extends object>(block: T | undefined, patch: Partial<T>) =>
+    !!block && (Object.keys(patch) as (keyof T)[]).every(key => JSON.stringify(block[key]) === JSON.stringify(patch[key]));
+
+  // A selected block moved by dragging or the arrow keys takes the rest of the selection
+  // along, except locked blocks. False when the move concerns the block alone.
+  const moveWithSelection = (key: string, block: BlockPosition | undefined, patch: Partial<BlockPosition>, nudge?: boolean) => {
+    const keys = selectionRef.current;
+    if (!block || keys.length < 2 || !keys.includes(key) || !Object.keys(patch).every(k => k === 'x' || k === 'y')) return false;
+    const dx = (patch.x ?? block.x) - block.x;
+    const dy = (patch.y ?? block.y) - block.y;
+    recordChange(nudge ? 'Nudge blocks' : 'Move blocks', nudge ? 'nudge:selection' : undefined);
+    setDoc(prev => patchLayers(prev, l => keys.includes(l.key) && !l.block.locked ? { x: l.block.x + dx, y: l.block.y + dy } : null));
+    return true;
+  };
+
+  const updateTextBlock = useCallback((id: number, patch: Partial<TextBlock>, nudge?: boolean) => {
+    const block = lastDocRef.current.textBlocks.find(b => b.id === id);
+    if (isNoopPatch(block, patch)) return;
+    if (moveWithSelection(layerKey('text', id), block, patch, nudge)) return;
+    if (nudge) recordChange('Nudge text block', `nudge:${id}`);
+    else if ('html' in patch) recordChange('Edit text block', `text:${id}`);
+    else recordChange('Move text block');
+    setDoc(prev => ({ ...prev, textBlocks: prev.textBlocks.map(b => b.id === id ? { ...b, ...patch } : b) }));
+  }, []);
+
+  const updateImageBlock = useCallback((id: number, patch: Partial<ImageBlock>, nudge?: boolean) => {
+    const block = lastDocRef.current.imageBlocks.find(b => b.id === id);
+    if (isNoopPatch(block, patch)) return;
+    if (moveWithSelection(layerKey('image', id), block, patch, nudge)) return;
+    if (nudge) recordChange('Nudge image', `nudge:${id}`);
+    else if ('crop' in patch) recordChange('Crop image', `crop:${id}`);
+    else if ('background' in patch) recordChange('Remove background', `background:${id}`);
+    else if ('rotation' in patch) recordChange('Rotate image', `rotation:${id}`);
+    else if ('flipX' in patch || 'flipY' in patch) recordChange('Flip image');
+    else if ('opacity' in patch) recordChange('Image opacity', `opacity:${id}`);
+    else if ('grayscale' in patch) recordChange('Grayscale image');
+    else if ('width' in patch || 'height' in patch) recordChange('Resize image');
+    else recordChange('Move image');
+    setDoc(prev => ({ ...prev, imageBlocks: prev.imageBlocks.map(b => b.id === id ? { ...b, ...patch } : b) }));
+  }, []);
+
+  const dragTextBlock = useCallback((id: number, delta: { dx: number; dy: number } | null) => {
+    setDragOffset(delta && { key: layerKey('text', id), ...delta });
+  }, []);
+
+  const dragImageBlock = useCallback((id: number, delta: { dx: number; dy: number } | null) => {
+    setDragOffset(delta && { key: layerKey('image', id), ...delta });
+  }, []);
+
   const removeTextBlock = (id: number) => {
-    setTextBlocks(prev => prev.filter(b => b.id !== id));
+    recordChange('Remove text block');
+    setDoc(prev => ({ ...prev, textBlocks: prev.textBlocks.filter(b => b.id !== id) }));
   };
 
   const removeImageBlock = (id: number) => {
-    setImageBlocks(prev => prev.filter(b => b.id !== id));
+    recordChange('Remove image');
+    setDoc(prev => ({ ...prev, imageBlocks: prev.imageBlocks.filter(b => b.id !== id) }));
+  };
+
+  // ================= LAYERS =================
+
+  // Clicking a block selects its whole group. On the page a click inside the selection keeps
+  // it, so several blocks can be dragged; in the layers panel it picks just that block.
+  const selectBlock = (key: string, additive: boolean, keep = true) => {
+    const keys = withGroups(doc, [key]);
+    setSelection(prev => {
+      if (additive) return prev.includes(key) ? prev.filter(k => !keys.includes(k)) : [...prev, ...keys.filter(k => !prev.includes(k))];
+      return keep && prev.includes(key) ? prev : keys;
+    });
+  };
+
+  // Clicks away from the blocks and their tools clear the selection; Shift keeps it for a marquee
+  useEffect(() => {
+    const handlePointerDown = (e: MouseEvent | TouchEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.shiftKey || target.closest(`[${LAYER_ATTR}], .control-btn, .tool-panel, [data-layers-panel], [data-inspector]`)) return;
+      setSelection(prev => prev.length ? [] : prev);
+    };
+    window.addEventListener('mousedown', handlePointerDown);
+    window.addEventListener('touchstart', handlePointerDown);
+    return () => {
+      window.removeEventListener('mousedown', handlePointerDown);
+      window.removeEventListener('touchstart', handlePointerDown);
+    };
+  }, []);
+
+  const toggleLayer = (key: string, flag: 'locked' | 'hidden') => {
+    const layer = allLayers(doc).find(l => l.key === key);
+    if (!layer) return;
+    const on = !layer.block[flag];
+    recordChange(flag === 'locked' ? (on ? 'Lock block' : 'Unlock block') : (on ? 'Hide block' : 'Show block'));
+    setDoc(prev => patchLayers(prev, l => l.key === key ? { [flag]: on } : null));
+    if (flag === 'hidden' && on) setSelection(prev => prev.filter(k => k !== key));
+  };
+
+  const restackSelection = (move: StackMove) => {
+    recordChange(STACK_MOVES.find(m => m.id === move)!.label);
+    setDoc(prev => restack(prev, selection, move));
+  };
+
+  const groupSelection = (group: boolean) => {
+    recordChange(group ? 'Group blocks' : 'Ungroup blocks');
+    const id = group ? Date.now() : null;
+    setDoc(prev => patchLayers(prev, l => selection.includes(l.key) ? { group: id } : null));
+  };
+
+  // Lines the selection up page by page; a single block lines up with the margins
+  const alignSelection = (mode: AlignMode) => {
+    const movable = allLayers(doc).filter(l => selection.includes(l.key) && !l.block.locked && !l.block.hidden);
+    const shifts: Record<string, { dx: number; dy: number }> = {};
+    new Set(movable.map(l => l.block.page)).forEach(page => {
+      const keys = movable.filter(l => l.block.page === page).map(l => l.key);
+      const area = document.querySelector<HTMLElement>(`[data-page="${page}"] [data-block-area]`);
+      const frame = keys.length === 1 && area ? {
+        x: margins.left,
+        y: margins.top,
+        width: area.clientWidth - margins.left - margins.right,
+        height: area.clientHeight - margins.top - margins.bottom,
+      } : undefined;
+      Object.assign(shifts, alignShifts(measureLayers(document, keys), mode, frame));
+    });
+    recordChange(ALIGN_MODES.find(m => m.id === mode)!.label);
+    setDoc(prev => patchLayers(prev, l => shifts[l.key] ? { x: l.block.x + shifts[l.key].dx, y: l.block.y + shifts[l.key].dy } : null));
+  };
+
+  // The inspector shows a single selected block
+  const inspected = selection.length === 1 ? allLayers(doc).find(l => l.key === selection[0] && !l.block.hidden) || null : null;
+
+  // Text boxes size to their text, so the inspector reads their size from the page
+  useLayoutEffect(() => {
+    const outer = inspected && document.querySelector<HTMLElement>(`[${LAYER_ATTR}="${inspected.key}"]`);
+    const box = outer?.querySelector<HTMLElement>('[contenteditable]') || outer;
+    const area = outer?.closest('[data-page]')?.querySelector<HTMLElement>('[data-block-area]');
+    const next = box && area ? { areaTop: area.offsetTop, width: box.offsetWidth, height: box.offsetHeight } : null;
+    setInspectorMetrics(prev => JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
+  });
+
+  // Typing into one of the inspector's fields undoes as one step
+  const inspectBlock = (key: string, patch: Partial<TextBlock> | Partial<ImageBlock>) => {
+    const image = key.startsWith('image:');
+    recordChange(image ? 'Image properties' : 'Text block properties', `inspect:${key}:${Object.keys(patch).join()}`);
+    setDoc(prev => image
+      ? { ...prev, imageBlocks: prev.imageBlocks.map(b => layerKey('image', b.id) === key ? { ...b, ...(patch as Partial<ImageBlock>) } : b) }
+      : { ...prev, textBlocks: prev.textBlocks.map(b => layerKey('text', b.id) === key ? { ...b, ...(patch as Partial<TextBlock>) } : b) });
+  };
+
+  // Marquee: dragging from the body area's own padding (the page margin) selects the blocks it touches
+  const startMarquee = (page: number, e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || e.button !== 0) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / zoom;
+    const y = (e.clientY - rect.top) / zoom;
+    marqueeAreaRef.current = e.currentTarget;
+    setMarquee({ page, x0: x, y0: y, x1: x, y1: y, additive: e.shiftKey });
+  };
+
+  useEffect(() => {
+    if (!marquee) return;
+    const pointAt = (e: MouseEvent) => {
+      const rect = marqueeAreaRef.current!.getBoundingClientRect();
+      return { x1: (e.clientX - rect.left) / zoom, y1: (e.clientY - rect.top) / zoom };
+    };
+    const handleMove = (e: MouseEvent) => setMarquee(prev => prev && { ...prev, ...pointAt(e) });
+    const handleUp = (e: MouseEvent) => {
+      const { x1, y1 } = pointAt(e);
+      const left = Math.min(marquee.x0, x1), right = Math.max(marquee.x0, x1);
+      const top = Math.min(marquee.y0, y1), bottom = Math.max(marquee.y0, y1);
+      const keys = pageLayers(doc, marquee.page).filter(l => !l.block.hidden).map(l => l.key);
+      const boxes = measureLayers(document, keys);
+      const hit = keys.filter(key => {
+        const box = boxes[key];
+        return box && box.x < right && box.x + box.width > left && box.y < bottom && box.y + box.height > top;
+      });
+      const picked = withGroups(doc, hit);
+      setSelection(prev => marquee.additive ? [...prev, ...picked.filter(k => !prev.includes(k))] : picked);
+      setMarquee(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [marquee !== null, zoom, doc]);
+
+  const handleHeaderChange = (key: keyof HeaderFields, html: string) => {
+    recordChange('Edit header', `header:${key}`);
+    setDoc(prev => ({ ...prev, header: { ...prev.header, [key]: html } }));
+  };
+
+  const handleFooterChange = (key: keyof FooterFields, html: string) => {
+    recordChange('Edit footer', `footer:${key}`);
+    setDoc(prev => ({ ...prev, footer: { ...prev.footer, [key]: html } }));
+  };
+
+  // ================= FIND & REPLACE =================
+
+  // Matches are replaced in the DOM, last first so the earlier ranges stay put. The body is
+  // re-paginated and the other regions commit through their onInput, all as one undo step.
+  const replaceMatches = (ranges: Range[], text: string) => {
+    const bodies: HTMLElement[] = getBodies();
+    const hosts = new Set<HTMLElement>();
+    let end: Range | null = null;
+    [...ranges].reverse().forEach(range => {
+      const host = hostOf(range);
+      if (!host) return;
+      const after = replaceRange(range, text);
+      end = end || after;
+      hosts.add(host);
+    });
+    if (!hosts.size) return null;
+    hosts.forEach(host => {
+      if (!bodies.includes(host)) host.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+    if (bodies.some(body => hosts.has(body))) runReflow();
+    recordChange(ranges.length > 1 ? 'Replace all' : 'Replace');
+    return end;
+  };
+
+  // ================= PASTE =================
+
+  // Set by Ctrl+Shift+V for the paste that follows
+  const plainPasteRef = useRef(false);
+
+  // Header/footer fields take the pasted text without its paragraphs
+  const pasteFragment = (range: Range, host: HTMLElement, fragment: DocumentFragment) => {
+    insertPasted(range, host, host.classList.contains(RICH_TEXT_CLASS) ? fragment : inlineOnly(fragment));
+    commitHostEdit(host, 'Paste');
+  };
+
+  // Where a block `width` × `height` goes: its top-left corner at `at` (body area px), or
+  // centred on the page, kept inside the body area
+  const blockSpot = (area: HTMLElement, at: { x: number; y: number } | null, width: number, height: number) => {
+    const pageHeight = area.closest<HTMLElement>('[data-page]')?.offsetHeight ?? area.clientHeight;
+    const x = at ? at.x : (area.clientWidth - width) / 2;
+    const y = at ? at.y : pageHeight / 2 - area.offsetTop - height / 2;
+    return {
+      x: Math.round(Math.max(0, Math.min(x, area.clientWidth - width))),
+      y: Math.round(Math.max(0, Math.min(y, area.clientHeight - height))),
+    };
+  };
+
+  const blockAreaOf = (page: number) => pageRefs.current[page]?.querySelector<HTMLElement>('[data-block-area]') || null;
+
+  // A picture as an image block at its own size, up to the margin box
+  const imageBlockAt = async (src: string, page: number, at: { x: number; y: number } | null) => {
+    const img = await loadImage(src);
+    const area = blockAreaOf(page);
+    if (!area) return null;
+    const size = fitImage(img.naturalWidth, img.naturalHeight, {
+      width: area.clientWidth - margins.left - margins.right,
+      height: (area.clientHeight - margins.top - margins.bottom) / 2,
+    });
+    const spot = blockSpot(area, at, size.width, size.height);
+    return { ...createImageBlock(src, page, spot.x, spot.y), ...size };
   };
 
-  // Helper to persist edits
-  const handleInput = (key: string, e: React.FormEvent<HTMLElement>) => {
-    const target = e.currentTarget;
-    localStorage.setItem(key, target.innerHTML);
+  // Text block just added, which takes the caret when it mounts; loaded blocks don't
+  const autoFocusRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (doc.textBlocks.some(block => block.id === autoFocusRef.current)) autoFocusRef.current = null;
+  }, [doc.textBlocks]);
+
+  // New blocks on top of the others, as one undoable step
+  const addBlocks = (blocks: Array<TextBlock | ImageBlock>, label: string) => {
+    if (!blocks.length) return;
+    // Blocks made in the same moment would share their Date.now() id
+    const stamp = Date.now();
+    const lastText = blocks.map(block => !('src' in block)).lastIndexOf(true);
+    if (lastText >= 0) autoFocusRef.current = stamp + lastText;
+    recordChange(label);
+    setDoc(prev => {
+      const z = topZ(prev);
+      const added = blocks.map((block, i) => ({ ...block, id: stamp + i, z: z + i }));
+      return {
+        ...prev,
+        textBlocks: [...prev.textBlocks, ...added.filter((b): b is TextBlock => !('src' in b))],
+        imageBlocks: [...prev.imageBlocks, ...added.filter((b): b is ImageBlock => 'src' in b)],
+      };
+    });
+  };
+
+  // Body area position of a screen point on a page
+  const areaPoint = (page: number, clientX: number, clientY: number) => {
+    const box = blockAreaOf(page)?.getBoundingClientRect();
+    return box ? { x: (clientX - box.left) / zoom, y: (clientY - box.top) / zoom } : null;
+  };
+
+  // Pictures from the clipboard go at the caret, or the middle of the page without one
+  const pasteImages = (files: File[], host: HTMLElement | null) => {
+    const page = host ? Number(host.closest('[data-page]')?.getAttribute('data-page')) || 0 : activePage;
+    let at: { x: number; y: number } | null = null;
+    const selection = window.getSelection();
+    if (host && selection && selection.rangeCount) {
+      const caret = selection.getRangeAt(0).getBoundingClientRect();
+      if (caret.height) at = areaPoint(page, caret.left, caret.top);
+    }
+    // Several pictures are fanned out so they don't hide each other
+    Promise.all(files.map((file, i) => readDataUrl(file)
+      .then(src => imageBlockAt(src, page, at && { x: at.x + i * 16, y: at.y + i * 16 }))
+      .catch(() => null)))
+      .then(blocks => addBlocks(blocks.filter((b): b is ImageBlock => !!b), 'Paste image'));
+  };
+
+  // HTML is cleaned up to the supported formatting, unless pasting as plain text
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const host = getEditingHost(e.target as Node);
+    const plain = plainPasteRef.current;
+    plainPasteRef.current = false;
+    if (!host) return;
+    const data = e.clipboardData;
+    const text = data.getData('text/plain');
+    const images = transferImages(data);
+    e.preventDefault();
+
+    // Word and web pages put a picture of the copied text next to it; text wins
+    if (images.length && !text.trim()) {
+      pasteImages(images, host);
+      return;
+    }
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount ? selection.getRangeAt(0) : null;
+    if (!range || !host.contains(range.startContainer)) return;
+    const html = plain ? '' : data.getData('text/html');
+    pasteFragment(range, host, html ? sanitizePastedHtml(html, tableWidthFor(host)) : plainTextFragment(text));
+  };
+
+  const handlePasteKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    plainPasteRef.current = (e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'v';
+  };
+
+  // Pictures pasted with no caret in the letter, e.g. after clicking an image, go on the current page
+  const pasteImagesRef = useRef(pasteImages);
+  pasteImagesRef.current = pasteImages;
+  useEffect(() => {
+    const handleWindowPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.defaultPrevented || !e.clipboardData || target.closest?.('input, textarea, [contenteditable="true"]')) return;
+      const images = transferImages(e.clipboardData);
+      if (!images.length) return;
+      e.preventDefault();
+      pasteImagesRef.current(images, null);
+    };
+    window.addEventListener('paste', handleWindowPaste);
+    return () => window.removeEventListener('paste', handleWindowPaste);
+  }, []);
+
+  // ================= FILE DROP =================
+
+  // A text block with the text's top-left corner at `at`, or across the margin box in the middle of the page
+  const textBlockAt = (html: string, page: number, at: { x: number; y: number } | null) => {
+    const area = blockAreaOf(page);
+    if (!area) return null;
+    const spot = blockSpot(area, at, at ? 0 : area.clientWidth - margins.left - margins.right, 0);
+    return { ...createTextBlock(page, spot.x, spot.y), html };
+  };
+
+  // Files dropped on the workspace go at the drop point, fanned out like pasted pictures;
+  // dropped beside the pages, they go in the middle of the current page
+  useEffect(() => {
+    if (!fileDrop) return;
+    const pages = pageRefs.current.slice(0, pageCount).filter((p): p is HTMLDivElement => !!p);
+    const hit = pageAtPoint(pages, fileDrop.clientX, fileDrop.clientY);
+    const page = hit ? Number(hit.page.getAttribute('data-page')) || 0 : activePage;
+    const at = hit && areaPoint(page, fileDrop.clientX, fileDrop.clientY);
+    const files = fileDrop.files.filter(file => droppedFileKind(file));
+    Promise.all(files.map((file, i) => {
+      const kind = droppedFileKind(file)!;
+      const spot = at && { x: at.x + i * 16, y: at.y + i * 16 };
+      const block = kind === 'image'
+        ? readDataUrl(file).then(src => imageBlockAt(src, page, spot))
+        : file.text().then(text => textBlockAt(droppedTextHtml(kind, text), page, spot));
+      return block.catch(() => null);
+    })).then(blocks => {
+      const added = blocks.filter((b): b is TextBlock | ImageBlock => !!b);
+      const label = added.length > 1 ? 'Add files' : added[0] && 'src' in added[0] ? 'Add image' : 'Add text block';
+      addBlocks(added, label);
+    });
+  }, [fileDrop]);
+
+  // Entering the composer with an empty form carries the body text over as its paragraphs
+  const setBodyMode = (mode: BodyMode) => {
+    if (mode === doc.bodyMode) return;
+    if (mode === 'free') {
+      recordChange('Edit freely');
+      setDoc(prev => ({ ...prev, bodyMode: 'free' }));
+      return;
+    }
+    const text = getBodies().map(body => body.innerText).join('\n').trim();
+    recordChange('Use letter composer');
+    setDoc(prev => ({
+      ...prev,
+      bodyMode: 'composed',
+      composer: isComposerEmpty(prev.composer) ? { ...prev.composer, body: text } : prev.composer,
+    }));
+  };
+
+  const handleComposerChange = <K extends keyof ComposedLetter>(key: K, value: ComposedLetter[K]) => {
+    recordChange('Edit letter', `composer:${key}`);
+    setDoc(prev => ({ ...prev, composer: { ...prev.composer, [key]: value } }));
+  };
+
+  const handleBodyInput = () => {
+    recordChange('Typing', 'body');
+    runReflow();
+  };
+
+  // Lets the caret cross page boundaries, and Backspace remove a manual break
+  const handleBodyKeyDown = (index: number, e: React.KeyboardEvent<HTMLDivElement>) => {
+    const bodies = getBodies();
+    const body = bodies[index];
+    const prev = bodies[index - 1];
+    const next = bodies[index + 1];
+
+    if (prev && ['Backspace', 'ArrowLeft', 'ArrowUp'].includes(e.key) && isCaretAtEdge(body, 'start')) {
+      e.preventDefault();
+      const lastOfPrev = prev.lastChild;
+      if (e.key === 'Backspace' && isPageBreak(lastOfPrev)) {
+        recordChange('Remove page break');
+        lastOfPrev.remove();
+        runReflow();
+      } else {
+        placeCaret(prev, false);
+      }
+      return;
+    }
+
+    if (next && ['ArrowRight', 'ArrowDown'].includes(e.key) && isCaretAtEdge(body, 'end')) {
+      e.preventDefault();
+      placeCaret(next, true);
+    }
   };
 
   return (
-    <div 
-      ref={ref}
-      className="bg-[#fbfbfb] relative flex flex-col overflow-hidden shadow-sm"
-      style={{
-        width: '210mm',
-        height: '297mm',
-        boxSizing: 'border-box'
-      }}
-    >
-      {/* ================= CORNER DESIGN (Top Left) ================= */}
-      <div className="absolute top-0 left-0 z-0 pointer-events-none">
-        <img 
-          src="https://tajmir-images.pages.dev/letter%20d.png" 
-          alt="Decorative Element" 
-          className="w-64 h-auto object-contain opacity-100" 
-          crossOrigin="anonymous"
-        />
-      </div>
-
-      {/* ================= HEADER ================= */}
-      <div className="pt-12 px-12 pb-2 relative z-10">
-        <div className="flex items-center justify-end gap-6">
-           
-           {/* Logo */}
-           <div className="relative flex-shrink-0">
-             <img 
-                src="https://tajmir-images.pages.dev/Logo%20black.png" 
-                alt="Tajmir Group" 
-                style={{ height: '100px', width: 'auto' }}
-                className="object-contain"
-                crossOrigin="anonymous"
+    <div ref={ref} onPaste={handlePaste} onKeyDownCapture={handlePasteKeyDown} className="flex flex-col gap-8">
+      {Array.from({ length: pageCount }, (_, index) => (
+        <div
+          key={index}
+          ref={(el) => { pageRefs.current[index] = el; }}
+          data-page={index}
+          onMouseDown={() => setActivePage(index)}
+          className="bg-[#fbfbfb] relative flex flex-col overflow-hidden shadow-2xl ring-1 ring-black/10"
+          style={{
+            width: `${page.width}mm`,
+            height: `${page.height}mm`,
+            boxSizing: 'border-box',
+            fontFamily: template.fonts.body
+          }}
+        >
+          {/* Watermark - behind the letterhead and the body */}
+          {doc.watermark.enabled && (
+            <WatermarkLayer watermark={doc.watermark} logo={template.logo} fontFamily={template.fonts.heading} width={page.width} height={page.height} />
+          )}
+
+          <LetterheadHeader template={template} variant={pageLetterhead(template, index, pageCount).header} fields={doc.header} onChange={handleHeaderChange} />
+
+          {/* ================= BODY (Main Editor + Draggable Layers) ================= */}
+          <div
+            data-block-area
+            onMouseDown={(e) => startMarquee(index, e)}
+            className="flex-grow min-h-0 relative flex flex-col z-10"
+            style={{
+              paddingTop: `${margins.top}px`,
+              paddingRight: `${margins.right}px`,
+              paddingBottom: `${margins.bottom}px`,
+              paddingLeft: `${margins.left}px`
+            }}
+          >
+
+            {/* Snap Grid, from the top-left margin */}
+            {snap.grid && (
+              <div
+                className="absolute inset-0 pointer-events-none no-print"
+                data-html2canvas-ignore="true"
+                style={{
+                  backgroundImage: 'linear-gradient(to right, rgba(59, 130, 246, 0.15) 1px, transparent 1px), linear-gradient(to bottom, rgba(59, 130, 246, 0.15) 1px, transparent 1px)',
+                  backgroundSize: `${snap.gridSize * PX_PER_MM}px ${snap.gridSize * PX_PER_MM}px`,
+                  backgroundPosition: `${margins.left}px ${margins.top}px`
+                }}
               />
-           </div>
-
-           {/* Company Name & Subtext - EDITABLE */}
-           <div className="text-left font-sans text-black flex flex-col justify-center">
-              <h1 
-                ref={headerH1Ref}
-                onInput={(e) => handleInput('tajmir_doc_header_h1', e)}
-                contentEditable
-                suppressContentEditableWarning
-                className="font-serif font-bold text-4xl tracking-wide leading-none mb-1 outline-none border border-transparent hover:border-gray-200"
-              >
-                TAJMIR GLOBAL
-              </h1>
-              <h2 
-                ref={headerH2Ref}
-                onInput={(e) => handleInput('tajmir_doc_header_h2', e)}
-                contentEditable
-                suppressContentEditableWarning
-                className="text-2xl font-normal tracking-wide leading-none mb-2 outline-none border border-transparent hover:border-gray-200"
-              >
-                CORPORATION
-              </h2>
-              <p 
-                ref={headerSubRef}
-                onInput={(e) => handleInput('tajmir_doc_header_sub', e)}
-                contentEditable
-                suppressContentEditableWarning
-                className="italic text-sm text-black outline-none border border-transparent hover:border-gray-200"
-              >
-                A Concern of Tajmir Group
-              </p>
-           </div>
+            )}
 
-        </div>
-      </div>
-
-      {/* ================= BODY (Main Editor + Draggable Layers) ================= */}
-      <div 
-        className="flex-grow relative flex flex-col z-10"
-        style={{
-          paddingTop: `${margins.top}px`,
-          paddingRight: `${margins.right}px`,
-          paddingBottom: `${margins.bottom}px`,
-          paddingLeft: `${margins.left}px`
-        }}
-      >
-        
-        {/* Main Document Editor */}
-        <div 
-          ref={bodyRef}
-          onInput={(e) => handleInput('tajmir_doc_main_body', e)}
-          className="w-full h-full outline-none font-serif text-[11pt] leading-relaxed text-[#2c2c2c] text-left empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400"
-          contentEditable
-          suppressContentEditableWarning
-          style={{ 
-            whiteSpace: 'pre-wrap',
-            minHeight: '400px'
-          }}
-          data-placeholder=""
-        ></div>
-
-        {/* Draggable Images Layer */}
-        {imageBlocks.map(block => (
-          <DraggableImage 
-            key={block.id} 
-            id={block.id} 
-            src={block.src}
-            initialX={block.x} 
-            initialY={block.y} 
-            zoom={zoom}
-            onRemove={removeImageBlock}
-          />
-        ))}
-
-        {/* Draggable Text Blocks Layer */}
-        {textBlocks.map(block => (
-          <DraggableText 
-            key={block.id} 
-            id={block.id} 
-            initialX={block.x} 
-            initialY={block.y} 
-            zoom={zoom}
-            onRemove={removeTextBlock}
-          />
-        ))}
-
-      </div>
-
-      {/* ================= FOOTER ================= */}
-      <div className="mt-auto relative w-full z-10">
-         
-         {/* Footer Info Area - EDITABLE */}
-         <div className="pb-10 pt-4 text-center relative flex flex-col items-center">
-            <h2 
-              ref={footerTitleRef}
-              onInput={(e) => handleInput('tajmir_doc_footer_title', e)}
-              contentEditable
+            {/* Margin Box - dragging an edge changes the margins */}
+            {showGuides && <MarginGuides margins={margins} zoom={zoom} onSetMargins={onSetMargins} />}
+
+            {/* Page Body Editor - content is moved between pages by reflowBodies */}
+            <div
+              ref={(el) => { bodyRefs.current[index] = el; }}
+              data-page-body={index}
+              onInput={handleBodyInput}
+              onKeyDown={(e) => handleBodyKeyDown(index, e)}
+              onFocus={() => setActivePage(index)}
+              className={`${RICH_TEXT_CLASS} w-full flex-1 min-h-0 overflow-hidden outline-none text-[11pt] leading-relaxed text-[#2c2c2c] text-left empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400`}
+              contentEditable={doc.bodyMode === 'free'}
               suppressContentEditableWarning
-              className="text-[#2c2c2c] font-bold text-lg tracking-[0.15em] mb-2 uppercase outline-none border border-transparent hover:border-gray-200"
-            >
-              Tajmir Global Corporation
-            </h2>
-            <div className="text-[10px] font-serif font-medium text-gray-600 leading-normal uppercase tracking-wider flex flex-col items-center">
-              <p 
-                ref={footerAddr1Ref}
-                onInput={(e) => handleInput('tajmir_doc_footer_addr1', e)}
-                contentEditable 
-                suppressContentEditableWarning 
-                className="outline-none border border-transparent hover:border-gray-200"
-              >
-                950/B, Yakub-Ayub Building,
-              </p>
-              <p 
-                ref={footerAddr2Ref}
-                onInput={(e) => handleInput('tajmir_doc_footer_addr2', e)}
-                contentEditable 
-                suppressContentEditableWarning 
-                className="outline-none border border-transparent hover:border-gray-200"
-              >
-                Amir Market, Khatungonj, Chattogram.
-              </p>
-              <p 
-                ref={footerPhoneRef}
-                onInput={(e) => handleInput('tajmir_doc_footer_phone', e)}
-                contentEditable 
-                suppressContentEditableWarning 
-                className="mt-1 text-black font-bold text-xs tracking-widest outline-none border border-transparent hover:border-gray-200"
-              >
-                01843601712, 01755880400
-              </p>
-            </div>
-         </div>
-
-         {/* Decorative Bottom Horizontal Strip */}
-         <div className="absolute bottom-0 left-0 w-full h-[25px] flex pointer-events-none">
-            {/* Pattern: New Green -> Gold -> Old Green -> Gold -> New Green */}
-            <div className="flex-1" style={{ backgroundColor: 'rgb(47, 91, 16)' }}></div>
-            <div className="flex-1" style={{ backgroundColor: 'rgb(166, 138, 63)' }}></div>
-            <div className="flex-1 bg-[#006400]"></div>
-            <div className="flex-1" style={{ backgroundColor: 'rgb(166, 138, 63)' }}></div>
-            <div className="flex-1" style={{ backgroundColor: 'rgb(47, 91, 16)' }}></div>
-         </div>
-      </div>
+              style={{ whiteSpace: 'pre-wrap' }}
+              data-placeholder=""
+            ></div>
+
+            {/* Draggable Blocks Layer - bottom of the stack first, so exports stack them the same way */}
+            {pageLayers(doc, index).filter(layer => !layer.block.hidden).map(({ key, block }) => {
+              const selected = selection.includes(key);
+              const offset = selected && dragOffset && dragOffset.key !== key && !block.locked ? dragOffset : null;
+              return 'src' in block ? (
+                <DraggableImage
+                  key={key}
+                  block={block}
+                  zoom={zoom}
+                  snap={snap}
+                  margins={margins}
+                  selected={selected}
+                  onSelect={(additive) => selectBlock(key, additive)}
+                  offset={offset}
+                  onDrag={dragImageBlock}
+                  onChange={updateImageBlock}
+                  onRemove={removeImageBlock}
+                  onSaveToLibrary={onSaveImageToLibrary}
+                />
+              ) : (
+                <DraggableText
+                  key={key}
+                  block={block}
+                  zoom={zoom}
+                  snap={snap}
+                  margins={margins}
+                  selected={selected}
+                  onSelect={(additive) => selectBlock(key, additive)}
+                  offset={offset}
+                  onDrag={dragTextBlock}
+                  onChange={updateTextBlock}
+                  onRemove={removeTextBlock}
+                  autoFocus={block.id === autoFocusRef.current}
+                />
+              );
+            })}
+
+            {/* Selection Marquee */}
+            {marquee && marquee.page === index && (
+              <div
+                className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none no-print z-50"
+                style={{
+                  left: Math.min(marquee.x0, marquee.x1),
+                  top: Math.min(marquee.y0, marquee.y1),
+                  width: Math.abs(marquee.x1 - marquee.x0),
+                  height: Math.abs(marquee.y1 - marquee.y0),
+                }}
+              />
+            )}
+
+          </div>
+
+          {/* ================= FOOTER ================= */}
+          <LetterheadFooter template={template} variant={pageLetterhead(template, index, pageCount).footer} fields={doc.footer} onChange={handleFooterChange} />
+
+          {/* Ruler Guides - across the letterhead too */}
+          {showGuides && guides.length > 0 && <RulerGuides guides={guides} zoom={zoom} onChange={onSetGuides} />}
+        </div>
+      ))}
+
+      {layersRoot && createPortal(
+        <LayersPanel
+          doc={doc}
+          pageCount={pageCount}
+          selection={selection}
+          onSelect={(key, additive) => selectBlock(key, additive, false)}
+          onToggle={toggleLayer}
+          onRestack={restackSelection}
+          onGroup={() => groupSelection(true)}
+          onUngroup={() => groupSelection(false)}
+          onAlign={alignSelection}
+          onClose={onCloseLayers}
+        />,
+        layersRoot
+      )}
+
+      {findRoot && createPortal(
+        <FindReplacePanel
+          getPages={() => pageRefs.current.slice(0, pageCount).filter((p): p is HTMLDivElement => !!p)}
+          version={doc}
+          onReplace={replaceMatches}
+          onClose={onCloseFind}
+        />,
+        findRoot
+      )}
+
+      {inspected && inspectorRoot && createPortal(
+        <InspectorPanel
+          block={inspected.block}
+          metrics={inspectorMetrics}
+          margins={margins}
+          origin={inspectorOrigin}
+          onSetOrigin={setInspectorOrigin}
+          onChange={(patch) => inspectBlock(inspected.key, patch)}
+          onClose={() => setSelection([])}
+        />,
+        inspectorRoot
+      )}
+
+      {doc.bodyMode === 'composed' && composerRoot && createPortal(
+        <ComposerPanel composer={doc.composer} onChange={handleComposerChange} onFreeEditing={() => setBodyMode('free')} />,
+        composerRoot
+      )}
     </div>
   );
 });
 
-TajmirTemplate.displayName = 'TajmirTemplate';
\ No newline at end of file
+TajmirTemplate.displayName = 'TajmirTemplate';
@@ -1,4 +1,4 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   DocumentPlusIcon,
   PhotoIcon,
@@ -7,35 +7,107 @@ import {
   BoldIcon,
   ItalicIcon,
   UnderlineIcon,
+  StrikethroughIcon,
   ListBulletIcon,
-  ListBulletIcon as ListNumberIcon,
+  NumberedListIcon,
   Bars3BottomLeftIcon,
   Bars3Icon,
   Bars3BottomRightIcon,
+  Bars4Icon,
+  ChevronDoubleLeftIcon,
+  ChevronDoubleRightIcon,
+  PaintBrushIcon,
+  BackspaceIcon,
+  TableCellsIcon,
   ArrowsPointingInIcon,
-  AdjustmentsHorizontalIcon
+  AdjustmentsHorizontalIcon,
+  DocumentDuplicateIcon,
+  ChevronDownIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  FolderOpenIcon,
+  EnvelopeIcon,
+  HashtagIcon,
+  ClipboardDocumentListIcon,
+  FingerPrintIcon,
+  Squares2X2Icon,
+  RectangleStackIcon,
+  DocumentIcon,
+  SwatchIcon,
+  MagnifyingGlassIcon,
+  ClipboardIcon
 } from '@heroicons/react/24/outline';
-
-interface Margins {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
-}
+import type { PdfExportMode } from '../utils/pdfExport';
+import { BlockType, DateFormat, FieldKind, FormatCommand, FormattingState, InvoiceLanguage, Margins, MeasureUnit, Orientation, PageSetup, PageSizeId, SnapSettings, TableCommand, TableState, Watermark, WatermarkKind } from '../types';
+import { GRID_SIZES } from '../utils/snapping';
+import { MARGIN_PRESETS, MAX_PAGE_MM, MIN_PAGE_MM, PAGE_SIZES, UNITS, matchingPreset, mmToUnit, pageDimensions, presetMargins, pxToUnit, unitStep, unitToMm, unitToPx } from '../utils/pageSetup';
+import { DATE_FORMATS } from '../utils/letterFields';
+import { MIN_WATERMARK_OPACITY, WATERMARK_PRESETS } from '../utils/watermark';
+import {
+  FONT_FAMILIES,
+  FONT_SIZES,
+  LINE_SPACINGS,
+  PARAGRAPH_SPACINGS,
+  HIGHLIGHTS,
+  getFormattingState,
+  releaseCaretMarks,
+  trackSelection
+} from '../utils/richText';
+import { getTableState, MAX_NEW_TABLE } from '../utils/tables';
+import { INVOICE_LANGUAGES } from '../utils/invoice';
+import { TableToolbar } from './TableToolbar';
+import { LETTERHEAD_TEMPLATES } from '../templates/registry';
 
 interface ToolbarProps {
   onZoomIn: () => void;
   onZoomOut: () => void;
   onZoomFit: () => void;
   onZoomReset: () => void;
-  onExportPDF: () => void;
+  onExportPDF: (mode: PdfExportMode) => void;
   onCopyImage: () => void;
   onNewPage: () => void;
+  onOpenLibrary: () => void;
+  onOpenAssets: () => void;
+  onOpenMailMerge: () => void;
   onAddText: () => void;
   onAddImage: (file: File) => void;
+  onInsertPageBreak: () => void;
+  onPastePlainText: () => void;
+  onFormat: (command: FormatCommand) => void;
+  onTableCommand: (command: TableCommand) => void;
+  onInsertInvoice: (language: InvoiceLanguage) => void;
+  onInsertField: (kind: FieldKind, format?: DateFormat) => void;
+  onOpenNumbering: () => void;
+  isComposing: boolean;
+  onToggleComposer: () => void;
   isProcessing: boolean;
   margins: Margins;
   onSetMargins: (m: Margins) => void;
+  pageSetup: PageSetup;
+  onSetPageSetup: (p: PageSetup) => void;
+  unit: MeasureUnit;
+  onSetUnit: (u: MeasureUnit) => void;
+  snap: SnapSettings;
+  onSetSnap: (s: SnapSettings) => void;
+  showRulers: boolean;
+  onSetShowRulers: (show: boolean) => void;
+  guideCount: number;
+  onClearGuides: () => void;
+  showLayers: boolean;
+  onToggleLayers: () => void;
+  showFind: boolean;
+  onToggleFind: () => void;
+  watermark: Watermark;
+  onSetWatermark: (w: Watermark) => void;
+  /** Whether exports include the watermark */
+  exportWatermark: boolean;
+  onSetExportWatermark: (include: boolean) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  templateId: string;
+  onSetTemplate: (id: string) => void;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
@@ -46,30 +118,120 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onExportPDF,
   onCopyImage,
   onNewPage,
+  onOpenLibrary,
+  onOpenAssets,
+  onOpenMailMerge,
   onAddText,
   onAddImage,
+  onInsertPageBreak,
+  onPastePlainText,
+  onFormat,
+  onTableCommand,
+  onInsertInvoice,
+  onInsertField,
+  onOpenNumbering,
+  isComposing,
+  onToggleComposer,
   isProcessing,
   margins,
-  onSetMargins
+  onSetMargins,
+  pageSetup,
+  onSetPageSetup,
+  unit,
+  onSetUnit,
+  snap,
+  onSetSnap,
+  showRulers,
+  onSetShowRulers,
+  guideCount,
+  onClearGuides,
+  showLayers,
+  onToggleLayers,
+  showFind,
+  onToggleFind,
+  watermark,
+  onSetWatermark,
+  exportWatermark,
+  onSetExportWatermark,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  templateId,
+  onSetTemplate
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showMobileMargins, setShowMobileMargins] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showFieldMenu, setShowFieldMenu] = useState(false);
+  const [showTableMenu, setShowTableMenu] = useState(false);
+  const [showSnapMenu, setShowSnapMenu] = useState(false);
+  const [showPageMenu, setShowPageMenu] = useState(false);
+  const [showWatermarkMenu, setShowWatermarkMenu] = useState(false);
+  const [tableSize, setTableSize] = useState({ rows: 0, cols: 0 });
 
-  const handleFormat = (command: string, value: string | undefined = undefined) => {
-    document.execCommand(command, false, value);
-  };
+  // Formatting at the selection, kept while focus is on the toolbar's own controls
+  const [format, setFormat] = useState<FormattingState | null>(null);
+  const [table, setTable] = useState<TableState | null>(null);
 
-  const handleFontSizeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    handleFormat('fontSize', e.target.value);
-  };
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      trackSelection();
+      const state = getFormattingState();
+      if (!state) return;
+      setFormat(prev => JSON.stringify(prev) === JSON.stringify(state) ? prev : state);
+      const tableState = getTableState();
+      setTable(prev => JSON.stringify(prev) === JSON.stringify(tableState) ? prev : tableState);
+    };
+    // Formatting switched on at the caret but not typed with is dropped by the next edit
+    const handleBeforeInput = (e: Event) => releaseCaretMarks(e.target);
+    document.addEventListener('selectionchange', handleSelectionChange);
+    document.addEventListener('beforeinput', handleBeforeInput, true);
+    return () => {
+      document.removeEventListener('selectionchange', handleSelectionChange);
+      document.removeEventListener('beforeinput', handleBeforeInput, true);
+    };
+  }, []);
+
+  const blocksDisabled = !!format && !format.canFormatBlocks;
 
+  // Current values that are not in the preset lists still show in the selects
+  const withCurrent = (values: number[], current: number | null | undefined) =>
+    current == null || values.includes(current) ? values : [...values, current].sort((a, b) => a - b);
+
+  // Margins are entered in the chosen unit and kept in px
   const handleMarginChange = (key: keyof Margins, value: string) => {
-    const num = parseInt(value, 10);
-    if (!isNaN(num)) {
-      onSetMargins({ ...margins, [key]: num });
+    const num = parseFloat(value);
+    if (!isNaN(num) && num >= 0) {
+      onSetMargins({ ...margins, [key]: unitToPx(num, unit) });
     }
   };
 
+  const marginPreset = matchingPreset(margins);
+  const page = pageDimensions(pageSetup);
+
+  // Custom sizes are entered as laid out, so swap back to portrait for landscape pages
+  const handleCustomSize = (side: 'width' | 'height', value: string) => {
+    const num = parseFloat(value);
+    if (isNaN(num)) return;
+    const mm = Math.min(MAX_PAGE_MM, Math.max(MIN_PAGE_MM, unitToMm(num, unit)));
+    const next = { ...page, [side]: mm };
+    onSetPageSetup({
+      ...pageSetup,
+      size: 'custom',
+      width: Math.min(next.width, next.height),
+      height: Math.max(next.width, next.height),
+      orientation: next.width > next.height ? 'landscape' : 'portrait',
+    });
+  };
+
+  const handlePageSize = (size: PageSizeId) => {
+    // A custom page starts from the size on screen
+    onSetPageSetup(size === 'custom'
+      ? { ...pageSetup, size, width: Math.min(page.width, page.height), height: Math.max(page.width, page.height) }
+      : { ...pageSetup, size });
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       onAddImage(e.target.files[0]);
@@ -78,24 +240,26 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   };
 
   const Btn = ({ 
-    cmd, 
-    arg, 
+    command, 
     icon: Icon, 
     title, 
-    active = false 
+    active = false,
+    disabled = false
   }: { 
-    cmd: string, 
-    arg?: string, 
+    command: FormatCommand, 
     icon: React.ElementType, 
     title: string,
-    active?: boolean 
+    active?: boolean,
+    disabled?: boolean
   }) => (
     <button
       onMouseDown={(e) => {
+        // Keep the selection in the letter
         e.preventDefault();
-        handleFormat(cmd, arg);
+        onFormat(command);
       }}
-      className={`p-1.5 md:p-2 rounded transition-colors cursor-pointer ${active ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-200 text-gray-700'}`}
+      disabled={disabled}
+      className={`p-1.5 md:p-2 rounded transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-default ${active ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-200 text-gray-700'}`}
       title={title}
       type="button"
     >
@@ -103,6 +267,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     </button>
   );
 
+  const selectClass = 'h-7 pl-1 pr-6 border border-gray-300 rounded text-xs text-gray-700 bg-white cursor-pointer flex-shrink-0 disabled:opacity-40 disabled:cursor-default';
+
   return (
     <div className="flex-shrink-0 bg-[#f3f4f6] border-b border-[#e5e7eb] shadow-sm z-50 flex flex-col no-print select-none relative">
       
@@ -122,12 +288,51 @@ export const Toolbar: React.FC<ToolbarProps> = ({
            <button 
             onClick={onNewPage}
             className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs md:text-sm font-medium text-gray-700 hover:bg-gray-100 border border-transparent hover:border-gray-200 cursor-pointer"
-            title="New Page"
+            title="New Letter"
           >
             <DocumentPlusIcon className="w-5 h-5 text-blue-600" />
             <span className="hidden lg:inline">New</span>
           </button>
+
+          <button 
+            onClick={onOpenLibrary}
+            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs md:text-sm font-medium text-gray-700 hover:bg-gray-100 border border-transparent hover:border-gray-200 cursor-pointer"
+            title="Letters"
+          >
+            <FolderOpenIcon className="w-5 h-5 text-amber-600" />
+            <span className="hidden lg:inline">Letters</span>
+          </button>
+
+          <button 
+            onClick={onOpenMailMerge}
+            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs md:text-sm font-medium text-gray-700 hover:bg-gray-100 border border-transparent hover:border-gray-200 cursor-pointer"
+            title="Mail Merge"
+          >
+            <EnvelopeIcon className="w-5 h-5 text-emerald-600" />
+            <span className="hidden lg:inline">Merge</span>
+          </button>
           
+          <div className="flex items-center">
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent cursor-pointer disabled:cursor-default"
+              title="Undo (Ctrl+Z)"
+            >
+              <ArrowUturnLeftIcon className="w-5 h-5" />
+            </button>
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent cursor-pointer disabled:cursor-default"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <ArrowUturnRightIcon className="w-5 h-5" />
+            </button>
+          </div>
+
           <div className="h-5 w-px bg-gray-300 mx-1 hidden md:block"></div>
 
            <button 
@@ -146,22 +351,191 @@ export const Toolbar: React.FC<ToolbarProps> = ({
              <PhotoIcon className="w-5 h-5" />
              <span className="hidden sm:inline">Image</span>
            </button>
+           <button
+             onClick={onOpenAssets}
+             className="flex items-center justify-center gap-1 bg-indigo-50 border border-indigo-200 hover:bg-indigo-100 text-indigo-800 px-2 py-1.5 rounded-md text-xs font-semibold shadow-sm cursor-pointer"
+             title="Signatures, Seals & Stamps"
+           >
+             <FingerPrintIcon className="w-5 h-5" />
+             <span className="hidden sm:inline">Sign</span>
+           </button>
+
+           {/* Field Menu - mouse down is cancelled so the caret stays where the field goes */}
+           <div className="relative flex items-center">
+             <button
+               onMouseDown={(e) => e.preventDefault()}
+               onClick={() => setShowFieldMenu(!showFieldMenu)}
+               className="flex items-center justify-center gap-1 bg-amber-50 border border-amber-200 hover:bg-amber-100 text-amber-800 px-2 py-1.5 rounded-md text-xs font-semibold shadow-sm cursor-pointer"
+               title="Insert Reference No., Date or Page Number"
+             >
+               <HashtagIcon className="w-5 h-5" />
+               <span className="hidden sm:inline">Field</span>
+             </button>
+
+             {showFieldMenu && (
+               <div className="absolute top-full left-0 mt-1 w-60 bg-white rounded shadow-lg border border-gray-200 py-1 z-50 text-left">
+                 <button
+                   onMouseDown={(e) => e.preventDefault()}
+                   onClick={() => { setShowFieldMenu(false); onInsertField('reference'); }}
+                   className="w-full px-3 py-2 text-left hover:bg-gray-100 cursor-pointer"
+                 >
+                   <div className="text-xs font-semibold text-gray-800">Reference No.</div>
+                   <div className="text-[10px] text-gray-500">Issued from the letterhead's sequence on export</div>
+                 </button>
+                 {DATE_FORMATS.map(format => (
+                   <button
+                     key={format.id}
+                     onMouseDown={(e) => e.preventDefault()}
+                     onClick={() => { setShowFieldMenu(false); onInsertField('date', format.id); }}
+                     className="w-full px-3 py-1.5 text-left text-xs text-gray-800 hover:bg-gray-100 cursor-pointer"
+                   >
+                     {format.label}
+                   </button>
+                 ))}
+                 <div className="border-t border-gray-100 my-1"></div>
+                 {([['page', 'Page number'], ['pages', 'Page count']] as [FieldKind, string][]).map(([kind, label]) => (
+                   <button
+                     key={kind}
+                     onMouseDown={(e) => e.preventDefault()}
+                     onClick={() => { setShowFieldMenu(false); onInsertField(kind); }}
+                     className="w-full px-3 py-1.5 text-left text-xs text-gray-800 hover:bg-gray-100 cursor-pointer"
+                   >
+                     {label}
+                   </button>
+                 ))}
+                 <div className="border-t border-gray-100 my-1"></div>
+                 <button
+                   onClick={() => { setShowFieldMenu(false); onOpenNumbering(); }}
+                   className="w-full px-3 py-1.5 text-left text-xs text-gray-600 hover:bg-gray-100 cursor-pointer"
+                 >
+                   Numbering settings…
+                 </button>
+               </div>
+             )}
+           </div>
+
+           {/* Table Menu - pick the size on a grid */}
+           <div className="relative flex items-center">
+             <button
+               onMouseDown={(e) => e.preventDefault()}
+               onClick={() => setShowTableMenu(!showTableMenu)}
+               className="flex items-center justify-center gap-1 bg-teal-50 border border-teal-200 hover:bg-teal-100 text-teal-800 px-2 py-1.5 rounded-md text-xs font-semibold shadow-sm cursor-pointer"
+               title="Insert Table or Quotation"
+             >
+               <TableCellsIcon className="w-5 h-5" />
+               <span className="hidden sm:inline">Table</span>
+             </button>
+
+             {showTableMenu && (
+               <div className="absolute top-full left-0 mt-1 p-2 bg-white rounded shadow-lg border border-gray-200 z-50" onMouseLeave={() => setTableSize({ rows: 0, cols: 0 })}>
+                 <div className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${MAX_NEW_TABLE.cols}, 1rem)` }}>
+                   {Array.from({ length: MAX_NEW_TABLE.rows * MAX_NEW_TABLE.cols }, (_, i) => {
+                     const rows = Math.floor(i / MAX_NEW_TABLE.cols) + 1;
+                     const cols = (i % MAX_NEW_TABLE.cols) + 1;
+                     const inside = rows <= tableSize.rows && cols <= tableSize.cols;
+                     return (
+                       <button
+                         key={i}
+                         onMouseDown={(e) => e.preventDefault()}
+                         onMouseEnter={() => setTableSize({ rows, cols })}
+                         onClick={() => { setShowTableMenu(false); setTableSize({ rows: 0, cols: 0 }); onTableCommand({ type: 'insert', rows, cols }); }}
+                         className={`w-4 h-4 border cursor-pointer ${inside ? 'bg-teal-200 border-teal-500' : 'bg-white border-gray-300'}`}
+                         type="button"
+                       />
+                     );
+                   })}
+                 </div>
+                 <div className="mt-1 text-center text-[11px] text-gray-600">
+                   {tableSize.rows ? `${tableSize.rows} × ${tableSize.cols}` : 'Rows × columns'}
+                 </div>
+                 <div className="border-t border-gray-100 my-1.5"></div>
+                 <div className="px-1 pb-1 text-[10px] font-semibold uppercase text-gray-500">Quotation / Bill</div>
+                 {INVOICE_LANGUAGES.map(language => (
+                   <button
+                     key={language.id}
+                     onMouseDown={(e) => e.preventDefault()}
+                     onClick={() => { setShowTableMenu(false); onInsertInvoice(language.id); }}
+                     className="w-full px-1 py-1 text-left text-xs text-gray-800 hover:bg-gray-100 rounded cursor-pointer whitespace-nowrap"
+                   >
+                     {language.label}
+                   </button>
+                 ))}
+               </div>
+             )}
+           </div>
+
+           <button 
+             onClick={onToggleComposer}
+             className={`flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-xs font-semibold shadow-sm cursor-pointer border ${isComposing ? 'bg-sky-600 border-sky-700 text-white hover:bg-sky-700' : 'bg-sky-50 border-sky-200 text-sky-800 hover:bg-sky-100'}`}
+             title={isComposing ? 'Back to free editing' : 'Letter Composer'}
+           >
+             <ClipboardDocumentListIcon className="w-5 h-5" />
+             <span className="hidden sm:inline">Compose</span>
+           </button>
 
            <div className="h-5 w-px bg-gray-300 mx-1 hidden md:block"></div>
 
-          <button 
-            onClick={onExportPDF}
-            disabled={isProcessing}
-            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs md:text-sm font-medium text-gray-700 hover:bg-gray-100 border border-transparent hover:border-gray-200 cursor-pointer"
-            title="Export PDF"
-          >
-            <DocumentArrowDownIcon className="w-5 h-5 text-red-600" />
-            <span className="hidden sm:inline">{isProcessing ? 'Saving...' : 'PDF'}</span>
-          </button>
+          <div className="relative flex items-center">
+            <button 
+              onClick={() => onExportPDF('vector')}
+              disabled={isProcessing}
+              className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-l text-xs md:text-sm font-medium text-gray-700 hover:bg-gray-100 border border-transparent hover:border-gray-200 cursor-pointer"
+              title="Export PDF"
+            >
+              <DocumentArrowDownIcon className="w-5 h-5 text-red-600" />
+              <span className="hidden sm:inline">{isProcessing ? 'Saving...' : 'PDF'}</span>
+            </button>
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={isProcessing}
+              className="flex items-center justify-center px-1 py-2 rounded-r text-gray-500 hover:bg-gray-100 border border-transparent hover:border-gray-200 cursor-pointer"
+              title="PDF Export Options"
+            >
+              <ChevronDownIcon className="w-3 h-3" />
+            </button>
+
+            {/* Export Mode Menu */}
+            {showExportMenu && (
+              <div className="absolute top-full left-0 mt-1 w-56 bg-white rounded shadow-lg border border-gray-200 py-1 z-50 text-left">
+                <button
+                  onClick={() => { setShowExportMenu(false); onExportPDF('vector'); }}
+                  className="w-full px-3 py-2 text-left hover:bg-gray-100 cursor-pointer"
+                >
+                  <div className="text-xs font-semibold text-gray-800">Vector PDF</div>
+                  <div className="text-[10px] text-gray-500">Sharp, small, selectable text</div>
+                </button>
+                <button
+                  onClick={() => { setShowExportMenu(false); onExportPDF('raster'); }}
+                  className="w-full px-3 py-2 text-left hover:bg-gray-100 cursor-pointer"
+                >
+                  <div className="text-xs font-semibold text-gray-800">Image PDF</div>
+                  <div className="text-[10px] text-gray-500">Screenshot of each page (fallback)</div>
+                </button>
+                {watermark.enabled && (
+                  <label className="flex items-center gap-1.5 px-3 pt-2 pb-1 mt-1 border-t border-gray-100 text-xs text-gray-800 cursor-pointer">
+                    <input type="checkbox" checked={exportWatermark} onChange={e => onSetExportWatermark(e.target.checked)} />
+                    Include watermark
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
         </div>
 
-        {/* Right Group: Zoom & Margins */}
+        {/* Right Group: Letterhead, Zoom & Margins */}
         <div className="flex items-center gap-1 md:gap-2 ml-auto">
+           {/* Letterhead Picker */}
+           <select
+             value={templateId}
+             onChange={(e) => onSetTemplate(e.target.value)}
+             className="h-7 pl-1 pr-6 border border-gray-300 rounded text-xs text-gray-700 bg-white cursor-pointer max-w-[8rem] md:max-w-[14rem]"
+             title="Letterhead"
+           >
+             {LETTERHEAD_TEMPLATES.map(t => (
+               <option key={t.id} value={t.id}>{t.name}</option>
+             ))}
+           </select>
+
            {/* Desktop Margins */}
            <div className="hidden xl:flex items-center gap-1 text-xs text-black bg-white px-2 py-1 rounded border border-gray-300 shadow-sm">
               <span className="font-semibold text-[10px] text-gray-500 uppercase">Margin:</span>
@@ -170,12 +544,15 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                   <span className="text-[9px] text-gray-400 uppercase mr-0.5">{m[0]}</span>
                   <input 
                     type="number" 
-                    value={margins[m as keyof Margins]} 
+                    min={0}
+                    step={unitStep(unit)}
+                    value={pxToUnit(margins[m as keyof Margins], unit)} 
                     onChange={e => handleMarginChange(m as keyof Margins, e.target.value)} 
-                    className="w-8 p-0.5 border border-gray-300 rounded text-center outline-none bg-white text-black text-[10px]" 
+                    className="w-11 p-0.5 border border-gray-300 rounded text-center outline-none bg-white text-black text-[10px]" 
                   />
                 </div>
               ))}
+              <span className="text-[9px] text-gray-400">{unit}</span>
            </div>
            
            {/* Mobile Margins Toggle */}
@@ -187,6 +564,276 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               <AdjustmentsHorizontalIcon className="w-5 h-5" />
            </button>
 
+           {/* Page Setup Menu - paper size, orientation, units and margin presets */}
+           <div className="relative flex items-center">
+             <button
+               onClick={() => setShowPageMenu(!showPageMenu)}
+               className={`flex items-center gap-1 p-1.5 rounded border cursor-pointer text-[10px] font-semibold ${showPageMenu ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white border-gray-200 text-gray-600'}`}
+               title="Page Setup"
+             >
+               <DocumentIcon className={`w-5 h-5 ${pageSetup.orientation === 'landscape' ? '-rotate-90' : ''}`} />
+               <span className="hidden sm:inline">{PAGE_SIZES.find(p => p.id === pageSetup.size)?.label || 'Custom'}</span>
+             </button>
+
+             {showPageMenu && (
+               <div className="absolute top-full right-0 mt-1 p-2 w-60 bg-white rounded shadow-lg border border-gray-200 z-50 flex flex-col gap-2 text-xs text-gray-800">
+                 <label className="flex items-center justify-between gap-1.5">
+                   Paper
+                   <select
+                     value={pageSetup.size}
+                     onChange={e => handlePageSize(e.target.value as PageSizeId)}
+                     className="h-6 px-1 border border-gray-300 rounded bg-white text-black text-xs cursor-pointer"
+                   >
+                     {PAGE_SIZES.map(p => (
+                       <option key={p.id} value={p.id}>{p.label} ({mmToUnit(p.width, unit)} × {mmToUnit(p.height, unit)} {unit})</option>
+                     ))}
+                     <option value="custom">Custom</option>
+                   </select>
+                 </label>
+                 {pageSetup.size === 'custom' && (
+                   <div className="flex items-center justify-end gap-1">
+                     {(['width', 'height'] as const).map((side, i) => (
+                       <React.Fragment key={side}>
+                         {i > 0 && <span className="text-gray-400">×</span>}
+                         {/* Applied on blur, so typing through a too-small value isn't clamped */}
+                         <input
+                           key={`${side}:${unit}:${page[side]}`}
+                           type="number"
+                           step={unitStep(unit)}
+                           defaultValue={mmToUnit(page[side], unit)}
+                           onBlur={e => handleCustomSize(side, e.target.value)}
+                           onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                           className="w-16 p-0.5 border border-gray-300 rounded text-center outline-none bg-white text-black text-xs"
+                           title={side === 'width' ? 'Width' : 'Height'}
+                         />
+                       </React.Fragment>
+                     ))}
+                     <span className="text-gray-400">{unit}</span>
+                   </div>
+                 )}
+                 <div className="flex rounded border border-gray-300 overflow-hidden">
+                   {(['portrait', 'landscape'] as Orientation[]).map(o => (
+                     <button
+                       key={o}
+                       onClick={() => onSetPageSetup({ ...pageSetup, orientation: o })}
+                       className={`flex-1 py-0.5 capitalize cursor-pointer ${pageSetup.orientation === o ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+                     >
+                       {o}
+                     </button>
+                   ))}
+                 </div>
+                 <label className="flex items-center justify-between gap-1.5">
+                   Margins
+                   <select
+                     value={marginPreset?.id || ''}
+                     onChange={e => {
+                       const preset = MARGIN_PRESETS.find(p => p.id === e.target.value);
+                       if (preset) onSetMargins(presetMargins(preset.mm));
+                     }}
+                     className="h-6 px-1 border border-gray-300 rounded bg-white text-black text-xs cursor-pointer"
+                   >
+                     {!marginPreset && <option value="">Custom</option>}
+                     {MARGIN_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                   </select>
+                 </label>
+                 <label className="flex items-center justify-between gap-1.5">
+                   Units
+                   <select
+                     value={unit}
+                     onChange={e => onSetUnit(e.target.value as MeasureUnit)}
+                     className="h-6 px-1 border border-gray-300 rounded bg-white text-black text-xs cursor-pointer"
+                   >
+                     {UNITS.map(u => <option key={u.id} value={u.id}>{u.label}</option>)}
+                   </select>
+                 </label>
+               </div>
+             )}
+           </div>
+
+           {/* Watermark Menu - text or logo behind the body of every page */}
+           <div className="relative flex items-center">
+             <button
+               onClick={() => setShowWatermarkMenu(!showWatermarkMenu)}
+               className={`flex items-center justify-center p-1.5 rounded border cursor-pointer ${showWatermarkMenu || watermark.enabled ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white border-gray-200 text-gray-600'}`}
+               title="Watermark"
+             >
+               <SwatchIcon className="w-5 h-5" />
+             </button>
+
+             {showWatermarkMenu && (
+               <div className="absolute top-full right-0 mt-1 p-2 w-60 bg-white rounded shadow-lg border border-gray-200 z-50 flex flex-col gap-2 text-xs text-gray-800">
+                 <label className="flex items-center gap-1.5 cursor-pointer font-semibold">
+                   <input type="checkbox" checked={watermark.enabled} onChange={e => onSetWatermark({ ...watermark, enabled: e.target.checked })} />
+                   Show watermark
+                 </label>
+                 <div className="flex rounded border border-gray-300 overflow-hidden">
+                   {(['text', 'logo'] as WatermarkKind[]).map(kind => (
+                     <button
+                       key={kind}
+                       onClick={() => onSetWatermark({ ...watermark, enabled: true, kind })}
+                       className={`flex-1 py-0.5 cursor-pointer ${watermark.kind === kind ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+                     >
+                       {kind === 'text' ? 'Text' : 'Company logo'}
+                     </button>
+                   ))}
+                 </div>
+                 {watermark.kind === 'text' ? (
+                   <>
+                     <div className="flex gap-1">
+                       {WATERMARK_PRESETS.map(text => (
+                         <button
+                           key={text}
+                           onClick={() => onSetWatermark({ ...watermark, enabled: true, text })}
+                           className={`flex-1 py-0.5 rounded border text-[10px] font-semibold cursor-pointer ${watermark.text === text ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-100'}`}
+                         >
+                           {text}
+                         </button>
+                       ))}
+                     </div>
+                     <input
+                       type="text"
+                       value={watermark.text}
+                       onChange={e => onSetWatermark({ ...watermark, text: e.target.value })}
+                       placeholder="Custom text"
+                       className="h-6 px-1.5 border border-gray-300 rounded bg-white text-black text-xs outline-none focus:border-blue-400"
+                     />
+                     <div className="flex items-center justify-between gap-1.5">
+                       <label className="flex items-center gap-1.5">
+                         Size
+                         <input
+                           type="number"
+                           min={12}
+                           max={300}
+                           step={4}
+                           value={watermark.fontSize}
+                           onChange={e => {
+                             const size = parseFloat(e.target.value);
+                             if (!isNaN(size)) onSetWatermark({ ...watermark, fontSize: Math.min(300, Math.max(12, size)) });
+                           }}
+                           className="w-14 p-0.5 border border-gray-300 rounded text-center outline-none bg-white text-black text-xs"
+                         />
+                         <span className="text-gray-400">pt</span>
+                       </label>
+                       <label className="relative flex items-center gap-1 h-6 px-1.5 border border-gray-300 rounded cursor-pointer" title="Colour">
+                         <span className="w-3.5 h-3.5 rounded-sm border border-gray-300" style={{ backgroundColor: watermark.color }}></span>
+                         Colour
+                         <input type="color" value={watermark.color} onChange={e => onSetWatermark({ ...watermark, color: e.target.value })} className="absolute inset-0 opacity-0 cursor-pointer" />
+                       </label>
+                     </div>
+                   </>
+                 ) : (
+                   <label className="flex items-center justify-between gap-1.5">
+                     Width
+                     <input
+                       type="range"
+                       min={10}
+                       max={100}
+                       value={watermark.logoWidth}
+                       onChange={e => onSetWatermark({ ...watermark, logoWidth: Number(e.target.value) })}
+                       className="flex-1 cursor-pointer"
+                     />
+                     <span className="w-9 text-right text-gray-500">{watermark.logoWidth}%</span>
+                   </label>
+                 )}
+                 <label className="flex items-center justify-between gap-1.5">
+                   Opacity
+                   <input
+                     type="range"
+                     min={MIN_WATERMARK_OPACITY}
+                     max={100}
+                     value={watermark.opacity}
+                     onChange={e => onSetWatermark({ ...watermark, opacity: Number(e.target.value) })}
+                     className="flex-1 cursor-pointer"
+                   />
+                   <span className="w-9 text-right text-gray-500">{watermark.opacity}%</span>
+                 </label>
+                 <label className="flex items-center justify-between gap-1.5">
+                   Rotation
+                   <input
+                     type="range"
+                     min={-90}
+                     max={90}
+                     step={5}
+                     value={watermark.rotation}
+                     onChange={e => onSetWatermark({ ...watermark, rotation: Number(e.target.value) })}
+                     className="flex-1 cursor-pointer"
+                   />
+                   <span className="w-9 text-right text-gray-500">{watermark.rotation}°</span>
+                 </label>
+                 <label className="flex items-center gap-1.5 cursor-pointer">
+                   <input type="checkbox" checked={watermark.tile} onChange={e => onSetWatermark({ ...watermark, tile: e.target.checked })} />
+                   Repeat across the page
+                 </label>
+                 <p className="text-[10px] text-gray-400 leading-tight">Untick "Include watermark" under the PDF options to export a copy without it.</p>
+               </div>
+             )}
+           </div>
+
+           {/* Find & Replace Panel Toggle */}
+           <button
+             onClick={onToggleFind}
+             className={`flex items-center justify-center p-1.5 rounded border cursor-pointer ${showFind ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white border-gray-200 text-gray-600'}`}
+             title="Find & Replace (Ctrl+F)"
+           >
+             <MagnifyingGlassIcon className="w-5 h-5" />
+           </button>
+
+           {/* Layers Panel Toggle */}
+           <button
+             onClick={onToggleLayers}
+             className={`flex items-center justify-center p-1.5 rounded border cursor-pointer ${showLayers ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white border-gray-200 text-gray-600'}`}
+             title="Layers"
+           >
+             <RectangleStackIcon className="w-5 h-5" />
+           </button>
+
+           {/* Snap Menu - guides and grid for dragged blocks */}
+           <div className="relative flex items-center">
+             <button
+               onClick={() => setShowSnapMenu(!showSnapMenu)}
+               className={`flex items-center justify-center p-1.5 rounded border cursor-pointer ${showSnapMenu || snap.grid ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white border-gray-200 text-gray-600'}`}
+               title="Snapping & Grid"
+             >
+               <Squares2X2Icon className="w-5 h-5" />
+             </button>
+
+             {showSnapMenu && (
+               <div className="absolute top-full right-0 mt-1 p-2 w-52 bg-white rounded shadow-lg border border-gray-200 z-50 flex flex-col gap-1.5 text-xs text-gray-800">
+                 <label className="flex items-center gap-1.5 cursor-pointer">
+                   <input type="checkbox" checked={snap.guides} onChange={e => onSetSnap({ ...snap, guides: e.target.checked })} />
+                   Snap to margins, centre &amp; blocks
+                 </label>
+                 <label className="flex items-center gap-1.5 cursor-pointer">
+                   <input type="checkbox" checked={snap.grid} onChange={e => onSetSnap({ ...snap, grid: e.target.checked })} />
+                   Show &amp; snap to grid
+                 </label>
+                 <label className="flex items-center justify-between gap-1.5">
+                   Grid size
+                   <select
+                     value={snap.gridSize}
+                     onChange={e => onSetSnap({ ...snap, gridSize: Number(e.target.value) })}
+                     className="h-6 px-1 border border-gray-300 rounded bg-white text-black text-xs cursor-pointer"
+                   >
+                     {GRID_SIZES.map(size => <option key={size} value={size}>{size} mm</option>)}
+                   </select>
+                 </label>
+                 <div className="border-t border-gray-100 pt-1.5 flex items-center justify-between gap-1.5">
+                   <label className="flex items-center gap-1.5 cursor-pointer">
+                     <input type="checkbox" checked={showRulers} onChange={e => onSetShowRulers(e.target.checked)} />
+                     Rulers &amp; guides
+                   </label>
+                   {guideCount > 0 && (
+                     <button onClick={onClearGuides} className="px-1.5 py-0.5 rounded text-[11px] text-gray-600 hover:bg-gray-100 cursor-pointer">
+                       Clear {guideCount} guide{guideCount === 1 ? '' : 's'}
+                     </button>
+                   )}
+                 </div>
+                 <p className="text-[10px] text-gray-400 leading-tight">Drag from a ruler to add a guide, and off the page to remove it. Drag the dashed margin lines to change the margins.</p>
+                 <p className="text-[10px] text-gray-400 leading-tight">Hold Alt while dragging to move freely. Arrow keys nudge the selected block, Shift for larger steps.</p>
+               </div>
+             )}
+           </div>
+
            <div className="flex items-center gap-0.5 text-xs text-black">
               <button onClick={onZoomOut} className="w-7 h-7 flex items-center justify-center hover:bg-gray-100 rounded border border-gray-200 font-bold bg-white text-base cursor-pointer">-</button>
               <button onClick={onZoomFit} className="flex px-1.5 h-7 items-center justify-center hover:bg-gray-100 rounded border border-gray-200 bg-white cursor-pointer text-[10px] sm:text-xs" title="Fit to Screen">
@@ -208,53 +855,164 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                   <span className="text-[9px] text-gray-400 uppercase mb-0.5">{m}</span>
                   <input 
                     type="number" 
-                    value={margins[m as keyof Margins]} 
+                    min={0}
+                    step={unitStep(unit)}
+                    value={pxToUnit(margins[m as keyof Margins], unit)} 
                     onChange={e => handleMarginChange(m as keyof Margins, e.target.value)} 
-                    className="w-10 p-1 border border-gray-300 rounded text-center outline-none bg-white text-black text-xs" 
+                    className="w-12 p-1 border border-gray-300 rounded text-center outline-none bg-white text-black text-xs" 
                   />
                 </div>
               ))}
             </div>
+            <span className="text-xs text-gray-400">{unit}</span>
         </div>
       )}
 
-      {/* Row 2: Formatting - Condensed */}
+      {/* Row 2: Formatting - follows the selection */}
       <div className="flex items-center px-2 py-1.5 gap-1.5 overflow-x-auto bg-[#f9fafb] no-scrollbar">
-        <select 
-          onChange={handleFontSizeChange} 
-          defaultValue="3" 
-          className="h-7 pl-1 pr-6 border border-gray-300 rounded text-xs text-gray-700 bg-white cursor-pointer w-20 md:w-24"
+        <select
+          value={format?.block || 'p'}
+          onChange={e => onFormat({ type: 'block', value: e.target.value as BlockType })}
+          disabled={blocksDisabled}
+          className={`${selectClass} w-24`}
+          title="Paragraph Style"
+        >
+          <option value="p">Normal</option>
+          <option value="h1">Heading 1</option>
+          <option value="h2">Heading 2</option>
+          <option value="h3">Heading 3</option>
+        </select>
+
+        <select
+          value={format?.fontFamily || ''}
+          onChange={e => onFormat({ type: 'fontFamily', value: FONT_FAMILIES.find(f => f.name === e.target.value)!.css })}
+          className={`${selectClass} w-28 md:w-32`}
+          title="Font"
         >
-          <option value="1">Tiny</option>
-          <option value="2">Small</option>
-          <option value="3">Normal</option>
-          <option value="4">Medium</option>
-          <option value="5">Large</option>
-          <option value="6">XL</option>
-          <option value="7">Huge</option>
+          <option value="" disabled>Font</option>
+          {FONT_FAMILIES.map(f => (
+            <option key={f.name} value={f.name} style={{ fontFamily: f.css }}>{f.name}</option>
+          ))}
         </select>
 
-        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm">
-          <Btn cmd="bold" icon={BoldIcon} title="Bold" />
-          <Btn cmd="italic" icon={ItalicIcon} title="Italic" />
-          <Btn cmd="underline" icon={UnderlineIcon} title="Underline" />
+        <select
+          value={format ? String(format.fontSize) : '11'}
+          onChange={e => onFormat({ type: 'fontSize', value: parseFloat(e.target.value) })}
+          className={`${selectClass} w-16`}
+          title="Font Size (pt)"
+        >
+          {withCurrent(FONT_SIZES, format?.fontSize).map(size => (
+            <option key={size} value={String(size)}>{size}</option>
+          ))}
+        </select>
+
+        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm flex-shrink-0">
+          <Btn command={{ type: 'bold' }} icon={BoldIcon} title="Bold (Ctrl+B)" active={format?.bold} />
+          <Btn command={{ type: 'italic' }} icon={ItalicIcon} title="Italic (Ctrl+I)" active={format?.italic} />
+          <Btn command={{ type: 'underline' }} icon={UnderlineIcon} title="Underline (Ctrl+U)" active={format?.underline} />
+          <Btn command={{ type: 'strike' }} icon={StrikethroughIcon} title="Strikethrough" active={format?.strike} />
+        </div>
+
+        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm flex-shrink-0">
+          <label className="relative flex flex-col items-center justify-center w-7 h-7 md:w-9 md:h-9 rounded hover:bg-gray-200 cursor-pointer" title="Text Colour">
+            <span className="text-sm font-bold leading-none text-gray-700 font-serif">A</span>
+            <span className="w-4 h-1 mt-0.5 rounded-sm border border-gray-300" style={{ backgroundColor: format?.color || '#000000' }}></span>
+            <input
+              type="color"
+              value={format?.color || '#000000'}
+              onChange={e => onFormat({ type: 'color', value: e.target.value })}
+              className="absolute inset-0 opacity-0 cursor-pointer"
+            />
+          </label>
+          <div className="relative flex items-center" title="Highlight">
+            <PaintBrushIcon className="absolute left-1.5 w-4 h-4 text-gray-600 pointer-events-none" />
+            <select
+              value={format?.highlight || ''}
+              onChange={e => onFormat({ type: 'highlight', value: e.target.value })}
+              className="h-7 md:h-9 pl-7 pr-1 w-12 rounded text-xs text-gray-700 bg-transparent hover:bg-gray-200 cursor-pointer appearance-none"
+              style={{ borderBottom: `3px solid ${format?.highlight || 'transparent'}` }}
+            >
+              {HIGHLIGHTS.map(h => (
+                <option key={h.name} value={h.value} style={{ backgroundColor: h.value || '#ffffff' }}>{h.name}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
         <div className="w-px h-5 bg-gray-300 flex-shrink-0"></div>
 
-        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm">
-          <Btn cmd="justifyLeft" icon={Bars3BottomLeftIcon} title="Left" />
-          <Btn cmd="justifyCenter" icon={Bars3Icon} title="Center" />
-          <Btn cmd="justifyRight" icon={Bars3BottomRightIcon} title="Right" />
+        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm flex-shrink-0">
+          <Btn command={{ type: 'align', value: 'left' }} icon={Bars3BottomLeftIcon} title="Left" active={format?.align === 'left'} disabled={blocksDisabled} />
+          <Btn command={{ type: 'align', value: 'center' }} icon={Bars3Icon} title="Center" active={format?.align === 'center'} disabled={blocksDisabled} />
+          <Btn command={{ type: 'align', value: 'right' }} icon={Bars3BottomRightIcon} title="Right" active={format?.align === 'right'} disabled={blocksDisabled} />
+          <Btn command={{ type: 'align', value: 'justify' }} icon={Bars4Icon} title="Justify" active={format?.align === 'justify'} disabled={blocksDisabled} />
+        </div>
+
+        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm flex-shrink-0">
+          <Btn command={{ type: 'list', value: 'ul' }} icon={ListBulletIcon} title="Bullets" active={format?.list === 'ul'} disabled={blocksDisabled} />
+          <Btn command={{ type: 'list', value: 'ol' }} icon={NumberedListIcon} title="Numbers" active={format?.list === 'ol'} disabled={blocksDisabled} />
+          <Btn command={{ type: 'outdent' }} icon={ChevronDoubleLeftIcon} title="Decrease Indent" disabled={blocksDisabled} />
+          <Btn command={{ type: 'indent' }} icon={ChevronDoubleRightIcon} title="Increase Indent" disabled={blocksDisabled} />
         </div>
 
+        <select
+          value={format?.lineHeight != null ? String(format.lineHeight) : ''}
+          onChange={e => onFormat({ type: 'lineHeight', value: parseFloat(e.target.value) })}
+          disabled={blocksDisabled}
+          className={`${selectClass} w-20`}
+          title="Line Spacing"
+        >
+          <option value="" disabled>Lines</option>
+          {withCurrent(LINE_SPACINGS, format?.lineHeight).map(value => (
+            <option key={value} value={String(value)}>{value.toFixed(2).replace(/0$/, '')}×</option>
+          ))}
+        </select>
+
+        <select
+          value={String(format?.paragraphSpacing ?? 0)}
+          onChange={e => onFormat({ type: 'paragraphSpacing', value: parseFloat(e.target.value) })}
+          disabled={blocksDisabled}
+          className={`${selectClass} w-24`}
+          title="Space After Paragraph"
+        >
+          {withCurrent(PARAGRAPH_SPACINGS, format?.paragraphSpacing).map(value => (
+            <option key={value} value={String(value)}>After {value} pt</option>
+          ))}
+        </select>
+
+        <Btn command={{ type: 'clear' }} icon={BackspaceIcon} title="Clear Formatting" />
+        <button
+          onMouseDown={(e) => {
+            // Keep the caret where the text goes
+            e.preventDefault();
+            onPastePlainText();
+          }}
+          className="p-1.5 md:p-2 rounded transition-colors cursor-pointer hover:bg-gray-200 text-gray-700 flex-shrink-0"
+          title="Paste as Plain Text (Ctrl+Shift+V)"
+          type="button"
+        >
+          <ClipboardIcon className="w-4 h-4 md:w-5 md:h-5" />
+        </button>
+
         <div className="w-px h-5 bg-gray-300 flex-shrink-0"></div>
 
-        <div className="flex items-center bg-white border border-gray-200 rounded p-0.5 shadow-sm">
-          <Btn cmd="insertUnorderedList" icon={ListBulletIcon} title="Bullets" />
-          <Btn cmd="insertOrderedList" icon={ListNumberIcon} title="Numbers" />
-        </div>
+        <button
+          onMouseDown={(e) => {
+            // Keep the caret in the body so the break lands where the user is typing
+            e.preventDefault();
+            onInsertPageBreak();
+          }}
+          className="flex items-center gap-1 h-7 px-2 bg-white border border-gray-200 rounded shadow-sm text-xs text-gray-700 hover:bg-gray-100 cursor-pointer flex-shrink-0"
+          title="Insert Page Break"
+          type="button"
+        >
+          <DocumentDuplicateIcon className="w-4 h-4" />
+          <span className="hidden md:inline">Page Break</span>
+        </button>
       </div>
+
+      {/* Row 3: Table - only while the caret is in a table */}
+      {table && <TableToolbar table={table} onCommand={onTableCommand} />}
     </div>
   );
 };
\ No newline at end of file
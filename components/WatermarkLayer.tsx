@@ -0,0 +1,54 @@
+import React from 'react';
+import { Watermark } from '../types';
+import { PX_PER_MM } from '../utils/assetLibrary';
+import { WATERMARK_ATTR, WATERMARK_TEXT_ATTR, watermarkPositions } from '../utils/watermark';
+
+interface WatermarkLayerProps {
+  watermark: Watermark;
+  logo: string;
+  fontFamily: string;
+  /** Page size, mm */
+  width: number;
+  height: number;
+}
+
+// Px per pt
+const PT = 96 / 72;
+
+// DRAFT/COPY text or the logo behind the letterhead and body of a page
+export const WatermarkLayer: React.FC<WatermarkLayerProps> = ({ watermark, logo, fontFamily, width, height }) => {
+  const { kind, text, color, opacity, rotation, fontSize, logoWidth, tile } = watermark;
+  const pageWidth = width * PX_PER_MM;
+  const pageHeight = height * PX_PER_MM;
+  const logoPx = pageWidth * logoWidth / 100;
+  // Tiles sit about one mark apart
+  const step = kind === 'logo'
+    ? logoPx * 1.4
+    : Math.max(fontSize * PT * 2.5, fontSize * PT * 0.7 * text.length);
+  const transform = `translate(-50%, -50%) rotate(${rotation}deg)`;
+
+  if (kind === 'text' && !text.trim()) return null;
+
+  return (
+    <div
+      {...{ [WATERMARK_ATTR]: true }}
+      className="absolute inset-0 overflow-hidden pointer-events-none select-none z-0"
+      style={{ opacity: opacity / 100 }}
+    >
+      {watermarkPositions(pageWidth, pageHeight, tile, step).map((p, i) => kind === 'text' ? (
+        <div
+          key={i}
+          {...{ [WATERMARK_TEXT_ATTR]: true }}
+          className="absolute whitespace-nowrap font-bold"
+          style={{ left: p.x, top: p.y, transform, fontSize: `${fontSize}pt`, lineHeight: 1, color, fontFamily }}
+        >
+          {text}
+        </div>
+      ) : (
+        <div key={i} className="absolute" style={{ left: p.x, top: p.y, width: logoPx, transform }}>
+          <img src={logo} alt="" className="block w-full h-auto" crossOrigin="anonymous" />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { LetterheadTemplate, PageLetterhead, PageRole } from '../types';
+
+// Letterheads for each concern of the group.
+// To add a concern, append an entry here; it shows up in the Toolbar picker.
+// Asset URLs must be served with CORS headers so PDF export can read them.
+
+const ASSET_BASE = 'https://tajmir-images.pages.dev';
+
+const SERIF = 'Georgia, "Times New Roman", serif';
+const SANS = 'ui-sans-serif, system-ui, sans-serif';
+
+// New Green -> Gold -> Old Green -> Gold -> New Green
+const TAJMIR_STRIP = ['rgb(47, 91, 16)', 'rgb(166, 138, 63)', '#006400', 'rgb(166, 138, 63)', 'rgb(47, 91, 16)'];
+
+const TAJMIR_FOOTER = {
+  addr1: '950/B, Yakub-Ayub Building,',
+  addr2: 'Amir Market, Khatungonj, Chattogram.',
+  phone: '01843601712, 01755880400',
+};
+
+// Field token markup (see utils/letterFields); written out here as that module reaches the document store
+const token = (kind: string) => `<span data-field="${kind}" contenteditable="false"></span>`;
+
+const RUNNING_HEADER = `Ref: ${token('reference')}<br>Page ${token('page')} of ${token('pages')}`;
+
+const runningFooter = (title: string) => `${title} &nbsp;·&nbsp; ${TAJMIR_FOOTER.phone}`;
+
+// Full letterhead on page one, slim ones after it, and the full footer again under the signature
+const FORMAL_PAGES: Record<PageRole, PageLetterhead> = {
+  first: { header: 'full', footer: 'full' },
+  continuation: { header: 'running', footer: 'running' },
+  last: { header: 'running', footer: 'full' },
+};
+
+export const LETTERHEAD_TEMPLATES: LetterheadTemplate[] = [
+  {
+    id: 'tajmir-global',
+    name: 'Tajmir Global Corporation',
+    logo: `${ASSET_BASE}/Logo%20black.png`,
+    cornerArt: `${ASSET_BASE}/letter%20d.png`,
+    header: {
+      h1: 'TAJMIR GLOBAL',
+      h2: 'CORPORATION',
+      sub: 'A Concern of Tajmir Group',
+      running: RUNNING_HEADER,
+    },
+    footer: {
+      title: 'Tajmir Global Corporation',
+      ...TAJMIR_FOOTER,
+      running: runningFooter('Tajmir Global Corporation'),
+    },
+    fonts: { heading: SERIF, accent: SANS, body: SERIF },
+    stripColors: TAJMIR_STRIP,
+    layout: 'classic',
+    pages: FORMAL_PAGES,
+    reference: { prefix: 'TGC', department: 'ADM', padding: 4 },
+  },
+  {
+    id: 'tajmir-group',
+    name: 'Tajmir Group',
+    logo: `${ASSET_BASE}/Logo%20black.png`,
+    cornerArt: `${ASSET_BASE}/letter%20d.png`,
+    header: {
+      h1: 'TAJMIR GROUP',
+      h2: '',
+      sub: 'Chattogram, Bangladesh',
+      running: RUNNING_HEADER,
+    },
+    footer: {
+      title: 'Tajmir Group',
+      ...TAJMIR_FOOTER,
+      running: runningFooter('Tajmir Group'),
+    },
+    fonts: { heading: SERIF, accent: SANS, body: SERIF },
+    stripColors: TAJMIR_STRIP,
+    layout: 'centered',
+    pages: FORMAL_PAGES,
+    reference: { prefix: 'TG', department: 'ADM', padding: 4 },
+  },
+  {
+    id: 'tajmir-global-memo',
+    name: 'Tajmir Global Corporation (Memo)',
+    logo: `${ASSET_BASE}/Logo%20black.png`,
+    header: {
+      h1: 'TAJMIR GLOBAL CORPORATION',
+      h2: '',
+      sub: 'Internal Memo',
+      running: RUNNING_HEADER,
+    },
+    footer: {
+      title: 'Tajmir Global Corporation',
+      ...TAJMIR_FOOTER,
+      running: `Page ${token('page')} of ${token('pages')}`,
+    },
+    fonts: { heading: SANS, accent: SANS, body: SERIF },
+    stripColors: ['rgb(47, 91, 16)', 'rgb(166, 138, 63)'],
+    layout: 'minimal',
+    // Memos keep a slim footer throughout
+    pages: {
+      first: { header: 'full', footer: 'running' },
+      continuation: { header: 'running', footer: 'running' },
+      last: { header: 'running', footer: 'running' },
+    },
+    reference: { prefix: 'TGC', department: 'MEMO', padding: 4 },
+  },
+];
+
+export const DEFAULT_TEMPLATE_ID = LETTERHEAD_TEMPLATES[0].id;
+
+/** Looks up a template, falling back to the default for unknown ids (e.g. a removed concern). */
+export const getTemplate = (id: string): LetterheadTemplate =>
+  LETTERHEAD_TEMPLATES.find(t => t.id === id) || LETTERHEAD_TEMPLATES[0];
+
+/** Which page of a letter `index` is */
+export const pageRole = (index: number, count: number): PageRole =>
+  index === 0 ? 'first' : index === count - 1 ? 'last' : 'continuation';
+
+/** Header and footer for a page of a letter with this template */
+export const pageLetterhead = (template: LetterheadTemplate, index: number, count: number) =>
+  template.pages[pageRole(index, count)];
@@ -0,0 +1,461 @@
+// Shared types for the letterhead editor
+
+export interface Margins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export type PageSizeId = 'a4' | 'letter' | 'legal' | 'a5' | 'custom';
+
+export type Orientation = 'portrait' | 'landscape';
+
+/** Paper the letter is laid out and exported on */
+export interface PageSetup {
+  size: PageSizeId;
+  /** Portrait size in mm; only read for 'custom', the named sizes have their own */
+  width: number;
+  height: number;
+  orientation: Orientation;
+}
+
+/** Unit margins are shown and entered in */
+export type MeasureUnit = 'mm' | 'cm' | 'in';
+
+/** Where dragged text blocks and images snap to */
+export interface SnapSettings {
+  /** The margins, the page centre and other blocks, with guide lines while dragging */
+  guides: boolean;
+  grid: boolean;
+  /** Grid spacing in mm */
+  gridSize: number;
+}
+
+/** A guide line dragged out of the rulers: vertical at `x = at`, or horizontal at `y = at` */
+export interface RulerGuide {
+  id: number;
+  axis: 'x' | 'y';
+  /** Page px from the page's left or top edge; the same on every page */
+  at: number;
+}
+
+// Generic Action used to communicate from Toolbar/App to the Workspace
+export interface EditorAction {
+  type: string;
+  payload?: any;
+}
+
+// Files dropped from the desktop onto the workspace, at a screen point
+export interface FileDrop {
+  files: File[];
+  clientX: number;
+  clientY: number;
+}
+
+// ================= RICH TEXT =================
+
+export type BlockType = 'p' | 'h1' | 'h2' | 'h3';
+
+export type TextAlign = 'left' | 'center' | 'right' | 'justify';
+
+export type ListType = 'ul' | 'ol';
+
+/** Formatting applied to the selection in the body, a text block or a header/footer field */
+export type FormatCommand =
+  | { type: 'bold' | 'italic' | 'underline' | 'strike' | 'indent' | 'outdent' | 'clear' }
+  | { type: 'fontFamily'; value: string }
+  /** Points */
+  | { type: 'fontSize'; value: number }
+  | { type: 'color'; value: string }
+  /** '' removes the highlight */
+  | { type: 'highlight'; value: string }
+  | { type: 'block'; value: BlockType }
+  | { type: 'align'; value: TextAlign }
+  | { type: 'list'; value: ListType }
+  /** Multiple of the font size */
+  | { type: 'lineHeight'; value: number }
+  /** Space after each paragraph, in points */
+  | { type: 'paragraphSpacing'; value: number };
+
+/** Formatting at the caret / start of the selection, shown by the toolbar */
+export interface FormattingState {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  /** One of FONT_FAMILIES' names, or '' for anything else */
+  fontFamily: string;
+  /** Points */
+  fontSize: number;
+  /** #rrggbb */
+  color: string;
+  /** #rrggbb, or '' when not highlighted */
+  highlight: string;
+  block: BlockType;
+  align: TextAlign;
+  list: ListType | null;
+  lineHeight: number | null;
+  /** Points */
+  paragraphSpacing: number;
+  /** Block commands only apply to the body and text blocks */
+  canFormatBlocks: boolean;
+}
+
+// ================= TABLES =================
+
+/** Border presets; the lines are 1px in the table's border colour */
+export type TableBorders = 'all' | 'outer' | 'horizontal' | 'none';
+
+/** Edits to the table at the selection, or inserting a new one */
+export type TableCommand =
+  | { type: 'insert'; rows: number; cols: number }
+  | { type: 'rowAbove' | 'rowBelow' | 'columnLeft' | 'columnRight' | 'deleteRow' | 'deleteColumn' | 'deleteTable' }
+  | { type: 'mergeCells' | 'splitCell' | 'toggleHeaderRow' | 'nextCell' | 'previousCell' }
+  | { type: 'borders'; value: TableBorders }
+  | { type: 'borderColor'; value: string }
+  /** Background of the selected cells; '' removes it */
+  | { type: 'shading'; value: string }
+  /** Width of the current column, in percent of the table */
+  | { type: 'columnWidth'; value: number };
+
+/** The table at the selection, shown by the toolbar */
+export interface TableState {
+  /** The row is repeated at the top of each page the table continues on */
+  isHeaderRow: boolean;
+  borders: TableBorders;
+  borderColor: string;
+  /** #rrggbb, or '' for none */
+  shading: string;
+  /** Percent of the table */
+  columnWidth: number;
+  canMerge: boolean;
+  canSplit: boolean;
+  /** Columns and cells can't be restructured, e.g. in a quotation block */
+  fixedLayout: boolean;
+  canInsertRow: boolean;
+}
+
+// ================= QUOTATIONS =================
+
+/**
+ * Language of a quotation block's labels and amounts:
+ * - en: English, total in words in English
+ * - bn: Bangla, with Bangla digits
+ * - both: English labels, total in words in English and Bangla
+ */
+export type InvoiceLanguage = 'en' | 'bn' | 'both';
+
+// ================= DOCUMENT MODEL =================
+
+export interface HeaderFields {
+  h1: string;
+  h2: string;
+  sub: string;
+  /** Slim header line on pages after the first, usually with reference and page tokens */
+  running: string;
+}
+
+export interface FooterFields {
+  title: string;
+  addr1: string;
+  addr2: string;
+  phone: string;
+  /** Slim footer line on pages that don't carry the full footer */
+  running: string;
+}
+
+/** Position of a draggable block, in px relative to its page's margin box. */
+export interface BlockPosition {
+  page: number;
+  x: number;
+  y: number;
+}
+
+/** Stacking and editing state shared by text and image blocks. */
+export interface BlockLayer {
+  /** Stacking order on the page; higher is on top */
+  z: number;
+  /** Can't be moved, resized or rotated on the page */
+  locked: boolean;
+  /** Left off the page and out of exports */
+  hidden: boolean;
+  /** Blocks with the same group are selected and moved together */
+  group: number | null;
+}
+
+export interface TextBlock extends BlockPosition, BlockLayer {
+  id: number;
+  html: string;
+  /** Box width in px; null fits the text, up to 80% of the page */
+  width: number | null;
+  /** Space inside the box, px */
+  padding: number;
+  /** Box colour as #rrggbb, '' for none */
+  fill: string;
+  /** px, 0 for no border */
+  borderWidth: number;
+  borderColor: string;
+  /** Defaults for text without formatting of its own: a CSS font stack ('' for the letterhead's), points and #rrggbb */
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+}
+
+/** Crop insets in percent of the image box. */
+export interface ImageCrop {
+  t: number;
+  r: number;
+  b: number;
+  l: number;
+}
+
+export interface ImageBlock extends BlockPosition, BlockLayer {
+  id: number;
+  src: string;
+  width: number;
+  height: number;
+  /**
+   * Part of the image hidden by a mask, set in the inspector or by older letters.
+   * The crop tool starts from it and cuts `src` itself when applied.
+   */
+  crop: ImageCrop;
+  background: BackgroundRemoval;
+  /** Degrees clockwise, around the centre of the box */
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  /** 0–100 */
+  opacity: number;
+  grayscale: boolean;
+}
+
+/**
+ * How the paper behind an image is made transparent:
+ * - off: the image as uploaded
+ * - white: pixels lighter than `threshold` (the original "Air Signature")
+ * - colorKey: pixels within `tolerance` of a picked paper colour
+ * - otsu: ink and paper told apart by one automatic level, for coloured or grey paper
+ * - adaptive: ink compared with its surroundings, for shadows and uneven light
+ */
+export type BackgroundMode = 'off' | 'white' | 'colorKey' | 'otsu' | 'adaptive';
+
+export interface BackgroundRemoval {
+  mode: BackgroundMode;
+  /** white and adaptive: 0 = gentle, 100 = aggressive */
+  threshold: number;
+  /** colorKey: paper colour as #rrggbb */
+  keyColor: string;
+  /** colorKey: 0–100, how far from the paper colour still counts as paper */
+  tolerance: number;
+  /** Softness of the stroke edges, 0 = hard */
+  feather: number;
+  /** Ink recoloured to this #rrggbb, '' keeps the photographed colour */
+  inkColor: string;
+}
+
+// ================= SIGNATURES AND SEALS =================
+
+export type AssetKind = 'signature' | 'seal' | 'stamp';
+
+export interface AssetContent {
+  kind: AssetKind;
+  name: string;
+  /** Person or office the signature or seal belongs to */
+  owner: string;
+  /** Image as uploaded, kept so the background removal can be re-tuned */
+  original: string;
+  background: BackgroundRemoval;
+  crop: ImageCrop;
+  /** Processed transparent PNG, trimmed to the ink; this is what goes on the page */
+  src: string;
+  /** Size it is placed at, in px */
+  width: number;
+  height: number;
+}
+
+/** Entry in the signature/seal library, shared by all letters */
+export interface LibraryAsset extends AssetContent {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ================= LETTER FIELDS =================
+
+/** Kinds of field token that can be inserted into the letter text */
+/** `page` and `pages` are the page number and count, filled in on each page */
+export type FieldKind = 'reference' | 'date' | 'page' | 'pages';
+
+/**
+ * - en-long: 19 October 2026
+ * - en-short: 19/10/2026
+ * - bn-gregorian: ১৯ অক্টোবর ২০২৬
+ * - bn-bangabda: Bangla calendar, e.g. ৩ কার্তিক ১৪৩৩ বঙ্গাব্দ
+ */
+export type DateFormat = 'en-long' | 'en-short' | 'bn-gregorian' | 'bn-bangabda';
+
+/** Values fixed when the letter is first exported; null until then */
+export interface LetterFields {
+  /** Issued reference number, e.g. TGC/ADM/2026/0042 */
+  reference: string | null;
+  /** Letter date as YYYY-MM-DD */
+  date: string | null;
+}
+
+/** How a template's reference numbers are built: PREFIX/DEPARTMENT/YEAR/COUNTER */
+export interface ReferenceScheme {
+  prefix: string;
+  department: string;
+  /** Digits of the zero-padded counter */
+  padding: number;
+}
+
+// ================= LETTER COMPOSER =================
+
+/**
+ * - free: the body is edited directly
+ * - composed: the body is laid out from the composer form in the house style
+ */
+export type BodyMode = 'free' | 'composed';
+
+/** Form behind a composed letter. Plain text; line breaks are kept. */
+export interface ComposedLetter {
+  showReference: boolean;
+  /** Empty for no date line */
+  dateFormat: DateFormat | '';
+  recipient: string;
+  subject: string;
+  salutation: string;
+  /** Paragraphs are separated by a blank line */
+  body: string;
+  closing: string;
+  signatoryName: string;
+  signatoryDesignation: string;
+  /** One entry per line */
+  cc: string;
+  /** One entry per line */
+  enclosures: string;
+}
+
+// ================= WATERMARK =================
+
+export type WatermarkKind = 'text' | 'logo';
+
+/** Mark behind the body of every page, e.g. DRAFT or the company logo */
+export interface Watermark {
+  enabled: boolean;
+  kind: WatermarkKind;
+  text: string;
+  color: string;
+  /** Percent */
+  opacity: number;
+  /** Degrees clockwise, as in CSS; diagonal marks use a negative angle */
+  rotation: number;
+  /** Text size in pt */
+  fontSize: number;
+  /** Logo width in percent of the page width */
+  logoWidth: number;
+  /** Repeat the mark across the page instead of once in the middle */
+  tile: boolean;
+}
+
+export interface LetterDocument {
+  version: number;
+  /** Id of the letterhead in the template registry */
+  templateId: string;
+  header: HeaderFields;
+  footer: FooterFields;
+  /** Body HTML of all pages joined together; pagination is recomputed on load */
+  body: string;
+  textBlocks: TextBlock[];
+  imageBlocks: ImageBlock[];
+  fields: LetterFields;
+  bodyMode: BodyMode;
+  /** Kept while editing freely, so switching back to the composer restores the form */
+  composer: ComposedLetter;
+  watermark: Watermark;
+}
+
+/** Library entry for a saved letter; the LetterDocument itself is stored separately. */
+export interface DocumentMeta {
+  id: string;
+  name: string;
+  templateId: string;
+  createdAt: number;
+  updatedAt: number;
+  /** First words of the body, shown in the library list */
+  snippet: string;
+  /** Lower-cased plain text of name, header, footer, body and text blocks */
+  searchText: string;
+}
+
+export interface StoredDocument {
+  meta: DocumentMeta;
+  doc: LetterDocument;
+}
+
+// ================= MAIL MERGE =================
+
+/** Parsed CSV: header row and data rows (every row padded to the header length). */
+export interface MergeData {
+  columns: string[];
+  rows: string[][];
+}
+
+/** Placeholder name -> CSV column it is filled from */
+export type MergeMapping = Record<string, string>;
+
+export type MergeOutput = 'combined' | 'zip';
+
+// ================= LETTERHEAD TEMPLATES =================
+
+/**
+ * How the header is arranged:
+ * - classic: logo and company name aligned right, corner art top left
+ * - centered: logo above a centred company name
+ * - minimal: small logo on the left, name on the right, thin rule below
+ */
+export type LetterheadLayout = 'classic' | 'centered' | 'minimal';
+
+export interface LetterheadFonts {
+  /** Company name (header line 1) */
+  heading: string;
+  /** Secondary header lines and footer title */
+  accent: string;
+  /** Letter body, text blocks and footer address */
+  body: string;
+}
+
+/**
+ * - full: the letterhead as designed
+ * - running: a slim line with the running header/footer text
+ * - none: nothing, leaving the page to the letter
+ */
+export type LetterheadVariant = 'full' | 'running' | 'none';
+
+/** A single-page letter uses `first`; the last page of longer ones uses `last` */
+export type PageRole = 'first' | 'continuation' | 'last';
+
+export interface PageLetterhead {
+  header: LetterheadVariant;
+  footer: LetterheadVariant;
+}
+
+export interface LetterheadTemplate {
+  id: string;
+  name: string;
+  logo: string;
+  /** Decorative image pinned to the top-left corner of every page */
+  cornerArt?: string;
+  header: HeaderFields;
+  footer: FooterFields;
+  fonts: LetterheadFonts;
+  /** Colours of the bottom strip, left to right, drawn as equal segments */
+  stripColors: string[];
+  layout: LetterheadLayout;
+  /** Header and footer for the first, middle and last pages */
+  pages: Record<PageRole, PageLetterhead>;
+  /** Default reference numbering; can be changed per template in the Numbering dialog */
+  reference: ReferenceScheme;
+}
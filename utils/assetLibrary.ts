@@ -0,0 +1,80 @@
+import { AssetKind, BackgroundRemoval, ImageCrop } from '../types';
+import { DEFAULT_BACKGROUND } from './backgroundRemoval';
+import { processImage } from './imageProcessing';
+
+// Signature / seal library: processing uploads and placing them on the page.
+// The assets themselves are stored in IndexedDB (see utils/documentStore.ts).
+
+export const ASSET_KINDS: { id: AssetKind; label: string; plural: string }[] = [
+  { id: 'signature', label: 'Signature', plural: 'Signatures' },
+  { id: 'seal', label: 'Seal', plural: 'Seals' },
+  { id: 'stamp', label: 'Stamp', plural: 'Stamps' },
+];
+
+export const PX_PER_MM = 96 / 25.4;
+
+/** Width an asset is placed at unless changed, in mm */
+export const DEFAULT_ASSET_WIDTH_MM: Record<AssetKind, number> = { signature: 45, seal: 30, stamp: 40 };
+
+/** Background removal suggested for a new upload */
+export const DEFAULT_ASSET_BACKGROUND: BackgroundRemoval = { ...DEFAULT_BACKGROUND, mode: 'white' };
+
+export const NO_CROP: ImageCrop = { t: 0, r: 0, b: 0, l: 0 };
+
+/** Transparent PNG trimmed to the ink, with its size in image pixels */
+export const processAsset = (original: string, background: BackgroundRemoval, crop: ImageCrop, signal?: AbortSignal) =>
+  processImage(original, { crop, background, trimToInk: true }, signal);
+
+// ================= PLACEMENT =================
+
+/** Marks the signatory name/designation paragraph of a letter (see utils/letterComposer.ts) */
+export const SIGNATORY_ATTR = 'data-signatory';
+
+// Room left between the signature and the name below it, in px
+const GAP = 4;
+
+/**
+ * Where an asset goes by default, in px relative to its page's body area:
+ * signatures just above the signatory's name, seals and stamps beside it.
+ * Without a signatory block it goes below the last line of the letter.
+ */
+export const findAssetPlacement = (bodies: HTMLElement[], kind: AssetKind, width: number, height: number, zoom: number) => {
+  const anchors = bodies.flatMap(body => Array.from(body.querySelectorAll<HTMLElement>(`[${SIGNATORY_ATTR}]`)));
+  const anchor = anchors[anchors.length - 1];
+  const body = anchor
+    ? bodies.find(b => b.contains(anchor))!
+    : [...bodies].reverse().find(b => (b.textContent || '').trim()) || bodies[0];
+  if (!body) return null;
+
+  // Text of the signatory block, or everything on the page
+  const range = document.createRange();
+  range.selectNodeContents(anchor || body);
+  const text = range.getBoundingClientRect();
+  const area = (body.parentElement || body).getBoundingClientRect();
+  const bodyRect = body.getBoundingClientRect();
+
+  const left = ((anchor ? text.left : bodyRect.left) - area.left) / zoom;
+  let x: number, y: number;
+  if (anchor) {
+    const top = (text.top - area.top) / zoom;
+    if (kind === 'signature') {
+      x = left;
+      y = top - height - GAP;
+    } else {
+      x = left + text.width / zoom + 16;
+      y = top + text.height / zoom / 2 - height / 2;
+    }
+  } else {
+    const bottom = ((text.height ? text.bottom : bodyRect.top) - area.top) / zoom;
+    x = kind === 'signature' ? left : left + DEFAULT_ASSET_WIDTH_MM.signature * PX_PER_MM + 16;
+    y = bottom + GAP;
+  }
+
+  const maxX = area.width / zoom - width;
+  const maxY = area.height / zoom - height;
+  return {
+    page: bodies.indexOf(body),
+    x: Math.round(Math.max(0, Math.min(x, maxX))),
+    y: Math.round(Math.max(0, Math.min(y, maxY))),
+  };
+};
@@ -0,0 +1,231 @@
+import { BackgroundMode, BackgroundRemoval } from '../types';
+
+// Background removal and other work on raw RGBA pixels. Nothing here touches the DOM
+// so it runs inside the worker (utils/imageWorker.ts); the page goes through
+// processImage in utils/imageProcessing.ts.
+
+export const BACKGROUND_MODES: { id: BackgroundMode; label: string; hint: string }[] = [
+  { id: 'off', label: 'Off', hint: 'The image as uploaded' },
+  { id: 'white', label: 'White paper', hint: 'Removes everything lighter than the level' },
+  { id: 'colorKey', label: 'Paper colour', hint: 'Removes the picked colour, e.g. yellow or grey paper' },
+  { id: 'otsu', label: 'Automatic', hint: 'Finds the level between ink and paper by itself' },
+  { id: 'adaptive', label: 'Uneven light', hint: 'Compares each stroke with its surroundings, for shadows' },
+];
+
+export const INK_COLORS: { id: string; label: string }[] = [
+  { id: '', label: 'Original' },
+  { id: '#111827', label: 'Black' },
+  { id: '#1e3a8a', label: 'Blue' },
+];
+
+export const DEFAULT_BACKGROUND: BackgroundRemoval = {
+  mode: 'off',
+  threshold: 40,
+  keyColor: '#ffffff',
+  tolerance: 20,
+  feather: 30,
+  inkColor: '',
+};
+
+/** Same result as the single "remove white background" strength older letters and library entries saved */
+export const backgroundFromThreshold = (threshold: number): BackgroundRemoval => ({
+  ...DEFAULT_BACKGROUND,
+  mode: threshold > 0 ? 'white' : 'off',
+  threshold: threshold > 0 ? threshold : DEFAULT_BACKGROUND.threshold,
+  feather: 0,
+});
+
+/** Fills in missing settings; `legacyThreshold` is used when there are none at all */
+export const normalizeBackground = (raw: Partial<BackgroundRemoval> | undefined, legacyThreshold?: number): BackgroundRemoval =>
+  raw ? { ...DEFAULT_BACKGROUND, ...raw } : backgroundFromThreshold(legacyThreshold ?? 0);
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// ================= REMOVAL =================
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Largest possible RGB distance, between black and white
+const MAX_DISTANCE = Math.sqrt(3) * 255;
+
+// 1 for ink, 0 for paper: `inkSide` is how far past the edge a pixel is, and
+// within `soft` of the edge the two blend so strokes keep smooth outlines
+const step = (inkSide: number, soft: number) =>
+  soft > 0 ? Math.min(1, Math.max(0, 0.5 + inkSide / soft)) : (inkSide >= 0 ? 1 : 0);
+
+const grayscale = ({ data, width, height }: Pixels) => {
+  const gray = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+};
+
+/** Otsu's method: the grey level that best separates the histogram into ink and paper */
+const otsuLevel = (gray: Float32Array) => {
+  const histogram = new Float64Array(256);
+  for (let p = 0; p < gray.length; p++) histogram[Math.min(255, gray[p] | 0)]++;
+
+  let sum = 0;
+  for (let t = 0; t < 256; t++) sum += t * histogram[t];
+
+  let sumInk = 0, inkCount = 0, best = -1, level = 127;
+  for (let t = 0; t < 256; t++) {
+    inkCount += histogram[t];
+    if (!inkCount) continue;
+    const paperCount = gray.length - inkCount;
+    if (!paperCount) break;
+    sumInk += t * histogram[t];
+    const between = inkCount * paperCount * (sumInk / inkCount - (sum - sumInk) / paperCount) ** 2;
+    if (between > best) {
+      best = between;
+      level = t;
+    }
+  }
+  return level + 0.5;
+};
+
+/** Mean grey of the square around every pixel, from a summed-area table */
+const localMeans = (gray: Float32Array, width: number, height: number) => {
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += gray[y * width + x];
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + row;
+    }
+  }
+
+  // About an eighth of the image: larger than a stroke, smaller than a shadow
+  const half = Math.max(7, Math.round(Math.min(width, height) / 16));
+  const means = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half), bottom = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - half), right = Math.min(width, x + half + 1);
+      const total = sums[bottom * stride + right] - sums[top * stride + right] - sums[bottom * stride + left] + sums[top * stride + left];
+      means[y * width + x] = total / ((bottom - top) * (right - left));
+    }
+  }
+  return means;
+};
+
+/** How much of every pixel is ink, 0–1 */
+const inkCoverage = (pixels: Pixels, settings: BackgroundRemoval) => {
+  const { data, width, height } = pixels;
+  const coverage = new Float32Array(width * height);
+  // Edge softness in grey levels; colour distance is in percent
+  const soft = settings.feather * 0.8;
+
+  switch (settings.mode) {
+    case 'white': {
+      const level = 255 - settings.threshold * 2.55;
+      for (let p = 0, i = 0; p < coverage.length; p++, i += 4) {
+        coverage[p] = step(level - (data[i] + data[i + 1] + data[i + 2]) / 3, soft);
+      }
+      break;
+    }
+    case 'colorKey': {
+      const [r, g, b] = hexToRgb(settings.keyColor);
+      for (let p = 0, i = 0; p < coverage.length; p++, i += 4) {
+        const distance = Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b) / MAX_DISTANCE * 100;
+        coverage[p] = step(distance - settings.tolerance, settings.feather * 0.3);
+      }
+      break;
+    }
+    case 'otsu': {
+      const gray = grayscale(pixels);
+      const level = otsuLevel(gray);
+      for (let p = 0; p < coverage.length; p++) coverage[p] = step(level - gray[p], soft);
+      break;
+    }
+    case 'adaptive': {
+      const gray = grayscale(pixels);
+      const means = localMeans(gray, width, height);
+      // Ink has to be this much darker than its surroundings
+      const contrast = 1 - (0.02 + settings.threshold / 100 * 0.28);
+      for (let p = 0; p < coverage.length; p++) coverage[p] = step(means[p] * contrast - gray[p], soft);
+      break;
+    }
+  }
+  return coverage;
+};
+
+// Blends the coverage with its 3×3 average, rounding off the stair-steps along strokes
+const smooth = (coverage: Float32Array, width: number, height: number, amount: number) => {
+  const source = coverage.slice();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let total = 0, count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const row = y + dy;
+        if (row < 0 || row >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const col = x + dx;
+          if (col < 0 || col >= width) continue;
+          total += source[row * width + col];
+          count++;
+        }
+      }
+      const p = y * width + x;
+      coverage[p] = source[p] + (total / count - source[p]) * amount;
+    }
+  }
+};
+
+/** Makes the paper transparent in place and recolours the ink if asked */
+export const removeBackground = (pixels: Pixels, settings: BackgroundRemoval) => {
+  // Without removal there is no telling ink from paper to recolour
+  if (settings.mode === 'off') return;
+  const { data, width, height } = pixels;
+  const coverage = inkCoverage(pixels, settings);
+  if (settings.feather > 0) smooth(coverage, width, height, settings.feather / 100);
+
+  const ink = settings.inkColor ? hexToRgb(settings.inkColor) : null;
+  for (let p = 0, i = 0; p < coverage.length; p++, i += 4) {
+    data[i + 3] = Math.round(data[i + 3] * coverage[p]);
+    if (ink) {
+      data[i] = ink[0];
+      data[i + 1] = ink[1];
+      data[i + 2] = ink[2];
+    }
+  }
+};
+
+/** Replaces the colours with their grey level, in place */
+export const toGrayscale = ({ data }: Pixels) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i] = data[i + 1] = data[i + 2] = gray;
+  }
+};
+
+// ================= TRIMMING =================
+
+// Nearly transparent pixels don't count as ink
+const MIN_ALPHA = 8;
+
+/** Smallest rectangle holding all visible ink */
+export const inkBounds = ({ data, width, height }: Pixels) => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] < MIN_ALPHA) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  // Nothing visible: keep the whole image
+  if (maxX < 0) return { x: 0, y: 0, width, height };
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
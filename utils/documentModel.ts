@@ -0,0 +1,299 @@
+import { LetterDocument, HeaderFields, FooterFields, TextBlock, ImageBlock, ComposedLetter, BlockLayer } from '../types';
+import { DEFAULT_TEMPLATE_ID, getTemplate } from '../templates/registry';
+import { DEFAULT_BACKGROUND, backgroundFromThreshold, normalizeBackground } from './backgroundRemoval';
+import { DEFAULT_WATERMARK, normalizeWatermark } from './watermark';
+
+// Bump when the shape of LetterDocument changes and add a step to MIGRATIONS.
+export const DOCUMENT_VERSION = 11;
+
+// Version 2 and 3 documents were kept in localStorage under this key
+const LOCAL_DOCUMENT_KEY = 'tajmir_doc_document';
+
+// Letters written before the template registry all used the default letterhead
+const DEFAULT_HEADER: HeaderFields = getTemplate(DEFAULT_TEMPLATE_ID).header;
+const DEFAULT_FOOTER: FooterFields = getTemplate(DEFAULT_TEMPLATE_ID).footer;
+
+export const DEFAULT_IMAGE_SIZE = 200;
+
+// An image as uploaded: upright, unflipped and fully opaque
+const IMAGE_TRANSFORM = { rotation: 0, flipX: false, flipY: false, opacity: 100, grayscale: false };
+
+// How text blocks looked before they had box and font settings
+const TEXT_STYLE = {
+  width: null,
+  padding: 8,
+  fill: '',
+  borderWidth: 0,
+  borderColor: '#9ca3af',
+  fontFamily: '',
+  fontSize: 11,
+  color: '#2c2c2c',
+};
+
+// A block as added: unlocked, visible and in no group. Callers put it on top with topZ.
+const BLOCK_LAYER: BlockLayer = { z: 0, locked: false, hidden: false, group: null };
+
+export const createComposedLetter = (): ComposedLetter => ({
+  showReference: true,
+  dateFormat: 'en-long',
+  recipient: '',
+  subject: '',
+  salutation: 'Dear Sir,',
+  body: '',
+  closing: 'Sincerely,',
+  signatoryName: '',
+  signatoryDesignation: '',
+  cc: '',
+  enclosures: '',
+});
+
+export const createDocument = (templateId: string = DEFAULT_TEMPLATE_ID): LetterDocument => {
+  const template = getTemplate(templateId);
+  return {
+    version: DOCUMENT_VERSION,
+    templateId: template.id,
+    header: { ...template.header },
+    footer: { ...template.footer },
+    body: '',
+    textBlocks: [],
+    imageBlocks: [],
+    fields: { reference: null, date: null },
+    bodyMode: 'free',
+    composer: createComposedLetter(),
+    watermark: { ...DEFAULT_WATERMARK },
+  };
+};
+
+export const createTextBlock = (page: number, x = 50, y = 200): TextBlock => ({
+  id: Date.now(),
+  page,
+  x,
+  y,
+  html: '',
+  ...TEXT_STYLE,
+  ...BLOCK_LAYER,
+});
+
+export const createImageBlock = (src: string, page: number, x = 50, y = 200): ImageBlock => ({
+  id: Date.now(),
+  page,
+  x,
+  y,
+  src,
+  width: DEFAULT_IMAGE_SIZE,
+  height: DEFAULT_IMAGE_SIZE,
+  crop: { t: 0, r: 0, b: 0, l: 0 },
+  background: { ...DEFAULT_BACKGROUND },
+  ...IMAGE_TRANSFORM,
+  ...BLOCK_LAYER,
+});
+
+// ================= MIGRATIONS =================
+
+// Version 1 was never stored as one object: every field had its own `tajmir_doc_*`
+// key holding raw innerHTML, and draggables were saved as `{ id, x, y, src? }`.
+const LEGACY_FIELD_KEYS = {
+  body: 'tajmir_doc_main_body',
+  header_h1: 'tajmir_doc_header_h1',
+  header_h2: 'tajmir_doc_header_h2',
+  header_sub: 'tajmir_doc_header_sub',
+  footer_title: 'tajmir_doc_footer_title',
+  footer_addr1: 'tajmir_doc_footer_addr1',
+  footer_addr2: 'tajmir_doc_footer_addr2',
+  footer_phone: 'tajmir_doc_footer_phone',
+  textBlocks: 'tajmir_doc_draggables_text',
+  imageBlocks: 'tajmir_doc_draggables_img',
+};
+
+const readLegacyDocument = (): Record<string, any> | null => {
+  const legacy: Record<string, any> = { version: 1 };
+  let found = false;
+
+  Object.entries(LEGACY_FIELD_KEYS).forEach(([field, key]) => {
+    const saved = localStorage.getItem(key);
+    if (saved === null) return;
+    found = true;
+    if (field === 'textBlocks' || field === 'imageBlocks') {
+      try {
+        legacy[field] = JSON.parse(saved);
+      } catch (e) {
+        console.error(`Error reading ${key}`, e);
+      }
+    } else {
+      legacy[field] = saved;
+    }
+  });
+
+  return found ? legacy : null;
+};
+
+const MIGRATIONS: Record<number, (doc: Record<string, any>) => Record<string, any>> = {
+  1: (v1) => ({
+    version: 2,
+    header: {
+      h1: v1.header_h1 ?? DEFAULT_HEADER.h1,
+      h2: v1.header_h2 ?? DEFAULT_HEADER.h2,
+      sub: v1.header_sub ?? DEFAULT_HEADER.sub,
+    },
+    footer: {
+      title: v1.footer_title ?? DEFAULT_FOOTER.title,
+      addr1: v1.footer_addr1 ?? DEFAULT_FOOTER.addr1,
+      addr2: v1.footer_addr2 ?? DEFAULT_FOOTER.addr2,
+      phone: v1.footer_phone ?? DEFAULT_FOOTER.phone,
+    },
+    body: v1.body ?? '',
+    // Text typed into draggable blocks was never saved in v1
+    textBlocks: (v1.textBlocks || []).map((b: any) => ({ html: '', page: 0, ...b })),
+    imageBlocks: (v1.imageBlocks || []).map((b: any) => ({ page: 0, ...b })),
+  }),
+  2: (v2) => ({
+    ...v2,
+    version: 3,
+    templateId: DEFAULT_TEMPLATE_ID,
+  }),
+  3: (v3) => ({
+    ...v3,
+    version: 4,
+    fields: { reference: null, date: null },
+  }),
+  4: (v4) => ({
+    ...v4,
+    version: 5,
+    bodyMode: 'free',
+  }),
+  // The single white-background strength became a set of removal settings
+  5: (v5) => ({
+    ...v5,
+    version: 6,
+    imageBlocks: (v5.imageBlocks || []).map(({ threshold, ...b }: any) => ({
+      ...b,
+      background: backgroundFromThreshold(threshold ?? 0),
+    })),
+  }),
+  6: (v6) => ({
+    ...v6,
+    version: 7,
+    imageBlocks: (v6.imageBlocks || []).map((b: any) => ({ ...IMAGE_TRANSFORM, ...b })),
+  }),
+  // Blocks got a stacking order. Text used to be drawn over images, so it goes on top.
+  7: (v7) => {
+    const images = v7.imageBlocks || [];
+    return {
+      ...v7,
+      version: 8,
+      imageBlocks: images.map((b: any, i: number) => ({ ...BLOCK_LAYER, ...b, z: i })),
+      textBlocks: (v7.textBlocks || []).map((b: any, i: number) => ({ ...BLOCK_LAYER, ...b, z: images.length + i })),
+    };
+  },
+  8: (v8) => ({
+    ...v8,
+    version: 9,
+    textBlocks: (v8.textBlocks || []).map((b: any) => ({ ...TEXT_STYLE, ...b })),
+  }),
+  // Running header and footer lines for pages after the first, from the letterhead
+  9: (v9) => {
+    const template = getTemplate(v9.templateId);
+    return {
+      ...v9,
+      version: 10,
+      header: { running: template.header.running, ...v9.header },
+      footer: { running: template.footer.running, ...v9.footer },
+    };
+  },
+  10: (v10) => ({
+    ...v10,
+    version: 11,
+    watermark: { ...DEFAULT_WATERMARK },
+  }),
+};
+
+const normalizeLayer = (b: any): BlockLayer => ({
+  z: b.z ?? 0,
+  locked: !!b.locked,
+  hidden: !!b.hidden,
+  group: b.group ?? null,
+});
+
+// Fills anything missing so older or partially written documents always render
+const normalizeDocument = (raw: Record<string, any>): LetterDocument => {
+  const base = createDocument(raw.templateId);
+  return {
+    version: DOCUMENT_VERSION,
+    templateId: base.templateId,
+    header: { ...base.header, ...raw.header },
+    footer: { ...base.footer, ...raw.footer },
+    body: typeof raw.body === 'string' ? raw.body : '',
+    textBlocks: (raw.textBlocks || []).map((b: any): TextBlock => ({
+      id: b.id,
+      page: b.page ?? 0,
+      x: b.x ?? 50,
+      y: b.y ?? 200,
+      html: b.html ?? '',
+      width: b.width ?? null,
+      padding: b.padding ?? TEXT_STYLE.padding,
+      fill: b.fill ?? '',
+      borderWidth: b.borderWidth ?? 0,
+      borderColor: b.borderColor ?? TEXT_STYLE.borderColor,
+      fontFamily: b.fontFamily ?? '',
+      fontSize: b.fontSize ?? TEXT_STYLE.fontSize,
+      color: b.color ?? TEXT_STYLE.color,
+      ...normalizeLayer(b),
+    })),
+    imageBlocks: (raw.imageBlocks || []).filter((b: any) => b.src).map((b: any): ImageBlock => ({
+      id: b.id,
+      page: b.page ?? 0,
+      x: b.x ?? 50,
+      y: b.y ?? 200,
+      src: b.src,
+      width: b.width ?? DEFAULT_IMAGE_SIZE,
+      height: b.height ?? DEFAULT_IMAGE_SIZE,
+      crop: { t: 0, r: 0, b: 0, l: 0, ...b.crop },
+      background: normalizeBackground(b.background),
+      rotation: b.rotation ?? 0,
+      flipX: !!b.flipX,
+      flipY: !!b.flipY,
+      opacity: b.opacity ?? 100,
+      grayscale: !!b.grayscale,
+      ...normalizeLayer(b),
+    })),
+    fields: {
+      reference: raw.fields?.reference ?? null,
+      date: raw.fields?.date ?? null,
+    },
+    bodyMode: raw.bodyMode === 'composed' ? 'composed' : 'free',
+    composer: { ...base.composer, ...raw.composer },
+    watermark: normalizeWatermark(raw.watermark),
+  };
+};
+
+export const migrateDocument = (raw: Record<string, any>): LetterDocument => {
+  let doc = raw;
+  while ((doc.version ?? 1) < DOCUMENT_VERSION) {
+    const step = MIGRATIONS[doc.version ?? 1];
+    if (!step) throw new Error(`No migration from document version ${doc.version}`);
+    doc = step(doc);
+  }
+  return normalizeDocument(doc);
+};
+
+// ================= LOCALSTORAGE (before the IndexedDB library) =================
+
+/** Reads the letter kept in localStorage by older versions, in either format. */
+export const readLocalStorageDocument = (): LetterDocument | null => {
+  try {
+    const saved = localStorage.getItem(LOCAL_DOCUMENT_KEY);
+    if (saved) return migrateDocument(JSON.parse(saved));
+
+    const legacy = readLegacyDocument();
+    if (legacy) return migrateDocument(legacy);
+  } catch (e) {
+    console.error('Error loading document', e);
+  }
+  return null;
+};
+
+/** Call once the letter from readLocalStorageDocument is safely stored elsewhere. */
+export const clearLocalStorageDocument = () => {
+  localStorage.removeItem(LOCAL_DOCUMENT_KEY);
+  Object.values(LEGACY_FIELD_KEYS).forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,260 @@
+import { AssetContent, DocumentMeta, LetterDocument, LibraryAsset, StoredDocument } from '../types';
+import { createDocument, migrateDocument, readLocalStorageDocument, clearLocalStorageDocument } from './documentModel';
+import { normalizeBackground } from './backgroundRemoval';
+
+// Document library in IndexedDB.
+// `meta` holds the small entries the library panel lists and searches;
+// `content` holds the full LetterDocument (including image data URLs).
+// Both are always written in the same transaction.
+// `counters` holds the last issued reference number per sequence.
+// `assets` holds the signature/seal library, which is shared by all letters.
+
+const DB_NAME = 'tajmir-letterhead';
+const DB_VERSION = 3;
+const META_STORE = 'meta';
+const CONTENT_STORE = 'content';
+const COUNTER_STORE = 'counters';
+const ASSET_STORE = 'assets';
+
+const CURRENT_DOCUMENT_KEY = 'tajmir_settings_current_document';
+
+export const DEFAULT_DOCUMENT_NAME = 'Untitled letter';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(CONTENT_STORE)) db.createObjectStore(CONTENT_STORE);
+        if (!db.objectStoreNames.contains(COUNTER_STORE)) db.createObjectStore(COUNTER_STORE);
+        if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves with its result once the transaction commits
+const transact = async <T>(mode: IDBTransactionMode, work: (meta: IDBObjectStore, content: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([META_STORE, CONTENT_STORE], mode);
+    const req = work(tx.objectStore(META_STORE), tx.objectStore(CONTENT_STORE));
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const htmlToText = (html: string) => {
+  const div = document.createElement('div');
+  div.innerHTML = html;
+  return (div.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+const describe = (name: string, doc: LetterDocument) => {
+  const body = htmlToText(doc.body);
+  const parts = [
+    name,
+    ...Object.values(doc.header),
+    ...Object.values(doc.footer),
+    body,
+    ...doc.textBlocks.map(b => b.html),
+  ];
+  return {
+    templateId: doc.templateId,
+    snippet: body.slice(0, 140),
+    searchText: parts.map(htmlToText).join(' ').toLowerCase(),
+  };
+};
+
+// ================= LIBRARY OPERATIONS =================
+
+export const listDocuments = async (): Promise<DocumentMeta[]> => {
+  const all = await transact<DocumentMeta[]>('readonly', meta => meta.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getDocument = async (id: string): Promise<StoredDocument | null> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([META_STORE, CONTENT_STORE], 'readonly');
+    const metaReq = tx.objectStore(META_STORE).get(id);
+    const contentReq = tx.objectStore(CONTENT_STORE).get(id);
+    tx.oncomplete = () => {
+      if (!metaReq.result || !contentReq.result) return resolve(null);
+      // Documents written by older versions are upgraded on open
+      resolve({ meta: metaReq.result, doc: migrateDocument(contentReq.result) });
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const createStoredDocument = async (doc: LetterDocument, name = DEFAULT_DOCUMENT_NAME): Promise<StoredDocument> => {
+  const now = Date.now();
+  const meta: DocumentMeta = { id: newId(), name, createdAt: now, updatedAt: now, ...describe(name, doc) };
+  await transact('readwrite', (metaStore, contentStore) => {
+    metaStore.put(meta);
+    contentStore.put(doc, meta.id);
+  });
+  return { meta, doc };
+};
+
+/** Saves new content for an existing document, keeping its name. */
+export const saveDocumentContent = async (id: string, doc: LetterDocument): Promise<void> => {
+  await transact('readwrite', (metaStore, contentStore) => {
+    const req = metaStore.get(id);
+    req.onsuccess = () => {
+      const meta: DocumentMeta | undefined = req.result;
+      if (!meta) return;
+      metaStore.put({ ...meta, updatedAt: Date.now(), ...describe(meta.name, doc) });
+      contentStore.put(doc, id);
+    };
+  });
+};
+
+export const renameDocument = async (id: string, name: string): Promise<void> => {
+  const stored = await getDocument(id);
+  if (!stored) return;
+  await transact('readwrite', metaStore => {
+    metaStore.put({ ...stored.meta, name, ...describe(name, stored.doc) });
+  });
+};
+
+export const duplicateDocument = async (id: string): Promise<StoredDocument | null> => {
+  const stored = await getDocument(id);
+  if (!stored) return null;
+  // The copy is a new letter: it gets its own reference number and date when exported
+  const doc = { ...stored.doc, fields: { reference: null, date: null } };
+  return createStoredDocument(doc, `${stored.meta.name} (copy)`);
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  await transact('readwrite', (metaStore, contentStore) => {
+    metaStore.delete(id);
+    contentStore.delete(id);
+  });
+};
+
+// ================= REFERENCE COUNTERS =================
+
+const counterRequest = async <T>(work: (counters: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(COUNTER_STORE, 'readwrite');
+    const req = work(tx.objectStore(COUNTER_STORE));
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/** Last number issued in a sequence (0 if none yet). */
+export const peekCounter = async (key: string): Promise<number> =>
+  (await counterRequest<number | undefined>(counters => counters.get(key))) || 0;
+
+/**
+ * Issues the next number in a sequence. The read and the write share one
+ * transaction, so two tabs exporting at once never get the same number.
+ */
+export const reserveCounter = async (key: string): Promise<number> => {
+  let issued = 0;
+  await counterRequest(counters => {
+    const req = counters.get(key);
+    req.onsuccess = () => {
+      issued = (req.result || 0) + 1;
+      counters.put(issued, key);
+    };
+  });
+  return issued;
+};
+
+/** Sets the last issued number, e.g. to continue a sequence started on paper. */
+export const setCounter = async (key: string, lastIssued: number): Promise<void> => {
+  await counterRequest(counters => { counters.put(Math.max(0, lastIssued), key); });
+};
+
+// ================= SIGNATURES AND SEALS =================
+
+const assetRequest = async <T>(mode: IDBTransactionMode, work: (assets: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(ASSET_STORE, mode);
+    const req = work(tx.objectStore(ASSET_STORE));
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listAssets = async (): Promise<LibraryAsset[]> => {
+  const all = await assetRequest<LibraryAsset[]>('readonly', assets => assets.getAll());
+  // Entries saved before the removal settings only had a white-background strength
+  return all
+    .map(({ threshold, ...asset }: LibraryAsset & { threshold?: number }) => ({ ...asset, background: normalizeBackground(asset.background, threshold) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Adds an asset to the library, or replaces the one with the given id. */
+export const saveAsset = async (content: AssetContent, id?: string): Promise<LibraryAsset> => {
+  const now = Date.now();
+  let saved: LibraryAsset = { ...content, id: id || newId(), createdAt: now, updatedAt: now };
+  await assetRequest('readwrite', assets => {
+    if (!id) {
+      assets.put(saved);
+      return;
+    }
+    const req = assets.get(id);
+    req.onsuccess = () => {
+      if (req.result) saved = { ...saved, createdAt: req.result.createdAt };
+      assets.put(saved);
+    };
+  });
+  return saved;
+};
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  await assetRequest('readwrite', assets => { assets.delete(id); });
+};
+
+export const rememberCurrentDocument = (id: string) => {
+  localStorage.setItem(CURRENT_DOCUMENT_KEY, id);
+};
+
+/**
+ * Opens the document the user last worked on. On first run the letter from
+ * localStorage (if any) is moved into the library.
+ */
+export const openInitialDocument = async (): Promise<StoredDocument> => {
+  const local = readLocalStorageDocument();
+  if (local) {
+    const imported = await createStoredDocument(local);
+    clearLocalStorageDocument();
+    rememberCurrentDocument(imported.meta.id);
+    return imported;
+  }
+
+  const lastId = localStorage.getItem(CURRENT_DOCUMENT_KEY);
+  const last = lastId ? await getDocument(lastId) : null;
+  if (last) return last;
+
+  const [latest] = await listDocuments();
+  const fallback = latest ? await getDocument(latest.id) : null;
+  const opened = fallback || await createStoredDocument(createDocument());
+  rememberCurrentDocument(opened.meta.id);
+  return opened;
+};
@@ -0,0 +1,130 @@
+import { plainTextFragment, sanitizePastedHtml } from './paste';
+import { TEXT_BLOCK_TABLE_WIDTH } from './tables';
+
+// Files dropped from the desktop onto the workspace. Pictures become image blocks and
+// text, Markdown and HTML files text blocks, at the drop point. Their markup goes
+// through the paste clean-up, so a dropped file looks like the same text pasted.
+
+export type DroppedFileKind = 'image' | 'text' | 'markdown' | 'html';
+
+const EXTENSIONS: Record<string, DroppedFileKind> = {
+  txt: 'text',
+  text: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  htm: 'html',
+  html: 'html',
+};
+
+/** Whether a drag carries files, rather than text or a link from the page */
+export const draggingFiles = (data: DataTransfer | null) => !!data && Array.from(data.types).includes('Files');
+
+/** What a dropped file becomes, or null for files the letter can't take */
+export const droppedFileKind = (file: File): DroppedFileKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (EXTENSIONS[extension]) return EXTENSIONS[extension];
+  if (file.type === 'text/html') return 'html';
+  if (file.type === 'text/markdown') return 'markdown';
+  if (file.type === 'text/plain') return 'text';
+  return null;
+};
+
+// ================= MARKDOWN =================
+
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Bold and italic; links as their text and code spans as plain text; underscores
+// inside words, as in snake_case, stay
+const markdownInline = (s: string) => escapeHtml(s)
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/`([^`]*)`/g, '$1')
+  .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '<b>$1</b>')
+  .replace(/(^|\W)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '$1<b>$2</b>')
+  .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<i>$1</i>')
+  .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1<i>$2</i>');
+
+/**
+ * Markdown as simple HTML for the paste clean-up: headings, paragraphs, bulleted and
+ * numbered lists nested by indentation, bold and italic. Other syntax stays as text.
+ */
+export const markdownToHtml = (markdown: string) => {
+  const out: string[] = [];
+  // Open lists, innermost last, with the indentation of their items
+  const lists: { tag: string; indent: number }[] = [];
+  let paragraph: string[] = [];
+  let fenced = false;
+
+  const closeParagraph = () => {
+    if (paragraph.length) out.push(`<p>${paragraph.join(' ')}</p>`);
+    paragraph = [];
+  };
+  const closeLists = (indent = -1) => {
+    while (lists.length && lists[lists.length - 1].indent > indent) out.push(`</li></${lists.pop()!.tag}>`);
+  };
+
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    // Code blocks keep their lines
+    if (/^\s*(```|~~~)/.test(line)) {
+      closeParagraph();
+      closeLists();
+      fenced = !fenced;
+      return;
+    }
+    if (fenced) {
+      out.push(`<p>${escapeHtml(line) || '<br>'}</p>`);
+      return;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const item = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+    if (!line.trim() || /^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      closeParagraph();
+      if (!line.trim()) return;
+      closeLists();
+    } else if (heading) {
+      closeParagraph();
+      closeLists();
+      out.push(`<h${heading[1].length}>${markdownInline(heading[2])}</h${heading[1].length}>`);
+    } else if (item) {
+      closeParagraph();
+      const indent = item[1].replace(/\t/g, '    ').length;
+      const tag = /\d/.test(item[2]) ? 'ol' : 'ul';
+      const current = lists[lists.length - 1];
+      if (current && indent <= current.indent) {
+        closeLists(indent);
+        if (lists.length && lists[lists.length - 1].tag !== tag && lists[lists.length - 1].indent === indent) closeLists(indent - 1);
+      }
+      const open = lists[lists.length - 1];
+      if (open && open.indent === indent) {
+        out.push('</li><li>');
+      } else {
+        out.push(`<${tag}><li>`);
+        lists.push({ tag, indent });
+      }
+      out.push(markdownInline(item[3]));
+    } else if (lists.length && /^\s/.test(line)) {
+      // A wrapped line of a list item
+      out.push(` ${markdownInline(line.trim())}`);
+    } else {
+      closeLists();
+      paragraph.push(markdownInline(line.replace(/^\s{0,3}>\s?/, '').trim()));
+    }
+  });
+  closeParagraph();
+  closeLists();
+  return out.join('');
+};
+
+// ================= TEXT BLOCKS =================
+
+/** Markup for a text block holding a dropped text, Markdown or HTML file */
+export const droppedTextHtml = (kind: DroppedFileKind, text: string) => {
+  const fragment = kind === 'html' ? sanitizePastedHtml(text, TEXT_BLOCK_TABLE_WIDTH)
+    : kind === 'markdown' ? sanitizePastedHtml(markdownToHtml(text), TEXT_BLOCK_TABLE_WIDTH)
+    : plainTextFragment(text.replace(/\s+$/, ''));
+  const holder = document.createElement('div');
+  holder.appendChild(fragment);
+  return holder.innerHTML;
+};
@@ -0,0 +1,169 @@
+import { FIELD_ATTR } from './letterFields';
+import { REPEATED_HEADER_ATTR } from './pagination';
+
+// Find and replace over the text the user can edit on the pages: the body, the
+// header/footer fields and the text blocks. Matches are DOM ranges; replacing edits
+// the text nodes in place, and the template commits the changed regions like typing.
+
+export interface FindOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+export const DEFAULT_FIND_OPTIONS: FindOptions = { matchCase: false, wholeWord: false };
+
+/** CSS highlight names, styled in index.html */
+export const FIND_HIGHLIGHT = 'find-match';
+export const FIND_CURRENT_HIGHLIGHT = 'find-current';
+
+// Elements a match can't run across
+const BLOCK_SELECTOR = 'p, div, li, td, th, h1, h2, h3, h4, h5, h6, blockquote, tr';
+
+/** Editable regions in the pages, outermost only (field tokens and table cells sit inside them) */
+export const findHosts = (pages: HTMLElement[]) => pages.flatMap(page =>
+  Array.from(page.querySelectorAll<HTMLElement>('[contenteditable="true"]'))
+    .filter(el => !el.parentElement?.closest('[contenteditable="true"]'))
+);
+
+interface Segment {
+  node: Text;
+  /** Offset of the node's text in the joined string */
+  start: number;
+}
+
+// Text of a region with a line break wherever a block or field token starts or ends,
+// and where each text node sits in it. Field tokens, computed cells and the header rows
+// repeated on continued tables are left out: they are not edited by hand.
+const collectText = (host: HTMLElement) => {
+  const segments: Segment[] = [];
+  let text = '';
+  let lastBlock: Element | null = host;
+  const walker = document.createTreeWalker(host, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: node => {
+      if (node instanceof Text) return NodeFilter.FILTER_ACCEPT;
+      const el = node as Element;
+      if (el.hasAttribute(FIELD_ATTR) || el.hasAttribute(REPEATED_HEADER_ATTR) || el.getAttribute('contenteditable') === 'false') {
+        text += '\n';
+        return NodeFilter.FILTER_REJECT;
+      }
+      return NodeFilter.FILTER_SKIP;
+    },
+  });
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const block = node.parentElement?.closest(BLOCK_SELECTOR) || host;
+    if (block !== lastBlock || node.previousSibling?.nodeName === 'BR') text += '\n';
+    lastBlock = block;
+    segments.push({ node, start: text.length });
+    text += node.data;
+  }
+  return { text, segments };
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const patternFor = (query: string, options: FindOptions) => {
+  const body = escapeRegExp(query);
+  // Letters, digits and underscores in any script count as part of a word
+  const source = options.wholeWord ? `(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])` : body;
+  return new RegExp(source, options.matchCase ? 'gu' : 'giu');
+};
+
+// Text node and offset for a position in the joined string
+const pointAt = (segments: Segment[], offset: number, end: boolean) => {
+  for (const segment of segments) {
+    const length = segment.node.data.length;
+    if (offset < segment.start + length || (end && offset === segment.start + length)) {
+      return { node: segment.node, offset: Math.max(0, offset - segment.start) };
+    }
+  }
+  return null;
+};
+
+/** Every match of `query` in the editable regions of the pages, in page order */
+export const findMatches = (pages: HTMLElement[], query: string, options: FindOptions): Range[] => {
+  if (!query) return [];
+  const pattern = patternFor(query, options);
+  const ranges: Range[] = [];
+  findHosts(pages).forEach(host => {
+    const { text, segments } = collectText(host);
+    for (const match of text.matchAll(pattern)) {
+      const start = pointAt(segments, match.index, false);
+      const end = pointAt(segments, match.index + match[0].length, true);
+      if (!start || !end) continue;
+      const range = document.createRange();
+      range.setStart(start.node, start.offset);
+      range.setEnd(end.node, end.offset);
+      ranges.push(range);
+    }
+  });
+  return ranges;
+};
+
+/** The editable region a match is in */
+export const hostOf = (range: Range) => {
+  const node = range.startContainer;
+  const el = node instanceof Element ? node : node.parentElement;
+  let host = el?.closest<HTMLElement>('[contenteditable="true"]') || null;
+  while (host?.parentElement?.closest('[contenteditable="true"]')) host = host.parentElement.closest<HTMLElement>('[contenteditable="true"]');
+  return host;
+};
+
+/**
+ * Puts `text` in place of a match and returns a collapsed range just after it. The
+ * replacement takes the formatting of the match's first character; text nodes
+ * emptied by it are left for the serializer to drop.
+ */
+export const replaceRange = (range: Range, text: string) => {
+  const start = range.startContainer as Text;
+  const end = range.endContainer as Text;
+  const startOffset = range.startOffset;
+  const endOffset = range.endOffset;
+  const after = () => {
+    const point = document.createRange();
+    point.setStart(start, startOffset + text.length);
+    return point;
+  };
+  if (start === end) {
+    start.replaceData(startOffset, endOffset - startOffset, text);
+    return after();
+  }
+  const walker = document.createTreeWalker(range.commonAncestorContainer, NodeFilter.SHOW_TEXT);
+  walker.currentNode = start;
+  const between: Text[] = [];
+  for (let node = walker.nextNode() as Text | null; node && node !== end; node = walker.nextNode() as Text | null) between.push(node);
+  start.replaceData(startOffset, start.data.length - startOffset, text);
+  between.forEach(node => { node.data = ''; });
+  end.deleteData(0, endOffset);
+  return after();
+};
+
+/** Index of the first match starting at or after `point`, or -1 */
+export const matchAfter = (ranges: Range[], point: Range) => {
+  if (!point.startContainer.isConnected) return -1;
+  return ranges.findIndex(range => range.compareBoundaryPoints(Range.START_TO_START, point) >= 0);
+};
+
+// ================= HIGHLIGHTS =================
+
+const supportsHighlights = () => typeof CSS !== 'undefined' && 'highlights' in CSS;
+
+/** Marks the matches on the page without touching the DOM; `current` stands out */
+export const showMatches = (ranges: Range[], current: number) => {
+  if (!supportsHighlights()) return;
+  CSS.highlights.set(FIND_HIGHLIGHT, new Highlight(...ranges.filter((_, i) => i !== current)));
+  if (ranges[current]) CSS.highlights.set(FIND_CURRENT_HIGHLIGHT, new Highlight(ranges[current]));
+  else CSS.highlights.delete(FIND_CURRENT_HIGHLIGHT);
+};
+
+export const clearMatches = () => {
+  if (!supportsHighlights()) return;
+  CSS.highlights.delete(FIND_HIGHLIGHT);
+  CSS.highlights.delete(FIND_CURRENT_HIGHLIGHT);
+};
+
+/** Scrolls the workspace so a match is in view */
+export const revealMatch = (range: Range) => {
+  const node = range.startContainer;
+  const el = node instanceof Element ? node : node.parentElement;
+  el?.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' });
+};
@@ -0,0 +1,84 @@
+// Application-level undo/redo.
+//
+// Every recorder (the document in TajmirTemplate, margins in App) pushes an entry
+// with its own undo/redo callbacks onto one shared stack, so Ctrl+Z walks back
+// through all edits in the order they happened.
+
+export interface HistoryEntry {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  /** Consecutive entries with the same key are merged (e.g. typing, slider drags) */
+  mergeKey?: string;
+}
+
+export interface HistoryStack {
+  push: (entry: HistoryEntry) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  clear: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const MAX_ENTRIES = 100;
+const MERGE_WINDOW_MS = 1000;
+
+export const createHistoryStack = (): HistoryStack => {
+  const past: Array<HistoryEntry & { time: number }> = [];
+  const future: HistoryEntry[] = [];
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const push = (entry: HistoryEntry) => {
+    const now = Date.now();
+    const last = past[past.length - 1];
+    future.length = 0;
+
+    if (last && entry.mergeKey && last.mergeKey === entry.mergeKey && now - last.time < MERGE_WINDOW_MS) {
+      // Keep the oldest undo, take the newest redo
+      last.redo = entry.redo;
+      last.time = now;
+    } else {
+      past.push({ ...entry, time: now });
+      if (past.length > MAX_ENTRIES) past.shift();
+    }
+    notify();
+  };
+
+  const undo = () => {
+    const entry = past.pop();
+    if (!entry) return;
+    entry.undo();
+    future.push(entry);
+    notify();
+  };
+
+  const redo = () => {
+    const entry = future.pop();
+    if (!entry) return;
+    entry.redo();
+    // Never merge into an entry that has been undone and redone
+    past.push({ ...entry, time: 0 });
+    notify();
+  };
+
+  return {
+    push,
+    undo,
+    redo,
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+    clear: () => {
+      past.length = 0;
+      future.length = 0;
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
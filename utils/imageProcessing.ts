@@ -0,0 +1,174 @@
+import type { ImageAdjustments, ImageJob, ImageJobResult } from './imageWorker';
+
+export type { ImageAdjustments } from './imageWorker';
+
+// Pixel work on uploaded images. Cropping, background removal ("Air Signature"), flips
+// and trimming to the ink run in utils/imageWorker.ts; results are cached per image and adjustments.
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not load image'));
+  img.src = src;
+});
+
+export interface ProcessedImage {
+  /** PNG data URL */
+  src: string;
+  /** px of the processed image */
+  width: number;
+  height: number;
+}
+
+// ================= WORKER =================
+
+interface QueuedJob {
+  src: string;
+  adjustments: ImageAdjustments;
+  signal?: AbortSignal;
+  resolve: (result: ProcessedImage) => void;
+  reject: (reason: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+// One job at a time, so a slider being dragged only ever waits for the latest setting
+const queue: QueuedJob[] = [];
+let running: (QueuedJob & { id: number }) | null = null;
+
+const abortError = () => new DOMException('Image processing was cancelled', 'AbortError');
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<ImageJobResult>) => {
+    const done = running;
+    if (!done || done.id !== e.data.id) return;
+    running = null;
+    if ('error' in e.data) done.reject(new Error(e.data.error));
+    else done.resolve({ src: e.data.src, width: e.data.width, height: e.data.height });
+    pump();
+  };
+  worker.onerror = (e) => {
+    // Start afresh on the next job
+    worker?.terminate();
+    worker = null;
+    running?.reject(new Error(e.message || 'Image processing failed'));
+    running = null;
+    pump();
+  };
+  return worker;
+};
+
+const pump = async () => {
+  if (running) return;
+  let next = queue.shift();
+  while (next?.signal?.aborted) {
+    next.reject(abortError());
+    next = queue.shift();
+  }
+  if (!next) return;
+
+  const id = nextJobId++;
+  running = { ...next, id };
+  try {
+    // Data URLs and blob URLs both fetch; the worker gets the bytes, not a huge string
+    const image = await (await fetch(next.src)).blob();
+    getWorker().postMessage({ id, image, ...next.adjustments } satisfies ImageJob);
+  } catch (err) {
+    running = null;
+    next.reject(err);
+    pump();
+  }
+};
+
+// ================= CACHE =================
+
+const CACHE_LIMIT = 30;
+// By source image, then by settings; oldest first
+const cache = new Map<string, Map<string, Promise<ProcessedImage>>>();
+let cached = 0;
+
+const forget = (src: string, key: string) => {
+  const bySettings = cache.get(src);
+  if (!bySettings?.delete(key)) return;
+  cached--;
+  if (!bySettings.size) cache.delete(src);
+};
+
+const remember = (src: string, key: string, result: Promise<ProcessedImage>) => {
+  let bySettings = cache.get(src);
+  if (!bySettings) cache.set(src, bySettings = new Map());
+  bySettings.set(key, result);
+  cached++;
+  while (cached > CACHE_LIMIT) {
+    const [oldestSrc, oldest] = cache.entries().next().value!;
+    forget(oldestSrc, oldest.keys().next().value!);
+  }
+};
+
+/** The image with the adjustments made. Aborting drops the job if it hasn't started yet. */
+export const processImage = (src: string, adjustments: ImageAdjustments, signal?: AbortSignal): Promise<ProcessedImage> => {
+  const key = JSON.stringify(adjustments);
+  const hit = cache.get(src)?.get(key);
+  if (hit) {
+    // Most recently used goes to the back
+    forget(src, key);
+    remember(src, key, hit);
+    return hit;
+  }
+
+  const result = new Promise<ProcessedImage>((resolve, reject) => {
+    queue.push({ src, adjustments, signal, resolve, reject });
+    pump();
+  });
+  remember(src, key, result);
+  // Failed and cancelled jobs are tried again next time
+  result.catch(() => forget(src, key));
+  return result;
+};
+
+// ================= SAMPLING =================
+
+// Small canvas holding the image, or the part of it given as `source` (x, y, width, height)
+const sampleCanvas = (img: HTMLImageElement, width: number, height: number, source?: [number, number, number, number]) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (source) ctx?.drawImage(img, ...source, 0, 0, width, height);
+  else ctx?.drawImage(img, 0, 0, width, height);
+  return ctx;
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+/** Colour of the image at a point given as fractions (0–1) of its width and height */
+export const sampleColor = (img: HTMLImageElement, fx: number, fy: number) => {
+  const x = Math.min(img.naturalWidth - 1, Math.max(0, Math.floor(fx * img.naturalWidth)));
+  const y = Math.min(img.naturalHeight - 1, Math.max(0, Math.floor(fy * img.naturalHeight)));
+  const ctx = sampleCanvas(img, 1, 1, [x, y, 1, 1]);
+  if (!ctx) return '#ffffff';
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return toHex(r, g, b);
+};
+
+/** Best guess at the paper colour: the median of the pixels along the image's edges */
+export const estimatePaperColor = (img: HTMLImageElement) => {
+  const size = 64;
+  const ctx = sampleCanvas(img, size, size);
+  if (!ctx) return '#ffffff';
+  const data = ctx.getImageData(0, 0, size, size).data;
+  const channels: number[][] = [[], [], []];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (x > 1 && x < size - 2 && y > 1 && y < size - 2) continue;
+      const i = (y * size + x) * 4;
+      for (let c = 0; c < 3; c++) channels[c].push(data[i + c]);
+    }
+  }
+  const [r, g, b] = channels.map(values => values.sort((a, b) => a - b)[values.length >> 1]);
+  return toHex(r, g, b);
+};
@@ -0,0 +1,101 @@
+import { ImageCrop } from '../types';
+
+// Geometry for resizing, rotating and cropping images on the page. Boxes are in
+// page px and turn around their centre, as CSS `rotate` does.
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Rotation handle snaps to multiples of this many degrees unless Shift is held */
+export const ROTATION_STEP = 15;
+
+export const MIN_IMAGE_SIZE = 20;
+
+/** Smallest part of the image a crop keeps, in percent */
+export const MIN_CROP = 5;
+
+export type CropHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export const CROP_HANDLES: CropHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Vector turned clockwise on screen by `degrees` */
+export const rotateVector = (x: number, y: number, degrees: number) => {
+  const a = degrees * Math.PI / 180;
+  return { x: x * Math.cos(a) - y * Math.sin(a), y: x * Math.sin(a) + y * Math.cos(a) };
+};
+
+/** Same angle in -180…180 */
+export const normalizeAngle = (degrees: number) => {
+  const angle = ((degrees % 360) + 360) % 360;
+  return angle > 180 ? angle - 360 : angle;
+};
+
+/** Rotation for a handle below the box, dragged to `x`/`y` from the box centre */
+export const rotationFromPointer = (x: number, y: number, free: boolean) => {
+  const degrees = Math.atan2(y, x) * 180 / Math.PI - 90;
+  return normalizeAngle(free ? Math.round(degrees) : Math.round(degrees / ROTATION_STEP) * ROTATION_STEP);
+};
+
+/**
+ * Box resized by dragging its bottom-right corner `dx`/`dy` page px.
+ * The top-left corner stays where it is on screen, also when rotated.
+ */
+export const resizeBox = (start: Box, rotation: number, dx: number, dy: number, keepAspect: boolean): Box => {
+  const local = rotateVector(dx, dy, -rotation);
+  let width = Math.max(MIN_IMAGE_SIZE, start.width + local.x);
+  let height = Math.max(MIN_IMAGE_SIZE, start.height + local.y);
+  if (keepAspect) {
+    const scale = Math.max(
+      MIN_IMAGE_SIZE / Math.min(start.width, start.height),
+      (start.width + local.x) / start.width,
+      (start.height + local.y) / start.height
+    );
+    width = start.width * scale;
+    height = start.height * scale;
+  }
+
+  const shift = rotateVector((width - start.width) / 2, (height - start.height) / 2, rotation);
+  return {
+    x: start.x + (start.width - width) / 2 + shift.x,
+    y: start.y + (start.height - height) / 2 + shift.y,
+    width,
+    height,
+  };
+};
+
+/** Crop after dragging one of its handles `dx`/`dy` percent of the box (in the box's own frame) */
+export const dragCropHandle = (crop: ImageCrop, handle: CropHandle, dx: number, dy: number): ImageCrop => {
+  const next = { ...crop };
+  if (handle.includes('n')) next.t = clamp(crop.t + dy, 0, 100 - crop.b - MIN_CROP);
+  if (handle.includes('s')) next.b = clamp(crop.b - dy, 0, 100 - crop.t - MIN_CROP);
+  if (handle.includes('w')) next.l = clamp(crop.l + dx, 0, 100 - crop.r - MIN_CROP);
+  if (handle.includes('e')) next.r = clamp(crop.r - dx, 0, 100 - crop.l - MIN_CROP);
+  return next;
+};
+
+/** Where the part of the box a crop keeps is on the page */
+export const croppedBox = (box: Box, rotation: number, crop: ImageCrop): Box => {
+  const width = box.width * (100 - crop.l - crop.r) / 100;
+  const height = box.height * (100 - crop.t - crop.b) / 100;
+  const offset = rotateVector(box.width * (crop.l - crop.r) / 200, box.height * (crop.t - crop.b) / 200, rotation);
+  return {
+    x: box.x + (box.width - width) / 2 + offset.x,
+    y: box.y + (box.height - height) / 2 + offset.y,
+    width,
+    height,
+  };
+};
+
+/** Crop of the flipped picture on screen, as insets of the unflipped source */
+export const unflipCrop = (crop: ImageCrop, flipX: boolean, flipY: boolean): ImageCrop => ({
+  t: flipY ? crop.b : crop.t,
+  b: flipY ? crop.t : crop.b,
+  l: flipX ? crop.r : crop.l,
+  r: flipX ? crop.l : crop.r,
+});
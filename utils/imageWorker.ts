@@ -0,0 +1,96 @@
+import { BackgroundRemoval, ImageCrop } from '../types';
+import { inkBounds, removeBackground, toGrayscale } from './backgroundRemoval';
+
+// Decodes, adjusts and re-encodes images away from the UI thread.
+// Started and fed by processImage in utils/imageProcessing.ts.
+
+/** What to do to an image; everything is optional and applied in this order */
+export interface ImageAdjustments {
+  /** Insets in percent of the source image; the pixels outside are dropped */
+  crop?: ImageCrop;
+  background?: BackgroundRemoval;
+  grayscale?: boolean;
+  /** Cut away transparent margins */
+  trimToInk?: boolean;
+  flipX?: boolean;
+  flipY?: boolean;
+}
+
+export interface ImageJob extends ImageAdjustments {
+  id: number;
+  image: Blob;
+}
+
+export type ImageJobResult =
+  | { id: number; src: string; width: number; height: number }
+  | { id: number; error: string };
+
+// Photos stay photos when nothing made them transparent
+const OPAQUE_TYPES = ['image/jpeg', 'image/webp'];
+const QUALITY = 0.92;
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const context = (canvas: OffscreenCanvas) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  return ctx;
+};
+
+const run = async ({ image, crop, background, grayscale, trimToInk, flipX, flipY }: ImageJob) => {
+  const bitmap = await createImageBitmap(image);
+  const left = crop ? Math.round(bitmap.width * crop.l / 100) : 0;
+  const top = crop ? Math.round(bitmap.height * crop.t / 100) : 0;
+  const width = crop ? Math.max(1, bitmap.width - left - Math.round(bitmap.width * crop.r / 100)) : bitmap.width;
+  const height = crop ? Math.max(1, bitmap.height - top - Math.round(bitmap.height * crop.b / 100)) : bitmap.height;
+
+  let canvas = new OffscreenCanvas(width, height);
+  const ctx = context(canvas);
+  ctx.drawImage(bitmap, left, top, width, height, 0, 0, width, height);
+  bitmap.close();
+
+  const removing = !!background && background.mode !== 'off';
+  if (removing || grayscale || trimToInk) {
+    const pixels = ctx.getImageData(0, 0, width, height);
+    if (background && removing) removeBackground(pixels, background);
+    if (grayscale) toGrayscale(pixels);
+    ctx.putImageData(pixels, 0, 0);
+
+    if (trimToInk) {
+      const bounds = inkBounds(pixels);
+      const trimmed = new OffscreenCanvas(bounds.width, bounds.height);
+      context(trimmed).drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+      canvas = trimmed;
+    }
+  }
+
+  if (flipX || flipY) {
+    const flipped = new OffscreenCanvas(canvas.width, canvas.height);
+    const flippedCtx = context(flipped);
+    flippedCtx.setTransform(flipX ? -1 : 1, 0, 0, flipY ? -1 : 1, flipX ? canvas.width : 0, flipY ? canvas.height : 0);
+    flippedCtx.drawImage(canvas, 0, 0);
+    canvas = flipped;
+  }
+
+  const type = !removing && OPAQUE_TYPES.includes(image.type) ? image.type : 'image/png';
+  const src = await readAsDataUrl(await canvas.convertToBlob({ type, quality: QUALITY }));
+  return { src, width: canvas.width, height: canvas.height };
+};
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (e: MessageEvent<ImageJob>) => {
+  const { id } = e.data;
+  let result: ImageJobResult;
+  try {
+    result = { id, ...(await run(e.data)) };
+  } catch (err) {
+    result = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  scope.postMessage(result);
+};
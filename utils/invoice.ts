@@ -0,0 +1,307 @@
+import { InvoiceLanguage } from '../types';
+import { FLOW_ATTR } from './pagination';
+import { getEditorRange, getEditingHost, selectRange } from './richText';
+import { applyBorders, createTable, FIXED_LAYOUT_ATTR, FIXED_ROW_ATTR, newCell, placeTable, setColumnWidths } from './tables';
+import { toBanglaDigits } from './letterFields';
+
+// Quotation / bill block: an itemised table in the body with computed totals.
+//
+// The block is a fixed-layout table (see utils/tables.ts) marked data-invoice="<language>".
+// Item rows hold description, quantity, unit and rate; rows marked data-line hold the
+// totals, and cells marked data-cell are read or filled in by `recalculateInvoices`.
+// Computed cells are contenteditable="false". Everything is in the body HTML, so the
+// block is saved, paginated and exported like any other table.
+
+export const INVOICE_ATTR = 'data-invoice';
+const LINE_ATTR = 'data-line';
+const CELL_ATTR = 'data-cell';
+
+export const INVOICE_LANGUAGES: { id: InvoiceLanguage; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'bn', label: 'বাংলা' },
+  { id: 'both', label: 'English, total in words also in বাংলা' },
+];
+
+type Line = 'subtotal' | 'discount' | 'vat' | 'ait' | 'total' | 'words-en' | 'words-bn';
+
+const LABELS = {
+  en: {
+    sl: 'SL', description: 'Description', qty: 'Qty', unit: 'Unit', rate: 'Rate (Tk)', amount: 'Amount (Tk)',
+    subtotal: 'Subtotal', discount: 'Discount (%)', vat: 'VAT (%)', ait: 'AIT (%)', total: 'Grand Total', words: 'In words:',
+  },
+  bn: {
+    sl: 'ক্রমিক', description: 'বিবরণ', qty: 'পরিমাণ', unit: 'একক', rate: 'দর (টাকা)', amount: 'মূল্য (টাকা)',
+    subtotal: 'উপমোট', discount: 'ছাড় (%)', vat: 'ভ্যাট (%)', ait: 'এআইটি (%)', total: 'সর্বমোট', words: 'কথায়:',
+  },
+};
+
+// Starting percentages; 15% is the standard VAT rate
+const DEFAULT_PERCENT: Partial<Record<Line, number>> = { discount: 0, vat: 15, ait: 0 };
+const COLUMN_WIDTHS = [7, 41, 10, 10, 14, 18];
+const ITEM_ROWS = 3;
+
+// ================= NUMBERS =================
+
+const BN_DIGITS = '০১২৩৪৫৬৭৮৯';
+
+const toLatinDigits = (text: string) => text.replace(/[০-৯]/g, d => String(BN_DIGITS.indexOf(d)));
+
+const roundPaisa = (value: number) => Math.round(value * 100) / 100;
+
+// Number typed in a cell: Bangla digits, thousands separators, "%" or "Tk" are allowed
+const parseNumber = (cell: HTMLElement | null) => {
+  const match = toLatinDigits(cell?.textContent || '').replace(/,/g, '').match(/-?\d*\.?\d+/);
+  return match ? parseFloat(match[0]) : null;
+};
+
+/** Two decimals with lakh/crore grouping, e.g. 12,34,567.50; Bangla digits for 'bn' */
+export const formatAmount = (value: number, language: InvoiceLanguage) => {
+  const [integer, fraction] = Math.abs(roundPaisa(value)).toFixed(2).split('.');
+  const grouped = integer.length > 3
+    ? `${integer.slice(0, -3).replace(/\B(?=(\d{2})+$)/g, ',')},${integer.slice(-3)}`
+    : integer;
+  const text = `${value < 0 && roundPaisa(value) !== 0 ? '-' : ''}${grouped}.${fraction}`;
+  return language === 'bn' ? toBanglaDigits(text) : text;
+};
+
+// ================= AMOUNT IN WORDS =================
+
+const EN_ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const EN_TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Bangla has a separate word for every number below a hundred
+const BN_NUMBERS = [
+  '', 'এক', 'দুই', 'তিন', 'চার', 'পাঁচ', 'ছয়', 'সাত', 'আট', 'নয়',
+  'দশ', 'এগারো', 'বারো', 'তেরো', 'চৌদ্দ', 'পনেরো', 'ষোলো', 'সতেরো', 'আঠারো', 'উনিশ',
+  'বিশ', 'একুশ', 'বাইশ', 'তেইশ', 'চব্বিশ', 'পঁচিশ', 'ছাব্বিশ', 'সাতাশ', 'আটাশ', 'ঊনত্রিশ',
+  'ত্রিশ', 'একত্রিশ', 'বত্রিশ', 'তেত্রিশ', 'চৌত্রিশ', 'পঁয়ত্রিশ', 'ছত্রিশ', 'সাঁইত্রিশ', 'আটত্রিশ', 'ঊনচল্লিশ',
+  'চল্লিশ', 'একচল্লিশ', 'বিয়াল্লিশ', 'তেতাল্লিশ', 'চুয়াল্লিশ', 'পঁয়তাল্লিশ', 'ছেচল্লিশ', 'সাতচল্লিশ', 'আটচল্লিশ', 'ঊনপঞ্চাশ',
+  'পঞ্চাশ', 'একান্ন', 'বাহান্ন', 'তিপ্পান্ন', 'চুয়ান্ন', 'পঞ্চান্ন', 'ছাপ্পান্ন', 'সাতান্ন', 'আটান্ন', 'ঊনষাট',
+  'ষাট', 'একষট্টি', 'বাষট্টি', 'তেষট্টি', 'চৌষট্টি', 'পঁয়ষট্টি', 'ছেষট্টি', 'সাতষট্টি', 'আটষট্টি', 'ঊনসত্তর',
+  'সত্তর', 'একাত্তর', 'বাহাত্তর', 'তিয়াত্তর', 'চুয়াত্তর', 'পঁচাত্তর', 'ছিয়াত্তর', 'সাতাত্তর', 'আটাত্তর', 'ঊনআশি',
+  'আশি', 'একাশি', 'বিরাশি', 'তিরাশি', 'চুরাশি', 'পঁচাশি', 'ছিয়াশি', 'সাতাশি', 'অষ্টাশি', 'ঊননব্বই',
+  'নব্বই', 'একানব্বই', 'বিরানব্বই', 'তিরানব্বই', 'চুরানব্বই', 'পঁচানব্বই', 'ছিয়ানব্বই', 'সাতানব্বই', 'আটানব্বই', 'নিরানব্বই',
+];
+
+interface NumberWords {
+  belowHundred: (n: number) => string;
+  hundreds: (digit: number) => string;
+  thousand: string;
+  lakh: string;
+  crore: string;
+}
+
+const EN_WORDS: NumberWords = {
+  belowHundred: n => n < 20 ? EN_ONES[n] : EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_ONES[n % 10]}` : ''),
+  hundreds: digit => `${EN_ONES[digit]} Hundred`,
+  thousand: 'Thousand',
+  lakh: 'Lakh',
+  crore: 'Crore',
+};
+
+const BN_WORDS: NumberWords = {
+  belowHundred: n => BN_NUMBERS[n],
+  hundreds: digit => `${BN_NUMBERS[digit]}শত`,
+  thousand: 'হাজার',
+  lakh: 'লক্ষ',
+  crore: 'কোটি',
+};
+
+// Whole number in the South Asian system: crore, lakh, thousand, hundred.
+// Counts of crore above 99 are spelt out the same way ("One Hundred Twenty Crore").
+const spell = (n: number, words: NumberWords): string => {
+  const parts: string[] = [];
+  if (n >= 1e7) {
+    parts.push(spell(Math.floor(n / 1e7), words), words.crore);
+    n %= 1e7;
+  }
+  if (n >= 1e5) {
+    parts.push(words.belowHundred(Math.floor(n / 1e5)), words.lakh);
+    n %= 1e5;
+  }
+  if (n >= 1000) {
+    parts.push(words.belowHundred(Math.floor(n / 1000)), words.thousand);
+    n %= 1000;
+  }
+  if (n >= 100) {
+    parts.push(words.hundreds(Math.floor(n / 100)));
+    n %= 100;
+  }
+  if (n > 0) parts.push(words.belowHundred(n));
+  return parts.join(' ');
+};
+
+/**
+ * Amount in Bangladeshi Taka written out, e.g.
+ * "Taka One Lakh Twenty-Three Thousand Four Hundred Fifty-Six and Fifty Paisa Only" or
+ * "এক লক্ষ তেইশ হাজার চারশত ছাপ্পান্ন টাকা পঞ্চাশ পয়সা মাত্র".
+ */
+export const amountInWords = (value: number, language: 'en' | 'bn') => {
+  const paisaTotal = Math.round(Math.abs(value) * 100);
+  const taka = Math.floor(paisaTotal / 100);
+  const paisa = paisaTotal % 100;
+
+  if (language === 'bn') {
+    const text = `${spell(taka, BN_WORDS) || 'শূন্য'} টাকা${paisa ? ` ${BN_WORDS.belowHundred(paisa)} পয়সা` : ''} মাত্র`;
+    return value < 0 && paisaTotal ? `ঋণাত্মক ${text}` : text;
+  }
+  const text = `Taka ${spell(taka, EN_WORDS) || 'Zero'}${paisa ? ` and ${EN_WORDS.belowHundred(paisa)} Paisa` : ''} Only`;
+  return value < 0 && paisaTotal ? `Minus ${text}` : text;
+};
+
+// ================= CREATING =================
+
+const lockCell = (cell: HTMLTableCellElement, text = '') => {
+  cell.setAttribute('contenteditable', 'false');
+  cell.textContent = text;
+  return cell;
+};
+
+const totalRow = (body: HTMLTableSectionElement, line: Line, language: InvoiceLanguage) => {
+  const labels = LABELS[language === 'bn' ? 'bn' : 'en'];
+  const row = body.insertRow();
+  row.setAttribute(LINE_ATTR, line);
+  row.setAttribute(FIXED_ROW_ATTR, '');
+
+  if (line === 'words-en' || line === 'words-bn') {
+    const cell = lockCell(newCell());
+    cell.colSpan = COLUMN_WIDTHS.length;
+    cell.setAttribute(CELL_ATTR, 'words');
+    cell.style.fontStyle = 'italic';
+    row.appendChild(cell);
+    return;
+  }
+
+  const percent = DEFAULT_PERCENT[line];
+  const label = lockCell(newCell(), labels[line]);
+  label.colSpan = COLUMN_WIDTHS.length - (percent === undefined ? 1 : 2);
+  label.style.textAlign = 'right';
+  row.appendChild(label);
+
+  if (percent !== undefined) {
+    const input = newCell();
+    input.setAttribute(CELL_ATTR, 'percent');
+    input.style.textAlign = 'right';
+    input.textContent = language === 'bn' ? toBanglaDigits(percent) : String(percent);
+    row.appendChild(input);
+  }
+
+  const amount = lockCell(newCell());
+  amount.setAttribute(CELL_ATTR, 'amount');
+  amount.style.textAlign = 'right';
+  row.appendChild(amount);
+
+  if (line === 'total') Array.from(row.cells).forEach(cell => { cell.style.fontWeight = 'bold'; });
+};
+
+const createInvoice = (language: InvoiceLanguage) => {
+  const labels = LABELS[language === 'bn' ? 'bn' : 'en'];
+  const table = createTable(1 + ITEM_ROWS, COLUMN_WIDTHS.length, '100%');
+  table.setAttribute(INVOICE_ATTR, language);
+  table.setAttribute(FIXED_LAYOUT_ATTR, '');
+  setColumnWidths(table, COLUMN_WIDTHS);
+
+  const header = table.tHead!.rows[0];
+  header.setAttribute(FIXED_ROW_ATTR, '');
+  [labels.sl, labels.description, labels.qty, labels.unit, labels.rate, labels.amount].forEach((text, i) => {
+    header.cells[i].textContent = text;
+    header.cells[i].style.textAlign = i === 1 ? 'left' : 'center';
+  });
+
+  const body = table.tBodies[0];
+  Array.from(body.rows).forEach(row => {
+    const [sl, , qty, , rate, amount] = Array.from(row.cells);
+    lockCell(sl).setAttribute(CELL_ATTR, 'sl');
+    sl.style.textAlign = 'center';
+    qty.setAttribute(CELL_ATTR, 'qty');
+    rate.setAttribute(CELL_ATTR, 'rate');
+    lockCell(amount).setAttribute(CELL_ATTR, 'amount');
+    [qty, rate, amount].forEach(cell => { cell.style.textAlign = 'right'; });
+  });
+
+  const lines: Line[] = ['subtotal', 'discount', 'vat', 'ait', 'total'];
+  if (language !== 'bn') lines.push('words-en');
+  if (language !== 'en') lines.push('words-bn');
+  lines.forEach(line => totalRow(body, line, language));
+
+  applyBorders(table);
+  recalculate([table]);
+  return table;
+};
+
+/**
+ * Inserts a quotation block at the caret in the body.
+ * Returns the body, or null when the caret is elsewhere (text blocks, header/footer, a table).
+ */
+export const insertInvoice = (language: InvoiceLanguage): HTMLElement | null => {
+  const range = getEditorRange();
+  const host = range && getEditingHost(range.startContainer);
+  if (!range || !host || !host.hasAttribute('data-page-body')) return null;
+  const start = range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement;
+  if (start?.closest('table')) return null;
+  host.focus({ preventScroll: true });
+
+  const table = createInvoice(language);
+  placeTable(range, host, table);
+
+  const first = table.querySelector<HTMLElement>(`tbody > tr:not([${LINE_ATTR}]) > td:not([contenteditable])`);
+  if (first) {
+    const caret = document.createRange();
+    caret.selectNodeContents(first);
+    caret.collapse(true);
+    selectRange(caret);
+  }
+  return host;
+};
+
+// ================= TOTALS =================
+
+const setText = (cell: HTMLElement | null, text: string) => {
+  if (cell && cell.textContent !== text) cell.textContent = text;
+};
+
+// One block, which may be split into parts over several pages
+const recalculate = (parts: HTMLTableElement[]) => {
+  const language = (parts[0].getAttribute(INVOICE_ATTR) || 'en') as InvoiceLanguage;
+  const rows = parts.flatMap(table => Array.from(table.tBodies).flatMap(body => Array.from(body.rows)));
+  const cell = (row: HTMLTableRowElement | undefined, role: string) =>
+    row ? row.querySelector<HTMLTableCellElement>(`:scope > [${CELL_ATTR}="${role}"]`) : null;
+  const line = (name: Line) => rows.find(row => row.getAttribute(LINE_ATTR) === name);
+  const percent = (name: Line) => parseNumber(cell(line(name), 'percent')) ?? 0;
+
+  let subtotal = 0;
+  rows.filter(row => !row.hasAttribute(LINE_ATTR)).forEach((row, index) => {
+    setText(cell(row, 'sl'), language === 'bn' ? toBanglaDigits(index + 1) : String(index + 1));
+    // A line without a quantity is a lump sum
+    const rate = parseNumber(cell(row, 'rate'));
+    const amount = rate === null ? null : roundPaisa((parseNumber(cell(row, 'qty')) ?? 1) * rate);
+    if (amount !== null) subtotal += amount;
+    setText(cell(row, 'amount'), amount === null ? '' : formatAmount(amount, language));
+  });
+
+  // VAT and AIT are charged on the amount after the discount
+  subtotal = roundPaisa(subtotal);
+  const discount = roundPaisa(subtotal * percent('discount') / 100);
+  const vat = roundPaisa((subtotal - discount) * percent('vat') / 100);
+  const ait = roundPaisa((subtotal - discount) * percent('ait') / 100);
+  const total = roundPaisa(subtotal - discount + vat + ait);
+
+  const amounts: [Line, number][] = [['subtotal', subtotal], ['discount', -discount], ['vat', vat], ['ait', ait], ['total', total]];
+  amounts.forEach(([name, value]) => setText(cell(line(name), 'amount'), formatAmount(value, language)));
+  setText(cell(line('words-en'), 'words'), `${LABELS.en.words} ${amountInWords(total, 'en')}`);
+  setText(cell(line('words-bn'), 'words'), `${LABELS.bn.words} ${amountInWords(total, 'bn')}`);
+};
+
+/** Brings the computed cells of every quotation block in the body pages up to date. */
+export const recalculateInvoices = (bodies: HTMLElement[]) => {
+  const blocks: HTMLTableElement[][] = [];
+  let flow: string | null = null;
+  bodies.forEach(body => body.querySelectorAll<HTMLTableElement>(`table[${INVOICE_ATTR}]`).forEach(table => {
+    const part = table.getAttribute(FLOW_ATTR);
+    if (part && part === flow) blocks[blocks.length - 1].push(table);
+    else blocks.push([table]);
+    flow = part;
+  }));
+  blocks.forEach(recalculate);
+};
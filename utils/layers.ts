@@ -0,0 +1,165 @@
+import { BlockLayer, BlockPosition, ImageBlock, LetterDocument, TextBlock } from '../types';
+import { SNAP_ATTR, SnapBox, snapAreaOf, snapBoxOf } from './snapping';
+
+// Stacking, grouping and alignment of the draggable text and image blocks. Blocks
+// are named by layer keys like "image:1712345678901", as text and image ids are
+// separate. Stacking order only matters between blocks on the same page.
+
+export type LayerKind = 'text' | 'image';
+
+export interface Layer {
+  key: string;
+  kind: LayerKind;
+  block: TextBlock | ImageBlock;
+}
+
+export type StackMove = 'front' | 'forward' | 'backward' | 'back';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom' | 'distributeX' | 'distributeY';
+
+export const STACK_MOVES: { id: StackMove; label: string }[] = [
+  { id: 'front', label: 'Bring to front' },
+  { id: 'forward', label: 'Bring forward' },
+  { id: 'backward', label: 'Send backward' },
+  { id: 'back', label: 'Send to back' },
+];
+
+/** `min`: blocks needed; one block aligns with the margins instead */
+export const ALIGN_MODES: { id: AlignMode; label: string; short: string; min: number }[] = [
+  { id: 'left', label: 'Align left edges', short: 'Left', min: 1 },
+  { id: 'center', label: 'Align centres', short: 'Centre', min: 1 },
+  { id: 'right', label: 'Align right edges', short: 'Right', min: 1 },
+  { id: 'top', label: 'Align top edges', short: 'Top', min: 1 },
+  { id: 'middle', label: 'Align middles', short: 'Middle', min: 1 },
+  { id: 'bottom', label: 'Align bottom edges', short: 'Bottom', min: 1 },
+  { id: 'distributeX', label: 'Distribute horizontally', short: 'Space ↔', min: 3 },
+  { id: 'distributeY', label: 'Distribute vertically', short: 'Space ↕', min: 3 },
+];
+
+/** Marks a block's outer element with its layer key */
+export const LAYER_ATTR = 'data-layer';
+
+export const layerKey = (kind: LayerKind, id: number) => `${kind}:${id}`;
+
+export const allLayers = (doc: LetterDocument): Layer[] => [
+  ...doc.imageBlocks.map(block => ({ key: layerKey('image', block.id), kind: 'image' as const, block })),
+  ...doc.textBlocks.map(block => ({ key: layerKey('text', block.id), kind: 'text' as const, block })),
+];
+
+/** Blocks on a page from the bottom of the stack to the top */
+export const pageLayers = (doc: LetterDocument, page: number) =>
+  allLayers(doc).filter(layer => layer.block.page === page).sort((a, b) => a.block.z - b.block.z);
+
+/** Stacking order for a block added on top of everything */
+export const topZ = (doc: LetterDocument) => Math.max(-1, ...allLayers(doc).map(layer => layer.block.z)) + 1;
+
+/** Document with `patch` applied to the blocks it returns something for */
+export const patchLayers = (
+  doc: LetterDocument,
+  patch: (layer: Layer) => Partial<BlockLayer & BlockPosition> | null
+): LetterDocument => {
+  const apply = <T extends TextBlock | ImageBlock>(kind: LayerKind, block: T): T => {
+    const changes = patch({ key: layerKey(kind, block.id), kind, block });
+    return changes ? { ...block, ...changes } : block;
+  };
+  return {
+    ...doc,
+    textBlocks: doc.textBlocks.map(block => apply('text', block)),
+    imageBlocks: doc.imageBlocks.map(block => apply('image', block)),
+  };
+};
+
+/** The keys plus every block grouped with one of them */
+export const withGroups = (doc: LetterDocument, keys: string[]) => {
+  const layers = allLayers(doc);
+  const groups = new Set(layers.filter(l => keys.includes(l.key) && l.block.group !== null).map(l => l.block.group));
+  return layers.filter(l => keys.includes(l.key) || groups.has(l.block.group)).map(l => l.key);
+};
+
+/** Moves the selected blocks up or down their page's stack, keeping their order among themselves */
+export const restack = (doc: LetterDocument, keys: string[], move: StackMove): LetterDocument => {
+  const picked = (key: string) => keys.includes(key);
+  const z = new Map<string, number>();
+  const pages = new Set(allLayers(doc).filter(l => picked(l.key)).map(l => l.block.page));
+
+  pages.forEach(page => {
+    let order = pageLayers(doc, page).map(l => l.key);
+    if (move === 'front') order = [...order.filter(k => !picked(k)), ...order.filter(picked)];
+    else if (move === 'back') order = [...order.filter(picked), ...order.filter(k => !picked(k))];
+    else {
+      // Each selected block swaps with the unselected one next to it, starting at the end it moves to
+      const up = move === 'forward';
+      for (let i = up ? order.length - 2 : 1; i >= 0 && i < order.length; i += up ? -1 : 1) {
+        const j = up ? i + 1 : i - 1;
+        if (picked(order[i]) && !picked(order[j])) [order[i], order[j]] = [order[j], order[i]];
+      }
+    }
+    order.forEach((key, index) => z.set(key, index));
+  });
+
+  return patchLayers(doc, l => z.has(l.key) ? { z: z.get(l.key)! } : null);
+};
+
+/**
+ * How far to move each box to align or distribute them, by key. Boxes line up
+ * with `frame`, by default their joint bounds; distributing spaces them evenly
+ * between the outermost two.
+ */
+export const alignShifts = (boxes: Record<string, SnapBox>, mode: AlignMode, frame?: SnapBox) => {
+  const entries = Object.entries(boxes);
+  const shifts: Record<string, { dx: number; dy: number }> = {};
+  if (!entries.length) return shifts;
+
+  if (mode === 'distributeX' || mode === 'distributeY') {
+    const horizontal = mode === 'distributeX';
+    const start = (b: SnapBox) => horizontal ? b.x : b.y;
+    const length = (b: SnapBox) => horizontal ? b.width : b.height;
+    const sorted = [...entries].sort((a, b) => start(a[1]) - start(b[1]));
+    const first = sorted[0][1];
+    const last = sorted[sorted.length - 1][1];
+    const used = sorted.reduce((sum, [, b]) => sum + length(b), 0);
+    const gap = (start(last) + length(last) - start(first) - used) / Math.max(1, sorted.length - 1);
+    let at = start(first);
+    sorted.forEach(([key, b]) => {
+      const d = at - start(b);
+      shifts[key] = horizontal ? { dx: d, dy: 0 } : { dx: 0, dy: d };
+      at += length(b) + gap;
+    });
+    return shifts;
+  }
+
+  const left = Math.min(...entries.map(([, b]) => b.x));
+  const top = Math.min(...entries.map(([, b]) => b.y));
+  const bounds = frame || {
+    x: left,
+    y: top,
+    width: Math.max(...entries.map(([, b]) => b.x + b.width)) - left,
+    height: Math.max(...entries.map(([, b]) => b.y + b.height)) - top,
+  };
+
+  entries.forEach(([key, b]) => {
+    switch (mode) {
+      case 'left': shifts[key] = { dx: bounds.x - b.x, dy: 0 }; break;
+      case 'center': shifts[key] = { dx: bounds.x + (bounds.width - b.width) / 2 - b.x, dy: 0 }; break;
+      case 'right': shifts[key] = { dx: bounds.x + bounds.width - b.width - b.x, dy: 0 }; break;
+      case 'top': shifts[key] = { dx: 0, dy: bounds.y - b.y }; break;
+      case 'middle': shifts[key] = { dx: 0, dy: bounds.y + (bounds.height - b.height) / 2 - b.y }; break;
+      case 'bottom': shifts[key] = { dx: 0, dy: bounds.y + bounds.height - b.height - b.y }; break;
+    }
+  });
+  return shifts;
+};
+
+// ================= PAGE =================
+
+/** Content box of each block on the page, as snapping sees it, by key */
+export const measureLayers = (root: ParentNode, keys: string[]) => {
+  const boxes: Record<string, SnapBox> = {};
+  keys.forEach(key => {
+    const outer = root.querySelector<HTMLElement>(`[${LAYER_ATTR}="${key}"]`);
+    const el = outer?.matches(`[${SNAP_ATTR}]`) ? outer : outer?.querySelector<HTMLElement>(`[${SNAP_ATTR}]`);
+    const area = el && snapAreaOf(el);
+    if (el && area) boxes[key] = snapBoxOf(el, area);
+  });
+  return boxes;
+};
@@ -0,0 +1,74 @@
+import { ComposedLetter } from '../types';
+import { fieldTokenHtml } from './letterFields';
+import { SIGNATORY_ATTR } from './assetLibrary';
+
+// House style for composed letters.
+// The body is rendered as a flat list of paragraphs and lists so pagination can
+// split it like hand-typed text. The body uses `white-space: pre-wrap`, so the
+// markup must not contain newlines or indentation between tags.
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const lines = (text: string) => text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+
+const withBreaks = (text: string) => lines(text).map(escapeHtml).join('<br>');
+
+const paragraph = (html: string, style: string, attrs = '') => `<p${attrs} style="margin:0;${style}">${html}</p>`;
+
+const list = (title: string, text: string) => {
+  const items = lines(text);
+  if (!items.length) return '';
+  return paragraph(`<b>${title}</b>`, 'margin-top:1em')
+    + `<ol style="margin:0;padding-left:1.5em;list-style-type:decimal">${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ol>`;
+};
+
+/** Body HTML for a composed letter. */
+export const renderComposedLetter = (letter: ComposedLetter): string => {
+  const parts: string[] = [];
+
+  // Ref on the left, date on the right
+  const refLine = [
+    letter.showReference ? `<span>Ref: ${fieldTokenHtml('reference')}</span>` : '',
+    letter.dateFormat ? `<span style="margin-left:auto">Date: ${fieldTokenHtml('date', letter.dateFormat)}</span>` : '',
+  ].join('');
+  if (refLine) parts.push(paragraph(refLine, 'display:flex;gap:1em;margin-bottom:1.5em'));
+
+  if (lines(letter.recipient).length) {
+    parts.push(paragraph(`To,<br>${withBreaks(letter.recipient)}`, 'margin-bottom:1.5em'));
+  }
+
+  if (letter.subject.trim()) {
+    parts.push(paragraph(`<b>Subject: <u>${escapeHtml(letter.subject.trim())}</u></b>`, 'margin-bottom:1.5em'));
+  }
+
+  if (letter.salutation.trim()) {
+    parts.push(paragraph(escapeHtml(letter.salutation.trim()), 'margin-bottom:1em'));
+  }
+
+  letter.body
+    .split(/\r?\n\s*\r?\n/)
+    .filter(p => p.trim())
+    .forEach(p => parts.push(paragraph(withBreaks(p), 'margin-bottom:1em;text-align:justify')));
+
+  if (letter.closing.trim()) {
+    parts.push(paragraph(escapeHtml(letter.closing.trim()), 'margin-top:1em'));
+  }
+
+  // Room for the handwritten signature or a signature image above the name.
+  // Signatures and seals from the library are placed next to this paragraph.
+  const signatory = [letter.signatoryName.trim() && `<b>${escapeHtml(letter.signatoryName.trim())}</b>`, withBreaks(letter.signatoryDesignation)]
+    .filter(Boolean)
+    .join('<br>');
+  if (signatory) parts.push(paragraph(signatory, 'margin-top:3.5em', ` ${SIGNATORY_ATTR}`));
+
+  parts.push(list('Enclosures:', letter.enclosures));
+  parts.push(list('CC:', letter.cc));
+
+  return parts.join('');
+};
+
+/** Whether the form has no text of its own yet (toggles and date format don't count). */
+export const isComposerEmpty = (letter: ComposedLetter) =>
+  [letter.recipient, letter.subject, letter.body, letter.signatoryName, letter.signatoryDesignation, letter.cc, letter.enclosures]
+    .every(text => !text.trim());
@@ -0,0 +1,236 @@
+import { DateFormat, FieldKind, LetterDocument, LetterFields, LetterheadTemplate, ReferenceScheme } from '../types';
+import { reserveCounter } from './documentStore';
+import { pageLetterhead } from '../templates/registry';
+
+// Reference number, date and page number tokens.
+// A token is a non-editable <span data-field="reference|date" data-format="..."> in the
+// body, header/footer or a text block. Its text is always derived from the letter's
+// `fields` and re-filled whenever they change; until the letter is first exported the
+// token shows a preview (dashed outline, see index.html) and `data-pending` is set.
+// Page tokens ("page", "pages") depend on where they end up, so they are filled on
+// the rendered pages instead (fillPageNumbers).
+
+export const FIELD_ATTR = 'data-field';
+
+/** Text shown in the tokens, resolved from the letter's fields */
+export interface FieldValues {
+  reference: string;
+  referencePending: boolean;
+  /** YYYY-MM-DD */
+  date: string;
+  datePending: boolean;
+}
+
+export const DATE_FORMATS: { id: DateFormat; label: string }[] = [
+  { id: 'en-long', label: 'Date (19 October 2026)' },
+  { id: 'en-short', label: 'Date (19/10/2026)' },
+  { id: 'bn-gregorian', label: 'তারিখ (১৯ অক্টোবর ২০২৬)' },
+  { id: 'bn-bangabda', label: 'বঙ্গাব্দ (৩ কার্তিক ১৪৩৩)' },
+];
+
+// ================= DATES =================
+
+const EN_MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const BN_MONTHS = ['জানুয়ারি', 'ফেব্রুয়ারি', 'মার্চ', 'এপ্রিল', 'মে', 'জুন', 'জুলাই', 'আগস্ট', 'সেপ্টেম্বর', 'অক্টোবর', 'নভেম্বর', 'ডিসেম্বর'];
+const BANGABDA_MONTHS = ['বৈশাখ', 'জ্যৈষ্ঠ', 'আষাঢ়', 'শ্রাবণ', 'ভাদ্র', 'আশ্বিন', 'কার্তিক', 'অগ্রহায়ণ', 'পৌষ', 'মাঘ', 'ফাল্গুন', 'চৈত্র'];
+const BN_DIGITS = '০১২৩৪৫৬৭৮৯';
+
+export const toBanglaDigits = (text: string | number) =>
+  String(text).replace(/[0-9]/g, d => BN_DIGITS[Number(d)]);
+
+export const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseIsoDate = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return { y, m: m - 1, d };
+};
+
+const isLeapYear = (y: number) => (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+
+/**
+ * Bangla calendar as revised in Bangladesh (2019): the year starts on 14 April,
+ * Boishakh to Ashwin have 31 days, Falgun 29 (30 when February has 29), the rest 30.
+ */
+export const toBangabda = (iso: string) => {
+  const { y, m, d } = parseIsoDate(iso);
+  const startYear = m > 3 || (m === 3 && d >= 14) ? y : y - 1;
+  let day = Math.round((Date.UTC(y, m, d) - Date.UTC(startYear, 3, 14)) / 86400000);
+  const lengths = [31, 31, 31, 31, 31, 31, 30, 30, 30, 30, isLeapYear(startYear + 1) ? 30 : 29, 30];
+  let month = 0;
+  while (day >= lengths[month]) {
+    day -= lengths[month];
+    month++;
+  }
+  return { year: startYear - 593, month, day: day + 1 };
+};
+
+export const formatDate = (iso: string, format: DateFormat) => {
+  const { y, m, d } = parseIsoDate(iso);
+  switch (format) {
+    case 'en-short':
+      return `${String(d).padStart(2, '0')}/${String(m + 1).padStart(2, '0')}/${y}`;
+    case 'bn-gregorian':
+      return toBanglaDigits(`${d} ${BN_MONTHS[m]} ${y}`);
+    case 'bn-bangabda': {
+      const b = toBangabda(iso);
+      return toBanglaDigits(`${b.day} ${BANGABDA_MONTHS[b.month]} ${b.year} বঙ্গাব্দ`);
+    }
+    default:
+      return `${d} ${EN_MONTHS[m]} ${y}`;
+  }
+};
+
+// ================= REFERENCE NUMBERS =================
+
+/** Sequences restart every year */
+export const referenceCounterKey = (templateId: string, year: number) => `${templateId}:${year}`;
+
+/** PREFIX/DEPARTMENT/YEAR/0042; empty parts are left out. Without a number the counter shows as ####. */
+export const formatReference = (scheme: ReferenceScheme, year: number, counter: number | null) => {
+  const padding = Math.max(1, scheme.padding);
+  const number = counter === null ? '#'.repeat(padding) : String(counter).padStart(padding, '0');
+  return [scheme.prefix.trim(), scheme.department.trim(), String(year), number].filter(Boolean).join('/');
+};
+
+export const resolveFieldValues = (fields: LetterFields, scheme: ReferenceScheme): FieldValues => {
+  const date = fields.date || toIsoDate(new Date());
+  return {
+    reference: fields.reference || formatReference(scheme, parseIsoDate(date).y, null),
+    referencePending: !fields.reference,
+    date,
+    datePending: !fields.date,
+  };
+};
+
+// ================= TOKENS =================
+
+const isPageField = (kind: FieldKind) => kind === 'page' || kind === 'pages';
+
+const fillFieldElement = (el: HTMLElement, values: FieldValues) => {
+  const kind = el.getAttribute(FIELD_ATTR) as FieldKind;
+  if (isPageField(kind)) return false;
+  const text = kind === 'reference'
+    ? values.reference
+    : formatDate(values.date, (el.dataset.format as DateFormat) || 'en-long');
+  const pending = kind === 'reference' ? values.referencePending : values.datePending;
+
+  let changed = false;
+  if (el.textContent !== text) {
+    el.textContent = text;
+    changed = true;
+  }
+  if (el.hasAttribute('data-pending') !== pending) {
+    el.toggleAttribute('data-pending', pending);
+    changed = true;
+  }
+  return changed;
+};
+
+/** Re-fills every token under `root`; returns whether anything changed. */
+export const fillFieldElements = (root: HTMLElement, values: FieldValues) => {
+  let changed = false;
+  root.querySelectorAll<HTMLElement>(`[${FIELD_ATTR}]`).forEach(el => {
+    if (fillFieldElement(el, values)) changed = true;
+  });
+  return changed;
+};
+
+/** Fills the page number and count tokens on one rendered page */
+export const fillPageNumbers = (page: HTMLElement, index: number, count: number) => {
+  page.querySelectorAll<HTMLElement>(`[${FIELD_ATTR}="page"], [${FIELD_ATTR}="pages"]`).forEach(el => {
+    const text = String(el.getAttribute(FIELD_ATTR) === 'page' ? index + 1 : count);
+    if (el.textContent !== text) el.textContent = text;
+  });
+};
+
+export const createFieldToken = (kind: FieldKind, format: DateFormat | undefined, values: FieldValues) => {
+  const span = document.createElement('span');
+  span.setAttribute(FIELD_ATTR, kind);
+  if (format) span.dataset.format = format;
+  span.contentEditable = 'false';
+  fillFieldElement(span, values);
+  return span;
+};
+
+/** Token markup for generated HTML; its text is filled in once it is on a page. */
+export const fieldTokenHtml = (kind: FieldKind, format?: DateFormat) =>
+  `<span ${FIELD_ATTR}="${kind}"${format ? ` data-format="${format}"` : ''} contenteditable="false"></span>`;
+
+const fillFieldHtml = (html: string, values: FieldValues) => {
+  if (!html.includes(FIELD_ATTR)) return html;
+  const div = document.createElement('div');
+  div.innerHTML = html;
+  return fillFieldElements(div, values) ? div.innerHTML : html;
+};
+
+// Same object back when no field in the map changed
+const fillFieldMap = <T extends object>(fields: T, values: FieldValues): T => {
+  let changed = false;
+  const next = { ...fields } as Record<string, string>;
+  Object.entries(fields).forEach(([key, html]) => {
+    const filled = fillFieldHtml(html, values);
+    if (filled !== html) {
+      next[key] = filled;
+      changed = true;
+    }
+  });
+  return changed ? next as unknown as T : fields;
+};
+
+/** Letter with every token's text brought up to date; the same object if nothing changed. */
+export const fillDocumentFields = (doc: LetterDocument, values: FieldValues): LetterDocument => {
+  const header = fillFieldMap(doc.header, values);
+  const footer = fillFieldMap(doc.footer, values);
+  const body = fillFieldHtml(doc.body, values);
+  const textBlocks = doc.textBlocks.map(b => {
+    const html = fillFieldHtml(b.html, values);
+    return html === b.html ? b : { ...b, html };
+  });
+
+  const unchanged = header === doc.header && footer === doc.footer && body === doc.body
+    && textBlocks.every((b, i) => b === doc.textBlocks[i]);
+  return unchanged ? doc : { ...doc, header, footer, body, textBlocks };
+};
+
+// Only the header and footer parts that appear on one of the letter's pages count, or
+// with `firstPageOnly` on its first page
+const usesField = (doc: LetterDocument, kind: FieldKind, template: LetterheadTemplate, pageCount: number, firstPageOnly = false) => {
+  const marker = `${FIELD_ATTR}="${kind}"`;
+  const shown = Array.from({ length: firstPageOnly ? 1 : pageCount }, (_, i) => pageLetterhead(template, i, pageCount));
+  const { running: runningHeader, ...header } = doc.header;
+  const { running: runningFooter, ...footer } = doc.footer;
+  return [
+    ...(shown.some(p => p.header === 'full') ? Object.values(header) : []),
+    ...(shown.some(p => p.header === 'running') ? [runningHeader] : []),
+    ...(shown.some(p => p.footer === 'full') ? Object.values(footer) : []),
+    ...(shown.some(p => p.footer === 'running') ? [runningFooter] : []),
+    doc.body,
+    ...doc.textBlocks.map(b => b.html),
+  ].some(html => html.includes(marker));
+};
+
+/**
+ * Fixes the letter's date and issues its reference number, if the letter's
+ * `pageCount` pages show those fields and they are not fixed yet. Returns
+ * `doc.fields` when nothing changed. The running header of every template repeats
+ * the reference, so only the letter and its first page's letterhead ask for one.
+ */
+export const reserveLetterFields = async (doc: LetterDocument, template: LetterheadTemplate, scheme: ReferenceScheme, pageCount: number): Promise<LetterFields> => {
+  const needsReference = usesField(doc, 'reference', template, pageCount, true) && !doc.fields.reference;
+  const needsDate = !doc.fields.date && (needsReference || usesField(doc, 'date', template, pageCount));
+  if (!needsReference && !needsDate) return doc.fields;
+
+  // The reference year follows the letter date
+  const date = doc.fields.date || toIsoDate(new Date());
+  let reference = doc.fields.reference;
+  if (needsReference) {
+    const year = parseIsoDate(date).y;
+    reference = formatReference(scheme, year, await reserveCounter(referenceCounterKey(doc.templateId, year)));
+  }
+  return { reference, date };
+};
+
+/** A template's numbering, with the user's changes from the Numbering dialog applied. */
+export const referenceSchemeFor = (template: LetterheadTemplate, overrides: Record<string, ReferenceScheme>) =>
+  overrides[template.id] || template.reference;
@@ -0,0 +1,162 @@
+import { LetterDocument, MergeData, MergeMapping } from '../types';
+
+// Mail merge: `{{placeholder}}` fields in the letter are filled from CSV rows.
+// Placeholders may appear in the body, header/footer fields and text blocks.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}<>]+?)\s*\}\}/g;
+
+// ================= CSV =================
+
+// Excel in some locales saves with ';', other tools with tabs
+const detectDelimiter = (firstLine: string) => {
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+/** Parses CSV text (RFC 4180 quoting, CRLF or LF line ends, optional BOM). */
+export const parseCSV = (text: string): MergeData => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  const [header = [], ...rows] = nonEmpty;
+  const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+  return {
+    columns,
+    rows: rows.map(row => columns.map((_, index) => (row[index] ?? '').trim())),
+  };
+};
+
+// ================= PLACEHOLDERS =================
+
+const documentHtml = (doc: LetterDocument) => [
+  ...Object.values(doc.header),
+  ...Object.values(doc.footer),
+  doc.body,
+  ...doc.textBlocks.map(b => b.html),
+];
+
+/** Placeholder names used anywhere in the letter, in order of first use. */
+export const findPlaceholders = (doc: LetterDocument): string[] => {
+  const names = new Set<string>();
+  documentHtml(doc).forEach(html => {
+    for (const match of html.matchAll(PLACEHOLDER_PATTERN)) names.add(match[1]);
+  });
+  return Array.from(names);
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9\u0980-\u09FF]/g, '');
+
+/** Maps each placeholder to the column with the same name (ignoring case, spaces and punctuation). */
+export const guessMapping = (placeholders: string[], columns: string[]): MergeMapping => {
+  const mapping: MergeMapping = {};
+  placeholders.forEach(name => {
+    const column = columns.find(c => normalizeName(c) === normalizeName(name));
+    if (column) mapping[name] = column;
+  });
+  return mapping;
+};
+
+/**
+ * Values for one row, keyed by column name and by mapped placeholder name.
+ * Used both for filling the letter and for file names.
+ */
+export const rowValues = (data: MergeData, rowIndex: number, mapping: MergeMapping): Record<string, string> => {
+  const row = data.rows[rowIndex] || [];
+  const values: Record<string, string> = {};
+  data.columns.forEach((column, index) => { values[column] = row[index] ?? ''; });
+  Object.entries(mapping).forEach(([name, column]) => { values[name] = values[column] ?? ''; });
+  return values;
+};
+
+const hasValue = (values: Record<string, string>, name: string) =>
+  Object.prototype.hasOwnProperty.call(values, name);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Unmapped placeholders are left in place so they stand out in the preview
+const fillHtml = (html: string, values: Record<string, string>) =>
+  html.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    hasValue(values, name) ? escapeHtml(values[name]).replace(/\r?\n/g, '<br>') : match);
+
+// Composer fields are plain text; the composer escapes them when laying out the body
+const fillText = (text: string, values: Record<string, string>) =>
+  text.replace(PLACEHOLDER_PATTERN, (match, name: string) => hasValue(values, name) ? values[name] : match);
+
+const fillFields = <T extends object>(fields: T, values: Record<string, string>): T =>
+  Object.fromEntries(Object.entries(fields).map(([key, html]) => [key, fillHtml(html, values)])) as T;
+
+/** Copy of the letter with placeholders replaced by one row's values. */
+export const mergeDocument = (doc: LetterDocument, values: Record<string, string>): LetterDocument => ({
+  ...doc,
+  header: fillFields(doc.header, values),
+  footer: fillFields(doc.footer, values),
+  body: fillHtml(doc.body, values),
+  textBlocks: doc.textBlocks.map(block => ({ ...block, html: fillHtml(block.html, values) })),
+  composer: Object.fromEntries(Object.entries(doc.composer).map(([key, value]) =>
+    [key, typeof value === 'string' ? fillText(value, values) : value])) as unknown as LetterDocument['composer'],
+});
+
+// ================= FILE NAMES =================
+
+export const DEFAULT_FILE_NAME_PATTERN = 'letter-{{#}}';
+
+/**
+ * Builds a PDF file name from a pattern such as `{{Company}} - {{Date}}`.
+ * `{{#}}` is the 1-based row number. Characters not allowed in file names are dropped.
+ */
+export const formatFileName = (pattern: string, values: Record<string, string>, rowIndex: number) => {
+  const name = pattern
+    .replace(PLACEHOLDER_PATTERN, (_, field: string) => field === '#' ? String(rowIndex + 1) : hasValue(values, field) ? values[field] : '')
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return `${name || `letter-${rowIndex + 1}`}.pdf`;
+};
+
+/** Makes file names unique within a ZIP by appending " (2)", " (3)", ... */
+export const uniqueFileNames = (names: string[]) => {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const key = name.toLowerCase();
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return count === 1 ? name : name.replace(/\.pdf$/, ` (${count}).pdf`);
+  });
+};
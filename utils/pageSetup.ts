@@ -0,0 +1,89 @@
+import { Margins, MeasureUnit, PageSetup, PageSizeId } from '../types';
+import { PX_PER_MM } from './assetLibrary';
+
+// Paper sizes, orientation and the units margins are entered in. Pages are laid
+// out in mm; margins stay in page px (96 per inch) like block positions.
+
+/** Portrait sizes in mm */
+export const PAGE_SIZES: { id: PageSizeId; label: string; width: number; height: number }[] = [
+  { id: 'a4', label: 'A4', width: 210, height: 297 },
+  { id: 'letter', label: 'Letter', width: 215.9, height: 279.4 },
+  { id: 'legal', label: 'Legal', width: 215.9, height: 355.6 },
+  { id: 'a5', label: 'A5', width: 148, height: 210 },
+];
+
+export const DEFAULT_PAGE: PageSetup = { size: 'a4', width: 210, height: 297, orientation: 'portrait' };
+
+// Custom sizes are kept between a business card and a poster
+export const MIN_PAGE_MM = 50;
+export const MAX_PAGE_MM = 600;
+
+/** Width and height of the page as laid out, in mm */
+export const pageDimensions = (setup: PageSetup) => {
+  const named = PAGE_SIZES.find(size => size.id === setup.size);
+  const width = named ? named.width : setup.width;
+  const height = named ? named.height : setup.height;
+  return setup.orientation === 'landscape'
+    ? { width: Math.max(width, height), height: Math.min(width, height) }
+    : { width: Math.min(width, height), height: Math.max(width, height) };
+};
+
+/** Saved page setup with anything missing or out of range replaced */
+export const normalizePageSetup = (value: Partial<PageSetup> | null | undefined): PageSetup => {
+  const clamp = (mm: unknown, fallback: number) =>
+    typeof mm === 'number' && isFinite(mm) ? Math.min(MAX_PAGE_MM, Math.max(MIN_PAGE_MM, mm)) : fallback;
+  return {
+    size: value?.size && (value.size === 'custom' || PAGE_SIZES.some(s => s.id === value.size)) ? value.size : DEFAULT_PAGE.size,
+    width: clamp(value?.width, DEFAULT_PAGE.width),
+    height: clamp(value?.height, DEFAULT_PAGE.height),
+    orientation: value?.orientation === 'landscape' ? 'landscape' : 'portrait',
+  };
+};
+
+// ================= UNITS =================
+
+/** `mm`: size of one unit; `step`: input step and rounding */
+export const UNITS: { id: MeasureUnit; label: string; mm: number; step: number }[] = [
+  { id: 'mm', label: 'mm', mm: 1, step: 1 },
+  { id: 'cm', label: 'cm', mm: 10, step: 0.1 },
+  { id: 'in', label: 'in', mm: 25.4, step: 0.05 },
+];
+
+const unitInfo = (unit: MeasureUnit) => UNITS.find(u => u.id === unit) || UNITS[0];
+
+/** mm shown in `unit`, rounded to two decimals */
+export const mmToUnit = (mm: number, unit: MeasureUnit) => Math.round(mm / unitInfo(unit).mm * 100) / 100;
+
+export const unitToMm = (value: number, unit: MeasureUnit) => value * unitInfo(unit).mm;
+
+export const pxToUnit = (px: number, unit: MeasureUnit) => mmToUnit(px / PX_PER_MM, unit);
+
+export const unitToPx = (value: number, unit: MeasureUnit) => unitToMm(value, unit) * PX_PER_MM;
+
+export const unitStep = (unit: MeasureUnit) => unitInfo(unit).step;
+
+// ================= MARGIN PRESETS =================
+
+/** Margins in mm */
+export const MARGIN_PRESETS: { id: string; label: string; mm: Margins }[] = [
+  { id: 'normal', label: 'Normal', mm: { top: 25.4, right: 25.4, bottom: 25.4, left: 25.4 } },
+  { id: 'narrow', label: 'Narrow', mm: { top: 12.7, right: 12.7, bottom: 12.7, left: 12.7 } },
+  { id: 'moderate', label: 'Moderate', mm: { top: 25.4, right: 19.05, bottom: 25.4, left: 19.05 } },
+  { id: 'wide', label: 'Wide', mm: { top: 25.4, right: 50.8, bottom: 25.4, left: 50.8 } },
+  // Wider left margin for binding and file punching
+  { id: 'government', label: 'Government format', mm: { top: 25.4, right: 25.4, bottom: 25.4, left: 38.1 } },
+];
+
+export const presetMargins = (mm: Margins): Margins => ({
+  top: Math.round(mm.top * PX_PER_MM),
+  right: Math.round(mm.right * PX_PER_MM),
+  bottom: Math.round(mm.bottom * PX_PER_MM),
+  left: Math.round(mm.left * PX_PER_MM),
+});
+
+/** The preset the margins match, if any */
+export const matchingPreset = (margins: Margins) =>
+  MARGIN_PRESETS.find(preset => {
+    const px = presetMargins(preset.mm);
+    return (Object.keys(px) as (keyof Margins)[]).every(side => Math.abs(px[side] - margins[side]) < 1);
+  }) || null;
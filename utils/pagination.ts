@@ -0,0 +1,384 @@
+// Pagination helpers for the letter body.
+//
+// Each page owns its own contentEditable body. The DOM inside those bodies is
+// never rendered by React, so we are free to move nodes between pages: content
+// that overflows a page is pushed to the start of the next one, and content that
+// fits again is pulled back. A block that straddles the bottom edge is split in
+// two; both halves share a `data-flow` id so they can be joined back together.
+// Tables are split between rows, and the continued part starts with a copy of the
+// header rows (`data-repeated-header`), which is dropped again when the parts join.
+
+export const PAGE_BREAK_ATTR = 'data-page-break';
+export const FLOW_ATTR = 'data-flow';
+export const REPEATED_HEADER_ATTR = 'data-repeated-header';
+
+export interface CaretPosition {
+  node: Node;
+  offset: number;
+}
+
+export const isPageBreak = (node: Node | null): node is HTMLElement =>
+  node instanceof HTMLElement && node.hasAttribute(PAGE_BREAK_ATTR);
+
+export const createPageBreak = (): HTMLElement => {
+  const el = document.createElement('div');
+  el.setAttribute(PAGE_BREAK_ATTR, 'true');
+  el.setAttribute('contenteditable', 'false');
+  el.setAttribute('data-html2canvas-ignore', 'true');
+  el.className = 'page-break no-print select-none h-0 border-t-2 border-dashed border-blue-300';
+  el.title = 'Page break';
+  return el;
+};
+
+const isOverflowing = (body: HTMLElement) => body.scrollHeight > body.clientHeight + 1;
+
+const endsWithBreak = (body: HTMLElement) => isPageBreak(body.lastChild);
+
+const isContinuation = (a: Node | null, b: Node | null): a is HTMLElement => {
+  if (!(a instanceof HTMLElement) || !(b instanceof HTMLElement)) return false;
+  const flow = a.getAttribute(FLOW_ATTR);
+  return !!flow && flow === b.getAttribute(FLOW_ATTR);
+};
+
+/** Appends the continued part of a split block to the part before it; `part` is left empty. */
+export const joinContinuation = (target: HTMLElement, part: HTMLElement) => {
+  if (target instanceof HTMLTableElement && part instanceof HTMLTableElement) {
+    const tbody = target.tBodies[target.tBodies.length - 1] || target.createTBody();
+    Array.from(part.tBodies).forEach(section => {
+      while (section.rows.length) tbody.appendChild(section.rows[0]);
+    });
+    part.replaceChildren();
+    return;
+  }
+  while (part.firstChild) target.appendChild(part.firstChild);
+};
+
+const isBlankBody = (body: HTMLElement) =>
+  (body.textContent || '') === '' && !body.querySelector(`img, table, [${PAGE_BREAK_ATTR}]`);
+
+// Finds the first position inside `node` whose line box ends below `limit`.
+// Positions are snapped back to the start of the word so words are never cut.
+const findBreakPoint = (node: Node, limit: number): CaretPosition | null => {
+  const range = document.createRange();
+  const leaves: Node[] = [];
+
+  if (node.nodeType === Node.TEXT_NODE) {
+    leaves.push(node);
+  } else {
+    const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+    let current = walker.nextNode();
+    while (current) {
+      if (current.nodeType === Node.TEXT_NODE || (current as Element).matches('br, img')) {
+        leaves.push(current);
+      }
+      current = walker.nextNode();
+    }
+  }
+
+  for (const leaf of leaves) {
+    if (leaf.nodeType !== Node.TEXT_NODE) {
+      if ((leaf as Element).getBoundingClientRect().bottom > limit) return { node: leaf, offset: 0 };
+      continue;
+    }
+
+    const text = leaf.textContent || '';
+    if (!text.length) continue;
+
+    range.selectNodeContents(leaf);
+    const rects = range.getClientRects();
+    if (!rects.length || rects[rects.length - 1].bottom <= limit) continue;
+
+    // Binary search for the first character that sits below the limit
+    let lo = 0;
+    let hi = text.length - 1;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      range.setStart(leaf, mid);
+      range.setEnd(leaf, mid + 1);
+      if (range.getBoundingClientRect().bottom > limit) hi = mid;
+      else lo = mid + 1;
+    }
+
+    let offset = lo;
+    while (offset > 0 && !/\s/.test(text[offset - 1])) offset--;
+    return { node: leaf, offset };
+  }
+
+  return null;
+};
+
+const hasContentBefore = (container: Node, boundary: Node) => {
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEndBefore(boundary);
+  const fragment = range.cloneContents();
+  return (fragment.textContent || '').trim() !== '' || !!fragment.querySelector('img, br');
+};
+
+const newFlowId = () => Math.random().toString(36).slice(2, 10);
+
+// Splits a table before the first body row that crosses `limit`. Rows held together
+// by a rowspan stay together. Returns null when not even one body row fits.
+const splitTable = (table: HTMLTableElement, limit: number): HTMLTableElement | null => {
+  const rows = Array.from(table.tBodies).flatMap(tbody => Array.from(tbody.rows));
+  let index = rows.findIndex(row => row.getBoundingClientRect().bottom > limit);
+  const spansInto = (i: number) => rows.slice(0, i).some((row, r) => Array.from(row.cells).some(cell => r + Math.max(1, cell.rowSpan) > i));
+  while (index > 0 && spansInto(index)) index--;
+  if (index <= 0) return null;
+
+  const rest = table.cloneNode(false) as HTMLTableElement;
+  table.querySelectorAll(':scope > colgroup').forEach(colgroup => rest.appendChild(colgroup.cloneNode(true)));
+  if (table.tHead) {
+    const header = table.tHead.cloneNode(true) as HTMLTableSectionElement;
+    header.setAttribute(REPEATED_HEADER_ATTR, 'true');
+    header.setAttribute('contenteditable', 'false');
+    rest.appendChild(header);
+  }
+  const tbody = rows[index].parentElement!.cloneNode(false);
+  rows.slice(index).forEach(row => tbody.appendChild(row));
+  rest.appendChild(tbody);
+  Array.from(table.tBodies).forEach(section => {
+    if (!section.rows.length) section.remove();
+  });
+
+  const flow = table.getAttribute(FLOW_ATTR) || newFlowId();
+  table.setAttribute(FLOW_ATTR, flow);
+  rest.setAttribute(FLOW_ATTR, flow);
+  return rest;
+};
+
+// Splits `node` at the bottom edge of `body`. Returns the detached remainder,
+// or null when nothing of `node` fits on the current page.
+const splitAtEdge = (node: ChildNode, body: HTMLElement, caret: CaretPosition | null): Node | null => {
+  if (node instanceof HTMLTableElement) return splitTable(node, body.getBoundingClientRect().bottom);
+
+  const point = findBreakPoint(node, body.getBoundingClientRect().bottom);
+  if (!point) return null;
+
+  let boundary = point.node;
+  if (point.node.nodeType === Node.TEXT_NODE && point.offset > 0) {
+    const second = (point.node as Text).splitText(point.offset);
+    if (caret && caret.node === point.node && caret.offset >= point.offset) {
+      caret.node = second;
+      caret.offset -= point.offset;
+    }
+    boundary = second;
+  }
+
+  if (boundary === node) return null;
+
+  if (node.nodeType === Node.TEXT_NODE) {
+    return boundary;
+  }
+
+  if (!hasContentBefore(node, boundary)) return null;
+
+  const range = document.createRange();
+  range.setStartBefore(boundary);
+  range.setEnd(node, node.childNodes.length);
+  const fragment = range.extractContents();
+
+  const element = node as HTMLElement;
+  const rest = element.cloneNode(false) as HTMLElement;
+  rest.appendChild(fragment);
+
+  const flow = element.getAttribute(FLOW_ATTR) || newFlowId();
+  element.setAttribute(FLOW_ATTR, flow);
+  rest.setAttribute(FLOW_ATTR, flow);
+
+  if (element instanceof HTMLOListElement) {
+    (rest as HTMLOListElement).start = (element.start || 1) + element.children.length;
+  }
+
+  return rest;
+};
+
+const pullBack = (body: HTMLElement, next: HTMLElement) => {
+  if (endsWithBreak(body)) return;
+
+  while (next.firstChild) {
+    const first = next.firstChild;
+    if (isPageBreak(first)) {
+      body.appendChild(first);
+      return;
+    }
+
+    const last = body.lastChild;
+    if (isContinuation(last, first)) {
+      joinContinuation(last, first as HTMLElement);
+      first.remove();
+    } else {
+      body.appendChild(first);
+    }
+
+    if (isOverflowing(body)) return;
+  }
+};
+
+const pushOverflow = (body: HTMLElement, next: HTMLElement, caret: CaretPosition | null) => {
+  // Anything after a manual page break always starts a new page
+  const pageBreak = Array.from(body.childNodes).find(isPageBreak);
+  if (pageBreak) {
+    while (body.lastChild && body.lastChild !== pageBreak) {
+      next.insertBefore(body.lastChild, next.firstChild);
+    }
+  }
+
+  while (isOverflowing(body) && body.lastChild) {
+    const last = body.lastChild;
+
+    if (isPageBreak(last)) {
+      next.insertBefore(last, next.firstChild);
+      continue;
+    }
+
+    const rest = splitAtEdge(last, body, caret);
+    if (rest) {
+      next.insertBefore(rest, next.firstChild);
+    } else if (body.childNodes.length > 1) {
+      next.insertBefore(last, next.firstChild);
+    } else {
+      // A single block taller than the page: leave it clipped rather than loop
+      break;
+    }
+  }
+};
+
+/**
+ * Redistributes body content across the given page bodies.
+ * Returns the number of pages the content needs, which may be more than
+ * `bodies.length` (the caller should render more pages and reflow again)
+ * or fewer (trailing pages are blank and can be dropped).
+ */
+export const reflowBodies = (bodies: HTMLElement[], caret: CaretPosition | null): number => {
+  for (let i = 0; i < bodies.length; i++) {
+    const body = bodies[i];
+    const next = bodies[i + 1];
+
+    if (!next) {
+      const hasTrailing = Array.from(body.childNodes).some((child, index, all) => isPageBreak(child) && index < all.length - 1);
+      if (isOverflowing(body) || hasTrailing || endsWithBreak(body)) return bodies.length + 1;
+      break;
+    }
+
+    pullBack(body, next);
+    pushOverflow(body, next, caret);
+  }
+
+  let needed = bodies.length;
+  while (needed > 1) {
+    const last = bodies[needed - 1];
+    const caretInside = !!caret && last.contains(caret.node);
+    if (caretInside || !isBlankBody(last) || endsWithBreak(bodies[needed - 2])) break;
+    needed--;
+  }
+  return needed;
+};
+
+/** Joins all page bodies back into one HTML string, re-merging split blocks. */
+export const serializeBodies = (bodies: HTMLElement[]): string => {
+  const container = document.createElement('div');
+  bodies.forEach(body => {
+    body.childNodes.forEach(child => {
+      const clone = child.cloneNode(true);
+      const prev = container.lastChild;
+      if (isContinuation(prev, clone)) {
+        joinContinuation(prev, clone as HTMLElement);
+      } else {
+        container.appendChild(clone);
+      }
+    });
+  });
+  container.querySelectorAll(`[${FLOW_ATTR}]`).forEach(el => el.removeAttribute(FLOW_ATTR));
+  // Zero-width caret marks (see richText.ts) are not part of the letter
+  return container.innerHTML.replace(/\u200B/g, '');
+};
+
+// ================= CARET HELPERS =================
+
+export const saveCaret = (bodies: HTMLElement[]): CaretPosition | null => {
+  const sel = window.getSelection();
+  if (!sel || !sel.rangeCount || !sel.isCollapsed || !sel.focusNode) return null;
+  if (!bodies.some(body => body.contains(sel.focusNode))) return null;
+  return { node: sel.focusNode, offset: sel.focusOffset };
+};
+
+export const restoreCaret = (caret: CaretPosition | null) => {
+  if (!caret || !caret.node.isConnected) return;
+  const sel = window.getSelection();
+  if (!sel) return;
+  if (sel.focusNode === caret.node && sel.focusOffset === caret.offset) return;
+
+  const host = (caret.node instanceof Element ? caret.node : caret.node.parentElement)?.closest<HTMLElement>('[contenteditable="true"]');
+  if (host && document.activeElement !== host) host.focus({ preventScroll: true });
+
+  const max = caret.node.nodeType === Node.TEXT_NODE ? (caret.node.textContent || '').length : caret.node.childNodes.length;
+  sel.collapse(caret.node, Math.min(caret.offset, max));
+};
+
+export const placeCaret = (body: HTMLElement, atStart: boolean) => {
+  const range = document.createRange();
+  range.selectNodeContents(body);
+  range.collapse(atStart);
+  body.focus({ preventScroll: true });
+  const sel = window.getSelection();
+  sel?.removeAllRanges();
+  sel?.addRange(range);
+};
+
+/** True when nothing but whitespace-free markup separates the caret from the edge of `body`. */
+export const isCaretAtEdge = (body: HTMLElement, edge: 'start' | 'end') => {
+  const sel = window.getSelection();
+  if (!sel || !sel.rangeCount || !sel.isCollapsed || !sel.focusNode || !body.contains(sel.focusNode)) return false;
+  const range = document.createRange();
+  range.selectNodeContents(body);
+  if (edge === 'start') range.setEnd(sel.focusNode, sel.focusOffset);
+  else range.setStart(sel.focusNode, sel.focusOffset);
+  return range.toString() === '';
+};
+
+/**
+ * Inserts a manual page break at the caret. The top-level block holding the
+ * caret is split so the break always sits directly inside the body.
+ * Returns the caret position after the break, or null if the caret is not in `body`.
+ */
+export const insertPageBreak = (body: HTMLElement): CaretPosition | null => {
+  const sel = window.getSelection();
+  if (!sel || !sel.rangeCount) return null;
+  const range = sel.getRangeAt(0);
+  if (!body.contains(range.startContainer)) return null;
+  range.deleteContents();
+
+  const pageBreak = createPageBreak();
+
+  if (range.startContainer === body) {
+    body.insertBefore(pageBreak, body.childNodes[range.startOffset] || null);
+  } else {
+    let top: Node = range.startContainer;
+    while (top.parentNode !== body) top = top.parentNode!;
+
+    const after = document.createRange();
+    after.setStart(range.startContainer, range.startOffset);
+    after.setEndAfter(top);
+    const fragment = after.extractContents();
+
+    body.insertBefore(pageBreak, top.nextSibling);
+    body.insertBefore(fragment, pageBreak.nextSibling);
+
+    if ((top.textContent || '') === '' && !(top instanceof Element && top.querySelector('img'))) {
+      body.removeChild(top);
+    }
+  }
+
+  let target = pageBreak.nextSibling;
+  if (!target || (target.nodeType === Node.TEXT_NODE && !target.textContent)) {
+    target?.parentNode?.removeChild(target);
+    target = document.createElement('div');
+    (target as HTMLElement).innerHTML = '<br>';
+    body.insertBefore(target, pageBreak.nextSibling);
+  } else if (target instanceof HTMLElement && !target.textContent && !target.querySelector('img, br')) {
+    target.innerHTML = '<br>';
+  }
+
+  return { node: target, offset: 0 };
+};
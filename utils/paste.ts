@@ -0,0 +1,452 @@
+import { applyBorders, newCell, setColumnWidths } from './tables';
+
+// Pasting into the letter. HTML from Word, Google Docs and web pages is rebuilt with
+// only the formatting the toolbar has tools for: bold, italic, underline, headings,
+// alignment, lists and tables. Fonts, colours, classes and mso- styles are left behind,
+// so pasted text takes the house style and exports like typed text. Images on the
+// clipboard don't go inline: the template places them as image blocks.
+
+interface InlineState {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+const PLAIN: InlineState = { bold: false, italic: false, underline: false };
+
+// Never pasted, contents included. Images are dropped too: inline data URLs would bloat
+// the letter and break pagination, and remote ones taint the export canvas.
+const DROP_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'META', 'LINK', 'TITLE', 'HEAD', 'NOSCRIPT', 'TEMPLATE', 'IFRAME', 'OBJECT', 'EMBED',
+  'SVG', 'CANVAS', 'VIDEO', 'AUDIO', 'IMG', 'PICTURE', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'XML',
+]);
+
+// Become paragraphs (or headings)
+const PARAGRAPH_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'ADDRESS', 'CENTER', 'SECTION',
+  'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'NAV', 'ASIDE', 'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD', 'LI',
+]);
+
+// Blocks in the rebuilt markup
+const OUT_BLOCKS = new Set(['DIV', 'H1', 'H2', 'H3', 'UL', 'OL', 'TABLE']);
+
+const isOutBlock = (node: Node | null): node is HTMLElement => node instanceof HTMLElement && OUT_BLOCKS.has(node.tagName);
+
+const isParagraph = (node: Node | null): node is HTMLElement => node instanceof HTMLElement && /^(DIV|H[1-3])$/.test(node.tagName);
+
+const isBlank = (node: Node) =>
+  node.nodeType === Node.COMMENT_NODE || (node.nodeType === Node.TEXT_NODE && !(node.textContent || '').trim());
+
+const hasContent = (node: Node) =>
+  !!(node.textContent || '').trim() || (node instanceof Element && !!node.querySelector('br, table, [data-field]'));
+
+// ================= READING THE SOURCE =================
+
+// Raw style attribute, which still has the mso- properties the CSSOM drops
+const rawStyle = (el: Element) => (el.getAttribute('style') || '').toLowerCase().replace(/\s+/g, '');
+
+const isHidden = (el: HTMLElement) => {
+  const style = rawStyle(el);
+  return el.hidden || style.includes('display:none') || style.includes('mso-hide:all') || style.includes('mso-list:ignore');
+};
+
+const inlineStateOf = (el: HTMLElement, state: InlineState): InlineState => {
+  let { bold, italic, underline } = state;
+  const tag = el.tagName;
+  if (tag === 'B' || tag === 'STRONG' || tag === 'TH') bold = true;
+  if (tag === 'I' || tag === 'EM' || tag === 'CITE') italic = true;
+  if (tag === 'U' || tag === 'INS') underline = true;
+
+  // Google Docs wraps everything in <b style="font-weight:normal">
+  const { fontWeight, fontStyle, textDecoration, textDecorationLine } = el.style;
+  if (fontWeight) bold = fontWeight === 'bold' || fontWeight === 'bolder' || parseInt(fontWeight, 10) >= 600;
+  if (fontStyle) italic = fontStyle === 'italic' || fontStyle.startsWith('oblique');
+  if ((textDecorationLine || textDecoration).includes('underline')) underline = true;
+  return { bold, italic, underline };
+};
+
+const alignOf = (el: HTMLElement) => {
+  const value = (el.style.textAlign || el.getAttribute('align') || (el.tagName === 'CENTER' ? 'center' : '')).toLowerCase();
+  return ['center', 'right', 'justify'].includes(value) ? value : '';
+};
+
+// Word writes list paragraphs as <p style="mso-list:l0 level2 lfo1"> with the marker in a hidden span
+const wordListLevel = (el: HTMLElement) => {
+  const match = rawStyle(el).match(/mso-list:l\d+level(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+const wordListType = (el: HTMLElement) => {
+  const marker = Array.from(el.querySelectorAll('span'))
+    .find(span => rawStyle(span).includes('mso-list:ignore'))?.textContent?.trim() || '';
+  return /^\(?[0-9a-z]{1,4}[.)]/i.test(marker) ? 'ol' : 'ul';
+};
+
+// ================= REBUILDING =================
+
+// Text with whitespace collapsed the way it was rendered, in a span for its formatting
+const appendText = (out: Node, text: string, state: InlineState) => {
+  const value = text.replace(/[ \t\r\n\f]+/g, ' ');
+  if (!value) return;
+  const style = [
+    state.bold ? 'font-weight: bold;' : '',
+    state.italic ? 'font-style: italic;' : '',
+    state.underline ? 'text-decoration-line: underline;' : '',
+  ].join(' ').trim();
+
+  const last = out.lastChild;
+  if (!style) {
+    if (last instanceof Text) last.appendData(value);
+    else out.appendChild(document.createTextNode(value));
+    return;
+  }
+  if (last instanceof HTMLSpanElement && last.getAttribute('style') === style) {
+    last.appendChild(document.createTextNode(value));
+    return;
+  }
+  const span = document.createElement('span');
+  span.setAttribute('style', style);
+  span.textContent = value;
+  out.appendChild(span);
+};
+
+const convertTable = (source: HTMLTableElement, state: InlineState, tableWidth: string) => {
+  const table = document.createElement('table');
+  table.style.cssText = `width:${tableWidth};table-layout:fixed;border-collapse:collapse`;
+  table.dataset.borders = 'all';
+
+  let columns = 1;
+  Array.from(source.rows).forEach(sourceRow => {
+    // Rows of nested tables belong to those
+    if (sourceRow.closest('table') !== source) return;
+    const inHead = sourceRow.parentElement?.tagName === 'THEAD';
+    const section = inHead ? table.tHead || table.createTHead() : table.tBodies[0] || table.createTBody();
+    const row = section.insertRow();
+    let width = 0;
+    Array.from(sourceRow.cells).forEach(sourceCell => {
+      const cell = newCell();
+      cell.innerHTML = '';
+      if (sourceCell.colSpan > 1) cell.setAttribute('colspan', String(sourceCell.colSpan));
+      if (sourceCell.rowSpan > 1) cell.setAttribute('rowspan', String(sourceCell.rowSpan));
+      const align = alignOf(sourceCell);
+      if (align) cell.style.textAlign = align;
+      convertChildren(sourceCell, cell, inlineStateOf(sourceCell, state), tableWidth);
+      tidyBlocks(cell);
+      unwrapSingle(cell);
+      if (!hasContent(cell)) cell.innerHTML = '<br>';
+      row.appendChild(cell);
+      width += sourceCell.colSpan;
+    });
+    columns = Math.max(columns, width);
+  });
+  if (!table.rows.length) return null;
+
+  // Word and web tables often have row spans running past their last row
+  [table.tHead, ...Array.from(table.tBodies)].forEach(section => {
+    Array.from(section?.rows || []).forEach((row, r, rows) => {
+      Array.from(row.cells).forEach(cell => {
+        const span = rows.length - r;
+        if (cell.rowSpan <= span) return;
+        if (span > 1) cell.setAttribute('rowspan', String(span));
+        else cell.removeAttribute('rowspan');
+      });
+    });
+  });
+
+  setColumnWidths(table, Array.from({ length: columns }, () => 100 / columns));
+  applyBorders(table);
+  return table;
+};
+
+const convert = (node: Node, out: Node, state: InlineState, tableWidth: string) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    appendText(out, node.textContent || '', state);
+    return;
+  }
+  if (!(node instanceof HTMLElement) || DROP_TAGS.has(node.tagName) || isHidden(node)) return;
+
+  const tag = node.tagName;
+  const inner = inlineStateOf(node, state);
+
+  if (tag === 'BR') {
+    out.appendChild(document.createElement('br'));
+  } else if (tag === 'TABLE') {
+    const table = convertTable(node as HTMLTableElement, state, tableWidth);
+    if (table) out.appendChild(table);
+  } else if (tag === 'UL' || tag === 'OL') {
+    const list = document.createElement(tag.toLowerCase());
+    Array.from(node.childNodes).forEach(child => {
+      if (isBlank(child)) return;
+      // Stray content between the items gets an item of its own
+      const item = child instanceof HTMLElement && child.tagName === 'LI' ? child : null;
+      const li = document.createElement('li');
+      const align = item ? alignOf(item) : '';
+      if (align) li.style.textAlign = align;
+      if (item) convertChildren(item, li, inlineStateOf(item, inner), tableWidth);
+      else convert(child, li, inner, tableWidth);
+      tidyBlocks(li, false);
+      unwrapSingle(li);
+      if (li.firstChild) list.appendChild(li);
+    });
+    if (list.firstChild) out.appendChild(list);
+  } else if (PARAGRAPH_TAGS.has(tag)) {
+    const heading = tag.match(/^H([1-6])$/);
+    const block = document.createElement(heading ? `h${Math.min(3, parseInt(heading[1], 10))}` : 'div');
+    const align = alignOf(node);
+    if (align) block.style.textAlign = align;
+    convertChildren(node, block, inner, tableWidth);
+    out.appendChild(block);
+  } else {
+    // Spans, links, fonts and unknown tags only pass on their formatting
+    convertChildren(node, out, inner, tableWidth);
+  }
+};
+
+const convertChildren = (source: Node, out: Node, state: InlineState, tableWidth: string) => {
+  // Word list paragraphs, by level, while a run of them lasts
+  let open: HTMLElement[] = [];
+  Array.from(source.childNodes).forEach(child => {
+    const level = child instanceof HTMLElement ? wordListLevel(child) : 0;
+    if (!level) {
+      if (!isBlank(child)) open = [];
+      convert(child, out, state, tableWidth);
+      return;
+    }
+
+    const item = child as HTMLElement;
+    const type = wordListType(item);
+    open = open.slice(0, level);
+    let list = open[level - 1];
+    if (!list || list.tagName !== type.toUpperCase()) {
+      list = document.createElement(type);
+      (open[level - 2]?.lastElementChild || out).appendChild(list);
+      open[level - 1] = list;
+    }
+    const li = document.createElement('li');
+    const align = alignOf(item);
+    if (align) li.style.textAlign = align;
+    convertChildren(item, li, inlineStateOf(item, state), tableWidth);
+    tidyBlocks(li, false);
+    list.appendChild(li);
+  });
+};
+
+// A paragraph holding other blocks becomes a run of blocks, its own text in paragraphs between them
+const liftBlocks = (block: HTMLElement): Node[] => {
+  if (!isParagraph(block) || !Array.from(block.childNodes).some(isOutBlock)) return [block];
+  const result: Node[] = [];
+  let run: HTMLElement | null = null;
+  Array.from(block.childNodes).forEach(child => {
+    if (isOutBlock(child)) {
+      run = null;
+      if (block.style.textAlign && isParagraph(child) && !child.style.textAlign) child.style.textAlign = block.style.textAlign;
+      result.push(...liftBlocks(child));
+      return;
+    }
+    if (!run) {
+      run = block.cloneNode(false) as HTMLElement;
+      result.push(run);
+    }
+    run.appendChild(child);
+  });
+  return result;
+};
+
+// Trims the whitespace at the ends of a line, which shows in the pre-wrap editors
+const trimEdges = (block: Node) => {
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  const texts: Text[] = [];
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) texts.push(node);
+  const first = texts.findIndex(t => t.data.trim());
+  const last = texts.length - 1 - [...texts].reverse().findIndex(t => t.data.trim());
+  texts.forEach((t, i) => {
+    if (first < 0 || i < first || i > last) t.data = '';
+  });
+  if (first < 0) return;
+  texts[first].data = texts[first].data.replace(/^ +/, '');
+  texts[last].data = texts[last].data.replace(/ +$/, '');
+};
+
+// A list item or table cell holding one plain paragraph takes its content directly
+const unwrapSingle = (container: Node) => {
+  const only = container.firstChild;
+  if (only && only === container.lastChild && only instanceof HTMLElement && only.tagName === 'DIV' && !only.attributes.length) {
+    only.replaceWith(...Array.from(only.childNodes));
+  }
+};
+
+/**
+ * Flattens the blocks in a container into a run of paragraphs, lists and tables.
+ * With `wrapRuns`, text between blocks goes into paragraphs of its own; list items
+ * keep it inline in front of their sub-lists.
+ */
+const tidyBlocks = (container: Node, wrapRuns = true) => {
+  const nodes = Array.from(container.childNodes).flatMap(node => node instanceof HTMLElement ? liftBlocks(node) : [node]);
+  if (!nodes.some(isOutBlock)) {
+    trimEdges(container);
+    return;
+  }
+
+  while (container.firstChild) container.removeChild(container.firstChild);
+  let run: Node | null = null;
+  nodes.forEach(node => {
+    if (isOutBlock(node)) {
+      run = null;
+      container.appendChild(node);
+    } else if (isBlank(node) && !run) {
+      // Whitespace between blocks
+    } else if (!wrapRuns) {
+      container.appendChild(node);
+    } else {
+      if (!run) run = container.appendChild(document.createElement('div'));
+      run.appendChild(node);
+    }
+  });
+
+  Array.from(container.childNodes).forEach(node => {
+    if (!isParagraph(node)) return;
+    trimEdges(node);
+    // Empty paragraphs, like Word's &nbsp; ones, are blank lines
+    if (!hasContent(node)) node.replaceChildren(document.createElement('br'));
+  });
+};
+
+/** Clipboard HTML rebuilt with the supported formatting; new tables are `tableWidth` wide */
+export const sanitizePastedHtml = (html: string, tableWidth: string) => {
+  const source = new DOMParser().parseFromString(html, 'text/html');
+  const fragment = document.createDocumentFragment();
+  convertChildren(source.body, fragment, PLAIN, tableWidth);
+  tidyBlocks(fragment);
+  return fragment;
+};
+
+/** Clipboard text as paragraphs, one per line */
+export const plainTextFragment = (text: string) => {
+  const fragment = document.createDocumentFragment();
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+  if (lines.length === 1) {
+    fragment.appendChild(document.createTextNode(lines[0]));
+    return fragment;
+  }
+  lines.forEach(line => {
+    const div = document.createElement('div');
+    if (line) div.textContent = line;
+    else div.appendChild(document.createElement('br'));
+    fragment.appendChild(div);
+  });
+  return fragment;
+};
+
+/** Pasted content for the header/footer fields, which take no blocks: one line break per paragraph */
+export const inlineOnly = (fragment: DocumentFragment) => {
+  const out = document.createDocumentFragment();
+  const add = (node: Node) => {
+    if (node instanceof HTMLElement && node.tagName !== 'SPAN' && node.tagName !== 'BR') {
+      if (out.lastChild && out.lastChild.nodeName !== 'BR') out.appendChild(document.createElement('br'));
+      Array.from(node.childNodes).forEach(add);
+    } else {
+      out.appendChild(node);
+    }
+  };
+  Array.from(fragment.childNodes).forEach(add);
+  while (out.lastChild?.nodeName === 'BR') out.removeChild(out.lastChild);
+  return out;
+};
+
+// ================= INSERTING =================
+
+/**
+ * Puts pasted content at the selection in `host` and the caret after it. A single
+ * plain paragraph goes into the line at the caret; more paragraphs split that line,
+ * the first and last joining the text before and after the caret.
+ */
+export const insertPasted = (range: Range, host: HTMLElement, fragment: DocumentFragment) => {
+  range.deleteContents();
+  let nodes = Array.from(fragment.childNodes);
+  const single = nodes.length === 1 && nodes[0].nodeName === 'DIV' && !(nodes[0] as HTMLElement).attributes.length;
+  if (single) nodes = Array.from(nodes[0].childNodes);
+  if (!nodes.length) return;
+
+  const caretAfter = (node: Node) => {
+    const caret = document.createRange();
+    if (node instanceof Text) caret.setStart(node, node.length);
+    else caret.setStartAfter(node);
+    caret.collapse(true);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(caret);
+  };
+
+  // Inline content, or the caret inside a list item or table cell: paste right there
+  const start = range.startContainer;
+  const inItem = (start instanceof Element ? start : start.parentElement)?.closest('li, td, th');
+  if (!nodes.some(isOutBlock) || (inItem && host.contains(inItem)) || start === host) {
+    const last = nodes[nodes.length - 1];
+    const holder = document.createDocumentFragment();
+    nodes.forEach(node => holder.appendChild(node));
+    range.insertNode(holder);
+    caretAfter(last);
+    return;
+  }
+
+  // The host's top-level line at the caret, split in two
+  let top: Node = start;
+  while (top.parentNode !== host) top = top.parentNode!;
+  const split = document.createRange();
+  split.setStart(range.startContainer, range.startOffset);
+  split.setEndAfter(top);
+  const tail = split.extractContents();
+  const tailLine = tail.firstChild;
+
+  if (isParagraph(top) && isParagraph(nodes[0])) {
+    const first = nodes.shift() as HTMLElement;
+    while (first.firstChild) top.appendChild(first.firstChild);
+  }
+  let caret: Node = top;
+  const lastPasted = nodes[nodes.length - 1];
+  if (nodes.length && isParagraph(lastPasted) && isParagraph(tailLine)) {
+    nodes.pop();
+    caret = lastPasted.lastChild || caret;
+    tailLine.prepend(...Array.from(lastPasted.childNodes));
+  } else if (nodes.length) {
+    caret = lastPasted;
+  } else {
+    caret = top.lastChild || top;
+  }
+
+  let anchor: Node = top;
+  nodes.forEach(node => {
+    host.insertBefore(node, anchor.nextSibling);
+    anchor = node;
+  });
+  host.insertBefore(tail, anchor.nextSibling);
+
+  // Lines left empty by the split
+  if (top instanceof HTMLElement && !hasContent(top)) {
+    if (caret === top) caret = top.previousSibling || host;
+    top.remove();
+  }
+  if (tailLine instanceof HTMLElement && tailLine.isConnected && !hasContent(tailLine)) {
+    if (isParagraph(tailLine)) tailLine.innerHTML = '<br>';
+  }
+  if (caret.isConnected && caret !== host) caretAfter(caret);
+};
+
+// ================= IMAGES =================
+
+/** Image files on the clipboard or in a drop */
+export const transferImages = (data: DataTransfer) =>
+  Array.from(data.files).filter(file => file.type.startsWith('image/'));
+
+export const readDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+/** Size of an image at its natural size, shrunk to fit `max` */
+export const fitImage = (width: number, height: number, max: { width: number; height: number }) => {
+  const scale = Math.min(1, max.width / width, max.height / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
@@ -0,0 +1,463 @@
+import html2canvas from 'html2canvas';
+import { jsPDF, GState } from 'jspdf';
+import { registerPdfFonts, PdfFontSet } from './pdfFonts';
+import { WATERMARK_ATTR, WATERMARK_TEXT_ATTR } from './watermark';
+
+export type PdfExportMode = 'vector' | 'raster';
+
+/** Paper size in mm, as from pageDimensions */
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+export interface PdfOptions {
+  size: PdfPageSize;
+  /** Whether the letter's watermark goes into this export */
+  watermark: boolean;
+}
+
+// Later pages added with addPage() keep this format
+const newDocument = (size: PdfPageSize) => new jsPDF({
+  orientation: size.width > size.height ? 'l' : 'p',
+  unit: 'mm',
+  format: [size.width, size.height]
+});
+
+// ================= RASTER (html2canvas screenshot per page) =================
+
+const addRasterPages = async (pdf: jsPDF, pages: HTMLElement[], first: boolean, watermark: boolean) => {
+  const pdfWidth = pdf.internal.pageSize.getWidth();
+  const pdfHeight = pdf.internal.pageSize.getHeight();
+
+  for (const [index, page] of pages.entries()) {
+    const canvas = await html2canvas(page, {
+      scale: 4, // Higher scale for better text quality
+      useCORS: true,
+      backgroundColor: '#fbfbfb',
+      logging: false,
+      ignoreElements: (el) => !watermark && el.hasAttribute(WATERMARK_ATTR),
+      onclone: (clonedDoc) => {
+         // Ensure the cloned element is visible and clean
+         const element = clonedDoc.querySelector('[data-html2canvas-ignore]');
+         if (element) element.remove();
+      }
+    });
+
+    const imgData = canvas.toDataURL('image/jpeg', 0.90);
+
+    if (index > 0 || !first) pdf.addPage();
+    pdf.addImage(imgData, 'JPEG', 0, 0, pdfWidth, pdfHeight);
+  }
+};
+
+export const buildRasterPDF = async (pages: HTMLElement[], options: PdfOptions): Promise<jsPDF> => {
+  const pdf = newDocument(options.size);
+  await addRasterPages(pdf, pages, true, options.watermark);
+  return pdf;
+};
+
+// ================= VECTOR (real text, shapes and images) =================
+//
+// Walks the rendered page DOM and re-draws it with jsPDF primitives, using the
+// browser's own layout for positions. Text stays selectable and searchable.
+
+interface PageContext {
+  pdf: jsPDF;
+  fonts: PdfFontSet;
+  origin: DOMRect;
+  /** mm per screen pixel */
+  unit: number;
+  /** screen pixels per CSS pixel (the workspace zoom) */
+  zoom: number;
+  opacity: number;
+  watermark: boolean;
+}
+
+// Share of a line box below the alphabetic baseline for common serif/sans faces
+const DESCENT_RATIO = 0.19;
+// Images are resampled to at most this resolution
+const MAX_IMAGE_DPI = 300;
+
+const parseColor = (value: string): { r: number; g: number; b: number; a: number } | null => {
+  const match = value.match(/rgba?\(([^)]+)\)/);
+  if (!match) return null;
+  const [r, g, b, a = 1] = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+  return { r, g, b, a };
+};
+
+const setOpacity = (ctx: PageContext, opacity: number) => {
+  if (opacity === ctx.opacity) return;
+  ctx.pdf.setGState(new GState({ opacity, 'stroke-opacity': opacity }));
+  ctx.opacity = opacity;
+};
+
+const toBox = (ctx: PageContext, rect: DOMRect | { left: number; top: number; width: number; height: number }) => ({
+  x: (rect.left - ctx.origin.left) * ctx.unit,
+  y: (rect.top - ctx.origin.top) * ctx.unit,
+  w: rect.width * ctx.unit,
+  h: rect.height * ctx.unit,
+});
+
+const applyTextTransform = (text: string, transform: string) => {
+  if (transform === 'uppercase') return text.toUpperCase();
+  if (transform === 'lowercase') return text.toLowerCase();
+  if (transform === 'capitalize') return text.replace(/\b\p{L}/gu, c => c.toUpperCase());
+  return text;
+};
+
+const hasDecoration = (el: Element | null, line: string) => {
+  for (let node = el; node && !node.hasAttribute('data-page'); node = node.parentElement) {
+    if (getComputedStyle(node).textDecorationLine.includes(line)) return true;
+  }
+  return false;
+};
+
+const drawBox = (ctx: PageContext, el: HTMLElement, style: CSSStyleDeclaration, opacity: number) => {
+  const rect = el.getBoundingClientRect();
+  if (!rect.width || !rect.height) return;
+  const box = toBox(ctx, rect);
+
+  const bg = parseColor(style.backgroundColor);
+  if (bg && bg.a > 0) {
+    setOpacity(ctx, opacity * bg.a);
+    ctx.pdf.setFillColor(bg.r, bg.g, bg.b);
+    ctx.pdf.rect(box.x, box.y, box.w, box.h, 'F');
+  }
+
+  const sides = [
+    { width: style.borderTopWidth, color: style.borderTopColor, line: style.borderTopStyle, from: [box.x, box.y], to: [box.x + box.w, box.y] },
+    { width: style.borderRightWidth, color: style.borderRightColor, line: style.borderRightStyle, from: [box.x + box.w, box.y], to: [box.x + box.w, box.y + box.h] },
+    { width: style.borderBottomWidth, color: style.borderBottomColor, line: style.borderBottomStyle, from: [box.x, box.y + box.h], to: [box.x + box.w, box.y + box.h] },
+    { width: style.borderLeftWidth, color: style.borderLeftColor, line: style.borderLeftStyle, from: [box.x, box.y], to: [box.x, box.y + box.h] },
+  ];
+
+  sides.forEach(side => {
+    const width = parseFloat(side.width);
+    const color = parseColor(side.color);
+    if (!width || !color || color.a === 0 || side.line === 'none' || side.line === 'hidden') return;
+    setOpacity(ctx, opacity * color.a);
+    ctx.pdf.setDrawColor(color.r, color.g, color.b);
+    ctx.pdf.setLineWidth(width * ctx.zoom * ctx.unit);
+    ctx.pdf.setLineDashPattern(side.line === 'dashed' ? [1.5, 1] : side.line === 'dotted' ? [0.3, 0.6] : [], 0);
+    ctx.pdf.line(side.from[0], side.from[1], side.to[0], side.to[1]);
+  });
+  ctx.pdf.setLineDashPattern([], 0);
+};
+
+const setTextStyle = (ctx: PageContext, style: CSSStyleDeclaration) => {
+  const bold = parseInt(style.fontWeight, 10) >= 600;
+  const italic = style.fontStyle === 'italic' || style.fontStyle.startsWith('oblique');
+  const { font, style: fontStyle } = ctx.fonts.resolve(style.fontFamily, bold, italic);
+  ctx.pdf.setFont(font, fontStyle);
+
+  // Computed font-size is in unscaled CSS px; convert via the on-screen zoom to pt
+  const sizeMm = parseFloat(style.fontSize) * ctx.zoom * ctx.unit;
+  ctx.pdf.setFontSize(sizeMm * 72 / 25.4);
+
+  const color = parseColor(style.color) || { r: 0, g: 0, b: 0, a: 1 };
+  ctx.pdf.setTextColor(color.r, color.g, color.b);
+  return { sizeMm, color };
+};
+
+const drawTextNode = (ctx: PageContext, node: Text, opacity: number) => {
+  const raw = node.textContent || '';
+  const parent = node.parentElement;
+  if (!parent || !raw.trim()) return;
+
+  const style = getComputedStyle(parent);
+  const text = applyTextTransform(raw, style.textTransform);
+  const { sizeMm, color } = setTextStyle(ctx, style);
+  setOpacity(ctx, opacity * color.a);
+
+  const underline = hasDecoration(parent, 'underline');
+  const strike = hasDecoration(parent, 'line-through');
+
+  // Group words into the visual lines the browser laid them out on. Zero-width caret
+  // marks left by the editor are not words.
+  const range = document.createRange();
+  const lines: Array<{ start: number; end: number; left: number; right: number; top: number; bottom: number }> = [];
+  for (const match of raw.matchAll(/[^\s\u200B]+/g)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    range.setStart(node, start);
+    range.setEnd(node, end);
+    const rects = range.getClientRects();
+    if (!rects.length) continue;
+    const rect = rects[0];
+
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(rect.top - line.top) < rect.height / 2) {
+      line.end = end;
+      line.right = rect.right;
+    } else {
+      lines.push({ start, end, left: rect.left, right: rect.right, top: rect.top, bottom: rect.bottom });
+    }
+  }
+
+  lines.forEach(line => {
+    if (line.bottom < ctx.origin.top || line.top > ctx.origin.bottom) return;
+
+    const str = text.slice(line.start, line.end);
+    const x = (line.left - ctx.origin.left) * ctx.unit;
+    const width = (line.right - line.left) * ctx.unit;
+    const baseline = (line.bottom - ctx.origin.top) * ctx.unit - (line.bottom - line.top) * ctx.unit * DESCENT_RATIO;
+
+    // Stretch or squeeze spacing so the PDF line matches the on-screen width
+    const natural = ctx.pdf.getTextWidth(str);
+    const charSpace = str.length > 1 ? (width - natural) / (str.length - 1) : 0;
+    ctx.pdf.text(str, x, baseline, { charSpace: Math.abs(charSpace) < sizeMm ? charSpace : 0 });
+
+    if (underline || strike) {
+      ctx.pdf.setDrawColor(color.r, color.g, color.b);
+      ctx.pdf.setLineWidth(sizeMm * 0.06);
+      if (underline) ctx.pdf.line(x, baseline + sizeMm * 0.12, x + width, baseline + sizeMm * 0.12);
+      if (strike) ctx.pdf.line(x, baseline - sizeMm * 0.28, x + width, baseline - sizeMm * 0.28);
+    }
+  });
+};
+
+// Bullets and numbers are ::marker pseudo elements, which are not in the DOM
+const drawListMarker = (ctx: PageContext, li: HTMLElement, opacity: number) => {
+  const list = li.parentElement;
+  const style = getComputedStyle(li);
+  if (!list || style.listStyleType === 'none') return;
+
+  let marker = '•';
+  if (list instanceof HTMLOListElement) {
+    const index = Array.from(list.children).filter(c => c.tagName === 'LI').indexOf(li);
+    marker = `${(list.start || 1) + index}.`;
+  }
+
+  const range = document.createRange();
+  range.selectNodeContents(li);
+  const first = range.getClientRects()[0] || li.getBoundingClientRect();
+  const { sizeMm, color } = setTextStyle(ctx, style);
+  setOpacity(ctx, opacity * color.a);
+
+  const right = (first.left - ctx.origin.left) * ctx.unit - sizeMm * 0.4;
+  const baseline = (first.bottom - ctx.origin.top) * ctx.unit - (first.bottom - first.top) * ctx.unit * DESCENT_RATIO;
+  ctx.pdf.text(marker, right, baseline, { align: 'right' });
+};
+
+// Finds an ancestor `clip-path: inset(...)` (the crop mask of older letters) and returns
+// the element and its insets as fractions
+const clipInsetsFor = (img: HTMLElement) => {
+  for (let node = img.parentElement; node && !node.hasAttribute('data-page'); node = node.parentElement) {
+    const clip = getComputedStyle(node).clipPath;
+    const match = clip && clip.match(/inset\(([^)]+)\)/);
+    if (!match) continue;
+    const [t, r = t, b = t, l = r] = match[1].split(/\s+/).map(v => v.endsWith('%') ? parseFloat(v) / 100 : NaN);
+    if ([t, r, b, l].some(isNaN)) continue;
+    return { node, t, r, b, l };
+  }
+  return null;
+};
+
+// Visible rect of an unrotated image under a crop mask
+const clipRectFor = (img: HTMLElement) => {
+  const clip = clipInsetsFor(img);
+  if (!clip) return null;
+  const rect = clip.node.getBoundingClientRect();
+  return new DOMRect(rect.left + rect.width * clip.l, rect.top + rect.height * clip.t, rect.width * (1 - clip.l - clip.r), rect.height * (1 - clip.t - clip.b));
+};
+
+// Rotation of an image on the page (see DraggableImage), in radians
+const rotationFor = (img: HTMLElement) => {
+  for (let node = img.parentElement; node && !node.hasAttribute('data-page'); node = node.parentElement) {
+    const transform = getComputedStyle(node).transform;
+    if (!transform || transform === 'none') continue;
+    const m = new DOMMatrix(transform);
+    const angle = Math.atan2(m.b, m.a);
+    if (Math.abs(angle) > 1e-4) return angle;
+  }
+  return 0;
+};
+
+// The rotated picture is drawn upright into a canvas covering its bounding box
+const drawRotatedImage = (ctx: PageContext, img: HTMLImageElement, angle: number) => {
+  const bounds = img.getBoundingClientRect();
+  const box = toBox(ctx, bounds);
+  // Unrotated size on screen
+  const w = img.offsetWidth * ctx.zoom;
+  const h = img.offsetHeight * ctx.zoom;
+  const scale = Math.min(img.naturalWidth / w, box.w / 25.4 * MAX_IMAGE_DPI / bounds.width);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bounds.width * scale));
+  canvas.height = Math.max(1, Math.round(bounds.height * scale));
+  const c2d = canvas.getContext('2d');
+  if (!c2d) return;
+  c2d.translate(canvas.width / 2, canvas.height / 2);
+  c2d.rotate(angle);
+
+  const clip = clipInsetsFor(img) || { t: 0, r: 0, b: 0, l: 0 };
+  const sx = img.naturalWidth * clip.l;
+  const sy = img.naturalHeight * clip.t;
+  const sw = img.naturalWidth * (1 - clip.l - clip.r);
+  const sh = img.naturalHeight * (1 - clip.t - clip.b);
+  if (sw <= 0 || sh <= 0) return;
+  c2d.drawImage(img, sx, sy, sw, sh, (-w / 2 + w * clip.l) * scale, (-h / 2 + h * clip.t) * scale, w * (1 - clip.l - clip.r) * scale, h * (1 - clip.t - clip.b) * scale);
+
+  ctx.pdf.addImage(canvas.toDataURL('image/png'), 'PNG', box.x, box.y, box.w, box.h, undefined, 'FAST');
+};
+
+const drawImage = (ctx: PageContext, img: HTMLImageElement, opacity: number) => {
+  if (!img.complete || !img.naturalWidth) return;
+
+  const angle = rotationFor(img);
+  if (angle) {
+    setOpacity(ctx, opacity);
+    drawRotatedImage(ctx, img, angle);
+    return;
+  }
+
+  let rect = img.getBoundingClientRect();
+  if (getComputedStyle(img).objectFit === 'contain') {
+    const scale = Math.min(rect.width / img.naturalWidth, rect.height / img.naturalHeight);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    rect = new DOMRect(rect.left + (rect.width - w) / 2, rect.top + (rect.height - h) / 2, w, h);
+  }
+
+  const clip = clipRectFor(img);
+  const left = Math.max(rect.left, clip?.left ?? rect.left);
+  const top = Math.max(rect.top, clip?.top ?? rect.top);
+  const right = Math.min(rect.right, clip?.right ?? rect.right);
+  const bottom = Math.min(rect.bottom, clip?.bottom ?? rect.bottom);
+  if (right <= left || bottom <= top) return;
+
+  const visible = new DOMRect(left, top, right - left, bottom - top);
+  const box = toBox(ctx, visible);
+
+  // Source pixels for the visible part, capped at MAX_IMAGE_DPI
+  const sx = (visible.left - rect.left) * img.naturalWidth / rect.width;
+  const sy = (visible.top - rect.top) * img.naturalHeight / rect.height;
+  const sw = visible.width * img.naturalWidth / rect.width;
+  const sh = visible.height * img.naturalHeight / rect.height;
+  const maxW = box.w / 25.4 * MAX_IMAGE_DPI;
+  const scale = Math.min(1, maxW / sw);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const c2d = canvas.getContext('2d');
+  if (!c2d) return;
+  c2d.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  setOpacity(ctx, opacity);
+  ctx.pdf.addImage(canvas.toDataURL('image/png'), 'PNG', box.x, box.y, box.w, box.h, undefined, 'FAST');
+};
+
+// Watermark text is rotated as a whole, which the word-by-word text layout can't follow
+const drawWatermarkText = (ctx: PageContext, el: HTMLElement, style: CSSStyleDeclaration, opacity: number) => {
+  const text = applyTextTransform(el.textContent || '', style.textTransform).trim();
+  if (!text) return;
+  const { sizeMm, color } = setTextStyle(ctx, style);
+  setOpacity(ctx, opacity * color.a);
+
+  const rect = el.getBoundingClientRect();
+  const cx = (rect.left + rect.width / 2 - ctx.origin.left) * ctx.unit;
+  const cy = (rect.top + rect.height / 2 - ctx.origin.top) * ctx.unit;
+  const m = new DOMMatrix(style.transform === 'none' ? undefined : style.transform);
+  const angle = Math.atan2(m.b, m.a);
+  const width = ctx.pdf.getTextWidth(text);
+  // From the centre back along the line to its start, and down to the baseline,
+  // about 0.3 em below the middle of a line-height: 1 box
+  const drop = sizeMm * 0.3;
+  const x = cx - Math.cos(angle) * width / 2 - Math.sin(angle) * drop;
+  const y = cy - Math.sin(angle) * width / 2 + Math.cos(angle) * drop;
+  ctx.pdf.text(text, x, y, { angle: -angle * 180 / Math.PI });
+};
+
+const walk = (ctx: PageContext, el: HTMLElement, parentOpacity: number) => {
+  if (el.classList.contains('no-print') || el.hasAttribute('data-html2canvas-ignore')) return;
+  if (!ctx.watermark && el.hasAttribute(WATERMARK_ATTR)) return;
+
+  const style = getComputedStyle(el);
+  if (style.display === 'none') return;
+  const opacity = parentOpacity * parseFloat(style.opacity || '1');
+  const visible = style.visibility !== 'hidden' && opacity > 0;
+
+  if (el.hasAttribute(WATERMARK_TEXT_ATTR)) {
+    if (visible) drawWatermarkText(ctx, el, style, opacity);
+    return;
+  }
+
+  if (visible) {
+    drawBox(ctx, el, style, opacity);
+    if (el instanceof HTMLImageElement) drawImage(ctx, el, opacity);
+    if (el.tagName === 'LI') drawListMarker(ctx, el, opacity);
+  }
+
+  el.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      if (visible) drawTextNode(ctx, child as Text, opacity);
+    } else if (child instanceof HTMLElement) {
+      walk(ctx, child, opacity);
+    }
+  });
+};
+
+// Bangla needs shaping (vowel signs before their consonant, conjuncts) that jsPDF can't
+// do, so pages with Bangla text, such as Bangla dates and invoices, go in as images
+const BANGLA = /[\u0980-\u09FF]/;
+
+const addVectorPages = async (pdf: jsPDF, fonts: PdfFontSet, pages: HTMLElement[], first: boolean, watermark: boolean) => {
+  const pdfWidth = pdf.internal.pageSize.getWidth();
+
+  for (const [index, page] of pages.entries()) {
+    if (BANGLA.test(page.textContent || '')) {
+      await addRasterPages(pdf, [page], index === 0 && first, watermark);
+      continue;
+    }
+    if (index > 0 || !first) pdf.addPage();
+    const origin = page.getBoundingClientRect();
+    const ctx: PageContext = {
+      pdf,
+      fonts,
+      origin,
+      unit: pdfWidth / origin.width,
+      zoom: origin.width / page.offsetWidth,
+      opacity: 1,
+      watermark,
+    };
+    walk(ctx, page, 1);
+    setOpacity(ctx, 1);
+  }
+};
+
+const newVectorDocument = async (size: PdfPageSize) => {
+  const pdf = newDocument(size);
+  pdf.setProperties({ title: 'Tajmir Group Document', creator: 'Tajmir Group Letterhead' });
+  const fonts = await registerPdfFonts(pdf);
+  return { pdf, fonts };
+};
+
+export const buildVectorPDF = async (pages: HTMLElement[], options: PdfOptions): Promise<jsPDF> => {
+  const { pdf, fonts } = await newVectorDocument(options.size);
+  await addVectorPages(pdf, fonts, pages, true, options.watermark);
+  return pdf;
+};
+
+// ================= MULTI-LETTER OUTPUT =================
+
+/** Collects the pages of several letters (e.g. a mail merge) into one PDF. */
+export interface PdfWriter {
+  addPages: (pages: HTMLElement[]) => Promise<void>;
+  finish: () => jsPDF;
+}
+
+export const createPdfWriter = async (mode: PdfExportMode, options: PdfOptions): Promise<PdfWriter> => {
+  const { pdf, fonts } = mode === 'vector' ? await newVectorDocument(options.size) : { pdf: newDocument(options.size), fonts: null };
+  let first = true;
+
+  return {
+    addPages: async (pages) => {
+      if (fonts) await addVectorPages(pdf, fonts, pages, first, options.watermark);
+      else await addRasterPages(pdf, pages, first, options.watermark);
+      first = first && pages.length === 0;
+    },
+    finish: () => pdf,
+  };
+};
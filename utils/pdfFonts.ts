@@ -0,0 +1,109 @@
+import type { jsPDF } from 'jspdf';
+
+// Fonts embedded into vector PDFs.
+// Tinos and Arimo are metric-compatible with Times New Roman and Arial, so text
+// laid out by the browser keeps its line breaks in the PDF. If a face cannot be
+// downloaded we fall back to the matching built-in PDF core font.
+
+type PdfFontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+type CoreFont = 'times' | 'helvetica' | 'courier';
+
+interface PdfFontFamily {
+  name: string;
+  cssFamilies: string[];
+  core: CoreFont;
+  faces: Record<PdfFontStyle, string>;
+}
+
+const fontsource = (id: string, weight: number, style: 'normal' | 'italic') =>
+  `https://cdn.jsdelivr.net/fontsource/fonts/${id}@latest/latin-${weight}-${style}.ttf`;
+
+const familyFaces = (id: string): Record<PdfFontStyle, string> => ({
+  normal: fontsource(id, 400, 'normal'),
+  bold: fontsource(id, 700, 'normal'),
+  italic: fontsource(id, 400, 'italic'),
+  bolditalic: fontsource(id, 700, 'italic'),
+});
+
+export const PDF_FONT_FAMILIES: PdfFontFamily[] = [
+  {
+    name: 'Tinos',
+    cssFamilies: ['tinos', 'georgia', 'times new roman', 'times', 'serif'],
+    core: 'times',
+    faces: familyFaces('tinos'),
+  },
+  {
+    name: 'Arimo',
+    cssFamilies: ['arimo', 'arial', 'helvetica', 'ui-sans-serif', 'system-ui', 'sans-serif'],
+    core: 'helvetica',
+    faces: familyFaces('arimo'),
+  },
+  {
+    name: 'Cousine',
+    cssFamilies: ['cousine', 'courier new', 'courier', 'ui-monospace', 'monospace'],
+    core: 'courier',
+    faces: familyFaces('cousine'),
+  },
+];
+
+// url -> base64 TTF (or null when the download failed), shared across exports
+const faceCache = new Map<string, Promise<string | null>>();
+
+const loadFace = (url: string) => {
+  if (!faceCache.has(url)) {
+    faceCache.set(url, fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`Font request failed: ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then(buffer => {
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+      })
+      .catch(err => {
+        console.warn('Could not embed font, using core PDF font instead', url, err);
+        faceCache.delete(url);
+        return null;
+      }));
+  }
+  return faceCache.get(url)!;
+};
+
+export interface PdfFontSet {
+  /** Picks the jsPDF font name and style for a computed CSS font. */
+  resolve: (cssFamily: string, bold: boolean, italic: boolean) => { font: string; style: PdfFontStyle };
+}
+
+/** Downloads and registers every embeddable face with `pdf`. */
+export const registerPdfFonts = async (pdf: jsPDF): Promise<PdfFontSet> => {
+  const embedded = new Set<string>();
+
+  await Promise.all(PDF_FONT_FAMILIES.flatMap(family =>
+    (Object.keys(family.faces) as PdfFontStyle[]).map(async style => {
+      const data = await loadFace(family.faces[style]);
+      if (!data) return;
+      const file = `${family.name}-${style}.ttf`;
+      pdf.addFileToVFS(file, data);
+      pdf.addFont(file, family.name, style);
+      embedded.add(`${family.name}:${style}`);
+    })
+  ));
+
+  const resolve = (cssFamily: string, bold: boolean, italic: boolean) => {
+    const style: PdfFontStyle = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+    const candidates = cssFamily.split(',').map(f => f.trim().replace(/^["']|["']$/g, '').toLowerCase());
+    const family = candidates
+      .map(c => PDF_FONT_FAMILIES.find(f => f.cssFamilies.includes(c)))
+      .find(Boolean) || PDF_FONT_FAMILIES[0];
+
+    return embedded.has(`${family.name}:${style}`)
+      ? { font: family.name, style }
+      : { font: family.core, style };
+  };
+
+  return { resolve };
+};
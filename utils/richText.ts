@@ -0,0 +1,742 @@
+import { BlockType, FormatCommand, FormattingState, ListType, TextAlign } from '../types';
+import { FLOW_ATTR, isPageBreak, joinContinuation } from './pagination';
+import { FIELD_ATTR } from './letterFields';
+
+// Rich-text editing for the body, text blocks and header/footer fields.
+//
+// Replaces document.execCommand, whose markup differed between browsers (<font size>,
+// <b> or <span style>, lists wrapped in divs). Inline formatting is kept as at most
+// one <span style> around each run of text; block formatting (headings, alignment,
+// spacing, indent, lists) goes on the paragraph elements. The toolbar and the vector
+// PDF export both read formatting back through computed styles.
+
+/** Marks the editors that take block formatting (the body and text blocks) */
+export const RICH_TEXT_CLASS = 'rich-text';
+
+export const FONT_FAMILIES = [
+  { name: 'Georgia', css: 'Georgia, "Times New Roman", serif' },
+  { name: 'Times New Roman', css: '"Times New Roman", Times, serif' },
+  { name: 'Arial', css: 'Arial, Helvetica, sans-serif' },
+  { name: 'Courier New', css: '"Courier New", Courier, monospace' },
+];
+
+/** Points */
+export const FONT_SIZES = [8, 9, 10, 10.5, 11, 12, 14, 16, 18, 20, 24, 28, 32, 36, 48];
+
+export const LINE_SPACINGS = [1, 1.15, 1.5, 2, 2.5];
+
+/** Space after paragraphs, in points */
+export const PARAGRAPH_SPACINGS = [0, 6, 12, 18, 24];
+
+export const HIGHLIGHTS = [
+  { name: 'No highlight', value: '' },
+  { name: 'Yellow', value: '#fff59d' },
+  { name: 'Green', value: '#c8e6c9' },
+  { name: 'Blue', value: '#bbdefb' },
+  { name: 'Pink', value: '#f8bbd0' },
+  { name: 'Grey', value: '#e0e0e0' },
+];
+
+const INDENT_PT = 36;
+const PX_TO_PT = 0.75;
+
+const BLOCK_COMMANDS = new Set<FormatCommand['type']>(['block', 'align', 'list', 'indent', 'outdent', 'lineHeight', 'paragraphSpacing']);
+
+// ================= SELECTION =================
+
+/** Editable element on a page holding `node`: the body, a text block or a header/footer field */
+export const getEditingHost = (node: Node | null): HTMLElement | null => {
+  const el = node instanceof Element ? node : node?.parentElement;
+  const host = el?.closest<HTMLElement>('[contenteditable="true"]');
+  return host && host.closest('[data-page]') ? host : null;
+};
+
+// Last selection inside the letter. Toolbar selects and colour pickers take focus,
+// and some browsers drop the selection with it.
+let lastRange: Range | null = null;
+
+/** Remembers the selection while it is in the letter; call on `selectionchange`. */
+export const trackSelection = () => {
+  const selection = window.getSelection();
+  if (selection && selection.rangeCount && getEditingHost(selection.anchorNode)) {
+    lastRange = selection.getRangeAt(0).cloneRange();
+  }
+};
+
+export const selectRange = (range: Range) => {
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+/** Current selection in the letter, falling back to the remembered one */
+export const getEditorRange = (): Range | null => {
+  const selection = window.getSelection();
+  if (selection && selection.rangeCount && getEditingHost(selection.anchorNode)) {
+    return selection.getRangeAt(0).cloneRange();
+  }
+  const host = lastRange && getEditingHost(lastRange.startContainer);
+  if (!lastRange || !host) return null;
+  host.focus({ preventScroll: true });
+  selectRange(lastRange);
+  return lastRange.cloneRange();
+};
+
+const elementOf = (node: Node) => (node instanceof Element ? node : node.parentElement) as HTMLElement;
+
+// ================= INLINE FORMATTING =================
+
+type InlineStyle = Record<string, string>;
+
+const INLINE_TAGS = new Set(['B', 'STRONG', 'I', 'EM', 'U', 'INS', 'S', 'STRIKE', 'DEL', 'FONT', 'SPAN', 'MARK']);
+
+const TAG_STYLES: Record<string, InlineStyle> = {
+  B: { 'font-weight': 'bold' },
+  STRONG: { 'font-weight': 'bold' },
+  I: { 'font-style': 'italic' },
+  EM: { 'font-style': 'italic' },
+  U: { 'text-decoration-line': 'underline' },
+  INS: { 'text-decoration-line': 'underline' },
+  S: { 'text-decoration-line': 'line-through' },
+  STRIKE: { 'text-decoration-line': 'line-through' },
+  DEL: { 'text-decoration-line': 'line-through' },
+  MARK: { 'background-color': 'yellow' },
+};
+
+// <font size="1..7"> as left behind by execCommand, in points
+const LEGACY_FONT_SIZES = [7.5, 10, 12, 13.5, 18, 24, 36];
+
+const isFieldToken = (node: Node): node is HTMLElement =>
+  node instanceof HTMLElement && node.hasAttribute(FIELD_ATTR);
+
+// Wrappers that only carry formatting. Field tokens are spans too but are kept whole.
+const isInlineFormat = (node: Node | null): node is HTMLElement =>
+  node instanceof HTMLElement && INLINE_TAGS.has(node.tagName) && !node.hasAttribute(FIELD_ATTR) && !node.hasAttribute('contenteditable');
+
+const decorationLines = (value = '') => value.split(/\s+/).filter(line => line && line !== 'none');
+
+const inlineStyleOf = (el: HTMLElement): InlineStyle => {
+  const style: InlineStyle = { ...TAG_STYLES[el.tagName] };
+  if (el instanceof HTMLFontElement) {
+    const size = parseInt(el.size, 10);
+    if (el.face) style['font-family'] = el.face;
+    if (el.color) style.color = el.color;
+    if (size >= 1 && size <= 7) style['font-size'] = `${LEGACY_FONT_SIZES[size - 1]}pt`;
+  }
+  for (let i = 0; i < el.style.length; i++) {
+    style[el.style[i]] = el.style.getPropertyValue(el.style[i]);
+  }
+  return style;
+};
+
+// Inner styles win, except decorations, which add up like they do when rendered
+const mergeStyles = (outer: InlineStyle, inner: InlineStyle): InlineStyle => {
+  const merged = { ...outer, ...inner };
+  const lines = Array.from(new Set([...decorationLines(outer['text-decoration-line']), ...decorationLines(inner['text-decoration-line'])]));
+  if (lines.length) merged['text-decoration-line'] = lines.join(' ');
+  return merged;
+};
+
+// Splits text nodes at the range boundaries so every text node in it is covered whole
+const splitBoundaries = (range: Range) => {
+  const { startContainer: start, startOffset, endContainer: end, endOffset } = range;
+  if (end instanceof Text && endOffset > 0 && endOffset < end.length) {
+    end.splitText(endOffset);
+    range.setEnd(end, endOffset);
+  }
+  if (start instanceof Text && startOffset > 0 && startOffset < start.length) {
+    const rest = start.splitText(startOffset);
+    if (start === end) range.setEnd(rest, endOffset - startOffset);
+    range.setStart(rest, 0);
+  }
+};
+
+// Text nodes and field tokens in the range, in document order
+const selectedUnits = (range: Range, host: HTMLElement): Node[] => {
+  splitBoundaries(range);
+  const units: Node[] = [];
+  const collect = (node: Node) => {
+    if (!range.intersectsNode(node)) return;
+    if (isFieldToken(node)) {
+      units.push(node);
+    } else if (node instanceof Text) {
+      const empty = !node.length
+        || (node === range.startContainer && range.startOffset === node.length)
+        || (node === range.endContainer && range.endOffset === 0);
+      if (!empty) units.push(node);
+    } else {
+      node.childNodes.forEach(collect);
+    }
+  };
+  collect(range.commonAncestorContainer);
+  return units.filter(unit => unit !== host && host.contains(unit));
+};
+
+const hasContent = (fragment: DocumentFragment) =>
+  (fragment.textContent || '') !== '' || !!fragment.querySelector('br, img, [data-field]');
+
+// Moves everything in `ancestor` before and after `node` into copies of `ancestor`
+const isolate = (ancestor: HTMLElement, node: Node) => {
+  const range = document.createRange();
+  range.setStart(ancestor, 0);
+  range.setEndBefore(node);
+  const before = range.extractContents();
+  if (hasContent(before)) {
+    const copy = ancestor.cloneNode(false);
+    copy.appendChild(before);
+    ancestor.before(copy);
+  }
+
+  range.setStartAfter(node);
+  range.setEnd(ancestor, ancestor.childNodes.length);
+  const after = range.extractContents();
+  if (hasContent(after)) {
+    const copy = ancestor.cloneNode(false);
+    copy.appendChild(after);
+    ancestor.after(copy);
+  }
+};
+
+// Gives `unit` a span of its own that carries all the inline formatting around it
+const wrapUnit = (unit: Node, host: HTMLElement): HTMLSpanElement => {
+  const chain: HTMLElement[] = [];
+  for (let el = unit.parentElement; el && el !== host && isInlineFormat(el); el = el.parentElement) chain.push(el);
+
+  const outer = chain[chain.length - 1];
+  if (outer) isolate(outer, unit);
+  if (chain.length === 1 && outer instanceof HTMLSpanElement && outer.attributes.length <= 1) return outer;
+
+  const span = document.createElement('span');
+  const style = chain.reduceRight<InlineStyle>((acc, el) => mergeStyles(acc, inlineStyleOf(el)), {});
+  Object.entries(style).forEach(([name, value]) => span.style.setProperty(name, value));
+
+  const anchor = outer || unit;
+  anchor.parentNode!.insertBefore(span, anchor);
+  span.appendChild(unit);
+  outer?.remove();
+  return span;
+};
+
+// Drops an inherited property when the text looks the same without it
+const dropIfInherited = (el: HTMLElement, name: string) => {
+  const value = el.style.getPropertyValue(name);
+  if (!value) return;
+  const withValue = getComputedStyle(el).getPropertyValue(name);
+  el.style.removeProperty(name);
+  if (getComputedStyle(el).getPropertyValue(name) !== withValue) el.style.setProperty(name, value);
+};
+
+const setInlineStyle = (span: HTMLElement, name: string, value: string) => {
+  if (value) span.style.setProperty(name, value);
+  else span.style.removeProperty(name);
+  if (name !== 'background-color') dropIfInherited(span, name);
+};
+
+const toggleDecoration = (span: HTMLElement, line: string, on: boolean) => {
+  const lines = decorationLines(span.style.textDecorationLine).filter(l => l !== line);
+  if (on) lines.push(line);
+  if (lines.length) span.style.textDecorationLine = lines.join(' ');
+  else span.style.removeProperty('text-decoration-line');
+};
+
+const hasDecoration = (el: HTMLElement, host: HTMLElement, line: string) => {
+  for (let node: HTMLElement | null = el; node && host.contains(node); node = node.parentElement) {
+    if (getComputedStyle(node).textDecorationLine.includes(line)) return true;
+  }
+  return false;
+};
+
+const isBold = (el: HTMLElement) => parseInt(getComputedStyle(el).fontWeight, 10) >= 600;
+
+const isItalic = (el: HTMLElement) => getComputedStyle(el).fontStyle !== 'normal';
+
+// Unwraps spans left without formatting and joins neighbours with the same style
+const tidyInline = (parent: Node) => {
+  Array.from(parent.childNodes).forEach(node => {
+    if (!(node instanceof HTMLSpanElement) || node.parentNode !== parent || !isInlineFormat(node)) return;
+    if (!node.style.length && node.attributes.length <= 1) {
+      node.replaceWith(...Array.from(node.childNodes));
+      return;
+    }
+    let next = node.nextSibling;
+    while (next instanceof HTMLSpanElement && isInlineFormat(next)
+      && next.attributes.length === node.attributes.length && next.style.cssText === node.style.cssText) {
+      while (next.firstChild) node.appendChild(next.firstChild);
+      next.remove();
+      next = node.nextSibling;
+    }
+  });
+};
+
+// Collapsed selection: format the word around the caret
+const expandToWord = (range: Range) => {
+  const node = range.startContainer;
+  if (!(node instanceof Text)) return false;
+  const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}\p{M}_'’-]/u.test(ch);
+  let start = range.startOffset;
+  let end = start;
+  while (start > 0 && isWordChar(node.data[start - 1])) start--;
+  while (end < node.length && isWordChar(node.data[end])) end++;
+  if (start === end) return false;
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  return true;
+};
+
+// Formatting switched on at a caret outside a word lives on a zero-width space in a
+// span of its own, which the next typed text goes into. Marks are dropped again at
+// the next edit elsewhere in the same region, and are never saved.
+const CARET_MARK = '\u200B';
+const caretMarks = new Set<Text>();
+
+/** HTML of an editable region as it is saved: without caret marks */
+export const stripCaretMarks = (html: string) => html.replace(/\u200B/g, '');
+
+// Puts the range around a caret mark at the caret: the one just typed, or a new one
+const markCaret = (range: Range) => {
+  const node = range.startContainer;
+  if (node instanceof Text && node.data[range.startOffset - 1] === CARET_MARK) {
+    range.setStart(node, range.startOffset - 1);
+    return;
+  }
+  const mark = document.createTextNode(CARET_MARK);
+  range.insertNode(mark);
+  range.selectNodeContents(mark);
+};
+
+/**
+ * Drops the caret marks in the region an edit is about to change, except the one the
+ * caret is in. Call on `beforeinput`; the edit's own input event commits the result.
+ */
+export const releaseCaretMarks = (target: EventTarget | null) => {
+  const host = target instanceof Node ? getEditingHost(target) : null;
+  if (!host) return;
+  const caretNode = window.getSelection()?.anchorNode;
+  caretMarks.forEach(mark => {
+    if (!mark.isConnected) {
+      caretMarks.delete(mark);
+      return;
+    }
+    if (mark === caretNode || mark.parentNode === caretNode || getEditingHost(mark) !== host) return;
+    caretMarks.delete(mark);
+    const at = mark.data.indexOf(CARET_MARK);
+    if (at >= 0) mark.deleteData(at, 1);
+    if (mark.length) return;
+    // Never typed in: the formatting around it goes too
+    let empty: Node = mark;
+    while (empty.parentNode !== host && isInlineFormat(empty.parentNode) && empty.parentNode.childNodes.length === 1) empty = empty.parentNode;
+    empty.parentNode?.removeChild(empty);
+  });
+};
+
+const applyInlineFormat = (range: Range, host: HTMLElement, command: FormatCommand) => {
+  let caret: number | null = null;
+  if (range.collapsed) {
+    const offset = range.startOffset;
+    if (expandToWord(range)) {
+      caret = offset - range.startOffset;
+    } else {
+      markCaret(range);
+      caret = 1;
+    }
+  }
+
+  const units = selectedUnits(range, host);
+  if (!units.length) return false;
+
+  // Toggles switch off only when the whole selection already has the style
+  const elements = units.map(elementOf);
+  const toggleOn = {
+    bold: !elements.every(isBold),
+    italic: !elements.every(isItalic),
+    underline: !elements.every(el => hasDecoration(el, host, 'underline')),
+    strike: !elements.every(el => hasDecoration(el, host, 'line-through')),
+  };
+
+  const spans = units.map(unit => wrapUnit(unit, host));
+  spans.forEach(span => {
+    switch (command.type) {
+      case 'bold': return setInlineStyle(span, 'font-weight', toggleOn.bold ? 'bold' : 'normal');
+      case 'italic': return setInlineStyle(span, 'font-style', toggleOn.italic ? 'italic' : 'normal');
+      case 'underline': return toggleDecoration(span, 'underline', toggleOn.underline);
+      case 'strike': return toggleDecoration(span, 'line-through', toggleOn.strike);
+      case 'fontFamily': return setInlineStyle(span, 'font-family', command.value);
+      case 'fontSize': return setInlineStyle(span, 'font-size', `${command.value}pt`);
+      case 'color': return setInlineStyle(span, 'color', command.value);
+      case 'highlight': return setInlineStyle(span, 'background-color', command.value);
+      case 'clear': return span.removeAttribute('style');
+    }
+  });
+  new Set(spans.map(span => span.parentNode!)).forEach(tidyInline);
+
+  const first = units[0];
+  const last = units[units.length - 1];
+  if (caret !== null && first instanceof Text) {
+    if (first.data === CARET_MARK) caretMarks.add(first);
+    range.setStart(first, caret);
+    range.collapse(true);
+  } else {
+    if (first instanceof Text) range.setStart(first, 0);
+    else range.setStartBefore(first);
+    if (last instanceof Text) range.setEnd(last, last.length);
+    else range.setEndAfter(last);
+  }
+  selectRange(range);
+  return true;
+};
+
+// ================= BLOCK FORMATTING =================
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'BLOCKQUOTE', 'PRE']);
+
+const isBlock = (node: Node | null): boolean =>
+  node instanceof HTMLElement && BLOCK_TAGS.has(node.tagName) && !isPageBreak(node);
+
+// Bare lines at the top level end at blocks, lists, tables and <br>s
+const isLineEdge = (node: Node | null) =>
+  !node || isBlock(node) || isPageBreak(node) || ['UL', 'OL', 'TABLE', 'BR'].includes(node.nodeName);
+
+const nearestBlock = (node: Node, host: HTMLElement): HTMLElement | null => {
+  for (let el: HTMLElement | null = elementOf(node); el && el !== host; el = el.parentElement) {
+    if (isBlock(el)) return el;
+  }
+  return null;
+};
+
+// Chrome leaves the first line of a contentEditable as bare text; wrap it like the lines after it
+const wrapLine = (node: Node, host: HTMLElement) => {
+  let top = node;
+  while (top.parentNode !== host) top = top.parentNode!;
+
+  let first = top;
+  let last = top;
+  if (top.nodeName !== 'BR') {
+    while (!isLineEdge(first.previousSibling)) first = first.previousSibling!;
+    while (!isLineEdge(last.nextSibling)) last = last.nextSibling!;
+  }
+
+  const div = document.createElement('div');
+  host.insertBefore(div, first);
+  let current: Node | null = first;
+  while (current) {
+    const next: Node | null = current === last ? null : current.nextSibling;
+    div.appendChild(current);
+    current = next;
+  }
+  // The div ends the line now; a <br> after it would add an empty one
+  if (top.nodeName !== 'BR' && div.nextSibling?.nodeName === 'BR') div.nextSibling.remove();
+  return div;
+};
+
+const blockFor = (node: Node, host: HTMLElement) => {
+  if (node === host) {
+    if (!host.firstChild) host.innerHTML = '<div><br></div>';
+    node = host.firstChild!;
+  }
+  return nearestBlock(node, host) || (isBlock(node) ? node as HTMLElement : wrapLine(node, host));
+};
+
+const selectedBlocks = (range: Range, host: HTMLElement): HTMLElement[] => {
+  const nodes: Node[] = [];
+  const collect = (node: Node) => {
+    if (!range.intersectsNode(node)) return;
+    if (node instanceof Text || isFieldToken(node) || node.nodeName === 'BR' || node.nodeName === 'IMG') nodes.push(node);
+    else node.childNodes.forEach(collect);
+  };
+  if (!range.collapsed) collect(range.commonAncestorContainer);
+  if (!nodes.length) {
+    const { startContainer: container, startOffset: offset } = range;
+    nodes.push(container instanceof Text || !container.childNodes.length
+      ? container
+      : container.childNodes[Math.min(offset, container.childNodes.length - 1)]);
+  }
+
+  const blocks: HTMLElement[] = [];
+  nodes.filter(node => host.contains(node)).forEach(node => {
+    const block = blockFor(node, host);
+    if (!blocks.includes(block)) blocks.push(block);
+  });
+  return blocks;
+};
+
+/**
+ * Joins a block split over pages (or the top-level block around it) back together
+ * so it is edited as one; the reflow afterwards splits it again.
+ */
+export const joinFlow = (block: HTMLElement, host: HTMLElement): HTMLElement => {
+  let top: HTMLElement = block;
+  while (top.parentElement && top.parentElement !== host) top = top.parentElement;
+  const flow = top.getAttribute(FLOW_ATTR);
+  const pages = host.closest('[data-page]')?.parentElement;
+  if (!flow || !pages) return block;
+
+  const [first, ...rest] = Array.from(pages.querySelectorAll<HTMLElement>(`[${FLOW_ATTR}="${CSS.escape(flow)}"]`));
+  rest.forEach(part => {
+    joinContinuation(first, part);
+    part.remove();
+  });
+  first.removeAttribute(FLOW_ATTR);
+  return top === block ? first : block;
+};
+
+const renameElement = (el: HTMLElement, tag: string) => {
+  const next = document.createElement(tag);
+  Array.from(el.attributes).forEach(attr => next.setAttribute(attr.name, attr.value));
+  while (el.firstChild) next.appendChild(el.firstChild);
+  el.replaceWith(next);
+  return next;
+};
+
+const setBlockType = (block: HTMLElement, type: BlockType) => {
+  if (block.tagName === 'LI') return;
+  const isHeading = /^H[1-6]$/.test(block.tagName);
+  if (type === 'p' ? isHeading : block.tagName !== type.toUpperCase()) renameElement(block, type);
+};
+
+const setBlockStyle = (block: HTMLElement, name: string, value: string) => {
+  if (value) block.style.setProperty(name, value);
+  else block.style.removeProperty(name);
+  dropIfInherited(block, name);
+};
+
+// Margins are written in points; anything else is read as pixels
+const marginLeftPt = (block: HTMLElement) => {
+  const value = block.style.marginLeft;
+  return value.endsWith('pt') ? parseFloat(value) : (parseFloat(value) || 0) * PX_TO_PT;
+};
+
+const shiftMargin = (block: HTMLElement, delta: number) => {
+  const margin = Math.max(0, marginLeftPt(block) + delta);
+  block.style.marginLeft = margin ? `${margin}pt` : '';
+};
+
+const copyList = (list: HTMLElement) => {
+  const copy = list.cloneNode(false) as HTMLElement;
+  copy.removeAttribute(FLOW_ATTR);
+  copy.removeAttribute('start');
+  return copy;
+};
+
+// Turns a list item back into a paragraph, splitting its list around it
+const unlistItem = (li: HTMLElement) => {
+  const list = li.parentElement!;
+  const block = document.createElement('div');
+  if (li.style.length) block.style.cssText = li.style.cssText;
+  while (li.firstChild) block.appendChild(li.firstChild);
+
+  const following: ChildNode[] = [];
+  for (let node = li.nextSibling; node; node = node.nextSibling) following.push(node);
+  if (following.length) {
+    const tail = copyList(list);
+    following.forEach(node => tail.appendChild(node));
+    list.after(tail);
+  }
+  list.after(block);
+  li.remove();
+  if (!list.children.length) list.remove();
+};
+
+// Nests the item under the one before it
+const indentItem = (li: HTMLElement) => {
+  const prev = li.previousElementSibling;
+  if (!prev || prev.tagName !== 'LI') {
+    shiftMargin(li, INDENT_PT);
+    return;
+  }
+  let sublist = prev.lastElementChild as HTMLElement | null;
+  if (!sublist || !['UL', 'OL'].includes(sublist.tagName)) {
+    sublist = copyList(li.parentElement!);
+    prev.appendChild(sublist);
+  }
+  sublist.appendChild(li);
+};
+
+// Moves a nested item up a level; the items after it become its own sub-items
+const outdentItem = (li: HTMLElement) => {
+  const list = li.parentElement!;
+  const parentItem = list.parentElement;
+  if (!parentItem || parentItem.tagName !== 'LI') {
+    if (marginLeftPt(li) > 0) shiftMargin(li, -INDENT_PT);
+    else unlistItem(li);
+    return;
+  }
+
+  const following: ChildNode[] = [];
+  for (let node = li.nextSibling; node; node = node.nextSibling) following.push(node);
+  if (following.length) {
+    const sublist = copyList(list);
+    following.forEach(node => sublist.appendChild(node));
+    li.appendChild(sublist);
+  }
+  parentItem.after(li);
+  if (!list.children.length) list.remove();
+};
+
+const toggleList = (blocks: HTMLElement[], type: ListType) => {
+  const tag = type.toUpperCase();
+  const items = blocks.filter(block => block.tagName === 'LI');
+
+  // Everything already in this kind of list: take it out
+  if (items.length === blocks.length && items.every(li => li.parentElement?.tagName === tag)) {
+    items.forEach(unlistItem);
+    return;
+  }
+
+  let list: HTMLElement | null = null;
+  blocks.forEach(block => {
+    if (block.tagName === 'LI') {
+      const parent = block.parentElement;
+      if (parent && parent.tagName !== tag && parent.isConnected) renameElement(parent, type);
+      list = null;
+      return;
+    }
+
+    // Consecutive paragraphs go into one list, which continues a list right before them
+    if (!list || list.nextElementSibling !== block) {
+      const prev = block.previousElementSibling;
+      list = prev && prev.tagName === tag ? prev as HTMLElement : null;
+      if (!list) {
+        list = document.createElement(type);
+        block.before(list);
+      }
+    }
+
+    const li = document.createElement('li');
+    if (block.style.textAlign) li.style.textAlign = block.style.textAlign;
+    list.appendChild(li);
+    if (/^H[1-6]$/.test(block.tagName)) {
+      li.appendChild(block);
+    } else {
+      while (block.firstChild) li.appendChild(block.firstChild);
+      block.remove();
+    }
+  });
+};
+
+const applyBlockFormat = (range: Range, host: HTMLElement, command: FormatCommand) => {
+  // Text nodes survive the restructuring, so the selection can be put back on them
+  const start = { node: range.startContainer, offset: range.startOffset };
+  const end = { node: range.endContainer, offset: range.endOffset };
+
+  const blocks: HTMLElement[] = [];
+  selectedBlocks(range, host).forEach(block => {
+    const joined = joinFlow(block, host);
+    if (!blocks.includes(joined)) blocks.push(joined);
+  });
+
+  switch (command.type) {
+    case 'block':
+      blocks.forEach(block => setBlockType(block, command.value));
+      break;
+    case 'align':
+      blocks.forEach(block => setBlockStyle(block, 'text-align', command.value));
+      break;
+    case 'lineHeight':
+      blocks.forEach(block => setBlockStyle(block, 'line-height', String(command.value)));
+      break;
+    case 'paragraphSpacing':
+      blocks.forEach(block => setBlockStyle(block, 'margin-bottom', command.value ? `${command.value}pt` : ''));
+      break;
+    case 'indent':
+      blocks.forEach(block => block.tagName === 'LI' ? indentItem(block) : shiftMargin(block, INDENT_PT));
+      break;
+    case 'outdent':
+      blocks.forEach(block => block.tagName === 'LI' ? outdentItem(block) : shiftMargin(block, -INDENT_PT));
+      break;
+    case 'list':
+      toggleList(blocks, command.value);
+      break;
+  }
+
+  const clamp = (node: Node, offset: number) => Math.min(offset, node instanceof Text ? node.length : node.childNodes.length);
+  if (host.contains(start.node) && host.contains(end.node)) {
+    range.setStart(start.node, clamp(start.node, start.offset));
+    range.setEnd(end.node, clamp(end.node, end.offset));
+  } else {
+    range.selectNodeContents(host);
+    range.collapse(true);
+  }
+  selectRange(range);
+};
+
+/**
+ * Applies `command` to the selection in the letter (or the one last seen there).
+ * Returns the edited host, or null when there was nothing to format.
+ */
+export const applyFormat = (command: FormatCommand): HTMLElement | null => {
+  const range = getEditorRange();
+  const host = range && getEditingHost(range.startContainer);
+  if (!range || !host || !host.contains(range.endContainer)) return null;
+  host.focus({ preventScroll: true });
+
+  if (BLOCK_COMMANDS.has(command.type)) {
+    if (!host.classList.contains(RICH_TEXT_CLASS)) return null;
+    applyBlockFormat(range, host, command);
+    return host;
+  }
+  return applyInlineFormat(range, host, command) ? host : null;
+};
+
+// ================= TOOLBAR STATE =================
+
+/** CSS rgb()/rgba() as #rrggbb; '' when transparent */
+export const toHex = (color: string) => {
+  const match = color.match(/rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)(?:\s*[,/]\s*([\d.]+))?/);
+  if (!match || (match[4] !== undefined && parseFloat(match[4]) === 0)) return '';
+  return '#' + match.slice(1, 4).map(n => Number(n).toString(16).padStart(2, '0')).join('');
+};
+
+const familyName = (fontFamily: string) => {
+  const first = fontFamily.split(',')[0].trim().replace(/["']/g, '').toLowerCase();
+  return FONT_FAMILIES.find(f => f.name.toLowerCase() === first)?.name || '';
+};
+
+const highlightOf = (el: HTMLElement, host: HTMLElement) => {
+  for (let node: HTMLElement | null = el; node && node !== host && host.contains(node); node = node.parentElement) {
+    const color = toHex(getComputedStyle(node).backgroundColor);
+    if (color) return color;
+  }
+  return '';
+};
+
+const alignOf = (value: string): TextAlign => {
+  if (value === 'center' || value === 'right' || value === 'justify') return value;
+  return value === 'end' ? 'right' : 'left';
+};
+
+/** Formatting at the start of the selection, or null when the selection is not in the letter. */
+export const getFormattingState = (): FormattingState | null => {
+  const selection = window.getSelection();
+  if (!selection || !selection.rangeCount) return null;
+  const range = selection.getRangeAt(0);
+  const host = getEditingHost(range.startContainer);
+  if (!host) return null;
+
+  const container = range.startContainer;
+  const node = container instanceof Text || !container.childNodes.length
+    ? container
+    : container.childNodes[Math.min(range.startOffset, container.childNodes.length - 1)];
+  const el = elementOf(node);
+  const style = getComputedStyle(el);
+  const block = nearestBlock(node, host) || host;
+  const blockStyle = getComputedStyle(block);
+  const lineHeight = parseFloat(blockStyle.lineHeight) / parseFloat(blockStyle.fontSize);
+  const list = block.tagName === 'LI' ? block.parentElement?.tagName : null;
+
+  return {
+    bold: isBold(el),
+    italic: isItalic(el),
+    underline: hasDecoration(el, host, 'underline'),
+    strike: hasDecoration(el, host, 'line-through'),
+    fontFamily: familyName(style.fontFamily),
+    fontSize: Math.round(parseFloat(style.fontSize) * PX_TO_PT * 2) / 2,
+    color: toHex(style.color) || '#000000',
+    highlight: highlightOf(el, host),
+    block: /^H[1-3]$/.test(block.tagName) ? block.tagName.toLowerCase() as BlockType : 'p',
+    align: alignOf(blockStyle.textAlign),
+    list: list === 'UL' ? 'ul' : list === 'OL' ? 'ol' : null,
+    lineHeight: isNaN(lineHeight) ? null : Math.round(lineHeight * 100) / 100,
+    paragraphSpacing: Math.round((parseFloat(blockStyle.marginBottom) || 0) * PX_TO_PT),
+    canFormatBlocks: host.classList.contains(RICH_TEXT_CLASS),
+  };
+};
@@ -0,0 +1,57 @@
+import { MeasureUnit } from '../types';
+
+// Rulers along the workspace and the guide lines dragged out of them. Rulers
+// count from the page's top-left corner in the unit margins are entered in.
+
+/** Thickness of the rulers in screen px */
+export const RULER_SIZE = 20;
+
+/** Marks a guide line on the page; the value is its axis, `data-guide-at` its position */
+export const GUIDE_ATTR = 'data-ruler-guide';
+
+export interface RulerTick {
+  /** mm from the page edge */
+  at: number;
+  size: 'major' | 'medium' | 'minor';
+  label?: string;
+}
+
+// `major`: labelled interval in mm; `parts`: minor ticks per major one
+const SCALES: Record<MeasureUnit, { major: number; parts: number; per: number }> = {
+  mm: { major: 10, parts: 10, per: 1 },
+  cm: { major: 10, parts: 10, per: 10 },
+  in: { major: 25.4, parts: 8, per: 25.4 },
+};
+
+// Ticks closer than this on screen are left out, and labels thinned to this spacing
+const MIN_TICK_GAP = 3;
+const MIN_LABEL_GAP = 32;
+
+/** Ticks between `from` and `to` mm, at `scale` screen px per mm */
+export const rulerTicks = (unit: MeasureUnit, from: number, to: number, scale: number): RulerTick[] => {
+  const { major, parts, per } = SCALES[unit];
+  const minor = major / parts;
+  const labelEvery = [1, 2, 5, 10].find(n => n * major * scale >= MIN_LABEL_GAP) || 20;
+  const showMinor = minor * scale >= MIN_TICK_GAP;
+  const showMedium = major / 2 * scale >= MIN_TICK_GAP;
+
+  const ticks: RulerTick[] = [];
+  for (let i = Math.ceil(from / minor); i * minor <= to; i++) {
+    const at = i * minor;
+    if (i % parts === 0) {
+      const n = i / parts;
+      ticks.push({ at, size: 'major', label: n % labelEvery === 0 ? String(Math.round(Math.abs(at) / per * 10) / 10) : undefined });
+    } else if (i % (parts / 2) === 0) {
+      if (showMedium) ticks.push({ at, size: 'medium' });
+    } else if (showMinor) {
+      ticks.push({ at, size: 'minor' });
+    }
+  }
+  return ticks;
+};
+
+/** The page under a screen point, if any */
+export const pageAtPoint = (pages: HTMLElement[], clientX: number, clientY: number) => {
+  const rects = pages.map(page => ({ page, rect: page.getBoundingClientRect() }));
+  return rects.find(({ rect }) => clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom) || null;
+};
@@ -0,0 +1,176 @@
+import { Margins, SnapSettings } from '../types';
+import { PX_PER_MM } from './assetLibrary';
+import { GUIDE_ATTR } from './rulers';
+
+// Snapping for blocks dragged on the page: to the margin box, the page centre, the
+// edges and centres of other blocks, guides from the rulers, and an optional grid
+// starting at the top-left margin. Positions are page px in the body area, like TextBlock/ImageBlock.
+
+/** Marks the element whose content box other blocks line up with */
+export const SNAP_ATTR = 'data-snap-block';
+
+export const DEFAULT_SNAP: SnapSettings = { guides: true, grid: false, gridSize: 5 };
+
+export const GRID_SIZES = [2, 5, 10, 20];
+
+/** Arrow key steps in page px; the larger one with Shift */
+export const NUDGE = 1;
+export const NUDGE_LARGE = 10;
+
+// How close on screen a block has to come before it snaps, in px
+const SNAP_DISTANCE = 6;
+
+export interface SnapBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A guide line: vertical at `x = at`, or horizontal at `y = at` */
+export interface Guide {
+  axis: 'x' | 'y';
+  at: number;
+}
+
+export interface SnapTargets {
+  x: number[];
+  y: number[];
+  /** Grid origin: the top-left corner of the margin box */
+  origin: { x: number; y: number };
+}
+
+/** Content box of a block's marked element, in body area px */
+export const snapBoxOf = (el: HTMLElement, area: HTMLElement): SnapBox => {
+  const style = getComputedStyle(el);
+  const padLeft = parseFloat(style.paddingLeft) || 0;
+  const padTop = parseFloat(style.paddingTop) || 0;
+  let x = el.clientLeft + padLeft;
+  let y = el.clientTop + padTop;
+  for (let node: HTMLElement | null = el; node && node !== area; node = node.offsetParent as HTMLElement | null) {
+    x += node.offsetLeft;
+    y += node.offsetTop;
+  }
+  return {
+    x,
+    y,
+    width: el.clientWidth - padLeft - (parseFloat(style.paddingRight) || 0),
+    height: el.clientHeight - padTop - (parseFloat(style.paddingBottom) || 0),
+  };
+};
+
+/** The body area a block is placed in */
+export const snapAreaOf = (el: HTMLElement) => el.closest<HTMLElement>('[data-page]')?.querySelector<HTMLElement>('[data-block-area]') || null;
+
+/** Lines the block marked by `el` can snap to, read from its page */
+export const collectSnapTargets = (el: HTMLElement, margins: Margins): SnapTargets | null => {
+  const area = snapAreaOf(el);
+  if (!area) return null;
+  const width = area.clientWidth;
+  const height = area.clientHeight;
+  const page = area.closest<HTMLElement>('[data-page]');
+
+  const x = [margins.left, width - margins.right, width / 2];
+  // Page centre, which is not the centre of the body area under a letterhead
+  const y = [margins.top, height - margins.bottom, page ? page.offsetHeight / 2 - area.offsetTop : height / 2];
+
+  area.querySelectorAll<HTMLElement>(`[${SNAP_ATTR}]`).forEach(other => {
+    if (other === el) return;
+    const box = snapBoxOf(other, area);
+    x.push(box.x, box.x + box.width / 2, box.x + box.width);
+    y.push(box.y, box.y + box.height / 2, box.y + box.height);
+  });
+
+  // Ruler guides are placed from the page's corner
+  page?.querySelectorAll<HTMLElement>(`[${GUIDE_ATTR}]`).forEach(guide => {
+    const at = parseFloat(guide.dataset.guideAt || '');
+    if (isNaN(at)) return;
+    if (guide.getAttribute(GUIDE_ATTR) === 'x') x.push(at - area.offsetLeft);
+    else y.push(at - area.offsetTop);
+  });
+  return { x, y, origin: { x: margins.left, y: margins.top } };
+};
+
+// Smallest shift putting one of the box's lines on a target, and the targets it lands on
+const snapAxis = (lines: number[], targets: number[], reach: number) => {
+  let shift: number | null = null;
+  for (const target of targets) {
+    for (const line of lines) {
+      const d = target - line;
+      if (Math.abs(d) <= reach && (shift === null || Math.abs(d) < Math.abs(shift))) shift = d;
+    }
+  }
+  if (shift === null) return null;
+  const moved = lines.map(line => line + shift!);
+  const hits = targets.filter(target => moved.some(line => Math.abs(line - target) < 0.5));
+  return { shift, hits: Array.from(new Set(hits)) };
+};
+
+/** How far to shift a dragged box so it snaps, and the guides to show */
+export const snapMove = (box: SnapBox, targets: SnapTargets, settings: SnapSettings, zoom: number) => {
+  const grid = settings.gridSize * PX_PER_MM;
+  const reach = SNAP_DISTANCE / zoom;
+  const guides: Guide[] = [];
+  let dx = 0, dy = 0;
+
+  const snapX = settings.guides ? snapAxis([box.x, box.x + box.width / 2, box.x + box.width], targets.x, reach) : null;
+  if (snapX) {
+    dx = snapX.shift;
+    snapX.hits.forEach(at => guides.push({ axis: 'x', at }));
+  } else if (settings.grid && grid > 0) {
+    dx = targets.origin.x + Math.round((box.x - targets.origin.x) / grid) * grid - box.x;
+  }
+
+  const snapY = settings.guides ? snapAxis([box.y, box.y + box.height / 2, box.y + box.height], targets.y, reach) : null;
+  if (snapY) {
+    dy = snapY.shift;
+    snapY.hits.forEach(at => guides.push({ axis: 'y', at }));
+  } else if (settings.grid && grid > 0) {
+    dy = targets.origin.y + Math.round((box.y - targets.origin.y) / grid) * grid - box.y;
+  }
+
+  return { dx, dy, guides };
+};
+
+// ================= DRAGGING =================
+
+/** A block's measurements taken as a drag starts */
+export interface SnapDrag {
+  targets: SnapTargets | null;
+  /** Content box relative to the block's position */
+  offset: { x: number; y: number };
+  width: number;
+  height: number;
+}
+
+/** Measures the block marked by `el`, which is at `position`, and the lines it can snap to */
+export const beginSnapDrag = (el: HTMLElement, position: { x: number; y: number }, margins: Margins): SnapDrag => {
+  const area = snapAreaOf(el);
+  const box = area ? snapBoxOf(el, area) : { ...position, width: 0, height: 0 };
+  return {
+    targets: collectSnapTargets(el, margins),
+    offset: { x: box.x - position.x, y: box.y - position.y },
+    width: box.width,
+    height: box.height,
+  };
+};
+
+/** Where a block dragged to `position` lands, and the guides to show; `free` (Alt held) skips snapping */
+export const snapDrag = (drag: SnapDrag, position: { x: number; y: number }, settings: SnapSettings, zoom: number, free: boolean) => {
+  if (free || !drag.targets) return { ...position, guides: [] as Guide[] };
+  const box = { x: position.x + drag.offset.x, y: position.y + drag.offset.y, width: drag.width, height: drag.height };
+  const { dx, dy, guides } = snapMove(box, drag.targets, settings, zoom);
+  return { x: position.x + dx, y: position.y + dy, guides };
+};
+
+/** Arrow key movement for a selected block, or null for other keys */
+export const nudgeFor = (e: { key: string; shiftKey: boolean }) => {
+  const step = e.shiftKey ? NUDGE_LARGE : NUDGE;
+  switch (e.key) {
+    case 'ArrowLeft': return { dx: -step, dy: 0 };
+    case 'ArrowRight': return { dx: step, dy: 0 };
+    case 'ArrowUp': return { dx: 0, dy: -step };
+    case 'ArrowDown': return { dx: 0, dy: step };
+    default: return null;
+  }
+};
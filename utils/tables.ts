@@ -0,0 +1,621 @@
+import { TableBorders, TableCommand, TableState } from '../types';
+import { getEditorRange, getEditingHost, joinFlow, selectRange, toHex, RICH_TEXT_CLASS } from './richText';
+
+// Tables in the body and text blocks.
+//
+// A table is plain HTML: a <colgroup> of percentage widths, header rows in <thead>
+// and the rest in <tbody>. The border preset is kept on the table (data-borders,
+// data-border-color) and written out as inline cell styles, so both PDF exports
+// draw the lines like any other border. Pagination breaks tables between rows and
+// repeats the <thead> on every page the table continues on (see utils/pagination.ts).
+//
+// Tables built for a purpose, like the quotation block (utils/invoice.ts), are
+// marked data-fixed-layout: their columns and cells can't be restructured, new rows
+// are copies of the current one, and rows marked data-fixed-row take no new rows.
+// Cells with contenteditable="false" are skipped by Tab.
+
+export const TABLE_BORDERS: { id: TableBorders; label: string }[] = [
+  { id: 'all', label: 'All borders' },
+  { id: 'outer', label: 'Outside only' },
+  { id: 'horizontal', label: 'Horizontal lines' },
+  { id: 'none', label: 'No borders' },
+];
+
+/** Largest table offered by the toolbar's size picker */
+export const MAX_NEW_TABLE = { rows: 8, cols: 8 };
+
+const DEFAULT_BORDER_COLOR = '#000000';
+const HEADER_SHADING = '#f2f2f2';
+// Tables in text blocks can't take the width of their box, which sizes to its content
+export const TEXT_BLOCK_TABLE_WIDTH = '90mm';
+const MIN_COLUMN_WIDTH = 5;
+export const FIXED_LAYOUT_ATTR = 'data-fixed-layout';
+export const FIXED_ROW_ATTR = 'data-fixed-row';
+// Commands that would change the columns or cells of a fixed-layout table
+const LAYOUT_COMMANDS = new Set<TableCommand['type']>(['columnLeft', 'columnRight', 'deleteColumn', 'mergeCells', 'splitCell', 'toggleHeaderRow']);
+
+// ================= GRID =================
+
+// Cell positions with row and column spans resolved
+interface Grid {
+  rows: HTMLTableRowElement[];
+  /** slots[row][col] is the cell covering that position */
+  slots: HTMLTableCellElement[][];
+  origins: Map<HTMLTableCellElement, { row: number; col: number }>;
+  columns: number;
+}
+
+const rowSpanOf = (cell: HTMLTableCellElement) => Math.max(1, cell.rowSpan);
+
+// Spans of 1 are left implicit so the markup stays clean
+const setSpan = (cell: HTMLTableCellElement, attr: 'rowspan' | 'colspan', span: number) => {
+  if (span > 1) cell.setAttribute(attr, String(span));
+  else cell.removeAttribute(attr);
+};
+
+const buildGrid = (table: HTMLTableElement): Grid => {
+  const rows = Array.from(table.rows);
+  const slots: HTMLTableCellElement[][] = rows.map(() => []);
+  const origins = new Map<HTMLTableCellElement, { row: number; col: number }>();
+
+  rows.forEach((row, r) => {
+    let c = 0;
+    Array.from(row.cells).forEach(cell => {
+      while (slots[r][c]) c++;
+      origins.set(cell, { row: r, col: c });
+      for (let dr = 0; dr < rowSpanOf(cell) && r + dr < rows.length; dr++) {
+        for (let dc = 0; dc < cell.colSpan; dc++) slots[r + dr][c + dc] = cell;
+      }
+      c += cell.colSpan;
+    });
+  });
+
+  return { rows, slots, origins, columns: Math.max(1, ...slots.map(s => s.length)) };
+};
+
+export const newCell = (like?: HTMLTableCellElement) => {
+  const cell = document.createElement('td');
+  if (like) cell.style.cssText = like.style.cssText;
+  else cell.style.cssText = 'padding:2pt 4pt;vertical-align:top';
+  cell.innerHTML = '<br>';
+  return cell;
+};
+
+// Text or inline markup, which would run into the next line once the table between them is gone
+const isInlineRun = (node: Node | null) =>
+  !!node && (node.nodeType === Node.TEXT_NODE
+    ? !!node.textContent
+    : node instanceof HTMLElement && getComputedStyle(node).display.startsWith('inline'));
+
+const isLocked = (cell: HTMLElement) => cell.closest('[contenteditable]')?.getAttribute('contenteditable') === 'false';
+
+const isEmptyCell = (cell: HTMLElement) => (cell.textContent || '') === '' && !cell.querySelector('img, table, [data-field]');
+
+// ================= COLUMN WIDTHS =================
+
+// Percentages from the <colgroup>, or measured from the rendered cells when it is missing
+const columnWidths = (table: HTMLTableElement, grid: Grid): number[] => {
+  const cols = Array.from(table.querySelectorAll<HTMLTableColElement>(':scope > colgroup > col'));
+  let widths = cols.map(col => col.style.width.endsWith('%') ? parseFloat(col.style.width) : NaN);
+
+  if (widths.length !== grid.columns || widths.some(isNaN)) {
+    const total = table.getBoundingClientRect().width;
+    widths = Array.from({ length: grid.columns }, (_, c) => {
+      const cell = grid.slots.map(row => row[c]).find(cell => cell && cell.colSpan === 1);
+      return cell && total ? cell.getBoundingClientRect().width / total * 100 : NaN;
+    });
+    const known = widths.filter(w => !isNaN(w));
+    const rest = Math.max(0, 100 - known.reduce((a, b) => a + b, 0)) / Math.max(1, widths.length - known.length);
+    widths = widths.map(w => isNaN(w) ? rest : w);
+  }
+
+  const sum = widths.reduce((a, b) => a + b, 0) || 1;
+  return widths.map(w => w / sum * 100);
+};
+
+export const setColumnWidths = (table: HTMLTableElement, widths: number[]) => {
+  table.querySelectorAll(':scope > colgroup').forEach(el => el.remove());
+  const colgroup = document.createElement('colgroup');
+  widths.forEach(width => {
+    const col = document.createElement('col');
+    col.style.width = `${Math.round(width * 100) / 100}%`;
+    colgroup.appendChild(col);
+  });
+  table.insertBefore(colgroup, table.firstChild);
+};
+
+// ================= BORDERS =================
+
+const bordersOf = (table: HTMLTableElement) => (table.dataset.borders || 'all') as TableBorders;
+
+export const applyBorders = (table: HTMLTableElement) => {
+  const preset = bordersOf(table);
+  const line = `1px solid ${table.dataset.borderColor || DEFAULT_BORDER_COLOR}`;
+  table.style.border = preset === 'outer' ? line : '';
+  Array.from(table.rows).forEach(row => Array.from(row.cells).forEach(cell => {
+    cell.style.border = preset === 'all' ? line : '';
+    if (preset === 'horizontal') {
+      cell.style.borderTop = line;
+      cell.style.borderBottom = line;
+    }
+  }));
+};
+
+// ================= CREATING =================
+
+export const createTable = (rows: number, cols: number, width: string) => {
+  const table = document.createElement('table');
+  table.style.cssText = `width:${width};table-layout:fixed;border-collapse:collapse`;
+  table.dataset.borders = 'all';
+
+  const head = table.createTHead();
+  const body = table.createTBody();
+  for (let r = 0; r < rows; r++) {
+    // The first row starts out as a header row
+    const row = (r === 0 && rows > 1 ? head : body).insertRow();
+    for (let c = 0; c < cols; c++) {
+      const cell = newCell();
+      if (r === 0 && rows > 1) {
+        cell.style.fontWeight = 'bold';
+        cell.style.backgroundColor = HEADER_SHADING;
+      }
+      row.appendChild(cell);
+    }
+  }
+  if (!head.rows.length) head.remove();
+
+  setColumnWidths(table, Array.from({ length: cols }, () => 100 / cols));
+  applyBorders(table);
+  return table;
+};
+
+/** Width a new table takes in an editor: the body's full width, or a fixed one in text blocks */
+export const tableWidthFor = (host: HTMLElement) => host.hasAttribute('data-page-body') ? '100%' : TEXT_BLOCK_TABLE_WIDTH;
+
+/** Puts the table directly in the host, splitting the paragraph at the caret */
+export const placeTable = (range: Range, host: HTMLElement, table: HTMLTableElement) => {
+  range.deleteContents();
+
+  if (range.startContainer === host) {
+    host.insertBefore(table, host.childNodes[range.startOffset] || null);
+  } else {
+    let top: Node = range.startContainer;
+    while (top.parentNode !== host) top = top.parentNode!;
+
+    const after = document.createRange();
+    after.setStart(range.startContainer, range.startOffset);
+    after.setEndAfter(top);
+    const fragment = after.extractContents();
+
+    host.insertBefore(table, top.nextSibling);
+    host.insertBefore(fragment, table.nextSibling);
+    if ((top.textContent || '') === '' && !(top instanceof Element && top.querySelector('img, table'))) top.parentNode?.removeChild(top);
+  }
+
+  // Somewhere to type after the table. The table already ends the line, so a
+  // line break left straight after it would show as an empty line.
+  let next = table.nextSibling;
+  while (next && next.nodeType === Node.TEXT_NODE && !next.textContent) {
+    next.parentNode!.removeChild(next);
+    next = table.nextSibling;
+  }
+  if (next instanceof HTMLBRElement && next.nextSibling) {
+    next.remove();
+    next = table.nextSibling;
+  }
+  if (!next) {
+    const line = document.createElement('div');
+    line.innerHTML = '<br>';
+    table.after(line);
+  } else if (next instanceof HTMLElement && !next.textContent && !next.querySelector('img, br, table')) {
+    next.innerHTML = '<br>';
+  }
+};
+
+const insertTable = (range: Range, host: HTMLElement, rows: number, cols: number) => {
+  const table = createTable(rows, cols, tableWidthFor(host));
+  placeTable(range, host, table);
+  return table.rows[0].cells[0];
+};
+
+// ================= ROWS AND COLUMNS =================
+
+const insertRow = (table: HTMLTableElement, cell: HTMLTableCellElement, below: boolean) => {
+  const grid = buildGrid(table);
+  const origin = grid.origins.get(cell)!;
+  const r = below ? Math.min(origin.row + rowSpanOf(cell), grid.rows.length) - 1 : origin.row;
+  const row = document.createElement('tr');
+  const seen = new Set<HTMLTableCellElement>();
+  let target: HTMLTableCellElement | null = null;
+
+  for (let c = 0; c < grid.columns; c++) {
+    const slot = grid.slots[r][c];
+    if (!slot) {
+      row.appendChild(newCell());
+      continue;
+    }
+    if (seen.has(slot)) continue;
+    seen.add(slot);
+
+    // Cells reaching across the new row grow instead
+    const at = grid.origins.get(slot)!;
+    if (below ? at.row + rowSpanOf(slot) - 1 > r : at.row < r) {
+      setSpan(slot, 'rowspan', rowSpanOf(slot) + 1);
+      continue;
+    }
+    const added = newCell(slot);
+    setSpan(added, 'colspan', slot.colSpan);
+    row.appendChild(added);
+    if (slot === cell) target = added;
+  }
+
+  if (below) grid.rows[r].after(row);
+  else grid.rows[r].before(row);
+  return target || row.cells[0] || cell;
+};
+
+const insertColumn = (table: HTMLTableElement, cell: HTMLTableCellElement, right: boolean) => {
+  const grid = buildGrid(table);
+  const widths = columnWidths(table, grid);
+  const origin = grid.origins.get(cell)!;
+  const c = right ? origin.col + cell.colSpan - 1 : origin.col;
+  const seen = new Set<HTMLTableCellElement>();
+  let target: HTMLTableCellElement | null = null;
+
+  grid.rows.forEach((row, r) => {
+    const slot = grid.slots[r][c];
+    if (!slot) {
+      row.appendChild(newCell());
+      return;
+    }
+    if (seen.has(slot)) return;
+    seen.add(slot);
+
+    const at = grid.origins.get(slot)!;
+    if (right ? at.col + slot.colSpan - 1 > c : at.col < c) {
+      setSpan(slot, 'colspan', slot.colSpan + 1);
+      return;
+    }
+    const added = newCell(slot);
+    setSpan(added, 'rowspan', rowSpanOf(slot));
+    if (right) slot.after(added);
+    else slot.before(added);
+    if (slot === cell) target = added;
+  });
+
+  // The new column takes half the width of the one it was added next to
+  const half = widths[c] / 2;
+  widths[c] = half;
+  widths.splice(right ? c + 1 : c, 0, half);
+  setColumnWidths(table, widths);
+  return target || cell;
+};
+
+// Rows of a fixed-layout table are copies of their neighbour, with the cells emptied
+const copyRow = (row: HTMLTableRowElement, below: boolean) => {
+  const copy = row.cloneNode(true) as HTMLTableRowElement;
+  Array.from(copy.cells).forEach(cell => {
+    if (isLocked(cell)) cell.textContent = '';
+    else cell.innerHTML = '<br>';
+  });
+  if (below) row.after(copy);
+  else row.before(copy);
+  return firstEditable(copy) || copy.cells[0];
+};
+
+const firstEditable = (row: HTMLTableRowElement | null | undefined) =>
+  row ? Array.from(row.cells).find(cell => !isLocked(cell)) || null : null;
+
+const cellAt = (grid: Grid, row: number, col: number) =>
+  grid.slots[Math.min(row, grid.rows.length - 1)]?.[col] || grid.rows[Math.min(row, grid.rows.length - 1)]?.cells[0] || null;
+
+const removeEmptySections = (table: HTMLTableElement) => {
+  Array.from(table.children).forEach(section => {
+    if (/^T(HEAD|BODY|FOOT)$/.test(section.tagName) && !(section as HTMLTableSectionElement).rows.length) section.remove();
+  });
+};
+
+const deleteRow = (table: HTMLTableElement, cell: HTMLTableCellElement) => {
+  const grid = buildGrid(table);
+  const origin = grid.origins.get(cell)!;
+  const r = origin.row;
+  const seen = new Set<HTMLTableCellElement>();
+
+  for (let c = 0; c < grid.columns; c++) {
+    const slot = grid.slots[r][c];
+    if (!slot || seen.has(slot) || rowSpanOf(slot) === 1) continue;
+    seen.add(slot);
+    const at = grid.origins.get(slot)!;
+    setSpan(slot, 'rowspan', rowSpanOf(slot) - 1);
+    // A tall cell starting in this row moves down into the next one; one running past
+    // the last row, as pasted tables can have, goes with the row
+    const next = grid.rows[r + 1];
+    if (at.row === r && next) {
+      const before = Array.from(next.cells).find(n => (grid.origins.get(n)?.col ?? 0) > at.col) || null;
+      next.insertBefore(slot, before);
+    }
+  }
+
+  grid.rows[r].remove();
+  removeEmptySections(table);
+  if (!table.rows.length) return null;
+  return cellAt(buildGrid(table), r, origin.col);
+};
+
+const deleteColumn = (table: HTMLTableElement, cell: HTMLTableCellElement) => {
+  const grid = buildGrid(table);
+  const widths = columnWidths(table, grid);
+  const c = grid.origins.get(cell)!.col;
+  const seen = new Set<HTMLTableCellElement>();
+
+  grid.rows.forEach((_, r) => {
+    const slot = grid.slots[r][c];
+    if (!slot || seen.has(slot)) return;
+    seen.add(slot);
+    if (slot.colSpan > 1) setSpan(slot, 'colspan', slot.colSpan - 1);
+    else slot.remove();
+  });
+
+  if (!table.querySelector('td, th')) return null;
+  widths.splice(c, 1);
+  setColumnWidths(table, widths);
+  return cellAt(buildGrid(table), grid.origins.get(cell)!.row, Math.max(0, c - 1));
+};
+
+// ================= MERGING =================
+
+// Cells touched by the selection, in the table holding its start
+const selectedCells = (range: Range, table: HTMLTableElement) =>
+  Array.from(table.rows).flatMap(row => Array.from(row.cells)).filter(cell => range.intersectsNode(cell));
+
+// Smallest rectangle around the cells that no spanning cell sticks out of
+const mergeArea = (grid: Grid, cells: HTMLTableCellElement[]) => {
+  let top = Infinity, left = Infinity, bottom = -1, right = -1;
+  const include = (cell: HTMLTableCellElement) => {
+    const at = grid.origins.get(cell)!;
+    const before = [top, left, bottom, right].join();
+    top = Math.min(top, at.row);
+    left = Math.min(left, at.col);
+    bottom = Math.max(bottom, at.row + rowSpanOf(cell) - 1);
+    right = Math.max(right, at.col + cell.colSpan - 1);
+    return before !== [top, left, bottom, right].join();
+  };
+  cells.forEach(include);
+
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (let r = top; r <= bottom; r++) {
+      for (let c = left; c <= right; c++) {
+        const slot = grid.slots[r]?.[c];
+        if (slot && include(slot)) grown = true;
+      }
+    }
+  }
+  return { top, left, bottom, right };
+};
+
+const mergeCells = (table: HTMLTableElement, cells: HTMLTableCellElement[]) => {
+  const grid = buildGrid(table);
+  const { top, left, bottom, right } = mergeArea(grid, cells);
+  const area: HTMLTableCellElement[] = [];
+  for (let r = top; r <= bottom; r++) {
+    for (let c = left; c <= right; c++) {
+      const slot = grid.slots[r]?.[c];
+      if (slot && !area.includes(slot)) area.push(slot);
+    }
+  }
+  if (area.length < 2) return null;
+
+  // Contents are kept, one cell per line
+  const [first, ...rest] = area;
+  rest.forEach(cell => {
+    if (!isEmptyCell(cell)) {
+      if (isEmptyCell(first)) first.innerHTML = '';
+      else first.appendChild(document.createElement('br'));
+      while (cell.firstChild) first.appendChild(cell.firstChild);
+    }
+    cell.remove();
+  });
+  setSpan(first, 'rowspan', bottom - top + 1);
+  setSpan(first, 'colspan', right - left + 1);
+  return first;
+};
+
+const splitCell = (table: HTMLTableElement, cell: HTMLTableCellElement) => {
+  const grid = buildGrid(table);
+  const origin = grid.origins.get(cell)!;
+  const rows = rowSpanOf(cell);
+  const cols = cell.colSpan;
+  if (rows === 1 && cols === 1) return null;
+
+  for (let dr = 0; dr < rows; dr++) {
+    const row = grid.rows[origin.row + dr];
+    if (!row) break;
+    const before = Array.from(row.cells).find(n => n !== cell && (grid.origins.get(n)?.col ?? 0) > origin.col) || null;
+    for (let dc = dr === 0 ? 1 : 0; dc < cols; dc++) row.insertBefore(newCell(cell), before);
+  }
+  setSpan(cell, 'rowspan', 1);
+  setSpan(cell, 'colspan', 1);
+  return cell;
+};
+
+// ================= HEADER ROWS =================
+
+// Header rows are always the top rows: marking a row marks every row above it too,
+// and unmarking one unmarks the rows below it
+const toggleHeaderRow = (table: HTMLTableElement, cell: HTMLTableCellElement) => {
+  const row = cell.parentElement as HTMLTableRowElement;
+  const head = table.tHead;
+
+  if (head && row.parentElement === head) {
+    const headRows = Array.from(head.rows);
+    const body = table.tBodies[0] || table.createTBody();
+    headRows.slice(headRows.indexOf(row)).reverse().forEach(r => body.insertBefore(r, body.firstChild));
+  } else {
+    const bodyRows = Array.from(table.tBodies).flatMap(tbody => Array.from(tbody.rows));
+    const target = table.tHead || table.createTHead();
+    bodyRows.slice(0, bodyRows.indexOf(row) + 1).forEach(r => target.appendChild(r));
+  }
+  removeEmptySections(table);
+  return cell;
+};
+
+// ================= SELECTION =================
+
+const cellFor = (node: Node, host: HTMLElement) => {
+  const el = node instanceof Element ? node : node.parentElement;
+  const cell = el?.closest<HTMLTableCellElement>('td, th');
+  return cell && host.contains(cell) ? cell : null;
+};
+
+const placeCaretIn = (cell: HTMLElement, atEnd = false) => {
+  const range = document.createRange();
+  range.selectNodeContents(cell);
+  range.collapse(!atEnd);
+  selectRange(range);
+};
+
+// Tab / Shift+Tab; Tab in the last cell adds a row. Returns whether the table changed.
+const moveToCell = (table: HTMLTableElement, cell: HTMLTableCellElement, forward: boolean) => {
+  const cells = Array.from(table.rows).flatMap(row => Array.from(row.cells)).filter(n => n === cell || !isLocked(n));
+  const target = cells[cells.indexOf(cell) + (forward ? 1 : -1)];
+  if (target) {
+    placeCaretIn(target, !forward);
+    return false;
+  }
+  if (!forward || table.hasAttribute(FIXED_LAYOUT_ATTR)) return false;
+  placeCaretIn(insertRow(table, cell, true));
+  applyBorders(table);
+  return true;
+};
+
+/** Whether the caret is in a table cell the Tab key should move out of */
+export const isInTableCell = () => {
+  const selection = window.getSelection();
+  const host = selection && selection.rangeCount ? getEditingHost(selection.anchorNode) : null;
+  return !!host && !!cellFor(selection!.anchorNode!, host);
+};
+
+/**
+ * Runs a table command at the selection in the letter.
+ * Returns the edited host, or null when nothing changed.
+ */
+export const applyTableCommand = (command: TableCommand): HTMLElement | null => {
+  const range = getEditorRange();
+  const host = range && getEditingHost(range.startContainer);
+  if (!range || !host || !host.classList.contains(RICH_TEXT_CLASS)) return null;
+  host.focus({ preventScroll: true });
+
+  if (command.type === 'insert') {
+    placeCaretIn(insertTable(range, host, command.rows, command.cols));
+    return host;
+  }
+
+  const cell = cellFor(range.startContainer, host);
+  const part = cell?.closest('table');
+  if (!cell || !part) return null;
+  // A table continued on the next page is edited as a whole
+  const table = joinFlow(part, host) as HTMLTableElement;
+
+  const row = cell.parentElement as HTMLTableRowElement;
+  const fixed = table.hasAttribute(FIXED_LAYOUT_ATTR);
+  if (fixed && LAYOUT_COMMANDS.has(command.type)) return null;
+
+  let caret: HTMLTableCellElement | null = cell;
+  switch (command.type) {
+    case 'nextCell':
+    case 'previousCell':
+      return moveToCell(table, cell, command.type === 'nextCell') ? host : null;
+    case 'rowAbove':
+    case 'rowBelow':
+      if (!fixed) caret = insertRow(table, cell, command.type === 'rowBelow');
+      else if (!row.hasAttribute(FIXED_ROW_ATTR)) caret = copyRow(row, command.type === 'rowBelow');
+      else return null;
+      break;
+    case 'columnLeft':
+    case 'columnRight':
+      caret = insertColumn(table, cell, command.type === 'columnRight');
+      break;
+    case 'deleteRow':
+      // A fixed-layout table keeps one row to add the others from
+      if (fixed && !row.hasAttribute(FIXED_ROW_ATTR) && !Array.from(table.rows).some(r => r !== row && r.parentElement?.tagName === 'TBODY' && !r.hasAttribute(FIXED_ROW_ATTR))) return null;
+      caret = deleteRow(table, cell);
+      if (caret && isLocked(caret)) caret = firstEditable(caret.parentElement as HTMLTableRowElement) || caret;
+      break;
+    case 'deleteColumn':
+      caret = deleteColumn(table, cell);
+      break;
+    case 'deleteTable':
+      caret = null;
+      break;
+    case 'mergeCells':
+      caret = mergeCells(table, selectedCells(range, table));
+      if (!caret) return null;
+      break;
+    case 'splitCell':
+      if (!splitCell(table, cell)) return null;
+      break;
+    case 'toggleHeaderRow':
+      toggleHeaderRow(table, cell);
+      break;
+    case 'borders':
+      table.dataset.borders = command.value;
+      break;
+    case 'borderColor':
+      table.dataset.borderColor = command.value;
+      break;
+    case 'shading':
+      selectedCells(range, table).forEach(c => c.style.backgroundColor = command.value);
+      break;
+    case 'columnWidth': {
+      const grid = buildGrid(table);
+      const widths = columnWidths(table, grid);
+      const c = grid.origins.get(cell)!.col;
+      const value = Math.min(100 - MIN_COLUMN_WIDTH * (widths.length - 1), Math.max(MIN_COLUMN_WIDTH, command.value));
+      const others = widths.reduce((sum, w, i) => i === c ? sum : sum + w, 0) || 1;
+      setColumnWidths(table, widths.map((w, i) => i === c ? value : w / others * (100 - value)));
+      break;
+    }
+  }
+
+  if (!caret) {
+    // Table gone: continue in the line after it, keeping the text around it on separate lines
+    const next = table.nextSibling;
+    if (isInlineRun(table.previousSibling) && isInlineRun(next)) table.before(document.createElement('br'));
+    table.remove();
+    if (next) placeCaretIn(next as HTMLElement);
+    return host;
+  }
+
+  applyBorders(table);
+  if (['shading', 'borders', 'borderColor', 'columnWidth'].includes(command.type)) selectRange(range);
+  else placeCaretIn(caret);
+  return host;
+};
+
+/** The table at the selection, or null when the selection is not in one. */
+export const getTableState = (): TableState | null => {
+  const selection = window.getSelection();
+  if (!selection || !selection.rangeCount) return null;
+  const range = selection.getRangeAt(0);
+  const host = getEditingHost(range.startContainer);
+  const cell = host && host.classList.contains(RICH_TEXT_CLASS) ? cellFor(range.startContainer, host) : null;
+  const table = cell?.closest('table');
+  if (!cell || !table) return null;
+
+  const grid = buildGrid(table);
+  const widths = columnWidths(table, grid);
+  const fixed = table.hasAttribute(FIXED_LAYOUT_ATTR);
+  return {
+    isHeaderRow: cell.parentElement?.parentElement === table.tHead,
+    borders: bordersOf(table),
+    borderColor: table.dataset.borderColor || DEFAULT_BORDER_COLOR,
+    shading: toHex(cell.style.backgroundColor),
+    columnWidth: Math.round(widths[grid.origins.get(cell)!.col] || 0),
+    canMerge: !fixed && selectedCells(range, table).length > 1,
+    canSplit: !fixed && (rowSpanOf(cell) > 1 || cell.colSpan > 1),
+    fixedLayout: fixed,
+    canInsertRow: !fixed || !cell.parentElement!.hasAttribute(FIXED_ROW_ATTR),
+  };
+};
@@ -0,0 +1,59 @@
+import { Watermark } from '../types';
+
+// Watermarks are drawn on every page behind the body (see TajmirTemplate) and can
+// be left out of a single export without changing the letter.
+
+/** Marks a page's watermark layer, which exports can skip */
+export const WATERMARK_ATTR = 'data-watermark';
+
+/** Marks each rotated watermark text, which the vector PDF draws as one rotated line */
+export const WATERMARK_TEXT_ATTR = 'data-watermark-text';
+
+export const WATERMARK_PRESETS = ['DRAFT', 'CONFIDENTIAL', 'COPY'];
+
+export const DEFAULT_WATERMARK: Watermark = {
+  enabled: false,
+  kind: 'text',
+  text: 'DRAFT',
+  color: '#9ca3af',
+  opacity: 25,
+  rotation: -45,
+  fontSize: 96,
+  logoWidth: 60,
+  tile: false,
+};
+
+export const MIN_WATERMARK_OPACITY = 5;
+
+/** Watermark from a saved letter, with anything missing or out of range replaced */
+export const normalizeWatermark = (value: Partial<Watermark> | null | undefined): Watermark => {
+  const w = { ...DEFAULT_WATERMARK, ...value };
+  return {
+    enabled: !!w.enabled,
+    kind: w.kind === 'logo' ? 'logo' : 'text',
+    text: typeof w.text === 'string' ? w.text : DEFAULT_WATERMARK.text,
+    color: typeof w.color === 'string' ? w.color : DEFAULT_WATERMARK.color,
+    opacity: Math.min(100, Math.max(MIN_WATERMARK_OPACITY, Number(w.opacity) || DEFAULT_WATERMARK.opacity)),
+    rotation: Math.min(90, Math.max(-90, Number(w.rotation) || 0)),
+    fontSize: Math.min(300, Math.max(12, Number(w.fontSize) || DEFAULT_WATERMARK.fontSize)),
+    logoWidth: Math.min(100, Math.max(10, Number(w.logoWidth) || DEFAULT_WATERMARK.logoWidth)),
+    tile: !!w.tile,
+  };
+};
+
+/**
+ * Centres of the marks on a page of `width` × `height` px: the middle, or a grid
+ * with rows offset like brickwork, spaced `step` px apart.
+ */
+export const watermarkPositions = (width: number, height: number, tile: boolean, step: number) => {
+  if (!tile) return [{ x: width / 2, y: height / 2 }];
+  const positions: { x: number; y: number }[] = [];
+  const rows = Math.ceil(height / step) + 1;
+  const cols = Math.ceil(width / step) + 1;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      positions.push({ x: (col + (row % 2 ? 0.5 : 0)) * step, y: row * step + step / 4 });
+    }
+  }
+  return positions;
+};